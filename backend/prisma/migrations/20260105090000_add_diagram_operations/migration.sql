@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "diagrams" ADD COLUMN "opSeq" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "diagram_operations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "diagramId" TEXT NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "moduleId" TEXT,
+    "payload" JSONB,
+    "userId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "diagram_operations_diagramId_fkey" FOREIGN KEY ("diagramId") REFERENCES "diagrams" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "diagram_operations_diagramId_idx" ON "diagram_operations"("diagramId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "diagram_operations_diagramId_seq_key" ON "diagram_operations"("diagramId", "seq");
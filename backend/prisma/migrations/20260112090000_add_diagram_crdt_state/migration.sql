@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "diagrams" ADD COLUMN "crdtState" BLOB;
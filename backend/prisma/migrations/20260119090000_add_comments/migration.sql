@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "comments" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "diagramId" TEXT NOT NULL,
+    "nodeId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "authorId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "resolvedAt" DATETIME,
+    "resolvedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "comments_diagramId_fkey" FOREIGN KEY ("diagramId") REFERENCES "diagrams" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "comments_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "comments" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "comments_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "comments_resolvedBy_fkey" FOREIGN KEY ("resolvedBy") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "comments_diagramId_nodeId_idx" ON "comments"("diagramId", "nodeId");
+
+-- CreateIndex
+CREATE INDEX "comments_parentId_idx" ON "comments"("parentId");
+
+-- Migrate node comments embedded in diagram data (Node.comments) into the new table
+INSERT OR IGNORE INTO "comments" ("id", "diagramId", "nodeId", "authorId", "body", "createdAt", "updatedAt")
+SELECT
+    json_extract(c.value, '$.id'),
+    d."id",
+    json_extract(n.value, '$.id'),
+    json_extract(c.value, '$.authorId'),
+    json_extract(c.value, '$.content'),
+    COALESCE(CAST(ROUND((julianday(json_extract(c.value, '$.createdAt')) - 2440587.5) * 86400000) AS INTEGER), CAST(ROUND((julianday('now') - 2440587.5) * 86400000) AS INTEGER)),
+    COALESCE(CAST(ROUND((julianday(json_extract(c.value, '$.updatedAt')) - 2440587.5) * 86400000) AS INTEGER), CAST(ROUND((julianday('now') - 2440587.5) * 86400000) AS INTEGER))
+FROM "diagrams" d,
+    json_each(d."data", '$.modules') m,
+    json_each(m.value, '$.nodes') n,
+    json_each(n.value, '$.comments') c
+WHERE json_valid(d."data")
+    AND json_extract(c.value, '$.id') IS NOT NULL
+    AND json_extract(c.value, '$.content') IS NOT NULL
+    AND json_extract(c.value, '$.authorId') IN (SELECT "id" FROM "users");
+
+-- Legacy diagram data without modules (nodes at the top level)
+INSERT OR IGNORE INTO "comments" ("id", "diagramId", "nodeId", "authorId", "body", "createdAt", "updatedAt")
+SELECT
+    json_extract(c.value, '$.id'),
+    d."id",
+    json_extract(n.value, '$.id'),
+    json_extract(c.value, '$.authorId'),
+    json_extract(c.value, '$.content'),
+    COALESCE(CAST(ROUND((julianday(json_extract(c.value, '$.createdAt')) - 2440587.5) * 86400000) AS INTEGER), CAST(ROUND((julianday('now') - 2440587.5) * 86400000) AS INTEGER)),
+    COALESCE(CAST(ROUND((julianday(json_extract(c.value, '$.updatedAt')) - 2440587.5) * 86400000) AS INTEGER), CAST(ROUND((julianday('now') - 2440587.5) * 86400000) AS INTEGER))
+FROM "diagrams" d,
+    json_each(d."data", '$.nodes') n,
+    json_each(n.value, '$.comments') c
+WHERE json_valid(d."data")
+    AND json_extract(d."data", '$.modules') IS NULL
+    AND json_extract(c.value, '$.id') IS NOT NULL
+    AND json_extract(c.value, '$.content') IS NOT NULL
+    AND json_extract(c.value, '$.authorId') IN (SELECT "id" FROM "users");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "activity_logs_projectId_createdAt_idx" ON "activity_logs"("projectId", "createdAt");
@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "diagrams" ADD COLUMN "currentBranchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "diagram_branches" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "diagramId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "baseVersionId" TEXT,
+    "createdBy" TEXT,
+    "mergedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "diagram_branches_diagramId_fkey" FOREIGN KEY ("diagramId") REFERENCES "diagrams" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "diagram_branches_baseVersionId_fkey" FOREIGN KEY ("baseVersionId") REFERENCES "diagram_versions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "diagram_branches_diagramId_name_key" ON "diagram_branches"("diagramId", "name");
+
+-- RedefineTables
+PRAGMA foreign_keys=OFF;
+
+CREATE TABLE "new_diagram_versions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "diagramId" TEXT NOT NULL,
+    "versionNumber" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "commitMessage" TEXT,
+    "createdBy" TEXT,
+    "branchId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "diagram_versions_diagramId_fkey" FOREIGN KEY ("diagramId") REFERENCES "diagrams" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "diagram_versions_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "diagram_branches" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+INSERT INTO "new_diagram_versions" ("id", "diagramId", "versionNumber", "title", "data", "commitMessage", "createdBy", "createdAt")
+SELECT "id", "diagramId", "versionNumber", "title", "data", "commitMessage", "createdBy", "createdAt" FROM "diagram_versions";
+
+DROP TABLE "diagram_versions";
+
+ALTER TABLE "new_diagram_versions" RENAME TO "diagram_versions";
+
+CREATE INDEX "diagram_versions_diagramId_idx" ON "diagram_versions"("diagramId");
+CREATE INDEX "diagram_versions_branchId_idx" ON "diagram_versions"("branchId");
+CREATE UNIQUE INDEX "diagram_versions_diagramId_versionNumber_key" ON "diagram_versions"("diagramId", "versionNumber");
+
+PRAGMA foreign_keys=ON;
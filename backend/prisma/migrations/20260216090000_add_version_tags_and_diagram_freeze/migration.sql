@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "diagrams" ADD COLUMN "frozenAt" DATETIME;
+ALTER TABLE "diagrams" ADD COLUMN "frozenBy" TEXT;
+ALTER TABLE "diagrams" ADD COLUMN "frozenReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "diagram_version_tags" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "diagramId" TEXT NOT NULL,
+    "versionId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "diagram_version_tags_diagramId_fkey" FOREIGN KEY ("diagramId") REFERENCES "diagrams" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "diagram_version_tags_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "diagram_versions" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "diagram_version_tags_versionId_idx" ON "diagram_version_tags"("versionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "diagram_version_tags_diagramId_name_key" ON "diagram_version_tags"("diagramId", "name");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN "snapshotKeepLast" INTEGER NOT NULL DEFAULT 10;
+ALTER TABLE "projects" ADD COLUMN "snapshotKeepDailyDays" INTEGER NOT NULL DEFAULT 7;
+ALTER TABLE "projects" ADD COLUMN "snapshotKeepWeeklyWeeks" INTEGER NOT NULL DEFAULT 4;
+
+-- AlterTable
+ALTER TABLE "diagrams" ADD COLUMN "lastSnapshotAt" DATETIME;
+ALTER TABLE "diagrams" ADD COLUMN "updatesSinceSnapshot" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "diagrams" ADD COLUMN "snapshotVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "diagram_versions" ADD COLUMN "isAuto" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "diagram_versions_diagramId_isAuto_idx" ON "diagram_versions"("diagramId", "isAuto");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN "commitValidationGate" TEXT NOT NULL DEFAULT 'off';
+ALTER TABLE "projects" ADD COLUMN "surveyValidationGate" TEXT NOT NULL DEFAULT 'off';
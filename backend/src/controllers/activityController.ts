@@ -0,0 +1,114 @@
+import { Response } from 'express';
+import { prisma } from '../db/prisma';
+import type { AuthRequest } from '../middleware/auth';
+import { buildUserName } from '../utils/userName';
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 100;
+
+interface ActivityRecord {
+  id: string;
+  projectId: string;
+  userId: string | null;
+  action: string;
+  data: unknown;
+  createdAt: Date;
+  user: { id: string; email: string; firstName: string | null; lastName: string | null } | null;
+}
+
+const toActivityResponse = (activity: ActivityRecord) => ({
+  id: activity.id,
+  action: activity.action,
+  userId: activity.userId,
+  userName: activity.user ? buildUserName(activity.user) : null,
+  data: activity.data ?? {},
+  createdAt: activity.createdAt,
+});
+
+// 日付のクエリを解釈する（未指定は undefined、不正な値は null）
+const parseDate = (value: unknown): Date | undefined | null => {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// 日付だけの値（YYYY-MM-DD）は UTC のその日の 0 時として解釈される
+const isDateOnly = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/**
+ * プロジェクトのアクティビティを取得（新しい順、カーソルページング）
+ * GET /api/projects/:projectId/activity?userId=&action=a,b&from=&to=&cursor=&limit=
+ */
+export const getProjectActivity = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId } = req.params;
+    const { userId, action, cursor } = req.query;
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+      res.status(400).json({ error: '日付の形式が正しくありません' });
+      return;
+    }
+
+    const requestedLimit = Number(req.query.limit);
+    const limit =
+      Number.isInteger(requestedLimit) && requestedLimit > 0 ? Math.min(requestedLimit, MAX_LIMIT) : DEFAULT_LIMIT;
+
+    const actions =
+      typeof action === 'string'
+        ? action
+            .split(',')
+            .map((item) => item.trim())
+            .filter(Boolean)
+        : [];
+
+    const where = {
+      projectId,
+      ...(typeof userId === 'string' && userId && { userId }),
+      ...(actions.length > 0 && { action: { in: actions } }),
+      ...((from || to) && {
+        createdAt: {
+          ...(from && { gte: from }),
+          // 日付だけの to はその日の終わりまでを含める（翌日の 0 時より前）
+          ...(to &&
+            (isDateOnly(req.query.to)
+              ? { lt: new Date(to.getTime() + 24 * 60 * 60 * 1000) }
+              : { lte: to })),
+        },
+      }),
+    };
+
+    if (typeof cursor === 'string' && cursor) {
+      const cursorActivity = await prisma.activityLog.findUnique({
+        where: { id: cursor },
+        select: { projectId: true },
+      });
+      if (!cursorActivity || cursorActivity.projectId !== projectId) {
+        res.status(400).json({ error: 'カーソルが正しくありません' });
+        return;
+      }
+    }
+
+    // 1件多く取得して次のページの有無を判定する
+    const activities: ActivityRecord[] = await prisma.activityLog.findMany({
+      where,
+      include: { user: { select: { id: true, email: true, firstName: true, lastName: true } } },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(typeof cursor === 'string' && cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const hasMore = activities.length > limit;
+    const page = hasMore ? activities.slice(0, limit) : activities;
+
+    res.json({
+      activities: page.map(toActivityResponse),
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error('Get project activity error:', error);
+    res.status(500).json({ error: 'アクティビティの取得に失敗しました' });
+  }
+};
@@ -0,0 +1,519 @@
+import { Response } from 'express';
+import { prisma } from '../db/prisma';
+import type { AuthRequest } from '../middleware/auth';
+import { replaceDiagramData } from '../services/diagramOperations';
+import {
+  MAIN_BRANCH_ID,
+  createBranch,
+  getBranchHeadData,
+  parseBranchName,
+  toBranchKey,
+  toDbBranchId,
+} from '../services/diagramBranches';
+import { mergeDiagramData, type MergeResolution } from '../services/diagramMerge';
+import { emitCrdtUpdate } from '../websocket/emitter';
+
+const BRANCH_DESCRIPTION_MAX_LENGTH = 500;
+
+interface BranchRecord {
+  id: string;
+  diagramId: string;
+  name: string;
+  description: string | null;
+  baseVersionId: string | null;
+  createdBy: string | null;
+  mergedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  baseVersion: { versionNumber: number } | null;
+}
+
+interface VersionSummary {
+  id: string;
+  versionNumber: number;
+  branchId: string | null;
+}
+
+// URL のダイアグラムがプロジェクトに属しているか確認して取得する
+const findDiagram = async (projectId: string, diagramId: string) => {
+  const diagram = await prisma.diagram.findUnique({ where: { id: diagramId } });
+  return diagram && diagram.projectId === projectId ? diagram : null;
+};
+
+// 'main' 以外はダイアグラムのブランチであることを確認する（見つからなければ undefined）
+const findBranch = async (diagramId: string, branchId: string) => {
+  if (branchId === MAIN_BRANCH_ID) return null;
+  const branch = await prisma.diagramBranch.findUnique({ where: { id: branchId } });
+  return branch && branch.diagramId === diagramId ? branch : undefined;
+};
+
+const parseResolutions = (value: unknown): Record<string, MergeResolution> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      (entry): entry is [string, MergeResolution] => entry[1] === 'ours' || entry[1] === 'theirs'
+    )
+  );
+};
+
+/**
+ * source ブランチを作業中のブランチに取り込むための3方向マージの入力
+ * 共通の祖先は、ブランチを取り込む場合はそのブランチの分岐元、main を取り込む場合は作業中のブランチの分岐元
+ */
+const loadMergeInputs = async (diagram: { id: string; data: unknown; currentBranchId: string | null }, source: any) => {
+  const sourceBranchId: string | null = source?.id ?? null;
+  const baseOwner = source ?? (await prisma.diagramBranch.findUnique({ where: { id: diagram.currentBranchId! } }));
+  const baseVersion = baseOwner?.baseVersionId
+    ? await prisma.diagramVersion.findUnique({ where: { id: baseOwner.baseVersionId } })
+    : null;
+  const theirs = await getBranchHeadData(diagram.id, sourceBranchId);
+
+  return {
+    base: baseVersion?.data ?? null,
+    ours: diagram.data,
+    theirs: theirs?.data ?? null,
+    theirsHead: theirs?.version ?? null,
+  };
+};
+
+/**
+ * ブランチ一覧を取得（先頭は main）
+ * GET /api/projects/:projectId/diagrams/:diagramId/branches
+ */
+export const getBranches = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, diagramId } = req.params;
+
+    const diagram = await findDiagram(projectId, diagramId);
+    if (!diagram) {
+      res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+      return;
+    }
+
+    const [branches, versions]: [BranchRecord[], VersionSummary[]] = await Promise.all([
+      prisma.diagramBranch.findMany({
+        where: { diagramId },
+        include: { baseVersion: { select: { versionNumber: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.diagramVersion.findMany({
+        where: { diagramId },
+        select: { id: true, versionNumber: true, branchId: true },
+        orderBy: { versionNumber: 'desc' },
+      }),
+    ]);
+
+    // ブランチごとの最新バージョンとコミット数
+    const heads = new Map<string, { versionId: string; versionNumber: number; count: number }>();
+    versions.forEach((version) => {
+      const key = toBranchKey(version.branchId);
+      const head = heads.get(key);
+      if (head) {
+        head.count++;
+      } else {
+        heads.set(key, { versionId: version.id, versionNumber: version.versionNumber, count: 1 });
+      }
+    });
+
+    const toHeadResponse = (key: string) => ({
+      headVersionId: heads.get(key)?.versionId ?? null,
+      headVersionNumber: heads.get(key)?.versionNumber ?? null,
+      versionCount: heads.get(key)?.count ?? 0,
+    });
+
+    res.json({
+      currentBranchId: toBranchKey(diagram.currentBranchId),
+      branches: [
+        {
+          id: MAIN_BRANCH_ID,
+          name: MAIN_BRANCH_ID,
+          description: null,
+          baseVersionId: null,
+          baseVersionNumber: null,
+          createdBy: null,
+          mergedAt: null,
+          createdAt: diagram.createdAt,
+          ...toHeadResponse(MAIN_BRANCH_ID),
+        },
+        ...branches.map((branch) => ({
+          id: branch.id,
+          name: branch.name,
+          description: branch.description,
+          baseVersionId: branch.baseVersionId,
+          baseVersionNumber: branch.baseVersion?.versionNumber ?? null,
+          createdBy: branch.createdBy,
+          mergedAt: branch.mergedAt,
+          createdAt: branch.createdAt,
+          ...toHeadResponse(branch.id),
+        })),
+      ],
+    });
+  } catch (error) {
+    console.error('Get branches error:', error);
+    res.status(500).json({ error: 'ブランチ一覧の取得に失敗しました' });
+  }
+};
+
+/**
+ * ブランチを作成（fromVersionId を省略すると作業中のブランチの最新バージョンから分岐）
+ * POST /api/projects/:projectId/diagrams/:diagramId/branches
+ */
+export const createDiagramBranch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, diagramId } = req.params;
+    const { fromVersionId } = req.body;
+    const userId = req.user!.id;
+
+    const name = parseBranchName(req.body.name);
+    if (!name) {
+      res.status(400).json({ error: 'ブランチ名が正しくありません' });
+      return;
+    }
+
+    const description =
+      typeof req.body.description === 'string' ? req.body.description.trim().slice(0, BRANCH_DESCRIPTION_MAX_LENGTH) : null;
+
+    const diagram = await findDiagram(projectId, diagramId);
+    if (!diagram) {
+      res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+      return;
+    }
+
+    if (fromVersionId !== undefined) {
+      const version =
+        typeof fromVersionId === 'string'
+          ? await prisma.diagramVersion.findUnique({ where: { id: fromVersionId } })
+          : null;
+      if (!version || version.diagramId !== diagramId) {
+        res.status(404).json({ error: 'バージョンが見つかりません' });
+        return;
+      }
+    }
+
+    const branch = await createBranch({
+      diagramId,
+      name,
+      description: description || null,
+      baseVersionId: typeof fromVersionId === 'string' ? fromVersionId : undefined,
+      fromBranchId: diagram.currentBranchId,
+      userId,
+    });
+
+    if (!branch) {
+      res.status(409).json({ error: '同じ名前のブランチが既にあります' });
+      return;
+    }
+
+    await prisma.activityLog.create({
+      data: {
+        projectId,
+        userId,
+        action: 'create_branch',
+        data: { diagramId, diagramTitle: diagram.title, branchId: branch.id, branchName: branch.name },
+      },
+    });
+
+    res.status(201).json(branch);
+  } catch (error) {
+    console.error('Create branch error:', error);
+    res.status(500).json({ error: 'ブランチの作成に失敗しました' });
+  }
+};
+
+/**
+ * ブランチに切り替える（作業中のダイアグラムをブランチの最新の内容に置き換える）
+ * 作業中のブランチに未コミットの変更がある場合は、discardChanges: true を指定しない限り 409 を返す
+ * POST /api/projects/:projectId/diagrams/:diagramId/branches/:branchId/checkout
+ */
+export const checkoutBranch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, diagramId, branchId } = req.params;
+    const userId = req.user!.id;
+
+    const diagram = await findDiagram(projectId, diagramId);
+    if (!diagram) {
+      res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+      return;
+    }
+
+    const branch = await findBranch(diagramId, branchId);
+    if (branch === undefined) {
+      res.status(404).json({ error: 'ブランチが見つかりません' });
+      return;
+    }
+
+    if (diagram.frozenAt) {
+      res.status(423).json({ error: '凍結中のダイアグラムは編集できません' });
+      return;
+    }
+
+    // 作業中の内容が作業中のブランチの最新バージョンと異なる場合は、破棄の確認を求める
+    const currentHead = await getBranchHeadData(diagramId, diagram.currentBranchId);
+    const hasUncommittedChanges = !currentHead || JSON.stringify(currentHead.data) !== JSON.stringify(diagram.data);
+    if (hasUncommittedChanges && req.body?.discardChanges !== true) {
+      res.status(409).json({ error: '未コミットの変更があります', uncommittedChanges: true });
+      return;
+    }
+
+    const head = await getBranchHeadData(diagramId, toDbBranchId(branchId));
+
+    // 作業中のブランチは内容の置き換えと同じ更新で切り替える（コミットがない場合は作業中の内容をそのまま使う）
+    const result = await replaceDiagramData(diagramId, userId, {
+      ...(head && { title: head.version.title, data: head.data }),
+      currentBranchId: toDbBranchId(branchId),
+    });
+
+    if (result.frozen) {
+      res.status(423).json({ error: '凍結中のダイアグラムは編集できません' });
+      return;
+    }
+
+    const { diagram: updatedDiagram, update } = result;
+
+    // リアルタイム同期中のクライアントに差分を配信
+    if (update) {
+      emitCrdtUpdate(projectId, diagramId, update, updatedDiagram.opSeq, updatedDiagram.version);
+    }
+
+    res.json(updatedDiagram);
+  } catch (error) {
+    console.error('Checkout branch error:', error);
+    res.status(500).json({ error: 'ブランチの切り替えに失敗しました' });
+  }
+};
+
+/**
+ * ブランチを作業中のブランチにマージした結果のプレビュー（衝突の一覧）
+ * GET /api/projects/:projectId/diagrams/:diagramId/branches/:branchId/merge
+ */
+export const previewMerge = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, diagramId, branchId } = req.params;
+
+    const diagram = await findDiagram(projectId, diagramId);
+    if (!diagram) {
+      res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+      return;
+    }
+
+    const source = await findBranch(diagramId, branchId);
+    if (source === undefined) {
+      res.status(404).json({ error: 'ブランチが見つかりません' });
+      return;
+    }
+
+    if (toDbBranchId(branchId) === diagram.currentBranchId) {
+      res.status(400).json({ error: '作業中のブランチ自身はマージできません' });
+      return;
+    }
+
+    const inputs = await loadMergeInputs(diagram, source);
+    if (!inputs.theirs) {
+      res.status(400).json({ error: 'マージするコミットがありません' });
+      return;
+    }
+
+    const { conflicts, summary } = mergeDiagramData(inputs.base, inputs.ours, inputs.theirs);
+
+    res.json({
+      source: { id: branchId, name: source?.name ?? MAIN_BRANCH_ID },
+      target: { id: toBranchKey(diagram.currentBranchId) },
+      conflicts,
+      summary,
+    });
+  } catch (error) {
+    console.error('Preview merge error:', error);
+    res.status(500).json({ error: 'マージの確認に失敗しました' });
+  }
+};
+
+/**
+ * ブランチを作業中のブランチにマージしてコミットする（resolutions で衝突ごとに ours / theirs を指定）
+ * POST /api/projects/:projectId/diagrams/:diagramId/branches/:branchId/merge
+ */
+export const mergeBranch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, diagramId, branchId } = req.params;
+    const userId = req.user!.id;
+    const resolutions = parseResolutions(req.body.resolutions);
+
+    const diagram = await findDiagram(projectId, diagramId);
+    if (!diagram) {
+      res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+      return;
+    }
+
+    if (diagram.frozenAt) {
+      res.status(423).json({ error: '凍結中のダイアグラムは編集できません' });
+      return;
+    }
+
+    const source = await findBranch(diagramId, branchId);
+    if (source === undefined) {
+      res.status(404).json({ error: 'ブランチが見つかりません' });
+      return;
+    }
+
+    if (toDbBranchId(branchId) === diagram.currentBranchId) {
+      res.status(400).json({ error: '作業中のブランチ自身はマージできません' });
+      return;
+    }
+
+    const inputs = await loadMergeInputs(diagram, source);
+    if (!inputs.theirs || !inputs.theirsHead) {
+      res.status(400).json({ error: 'マージするコミットがありません' });
+      return;
+    }
+
+    const { merged, conflicts } = mergeDiagramData(inputs.base, inputs.ours, inputs.theirs, resolutions);
+
+    // プレビュー後に内容が変わって未解決の衝突が増えた場合はやり直してもらう
+    const unresolved = conflicts.filter((conflict) => !resolutions[conflict.key]);
+    if (unresolved.length > 0) {
+      res.status(409).json({ error: '未解決の衝突があります', conflicts: unresolved });
+      return;
+    }
+
+    const result = await replaceDiagramData(diagramId, userId, { data: merged });
+
+    if (result.frozen) {
+      res.status(423).json({ error: '凍結中のダイアグラムは編集できません' });
+      return;
+    }
+
+    const { diagram: updatedDiagram, update } = result;
+
+    // リアルタイム同期中のクライアントに差分を配信
+    if (update) {
+      emitCrdtUpdate(projectId, diagramId, update, updatedDiagram.opSeq, updatedDiagram.version);
+    }
+
+    const sourceName = source?.name ?? MAIN_BRANCH_ID;
+    const commitMessage =
+      typeof req.body.commitMessage === 'string' && req.body.commitMessage.trim()
+        ? req.body.commitMessage.trim()
+        : `Merge branch '${sourceName}'`;
+
+    // マージ結果を作業中のブランチにコミット
+    const latestVersion = await prisma.diagramVersion.findFirst({
+      where: { diagramId },
+      orderBy: { versionNumber: 'desc' },
+    });
+    const version = await prisma.diagramVersion.create({
+      data: {
+        diagramId,
+        versionNumber: latestVersion ? latestVersion.versionNumber + 1 : 1,
+        title: updatedDiagram.title,
+        data: merged,
+        commitMessage,
+        createdBy: userId,
+        branchId: diagram.currentBranchId,
+      },
+    });
+
+    // 次回のマージの共通祖先を、今回取り込んだバージョンに進める
+    if (source) {
+      await prisma.diagramBranch.update({
+        where: { id: source.id },
+        data: { baseVersionId: inputs.theirsHead.id, mergedAt: new Date() },
+      });
+    } else if (diagram.currentBranchId) {
+      await prisma.diagramBranch.update({
+        where: { id: diagram.currentBranchId },
+        data: { baseVersionId: inputs.theirsHead.id },
+      });
+    }
+
+    const targetBranch = diagram.currentBranchId
+      ? await prisma.diagramBranch.findUnique({ where: { id: diagram.currentBranchId }, select: { name: true } })
+      : null;
+
+    await prisma.activityLog.create({
+      data: {
+        projectId,
+        userId,
+        action: 'merge_branch',
+        data: {
+          diagramId,
+          diagramTitle: updatedDiagram.title,
+          branchName: sourceName,
+          targetBranchName: targetBranch?.name ?? MAIN_BRANCH_ID,
+          versionId: version.id,
+          versionNumber: version.versionNumber,
+          conflictCount: conflicts.length,
+        },
+      },
+    });
+
+    res.json({ diagram: updatedDiagram, version });
+  } catch (error) {
+    console.error('Merge branch error:', error);
+    res.status(500).json({ error: 'ブランチのマージに失敗しました' });
+  }
+};
+
+/**
+ * ブランチを削除（ブランチ上のバージョンも削除。オーナーまたは作成者のみ）
+ * DELETE /api/projects/:projectId/diagrams/:diagramId/branches/:branchId
+ */
+export const deleteBranch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, diagramId, branchId } = req.params;
+    const userId = req.user!.id;
+
+    const diagram = await findDiagram(projectId, diagramId);
+    if (!diagram) {
+      res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+      return;
+    }
+
+    if (branchId === MAIN_BRANCH_ID) {
+      res.status(400).json({ error: 'main ブランチは削除できません' });
+      return;
+    }
+
+    const branch = await findBranch(diagramId, branchId);
+    if (!branch) {
+      res.status(404).json({ error: 'ブランチが見つかりません' });
+      return;
+    }
+
+    if (req.userRole !== 'owner' && branch.createdBy !== userId) {
+      res.status(403).json({ error: 'ブランチの削除はプロジェクトオーナーまたは作成者のみ可能です' });
+      return;
+    }
+
+    // ブランチのコミットと一緒にタグの付いたバージョンまで消えないようにする
+    const taggedCount = await prisma.diagramVersionTag.count({
+      where: { version: { branchId: branch.id } },
+    });
+    if (taggedCount > 0) {
+      res.status(409).json({ error: 'タグが付いたバージョンを含むブランチは削除できません' });
+      return;
+    }
+
+    await prisma.diagramBranch.delete({ where: { id: branch.id } });
+
+    // 作業中のブランチを削除した場合は main に戻す（作業中の内容はそのまま）
+    if (diagram.currentBranchId === branch.id) {
+      await prisma.diagram.update({
+        where: { id: diagramId },
+        data: { currentBranchId: null },
+      });
+    }
+
+    await prisma.activityLog.create({
+      data: {
+        projectId,
+        userId,
+        action: 'delete_branch',
+        data: { diagramId, diagramTitle: diagram.title, branchName: branch.name },
+      },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete branch error:', error);
+    res.status(500).json({ error: 'ブランチの削除に失敗しました' });
+  }
+};
@@ -0,0 +1,313 @@
+import { Response } from 'express';
+import { prisma } from '../db/prisma';
+import type { AuthRequest } from '../middleware/auth';
+import { buildUserName } from '../utils/userName';
+import { notifyUsers } from '../services/notifications';
+import { emitCommentAdded, emitCommentDeleted, emitCommentUpdated } from '../websocket/emitter';
+
+interface CommentUser {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+interface CommentRecord {
+  id: string;
+  diagramId: string;
+  nodeId: string;
+  parentId: string | null;
+  authorId: string;
+  body: string;
+  mentions: unknown;
+  resolvedAt: Date | null;
+  resolvedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  author: CommentUser;
+  resolver: CommentUser | null;
+}
+
+const COMMENT_BODY_MAX_LENGTH = 5000;
+const MENTION_EXCERPT_LENGTH = 120;
+
+const userSelect = { id: true, email: true, firstName: true, lastName: true };
+const commentInclude = { author: { select: userSelect }, resolver: { select: userSelect } };
+
+const toCommentResponse = (comment: CommentRecord) => ({
+  id: comment.id,
+  diagramId: comment.diagramId,
+  nodeId: comment.nodeId,
+  parentId: comment.parentId,
+  authorId: comment.authorId,
+  authorName: buildUserName(comment.author),
+  body: comment.body,
+  mentions: Array.isArray(comment.mentions) ? comment.mentions : [],
+  resolvedAt: comment.resolvedAt,
+  resolvedBy: comment.resolvedBy,
+  resolvedByName: comment.resolver ? buildUserName(comment.resolver) : null,
+  createdAt: comment.createdAt,
+  updatedAt: comment.updatedAt,
+});
+
+const parseBody = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const body = value.trim();
+  return body && body.length <= COMMENT_BODY_MAX_LENGTH ? body : null;
+};
+
+// メンション先をプロジェクトのオーナー・メンバーに限定する（自分自身は除く）
+const parseMentions = async (value: unknown, projectId: string, userId: string): Promise<string[]> => {
+  if (!Array.isArray(value)) return [];
+  const requested = Array.from(
+    new Set(value.filter((id): id is string => typeof id === 'string' && id !== userId))
+  );
+  if (requested.length === 0) return [];
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { ownerId: true, members: { where: { userId: { in: requested } }, select: { userId: true } } },
+  });
+  if (!project) return [];
+
+  const allowed = new Set<string>(project.members.map((member: { userId: string }) => member.userId));
+  allowed.add(project.ownerId);
+  return requested.filter((id) => allowed.has(id));
+};
+
+/**
+ * ダイアグラムのコメント一覧を取得（作成日時の昇順）
+ * GET /api/projects/:projectId/diagrams/:diagramId/comments
+ */
+export const getComments = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, diagramId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const diagram = await prisma.diagram.findUnique({
+      where: { id: diagramId },
+      select: { projectId: true },
+    });
+
+    if (!diagram || diagram.projectId !== projectId) {
+      res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+      return;
+    }
+
+    const nodeId = typeof req.query.nodeId === 'string' ? req.query.nodeId : undefined;
+    const comments: CommentRecord[] = await prisma.comment.findMany({
+      where: { diagramId, ...(nodeId && { nodeId }) },
+      include: commentInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({ comments: comments.map(toCommentResponse) });
+  } catch (error) {
+    console.error('Get comments error:', error);
+    res.status(500).json({ error: 'コメントの取得に失敗しました' });
+  }
+};
+
+/**
+ * コメントを作成（parentId を指定すると返信、mentions に指定したユーザーへ通知）
+ * POST /api/projects/:projectId/diagrams/:diagramId/comments
+ */
+export const createComment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, diagramId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const { nodeId, parentId } = req.body;
+    const body = parseBody(req.body.body);
+    if (typeof nodeId !== 'string' || !nodeId || !body) {
+      res.status(400).json({ error: `ノードIDと本文（${COMMENT_BODY_MAX_LENGTH}文字以内）は必須です` });
+      return;
+    }
+
+    const diagram = await prisma.diagram.findUnique({
+      where: { id: diagramId },
+      select: { projectId: true },
+    });
+
+    if (!diagram || diagram.projectId !== projectId) {
+      res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+      return;
+    }
+
+    // 返信はスレッド先頭のコメントにぶら下げる（1階層のみ）
+    let threadId: string | null = null;
+    if (parentId !== undefined && parentId !== null) {
+      const parent = await prisma.comment.findUnique({
+        where: { id: String(parentId) },
+        select: { id: true, diagramId: true, nodeId: true, parentId: true },
+      });
+
+      if (!parent || parent.diagramId !== diagramId || parent.nodeId !== nodeId) {
+        res.status(404).json({ error: '返信先のコメントが見つかりません' });
+        return;
+      }
+      threadId = parent.parentId ?? parent.id;
+    }
+
+    const mentions = await parseMentions(req.body.mentions, projectId, userId);
+
+    const comment: CommentRecord = await prisma.comment.create({
+      data: {
+        diagramId,
+        nodeId,
+        parentId: threadId,
+        authorId: userId,
+        body,
+        ...(mentions.length > 0 && { mentions }),
+      },
+      include: commentInclude,
+    });
+
+    const response = toCommentResponse(comment);
+    emitCommentAdded(projectId, diagramId, nodeId, response);
+
+    await notifyUsers(
+      mentions.map((mentionedUserId) => ({
+        userId: mentionedUserId,
+        type: 'mention' as const,
+        projectId,
+        actorId: userId,
+        data: {
+          diagramId,
+          nodeId,
+          commentId: comment.id,
+          excerpt: body.slice(0, MENTION_EXCERPT_LENGTH),
+        },
+      }))
+    );
+
+    res.status(201).json({ comment: response });
+  } catch (error) {
+    console.error('Create comment error:', error);
+    res.status(500).json({ error: 'コメントの作成に失敗しました' });
+  }
+};
+
+/**
+ * コメントを更新（本文の編集は投稿者のみ、解決/再オープンはスレッド先頭のみ）
+ * PATCH /api/projects/:projectId/diagrams/:diagramId/comments/:commentId
+ */
+export const updateComment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, diagramId, commentId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const existing = await prisma.comment.findUnique({
+      where: { id: commentId },
+      include: { diagram: { select: { projectId: true } } },
+    });
+
+    if (!existing || existing.diagramId !== diagramId || existing.diagram.projectId !== projectId) {
+      res.status(404).json({ error: 'コメントが見つかりません' });
+      return;
+    }
+
+    const { resolved } = req.body;
+    const data: { body?: string; resolvedAt?: Date | null; resolvedBy?: string | null } = {};
+
+    if (req.body.body !== undefined) {
+      if (existing.authorId !== userId) {
+        res.status(403).json({ error: '自分のコメントのみ編集できます' });
+        return;
+      }
+      const body = parseBody(req.body.body);
+      if (!body) {
+        res.status(400).json({ error: `本文は${COMMENT_BODY_MAX_LENGTH}文字以内で入力してください` });
+        return;
+      }
+      data.body = body;
+    }
+
+    if (resolved !== undefined) {
+      if (typeof resolved !== 'boolean') {
+        res.status(400).json({ error: 'resolved は true または false で指定してください' });
+        return;
+      }
+      if (existing.parentId) {
+        res.status(400).json({ error: '解決状態はスレッドの先頭コメントにのみ設定できます' });
+        return;
+      }
+      data.resolvedAt = resolved ? new Date() : null;
+      data.resolvedBy = resolved ? userId : null;
+    }
+
+    if (Object.keys(data).length === 0) {
+      res.status(400).json({ error: '更新内容が指定されていません' });
+      return;
+    }
+
+    const comment: CommentRecord = await prisma.comment.update({
+      where: { id: commentId },
+      data,
+      include: commentInclude,
+    });
+
+    const response = toCommentResponse(comment);
+    emitCommentUpdated(projectId, diagramId, comment.nodeId, response);
+
+    res.json({ comment: response });
+  } catch (error) {
+    console.error('Update comment error:', error);
+    res.status(500).json({ error: 'コメントの更新に失敗しました' });
+  }
+};
+
+/**
+ * コメントを削除（投稿者またはプロジェクトオーナーのみ、返信もまとめて削除）
+ * DELETE /api/projects/:projectId/diagrams/:diagramId/comments/:commentId
+ */
+export const deleteComment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, diagramId, commentId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const existing = await prisma.comment.findUnique({
+      where: { id: commentId },
+      include: { diagram: { select: { projectId: true } } },
+    });
+
+    if (!existing || existing.diagramId !== diagramId || existing.diagram.projectId !== projectId) {
+      res.status(404).json({ error: 'コメントが見つかりません' });
+      return;
+    }
+
+    if (existing.authorId !== userId && req.userRole !== 'owner') {
+      res.status(403).json({ error: '自分のコメントのみ削除できます' });
+      return;
+    }
+
+    await prisma.comment.delete({ where: { id: commentId } });
+
+    emitCommentDeleted(projectId, diagramId, existing.nodeId, commentId);
+
+    res.json({ message: 'コメントを削除しました' });
+  } catch (error) {
+    console.error('Delete comment error:', error);
+    res.status(500).json({ error: 'コメントの削除に失敗しました' });
+  }
+};
@@ -1,6 +1,27 @@
 import { Response } from 'express';
 import { prisma } from '../db/prisma';
 import type { AuthRequest } from '../middleware/auth';
+import { replaceDiagramData } from '../services/diagramOperations';
+import { recordDiagramSave } from '../services/autoSnapshots';
+import { emitCrdtUpdate, emitDiagramFrozen } from '../websocket/emitter';
+import { parseValidationRuleOverrides, validateDiagramSnapshot } from '../services/validationRules';
+
+/**
+ * If-Match ヘッダー（"3" / W/"3" 形式）または baseVersion から期待バージョンを取得
+ * 指定なしは undefined、不正な値は null
+ */
+const parseExpectedVersion = (ifMatch: string | undefined, baseVersion: unknown): number | undefined | null => {
+  const raw = ifMatch !== undefined && ifMatch !== '*'
+    ? ifMatch.replace(/^W\//, '').replace(/"/g, '').trim()
+    : baseVersion;
+
+  if (raw === undefined || raw === null || raw === '') {
+    return undefined;
+  }
+
+  const version = Number(raw);
+  return Number.isInteger(version) ? version : null;
+};
 
 /**
  * プロジェクトに紐づく全ダイアグラムを取得
@@ -39,6 +60,7 @@ export const getDiagrams = async (req: AuthRequest, res: Response): Promise<void
       select: {
         id: true,
         title: true,
+        frozenAt: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -91,6 +113,7 @@ export const getDiagram = async (req: AuthRequest, res: Response): Promise<void>
       return;
     }
 
+    res.set('ETag', `"${diagram.version}"`);
     res.json({ diagram });
   } catch (error) {
     console.error('Get diagram error:', error);
@@ -198,15 +221,48 @@ export const updateDiagram = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    // ダイアグラムを更新
-    const diagram = await prisma.diagram.update({
-      where: { id: diagramId },
-      data: {
-        ...(title !== undefined && { title }),
-        ...(data !== undefined && { data }),
-        version: { increment: 1 },
-      },
-    });
+    // 凍結中（提出済みなど）は編集を受け付けない
+    if (existingDiagram.frozenAt) {
+      res.status(423).json({ error: '凍結中のダイアグラムは編集できません' });
+      return;
+    }
+
+    // 期待するバージョン（If-Match ヘッダー または baseVersion）
+    const expectedVersion = parseExpectedVersion(req.headers['if-match'], req.body.baseVersion);
+    if (expectedVersion === null) {
+      res.status(400).json({ error: 'バージョン指定が不正です' });
+      return;
+    }
+
+    // ダイアグラムを更新（リアルタイム操作と直列化し、操作ログに記録）
+    const result = await replaceDiagramData(diagramId, userId, { title, data }, expectedVersion);
+
+    if (result.frozen) {
+      res.status(423).json({ error: '凍結中のダイアグラムは編集できません' });
+      return;
+    }
+
+    if (result.conflict) {
+      // 他のユーザーが先に保存している場合はサーバー側の最新データを返す
+      res.set('ETag', `"${result.diagram.version}"`);
+      res.status(409).json({
+        error: '他のユーザーがダイアグラムを更新しています',
+        diagram: result.diagram,
+      });
+      return;
+    }
+
+    const diagram = result.diagram;
+
+    // リアルタイム同期中のクライアントに差分を配信
+    emitCrdtUpdate(projectId, diagram.id, result.update, diagram.opSeq, diagram.version);
+
+    // 保存回数・経過時間に応じて自動スナップショットを作る（失敗しても保存は成功扱い）
+    try {
+      await recordDiagramSave(diagram.id, userId);
+    } catch (snapshotError) {
+      console.error('Auto snapshot error:', snapshotError);
+    }
 
     // アクティビティログに記録
     await prisma.activityLog.create({
@@ -218,6 +274,7 @@ export const updateDiagram = async (req: AuthRequest, res: Response): Promise<vo
       },
     });
 
+    res.set('ETag', `"${diagram.version}"`);
     res.json({ diagram });
   } catch (error) {
     console.error('Update diagram error:', error);
@@ -286,3 +343,139 @@ export const deleteDiagram = async (req: AuthRequest, res: Response): Promise<vo
     res.status(500).json({ error: 'ダイアグラムの削除に失敗しました' });
   }
 };
+
+const FREEZE_REASON_MAX_LENGTH = 500;
+
+/**
+ * ダイアグラムを凍結（解除するまで編集不可）
+ * POST /api/projects/:projectId/diagrams/:diagramId/freeze
+ */
+export const freezeDiagram = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, diagramId } = req.params;
+    const userId = req.user!.id;
+    const { reason } = req.body;
+
+    if (
+      reason !== undefined &&
+      reason !== null &&
+      (typeof reason !== 'string' || reason.length > FREEZE_REASON_MAX_LENGTH)
+    ) {
+      res.status(400).json({ error: '凍結の理由が正しくありません' });
+      return;
+    }
+
+    const existingDiagram = await prisma.diagram.findUnique({
+      where: { id: diagramId },
+    });
+
+    if (!existingDiagram || existingDiagram.projectId !== projectId) {
+      res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+      return;
+    }
+
+    if (existingDiagram.frozenAt) {
+      res.status(409).json({ error: 'ダイアグラムは既に凍結されています' });
+      return;
+    }
+
+    const diagram = await prisma.diagram.update({
+      where: { id: diagramId },
+      data: {
+        frozenAt: new Date(),
+        frozenBy: userId,
+        frozenReason: typeof reason === 'string' && reason.trim() ? reason.trim() : null,
+      },
+    });
+
+    // 接続中のクライアントに凍結を通知
+    emitDiagramFrozen(projectId, diagram);
+
+    // アクティビティログに記録
+    await prisma.activityLog.create({
+      data: {
+        userId,
+        projectId,
+        action: 'freeze_diagram',
+        data: { diagramId, title: diagram.title, reason: diagram.frozenReason },
+      },
+    });
+
+    res.json({ diagram });
+  } catch (error) {
+    console.error('Freeze diagram error:', error);
+    res.status(500).json({ error: 'ダイアグラムの凍結に失敗しました' });
+  }
+};
+
+/**
+ * ダイアグラムの凍結を解除
+ * DELETE /api/projects/:projectId/diagrams/:diagramId/freeze
+ */
+export const unfreezeDiagram = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, diagramId } = req.params;
+    const userId = req.user!.id;
+
+    const existingDiagram = await prisma.diagram.findUnique({
+      where: { id: diagramId },
+    });
+
+    if (!existingDiagram || existingDiagram.projectId !== projectId) {
+      res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+      return;
+    }
+
+    if (!existingDiagram.frozenAt) {
+      res.status(409).json({ error: 'ダイアグラムは凍結されていません' });
+      return;
+    }
+
+    const diagram = await prisma.diagram.update({
+      where: { id: diagramId },
+      data: { frozenAt: null, frozenBy: null, frozenReason: null },
+    });
+
+    emitDiagramFrozen(projectId, diagram);
+
+    await prisma.activityLog.create({
+      data: {
+        userId,
+        projectId,
+        action: 'unfreeze_diagram',
+        data: { diagramId, title: diagram.title },
+      },
+    });
+
+    res.json({ diagram });
+  } catch (error) {
+    console.error('Unfreeze diagram error:', error);
+    res.status(500).json({ error: 'ダイアグラムの凍結の解除に失敗しました' });
+  }
+};
+
+/**
+ * 保存済みのダイアグラムをプロジェクトの検証ルールの設定で検証
+ * POST /api/projects/:projectId/diagrams/:diagramId/validate
+ */
+export const validateDiagram = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, diagramId } = req.params;
+
+    const diagram = await prisma.diagram.findUnique({
+      where: { id: diagramId },
+      include: { project: true },
+    });
+
+    if (!diagram || diagram.projectId !== projectId) {
+      res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+      return;
+    }
+
+    const overrides = parseValidationRuleOverrides(diagram.project.validationRules ?? {}) ?? {};
+    res.json({ validation: validateDiagramSnapshot(diagram.data, overrides) });
+  } catch (error) {
+    console.error('Validate diagram error:', error);
+    res.status(500).json({ error: 'ダイアグラムの検証に失敗しました' });
+  }
+};
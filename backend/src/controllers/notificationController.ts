@@ -0,0 +1,107 @@
+import { Response } from 'express';
+import { prisma } from '../db/prisma';
+import type { AuthRequest } from '../middleware/auth';
+import { notificationInclude, toNotificationResponse, type NotificationRecord } from '../services/notifications';
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 100;
+
+/**
+ * 自分宛ての通知一覧を取得（新しい順）
+ * GET /api/notifications?unread=true&limit=30
+ */
+export const getNotifications = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const unreadOnly = req.query.unread === 'true';
+    const requestedLimit = Number(req.query.limit);
+    const limit =
+      Number.isInteger(requestedLimit) && requestedLimit > 0 ? Math.min(requestedLimit, MAX_LIMIT) : DEFAULT_LIMIT;
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId, ...(unreadOnly && { readAt: null }) },
+        include: notificationInclude,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      }),
+      prisma.notification.count({ where: { userId, readAt: null } }),
+    ]);
+
+    res.json({
+      notifications: (notifications as NotificationRecord[]).map(toNotificationResponse),
+      unreadCount,
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({ error: '通知の取得に失敗しました' });
+  }
+};
+
+/**
+ * 通知を既読にする
+ * PATCH /api/notifications/:notificationId/read
+ */
+export const markNotificationRead = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { notificationId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const existing = await prisma.notification.findUnique({
+      where: { id: notificationId },
+      select: { userId: true, readAt: true },
+    });
+
+    if (!existing || existing.userId !== userId) {
+      res.status(404).json({ error: '通知が見つかりません' });
+      return;
+    }
+
+    const notification: NotificationRecord = await prisma.notification.update({
+      where: { id: notificationId },
+      data: { readAt: existing.readAt ?? new Date() },
+      include: notificationInclude,
+    });
+
+    res.json({ notification: toNotificationResponse(notification) });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({ error: '通知の更新に失敗しました' });
+  }
+};
+
+/**
+ * 未読の通知をすべて既読にする
+ * POST /api/notifications/read-all
+ */
+export const markAllNotificationsRead = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: '認証が必要です' });
+      return;
+    }
+
+    const result = await prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    res.json({ updated: result.count });
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({ error: '通知の更新に失敗しました' });
+  }
+};
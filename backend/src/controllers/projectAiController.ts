@@ -508,3 +508,54 @@ export const chatWithAi = async (req: AuthRequest, res: Response) => {
     return res.status(502).json({ error: message });
   }
 };
+
+// AI が提案した操作をユーザーが適用したことをアクティビティに記録する
+export const recordAppliedOps = async (req: AuthRequest, res: Response) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: '認証が必要です' });
+  }
+  const { projectId } = req.params;
+  const { conversationId, diagramId, ops } = req.body as {
+    conversationId?: string;
+    diagramId?: string;
+    ops?: Array<{ type?: unknown }>;
+  };
+
+  if (!Array.isArray(ops) || ops.length === 0) {
+    return res.status(400).json({ error: '適用した操作が必要です' });
+  }
+
+  if (conversationId) {
+    const conversation = await prisma.aiConversation.findFirst({
+      where: { id: conversationId, projectId, userId },
+      select: { id: true },
+    });
+    if (!conversation) {
+      return res.status(404).json({ error: '会話が見つかりません' });
+    }
+  }
+
+  // 操作の種類ごとの件数
+  const opCounts: Record<string, number> = {};
+  ops.forEach((op) => {
+    const type = typeof op?.type === 'string' ? op.type : 'unknown';
+    opCounts[type] = (opCounts[type] ?? 0) + 1;
+  });
+
+  await prisma.activityLog.create({
+    data: {
+      projectId,
+      userId,
+      action: 'apply_ai_ops',
+      data: {
+        conversationId: conversationId ?? null,
+        diagramId: typeof diagramId === 'string' ? diagramId : null,
+        opCount: ops.length,
+        opCounts,
+      },
+    },
+  });
+
+  return res.status(201).json({ result: 'OK' });
+};
@@ -2,6 +2,9 @@ import { Response, NextFunction } from 'express';
 import { prisma } from '../db/prisma';
 import { createError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth';
+import { parseRetentionPolicy } from '../services/autoSnapshots';
+import { importLegacyDcase } from '../services/legacyDcaseImport';
+import { parseValidationGates, parseValidationRuleOverrides } from '../services/validationRules';
 
 // Get all projects for the current user
 export const getProjects = async (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -175,17 +178,78 @@ export const createProject = async (req: AuthRequest, res: Response, next: NextF
   }
 };
 
+// Import a legacy D-Case Communicator export as a new project
+export const importLegacyDcaseProject = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    const { title, description, data } = req.body;
+
+    if (!userId) {
+      throw createError(401, 'Unauthorized');
+    }
+
+    if (!data || typeof data !== 'object') {
+      throw createError(400, 'Export data is required');
+    }
+
+    if ((title != null && typeof title !== 'string') || (description != null && typeof description !== 'string')) {
+      throw createError(400, 'Title and description must be strings');
+    }
+
+    // 空のタイトルはエクスポートのケース名を使う
+    const imported = await importLegacyDcase(data, {
+      ownerId: userId,
+      title: title?.trim() || undefined,
+      description: description?.trim() || undefined,
+    });
+    if (!imported) {
+      throw createError(400, 'No D-Case found in the export data');
+    }
+
+    res.status(201).json({
+      result: 'OK',
+      project: imported.project,
+      report: imported.report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // Update a project
 export const updateProject = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const userId = req.user?.id;
     const { projectId } = req.params;
-    const { title, description } = req.body;
+    const { title, description, snapshotPolicy, validationRules, validationGates } = req.body;
 
     if (!userId) {
       throw createError(401, 'Unauthorized');
     }
 
+    // 自動スナップショットの保持ポリシー（指定した項目のみ更新）
+    const policy =
+      snapshotPolicy === undefined
+        ? {}
+        : typeof snapshotPolicy === 'object' && snapshotPolicy !== null
+          ? parseRetentionPolicy(snapshotPolicy)
+          : null;
+    if (!policy) {
+      throw createError(400, 'Invalid snapshot retention policy');
+    }
+
+    // GSN検証ルールの設定（空のオブジェクトで既定値に戻す）
+    const ruleOverrides = validationRules === undefined ? undefined : parseValidationRuleOverrides(validationRules);
+    if (ruleOverrides === null) {
+      throw createError(400, 'Invalid validation rule settings');
+    }
+
+    // コミット・アンケート公開の前の検証（指定した項目のみ更新）
+    const gates = validationGates === undefined ? {} : parseValidationGates(validationGates);
+    if (!gates) {
+      throw createError(400, 'Invalid validation gate settings');
+    }
+
     // Check if user is the owner
     const project = await prisma.project.findUnique({
       where: { id: projectId },
@@ -204,6 +268,11 @@ export const updateProject = async (req: AuthRequest, res: Response, next: NextF
       data: {
         title: title || project.title,
         description: description !== undefined ? description : project.description,
+        snapshotKeepLast: policy.keepLast,
+        snapshotKeepDailyDays: policy.keepDailyDays,
+        snapshotKeepWeeklyWeeks: policy.keepWeeklyWeeks,
+        validationRules: ruleOverrides,
+        ...gates,
       },
       include: {
         owner: {
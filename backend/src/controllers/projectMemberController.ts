@@ -1,6 +1,9 @@
 import { Response } from 'express';
 import { prisma } from '../db/prisma';
 import { AuthRequest } from '../middleware/auth';
+import { notifyUsers } from '../services/notifications';
+import { buildUserName } from '../utils/userName';
+import { refreshProjectMemberSockets } from '../websocket/handlers';
 
 // Get all members of a project
 export const getProjectMembers = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -149,11 +152,22 @@ export const inviteMember = async (req: AuthRequest, res: Response): Promise<voi
       data: {
         invitedUserId: invitedUser.id,
         invitedUserEmail: email,
+        invitedUserName: buildUserName(invitedUser),
         role,
       },
     },
   });
 
+  await notifyUsers([
+    {
+      userId: invitedUser.id,
+      type: 'role_changed',
+      projectId,
+      actorId: userId,
+      data: { role, previousRole: null },
+    },
+  ]);
+
   res.status(201).json({
     result: 'OK',
     member,
@@ -191,6 +205,15 @@ export const updateMemberRole = async (req: AuthRequest, res: Response): Promise
     return;
   }
 
+  const existingMember = await prisma.projectMember.findUnique({
+    where: { id: memberId },
+  });
+
+  if (!existingMember || existingMember.projectId !== projectId) {
+    res.status(404).json({ error: 'メンバーが見つかりません' });
+    return;
+  }
+
   // Update member role
   const member = await prisma.projectMember.update({
     where: { id: memberId },
@@ -215,11 +238,28 @@ export const updateMemberRole = async (req: AuthRequest, res: Response): Promise
       action: 'update_member_role',
       data: {
         memberId,
+        memberUserId: member.userId,
+        memberName: buildUserName(member.user),
+        previousRole: existingMember.role,
         newRole: role,
       },
     },
   });
 
+  if (existingMember.role !== role) {
+    await notifyUsers([
+      {
+        userId: member.userId,
+        type: 'role_changed',
+        projectId,
+        actorId: userId,
+        data: { role, previousRole: existingMember.role },
+      },
+    ]);
+    // 接続中のソケットにも新しいロールを反映する（閲覧者に変わった場合は編集できなくなる）
+    await refreshProjectMemberSockets(projectId, member.userId);
+  }
+
   res.json({
     result: 'OK',
     member,
@@ -254,6 +294,16 @@ export const removeMember = async (req: AuthRequest, res: Response): Promise<voi
   // Delete the member
   const member = await prisma.projectMember.delete({
     where: { id: memberId },
+    include: {
+      user: {
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
   });
 
   // Log activity
@@ -265,10 +315,14 @@ export const removeMember = async (req: AuthRequest, res: Response): Promise<voi
       data: {
         memberId,
         removedUserId: member.userId,
+        removedUserName: buildUserName(member.user),
       },
     },
   });
 
+  // 接続中のソケットをプロジェクトから外す
+  await refreshProjectMemberSockets(projectId, member.userId);
+
   res.json({
     result: 'OK',
     message: 'メンバーを削除しました',
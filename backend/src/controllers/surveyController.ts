@@ -2,6 +2,7 @@ import { Response } from 'express';
 import crypto from 'crypto';
 import type { AuthRequest } from '../middleware/auth';
 import { prisma } from '../db/prisma';
+import { checkValidationGate } from '../services/validationRules';
 
 type SurveyQuestionInput = {
   nodeId: string;
@@ -511,6 +512,24 @@ export const publishSurvey = async (req: AuthRequest, res: Response): Promise<vo
     return;
   }
 
+  // オーナーの設定により、GSN検証でエラーのある議論はアンケートに出さない（または理由を求める）
+  const gate = checkValidationGate(
+    project.surveyValidationGate,
+    survey.gsnSnapshot,
+    project.validationRules,
+    req.body?.validationOverride
+  );
+  if (!gate.allowed) {
+    res.status(409).json({
+      error: gate.overrideAllowed
+        ? 'GSN検証でエラーがあります。公開するには理由を入力してください'
+        : 'GSN検証でエラーがあるため公開できません',
+      validation: gate.validation,
+      overrideAllowed: gate.overrideAllowed,
+    });
+    return;
+  }
+
   const publicToken = survey.publicToken || crypto.randomUUID();
   let publicTokenExpert = survey.publicTokenExpert;
   if (survey.mode === 'combined') {
@@ -531,6 +550,21 @@ export const publishSurvey = async (req: AuthRequest, res: Response): Promise<vo
     },
   });
 
+  await prisma.activityLog.create({
+    data: {
+      projectId: survey.projectId,
+      userId,
+      action: 'publish_survey',
+      data: {
+        surveyId,
+        surveyTitle: survey.title,
+        ...(gate.overrideMessage
+          ? { validationOverride: gate.overrideMessage, validationErrors: gate.validation?.errors.length }
+          : {}),
+      },
+    },
+  });
+
   res.json({ survey: updated });
 };
 
@@ -563,6 +597,15 @@ export const closeSurvey = async (req: AuthRequest, res: Response): Promise<void
     data: { status: 'closed' },
   });
 
+  await prisma.activityLog.create({
+    data: {
+      projectId: survey.projectId,
+      userId,
+      action: 'close_survey',
+      data: { surveyId, surveyTitle: survey.title },
+    },
+  });
+
   res.json({ survey: updated });
 };
 
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { prisma } from '../db/prisma';
 import { emitSurveyResponseCreated } from '../websocket/emitter';
+import { notifyUsers } from '../services/notifications';
 
 export const getPublicSurvey = async (req: Request, res: Response): Promise<void> => {
   const { token } = req.params;
@@ -143,6 +144,14 @@ export const submitPublicResponse = async (req: Request, res: Response): Promise
   });
 
   emitSurveyResponseCreated(survey.projectId, survey.id);
+  await notifyUsers([
+    {
+      userId: survey.createdById,
+      type: 'survey_response',
+      projectId: survey.projectId,
+      data: { surveyId: survey.id, surveyTitle: survey.title, audience: entryAudience },
+    },
+  ]);
 
   res.status(201).json({ result: 'OK' });
 };
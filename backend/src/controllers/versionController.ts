@@ -1,6 +1,16 @@
 import { Response } from 'express';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '../db/prisma';
 import type { AuthRequest } from '../middleware/auth';
+import { replaceDiagramData } from '../services/diagramOperations';
+import { normalizeDiagramData } from '../services/diagramCrdt';
+import { diffDiagramData } from '../services/diagramDiff';
+import { MAIN_BRANCH_ID, createBranch, parseBranchName, toBranchKey, toDbBranchId } from '../services/diagramBranches';
+import { buildNodeHistory } from '../services/nodeHistory';
+import { markSnapshotTaken } from '../services/autoSnapshots';
+import { checkValidationGate } from '../services/validationRules';
+import { buildUserName } from '../utils/userName';
+import { emitCrdtUpdate } from '../websocket/emitter';
 
 // バージョン一覧取得
 export const getVersions = async (req: AuthRequest, res: Response) => {
@@ -49,7 +59,13 @@ export const getVersions = async (req: AuthRequest, res: Response) => {
         title: true,
         commitMessage: true,
         createdBy: true,
+        branchId: true,
+        isAuto: true,
         createdAt: true,
+        tags: {
+          select: { id: true, name: true, description: true, createdBy: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
       },
     });
 
@@ -115,11 +131,216 @@ export const getVersion = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// 差分の比較対象として現在のダイアグラムを指定するID
+const CURRENT_VERSION_ID = 'current';
+
+// バージョン間の差分取得（:versionB に 'current' を指定すると現在のダイアグラムと比較）
+export const diffVersions = async (req: AuthRequest, res: Response) => {
+  try {
+    const { diagramId, versionA, versionB } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: '認証が必要です' });
+    }
+
+    // ダイアグラムの存在確認
+    const diagram = await prisma.diagram.findUnique({
+      where: { id: diagramId },
+      include: { project: true },
+    });
+
+    if (!diagram) {
+      return res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+    }
+
+    // プロジェクトへのアクセス権確認
+    const projectId = diagram.projectId;
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: {
+          projectId,
+          userId,
+        },
+      },
+    });
+
+    const isOwner = diagram.project.ownerId === userId;
+
+    if (!isOwner && !member) {
+      return res.status(403).json({ error: 'このプロジェクトへのアクセス権限がありません' });
+    }
+
+    // 比較対象の取得（バージョンまたは現在のダイアグラム）
+    const loadSide = async (versionId: string) => {
+      if (versionId === CURRENT_VERSION_ID) {
+        return {
+          info: {
+            id: CURRENT_VERSION_ID,
+            versionNumber: null,
+            title: diagram.title,
+            commitMessage: null,
+            createdAt: diagram.updatedAt,
+          },
+          data: diagram.data,
+        };
+      }
+
+      const version = await prisma.diagramVersion.findUnique({
+        where: { id: versionId },
+      });
+      if (!version || version.diagramId !== diagramId) return null;
+
+      return {
+        info: {
+          id: version.id,
+          versionNumber: version.versionNumber,
+          title: version.title,
+          commitMessage: version.commitMessage,
+          createdAt: version.createdAt,
+        },
+        data: version.data,
+      };
+    };
+
+    const [from, to] = await Promise.all([loadSide(versionA), loadSide(versionB)]);
+
+    if (!from || !to) {
+      return res.status(404).json({ error: 'バージョンが見つかりません' });
+    }
+
+    const { modules, summary } = diffDiagramData(from.data, to.data);
+
+    // 新しい側のデータはキャンバスへの重ね表示に使う
+    res.json({
+      from: from.info,
+      to: { ...to.info, data: normalizeDiagramData(to.data) },
+      modules,
+      summary,
+    });
+  } catch (error) {
+    console.error('Error diffing versions:', error);
+    res.status(500).json({ error: 'バージョンの比較に失敗しました' });
+    return;
+  }
+};
+
+// ノード単位の履歴取得（?branchId= で対象のブランチを指定、省略時は作業中のブランチ）
+export const getNodeHistory = async (req: AuthRequest, res: Response) => {
+  try {
+    const { diagramId, nodeId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: '認証が必要です' });
+    }
+
+    // ダイアグラムの存在確認
+    const diagram = await prisma.diagram.findUnique({
+      where: { id: diagramId },
+      include: { project: true },
+    });
+
+    if (!diagram) {
+      return res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+    }
+
+    // プロジェクトへのアクセス権確認
+    const projectId = diagram.projectId;
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: {
+          projectId,
+          userId,
+        },
+      },
+    });
+
+    const isOwner = diagram.project.ownerId === userId;
+
+    if (!isOwner && !member) {
+      return res.status(403).json({ error: 'このプロジェクトへのアクセス権限がありません' });
+    }
+
+    let branchId: string | null = diagram.currentBranchId;
+    if (typeof req.query.branchId === 'string') {
+      branchId = toDbBranchId(req.query.branchId);
+      if (branchId) {
+        const branch = await prisma.diagramBranch.findUnique({ where: { id: branchId } });
+        if (!branch || branch.diagramId !== diagramId) {
+          return res.status(404).json({ error: 'ブランチが見つかりません' });
+        }
+      }
+    }
+
+    const { entries, uncommitted, current, latest } = await buildNodeHistory(diagram, nodeId, branchId);
+    const node = current?.node ?? latest?.node ?? null;
+
+    if (!node && entries.length === 0) {
+      return res.status(404).json({ error: 'ノードの履歴が見つかりません' });
+    }
+
+    // コミットした人の表示名
+    const authorIds = Array.from(
+      new Set(entries.map(({ version }) => version.createdBy).filter((id): id is string => Boolean(id)))
+    );
+    const authors = await prisma.user.findMany({
+      where: { id: { in: authorIds } },
+      select: { id: true, email: true, firstName: true, lastName: true },
+    });
+    const authorNames = new Map<string, string>(authors.map((author) => [author.id, buildUserName(author)]));
+    const branches = await prisma.diagramBranch.findMany({
+      where: { diagramId },
+      select: { id: true, name: true },
+    });
+    const branchNames = new Map<string, string>(branches.map((branch) => [branch.id, branch.name]));
+
+    // 降順: 最新が最初
+    const history = entries
+      .map(({ version, changes }) => ({
+        versionId: version.id,
+        versionNumber: version.versionNumber,
+        commitMessage: version.commitMessage,
+        createdAt: version.createdAt,
+        authorId: version.createdBy,
+        authorName: version.createdBy ? authorNames.get(version.createdBy) ?? null : null,
+        branchId: toBranchKey(version.branchId),
+        branchName: version.branchId ? branchNames.get(version.branchId) ?? null : MAIN_BRANCH_ID,
+        changes,
+      }))
+      .reverse();
+
+    // フィールドごとに最後に変更したコミット（blame）
+    const findLast = (kinds: string[]) =>
+      history.find((entry) => entry.changes.some((change) => kinds.includes(change.kind)))?.versionId ?? null;
+
+    res.json({
+      nodeId,
+      label: node?.label ?? null,
+      type: node?.type ?? null,
+      branchId: toBranchKey(branchId),
+      entries: history,
+      blame: {
+        content: findLast(['created', 'content']),
+        label: findLast(['created', 'label']),
+        type: findLast(['created', 'type']),
+        links: findLast(['created', 'link']),
+      },
+      uncommitted,
+    });
+  } catch (error) {
+    console.error('Error fetching node history:', error);
+    res.status(500).json({ error: 'ノードの履歴の取得に失敗しました' });
+    return;
+  }
+};
+
 // バージョン作成（コミット）
+// branchId でコミット先のブランチ、newBranchName で新しいブランチを作成してコミットできる
 export const createVersion = async (req: AuthRequest, res: Response) => {
   try {
     const { diagramId } = req.params;
-    const { commitMessage } = req.body;
+    const { commitMessage, branchId, newBranchName, validationOverride } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -158,26 +379,94 @@ export const createVersion = async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: 'バージョン作成権限がありません' });
     }
 
-    // 最新のバージョン番号を取得
-    const latestVersion = await prisma.diagramVersion.findFirst({
-      where: { diagramId },
-      orderBy: { versionNumber: 'desc' },
-    });
+    if (diagram.frozenAt) {
+      return res.status(423).json({ error: '凍結中のダイアグラムにはコミットできません' });
+    }
+
+    // オーナーの設定により、GSN検証でエラーのあるダイアグラムはコミットさせない（または理由を求める）
+    const gate = checkValidationGate(
+      diagram.project.commitValidationGate,
+      diagram.data,
+      diagram.project.validationRules,
+      validationOverride
+    );
+    if (!gate.allowed) {
+      return res.status(409).json({
+        error: gate.overrideAllowed
+          ? 'GSN検証でエラーがあります。コミットするには理由を入力してください'
+          : 'GSN検証でエラーがあるためコミットできません',
+        validation: gate.validation,
+        overrideAllowed: gate.overrideAllowed,
+      });
+    }
 
-    const newVersionNumber = latestVersion ? latestVersion.versionNumber + 1 : 1;
+    // コミット先のブランチ（省略時は作業中のブランチ、新しいブランチはバージョンと一緒に作成する）
+    let targetBranch: { id: string; diagramId: string; name: string } | null = null;
+    let newBranch: string | null = null;
+    if (newBranchName !== undefined) {
+      newBranch = parseBranchName(newBranchName);
+      if (!newBranch) {
+        return res.status(400).json({ error: 'ブランチ名が正しくありません' });
+      }
+    } else {
+      const requestedBranchId =
+        typeof branchId === 'string' ? toDbBranchId(branchId) : diagram.currentBranchId;
+      if (requestedBranchId) {
+        targetBranch = await prisma.diagramBranch.findUnique({
+          where: { id: requestedBranchId },
+        });
+        if (!targetBranch || targetBranch.diagramId !== diagramId) {
+          return res.status(404).json({ error: 'ブランチが見つかりません' });
+        }
+      }
+    }
 
-    // 新しいバージョンを作成
-    const version = await prisma.diagramVersion.create({
-      data: {
-        diagramId,
-        versionNumber: newVersionNumber,
-        title: diagram.title,
-        data: diagram.data as any,
-        commitMessage,
-        createdBy: userId,
-      },
+    // 新しいブランチとバージョンは同じトランザクションで作成する（バージョンを作れなければブランチも残さない）
+    const committed = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const branch = newBranch
+        ? await createBranch({ diagramId, name: newBranch, fromBranchId: diagram.currentBranchId, userId }, tx)
+        : targetBranch;
+      if (newBranch && !branch) return null;
+
+      // 最新のバージョン番号を取得
+      const latestVersion = await tx.diagramVersion.findFirst({
+        where: { diagramId },
+        orderBy: { versionNumber: 'desc' },
+      });
+
+      // 新しいバージョンを作成
+      const version = await tx.diagramVersion.create({
+        data: {
+          diagramId,
+          versionNumber: latestVersion ? latestVersion.versionNumber + 1 : 1,
+          title: diagram.title,
+          data: diagram.data as any,
+          commitMessage,
+          createdBy: userId,
+          branchId: branch?.id ?? null,
+        },
+      });
+
+      // コミットしたブランチを作業中のブランチにする
+      if ((branch?.id ?? null) !== diagram.currentBranchId) {
+        await tx.diagram.update({
+          where: { id: diagramId },
+          data: { currentBranchId: branch?.id ?? null },
+        });
+      }
+
+      return { version, branch };
     });
 
+    if (!committed) {
+      return res.status(409).json({ error: '同じ名前のブランチが既にあります' });
+    }
+    const { version } = committed;
+    targetBranch = committed.branch;
+
+    // 次の自動スナップショットはこのコミットから数える
+    await markSnapshotTaken(diagramId, diagram.version);
+
     // アクティビティログ記録
     await prisma.activityLog.create({
       data: {
@@ -186,8 +475,14 @@ export const createVersion = async (req: AuthRequest, res: Response) => {
         action: 'create_version',
         data: {
           diagramId,
-          versionNumber: newVersionNumber,
+          diagramTitle: diagram.title,
+          versionId: version.id,
+          versionNumber: version.versionNumber,
           commitMessage,
+          branchName: targetBranch?.name ?? MAIN_BRANCH_ID,
+          ...(gate.overrideMessage
+            ? { validationOverride: gate.overrideMessage, validationErrors: gate.validation?.errors.length }
+            : {}),
         },
       },
     });
@@ -238,6 +533,10 @@ export const restoreVersion = async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: 'ロールバック権限がありません' });
     }
 
+    if (diagram.frozenAt) {
+      return res.status(423).json({ error: '凍結中のダイアグラムは編集できません' });
+    }
+
     // バージョン取得
     const version = await prisma.diagramVersion.findUnique({
       where: { id: versionId },
@@ -248,15 +547,22 @@ export const restoreVersion = async (req: AuthRequest, res: Response) => {
     }
 
     // ダイアグラムを更新（ロールバック）
-    const updatedDiagram = await prisma.diagram.update({
-      where: { id: diagramId },
-      data: {
-        title: version.title,
-        data: version.data as any,
-        version: diagram.version + 1, // バージョンカウンターをインクリメント
-      },
+    const result = await replaceDiagramData(diagramId, userId, {
+      title: version.title,
+      data: version.data as any,
     });
 
+    if (result.frozen) {
+      return res.status(423).json({ error: '凍結中のダイアグラムは編集できません' });
+    }
+
+    const { diagram: updatedDiagram, update } = result;
+
+    // リアルタイム同期中のクライアントに差分を配信
+    if (update) {
+      emitCrdtUpdate(projectId, diagramId, update, updatedDiagram.opSeq, updatedDiagram.version);
+    }
+
     // アクティビティログ記録
     await prisma.activityLog.create({
       data: {
@@ -265,6 +571,8 @@ export const restoreVersion = async (req: AuthRequest, res: Response) => {
         action: 'restore_version',
         data: {
           diagramId,
+          diagramTitle: version.title,
+          versionId: version.id,
           restoredFromVersion: version.versionNumber,
         },
       },
@@ -315,6 +623,15 @@ export const deleteVersion = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: 'バージョンが見つかりません' });
     }
 
+    // タグ（ベースライン）の付いたバージョンは提出済みの記録として残す
+    const tagCount = await prisma.diagramVersionTag.count({
+      where: { versionId },
+    });
+
+    if (tagCount > 0) {
+      return res.status(409).json({ error: 'タグが付いたバージョンは削除できません。先にタグを削除してください' });
+    }
+
     // バージョン削除
     await prisma.diagramVersion.delete({
       where: { id: versionId },
@@ -340,3 +657,173 @@ export const deleteVersion = async (req: AuthRequest, res: Response) => {
     return;
   }
 };
+
+const TAG_NAME_MAX_LENGTH = 100;
+const TAG_DESCRIPTION_MAX_LENGTH = 500;
+
+// タグ（ベースライン）の作成
+export const createVersionTag = async (req: AuthRequest, res: Response) => {
+  try {
+    const { diagramId, versionId } = req.params;
+    const { name, description } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: '認証が必要です' });
+    }
+
+    const tagName = typeof name === 'string' ? name.trim() : '';
+    if (!tagName || tagName.length > TAG_NAME_MAX_LENGTH) {
+      return res.status(400).json({ error: 'タグ名が正しくありません' });
+    }
+
+    if (
+      description !== undefined &&
+      description !== null &&
+      (typeof description !== 'string' || description.length > TAG_DESCRIPTION_MAX_LENGTH)
+    ) {
+      return res.status(400).json({ error: '説明が正しくありません' });
+    }
+
+    // ダイアグラムの存在確認
+    const diagram = await prisma.diagram.findUnique({
+      where: { id: diagramId },
+      include: { project: true },
+    });
+
+    if (!diagram) {
+      return res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+    }
+
+    // プロジェクトへのアクセス権確認（editor以上）
+    const projectId = diagram.projectId;
+    const member = await prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: {
+          projectId,
+          userId,
+        },
+      },
+    });
+
+    const isOwner = diagram.project.ownerId === userId;
+    const isEditor = member?.role === 'editor';
+
+    if (!isOwner && !isEditor) {
+      return res.status(403).json({ error: 'タグの作成権限がありません' });
+    }
+
+    const version = await prisma.diagramVersion.findUnique({
+      where: { id: versionId },
+    });
+
+    if (!version || version.diagramId !== diagramId) {
+      return res.status(404).json({ error: 'バージョンが見つかりません' });
+    }
+
+    const existing = await prisma.diagramVersionTag.findUnique({
+      where: { diagramId_name: { diagramId, name: tagName } },
+    });
+
+    if (existing) {
+      return res.status(409).json({ error: '同じ名前のタグが既にあります' });
+    }
+
+    const tag = await prisma.diagramVersionTag.create({
+      data: {
+        diagramId,
+        versionId,
+        name: tagName,
+        description: typeof description === 'string' && description.trim() ? description.trim() : null,
+        createdBy: userId,
+      },
+    });
+
+    // アクティビティログ記録
+    await prisma.activityLog.create({
+      data: {
+        projectId,
+        userId,
+        action: 'create_version_tag',
+        data: {
+          diagramId,
+          diagramTitle: diagram.title,
+          versionId,
+          versionNumber: version.versionNumber,
+          tagName,
+        },
+      },
+    });
+
+    res.status(201).json(tag);
+  } catch (error) {
+    console.error('Error creating version tag:', error);
+    res.status(500).json({ error: 'タグの作成に失敗しました' });
+    return;
+  }
+};
+
+// タグ（ベースライン）の削除
+export const deleteVersionTag = async (req: AuthRequest, res: Response) => {
+  try {
+    const { diagramId, versionId, tagId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: '認証が必要です' });
+    }
+
+    // ダイアグラムの存在確認
+    const diagram = await prisma.diagram.findUnique({
+      where: { id: diagramId },
+      include: { project: true },
+    });
+
+    if (!diagram) {
+      return res.status(404).json({ error: 'ダイアグラムが見つかりません' });
+    }
+
+    // タグはバージョンの削除を防ぐため、外せるのはプロジェクトオーナーのみ
+    const projectId = diagram.projectId;
+    const isOwner = diagram.project.ownerId === userId;
+
+    if (!isOwner) {
+      return res.status(403).json({ error: 'タグの削除はプロジェクトオーナーのみ可能です' });
+    }
+
+    const tag = await prisma.diagramVersionTag.findUnique({
+      where: { id: tagId },
+      include: { version: { select: { versionNumber: true } } },
+    });
+
+    if (!tag || tag.diagramId !== diagramId || tag.versionId !== versionId) {
+      return res.status(404).json({ error: 'タグが見つかりません' });
+    }
+
+    await prisma.diagramVersionTag.delete({
+      where: { id: tagId },
+    });
+
+    // アクティビティログ記録
+    await prisma.activityLog.create({
+      data: {
+        projectId,
+        userId,
+        action: 'delete_version_tag',
+        data: {
+          diagramId,
+          diagramTitle: diagram.title,
+          versionId,
+          versionNumber: tag.version.versionNumber,
+          tagName: tag.name,
+        },
+      },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting version tag:', error);
+    res.status(500).json({ error: 'タグの削除に失敗しました' });
+    return;
+  }
+};
@@ -7,6 +7,8 @@ export const prisma =
   globalForPrisma.prisma ||
   new PrismaClient({
     log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
+    // The CRDT document is only read by the realtime sync service (opt in with select/omit)
+    omit: { diagram: { crdtState: true } },
   });
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
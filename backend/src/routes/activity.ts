@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { authenticate, requireProjectAccess } from '../middleware/auth';
+import { getProjectActivity } from '../controllers/activityController';
+
+const router = Router({ mergeParams: true });
+
+router.use(authenticate);
+router.use(requireProjectAccess('viewer'));
+
+// GET /api/projects/:projectId/activity - アクティビティ一覧（ユーザー・操作・期間で絞り込み、カーソルページング）
+router.get('/', getProjectActivity);
+
+export default router;
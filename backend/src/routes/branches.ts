@@ -0,0 +1,36 @@
+import express from 'express';
+import { authenticate, requireProjectAccess } from '../middleware/auth';
+import {
+  getBranches,
+  createDiagramBranch,
+  checkoutBranch,
+  previewMerge,
+  mergeBranch,
+  deleteBranch,
+} from '../controllers/branchController';
+
+const router = express.Router({ mergeParams: true });
+
+// 全エンドポイントで認証必須
+router.use(authenticate);
+router.use(requireProjectAccess('viewer'));
+
+// GET /api/projects/:projectId/diagrams/:diagramId/branches - ブランチ一覧（main を含む）
+router.get('/', getBranches);
+
+// POST /api/projects/:projectId/diagrams/:diagramId/branches - ブランチ作成
+router.post('/', requireProjectAccess('editor'), createDiagramBranch);
+
+// POST /api/projects/:projectId/diagrams/:diagramId/branches/:branchId/checkout - ブランチへの切り替え
+router.post('/:branchId/checkout', requireProjectAccess('editor'), checkoutBranch);
+
+// GET /api/projects/:projectId/diagrams/:diagramId/branches/:branchId/merge - 作業中のブランチへのマージのプレビュー
+router.get('/:branchId/merge', requireProjectAccess('editor'), previewMerge);
+
+// POST /api/projects/:projectId/diagrams/:diagramId/branches/:branchId/merge - 作業中のブランチへのマージ
+router.post('/:branchId/merge', requireProjectAccess('editor'), mergeBranch);
+
+// DELETE /api/projects/:projectId/diagrams/:diagramId/branches/:branchId - ブランチ削除
+router.delete('/:branchId', requireProjectAccess('editor'), deleteBranch);
+
+export default router;
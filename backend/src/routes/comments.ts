@@ -0,0 +1,28 @@
+import express from 'express';
+import { authenticate, requireProjectAccess } from '../middleware/auth';
+import {
+  getComments,
+  createComment,
+  updateComment,
+  deleteComment,
+} from '../controllers/commentController';
+
+const router = express.Router({ mergeParams: true });
+
+// 全エンドポイントで認証必須
+router.use(authenticate);
+router.use(requireProjectAccess('viewer'));
+
+// GET /api/projects/:projectId/diagrams/:diagramId/comments - コメント一覧取得（?nodeId= で絞り込み）
+router.get('/', getComments);
+
+// POST /api/projects/:projectId/diagrams/:diagramId/comments - コメント・返信の作成
+router.post('/', requireProjectAccess('editor'), createComment);
+
+// PATCH /api/projects/:projectId/diagrams/:diagramId/comments/:commentId - 本文の編集、解決/再オープン
+router.patch('/:commentId', requireProjectAccess('editor'), updateComment);
+
+// DELETE /api/projects/:projectId/diagrams/:diagramId/comments/:commentId - コメント削除（返信も削除）
+router.delete('/:commentId', requireProjectAccess('editor'), deleteComment);
+
+export default router;
@@ -1,13 +1,18 @@
 import { Router } from 'express';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requireProjectAccess } from '../middleware/auth';
 import {
   getDiagrams,
   getDiagram,
   createDiagram,
   updateDiagram,
   deleteDiagram,
+  freezeDiagram,
+  unfreezeDiagram,
+  validateDiagram,
 } from '../controllers/diagramController';
 import versionRoutes from './versions';
+import commentRoutes from './comments';
+import branchRoutes from './branches';
 
 const router = Router({ mergeParams: true }); // Allow access to :projectId from parent router
 
@@ -21,7 +26,20 @@ router.post('/', createDiagram);
 router.put('/:diagramId', updateDiagram);
 router.delete('/:diagramId', deleteDiagram);
 
+// Freeze a diagram (e.g. after submitting a baseline) - owner only
+router.post('/:diagramId/freeze', requireProjectAccess('owner'), freezeDiagram);
+router.delete('/:diagramId/freeze', requireProjectAccess('owner'), unfreezeDiagram);
+
+// Validate the saved diagram with the project's GSN validation rules
+router.post('/:diagramId/validate', requireProjectAccess('viewer'), validateDiagram);
+
 // Version management routes
 router.use('/:diagramId/versions', versionRoutes);
 
+// Branch routes
+router.use('/:diagramId/branches', branchRoutes);
+
+// Comment routes
+router.use('/:diagramId/comments', commentRoutes);
+
 export default router;
@@ -0,0 +1,23 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth';
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+} from '../controllers/notificationController';
+
+const router = express.Router();
+
+// 全エンドポイントで認証必須
+router.use(authenticate);
+
+// GET /api/notifications - 自分宛ての通知一覧（?unread=true で未読のみ）
+router.get('/', getNotifications);
+
+// POST /api/notifications/read-all - すべて既読にする
+router.post('/read-all', markAllNotificationsRead);
+
+// PATCH /api/notifications/:notificationId/read - 既読にする
+router.patch('/:notificationId/read', markNotificationRead);
+
+export default router;
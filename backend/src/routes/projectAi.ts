@@ -7,6 +7,7 @@ import {
   chatWithAi,
   createConversation,
   getConversationMessages,
+  recordAppliedOps,
   uploadAttachment,
 } from '../controllers/projectAiController';
 
@@ -48,5 +49,6 @@ router.post('/conversations', createConversation);
 router.get('/conversations/:conversationId/messages', getConversationMessages);
 router.post('/attachments', upload.single('file'), uploadAttachment);
 router.post('/chat', chatWithAi);
+router.post('/ops-applied', recordAppliedOps);
 
 export default router;
@@ -6,11 +6,13 @@ import {
   createProject,
   updateProject,
   deleteProject,
+  importLegacyDcaseProject,
 } from '../controllers/projectController';
 import diagramRoutes from './diagrams';
 import memberRoutes from './projectMembers';
 import projectSurveyRoutes from './projectSurveys';
 import projectAiRoutes from './projectAi';
+import activityRoutes from './activity';
 
 const router = Router();
 
@@ -21,6 +23,7 @@ router.use(authenticate);
 router.get('/', getProjects);
 router.get('/:projectId', getProject);
 router.post('/', createProject);
+router.post('/import/dcase', importLegacyDcaseProject);
 router.put('/:projectId', updateProject);
 router.delete('/:projectId', deleteProject);
 
@@ -36,4 +39,7 @@ router.use('/:projectId/surveys', projectSurveyRoutes);
 // Nested AI routes
 router.use('/:projectId/ai', projectAiRoutes);
 
+// Nested activity routes
+router.use('/:projectId/activity', activityRoutes);
+
 export default router;
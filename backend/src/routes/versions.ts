@@ -3,9 +3,13 @@ import { authenticate } from '../middleware/auth';
 import {
   getVersions,
   getVersion,
+  diffVersions,
+  getNodeHistory,
   createVersion,
   restoreVersion,
   deleteVersion,
+  createVersionTag,
+  deleteVersionTag,
 } from '../controllers/versionController';
 
 const router = express.Router({ mergeParams: true });
@@ -16,9 +20,15 @@ router.use(authenticate);
 // GET /api/diagrams/:diagramId/versions - バージョン一覧取得
 router.get('/', getVersions);
 
+// GET /api/diagrams/:diagramId/versions/nodes/:nodeId/history - ノード単位の履歴（:versionId より先に定義）
+router.get('/nodes/:nodeId/history', getNodeHistory);
+
 // GET /api/diagrams/:diagramId/versions/:versionId - 特定バージョン取得
 router.get('/:versionId', getVersion);
 
+// GET /api/diagrams/:diagramId/versions/:versionA/diff/:versionB - バージョン間の差分（versionB に current を指定可）
+router.get('/:versionA/diff/:versionB', diffVersions);
+
 // POST /api/diagrams/:diagramId/versions - バージョン作成（コミット）
 router.post('/', createVersion);
 
@@ -28,4 +38,10 @@ router.post('/:versionId/restore', restoreVersion);
 // DELETE /api/diagrams/:diagramId/versions/:versionId - バージョン削除
 router.delete('/:versionId', deleteVersion);
 
+// POST /api/diagrams/:diagramId/versions/:versionId/tags - タグ（ベースライン）作成
+router.post('/:versionId/tags', createVersionTag);
+
+// DELETE /api/diagrams/:diagramId/versions/:versionId/tags/:tagId - タグ削除（オーナーのみ）
+router.delete('/:versionId/tags/:tagId', deleteVersionTag);
+
 export default router;
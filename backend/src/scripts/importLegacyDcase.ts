@@ -0,0 +1,113 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { prisma } from '../db/prisma';
+import { importLegacyDcase } from '../services/legacyDcaseImport';
+
+/**
+ * 旧 D-Case Communicator のエクスポートをプロジェクトとして取り込むコマンド
+ *
+ *   npm run import:dcase -- <ファイルまたはディレクトリ> --owner <メールアドレス> [--title <プロジェクト名>]
+ *
+ * ディレクトリを指定した場合
+ * - dcaseList.json があれば mongoexport の出力として読む（dcaseParts.<dcaseID>.json / dcaseHistory.<dcaseID>.json）
+ * - なければ downloadDCaseJson.php の zip を展開したもの（<dcaseID>.json）として読む
+ */
+
+dotenv.config();
+
+const USAGE = '使い方: npm run import:dcase -- <ファイルまたはディレクトリ> --owner <メールアドレス> [--title <プロジェクト名>]';
+
+// JSON（配列・オブジェクト）と mongoexport の1行1ドキュメント形式の両方を読む
+const readJsonDocuments = (filePath: string): any => {
+  const text = fs.readFileSync(filePath, 'utf8');
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+  }
+};
+
+const asArray = (value: any): any[] => (Array.isArray(value) ? value : [value]);
+
+const readExport = (target: string): unknown => {
+  if (!fs.statSync(target).isDirectory()) {
+    return readJsonDocuments(target);
+  }
+
+  const files = fs.readdirSync(target).filter((name) => name.endsWith('.json'));
+  if (files.includes('dcaseList.json')) {
+    const collection = (prefix: string) =>
+      Object.fromEntries(
+        files
+          .filter((name) => name.startsWith(prefix))
+          .map((name) => [name.slice(prefix.length, -'.json'.length), asArray(readJsonDocuments(path.join(target, name)))])
+      );
+    return {
+      dcaseList: asArray(readJsonDocuments(path.join(target, 'dcaseList.json'))),
+      dcaseParts: collection('dcaseParts.'),
+      dcaseHistory: collection('dcaseHistory.'),
+    };
+  }
+
+  return files.flatMap((name) => asArray(readJsonDocuments(path.join(target, name))));
+};
+
+const parseArgs = (args: string[]) => {
+  const options: { target?: string; owner?: string; title?: string } = {};
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === '--owner') options.owner = args[++index];
+    else if (arg === '--title') options.title = args[++index];
+    else if (!options.target) options.target = arg;
+  }
+  return options;
+};
+
+const main = async () => {
+  const { target, owner, title } = parseArgs(process.argv.slice(2));
+  if (!target || !owner) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const user = await prisma.user.findUnique({ where: { email: owner }, select: { id: true } });
+  if (!user) {
+    console.error(`[importDcase] ユーザーが見つかりません: ${owner}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const imported = await importLegacyDcase(readExport(target), { ownerId: user.id, title });
+  if (!imported) {
+    console.error('[importDcase] エクスポートに D-Case が含まれていません');
+    process.exitCode = 1;
+    return;
+  }
+
+  const { project, report } = imported;
+  console.log(`[importDcase] プロジェクト「${project.title}」を作成しました (${project.id})`);
+  console.log(
+    `[importDcase] ケース ${report.cases}件 → ダイアグラム ${report.diagrams}件, モジュール ${report.modules}件, ` +
+      `ノード ${report.nodes}件, リンク ${report.links}件, バージョン ${report.versions}件`
+  );
+  if (report.unmapped.length > 0) {
+    console.log(`[importDcase] 取り込めなかった要素 ${report.unmapped.length}件:`);
+    for (const element of report.unmapped) {
+      const where = [element.dcaseId, element.partId, element.kind].filter(Boolean).join(' / ');
+      console.log(`  - ${where}: ${element.reason}`);
+    }
+  }
+};
+
+main()
+  .catch((err) => {
+    console.error('[importDcase] 取り込みに失敗しました:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
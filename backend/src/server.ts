@@ -9,11 +9,13 @@ import patternRoutes from './routes/patterns';
 import surveyRoutes from './routes/surveys';
 import surveyPublicRoutes from './routes/surveysPublic';
 import aiRoutes from './routes/ai';
+import notificationRoutes from './routes/notifications';
 import { errorHandler } from './middleware/errorHandler';
 import { setupWebSocket } from './websocket/handlers';
 import { setWebSocketServer } from './websocket/emitter';
 import { requestContext } from './middleware/requestContext';
 import { startAttachmentCleanupScheduler, stopAttachmentCleanupScheduler } from './services/ai/attachmentCleanup';
+import { startAutoSnapshotScheduler, stopAutoSnapshotScheduler } from './services/autoSnapshots';
 
 // Load environment variables
 dotenv.config();
@@ -53,6 +55,7 @@ app.use('/api/patterns', patternRoutes);
 app.use('/api/surveys/public', surveyPublicRoutes);
 app.use('/api/surveys', surveyRoutes);
 app.use('/api/ai', aiRoutes);
+app.use('/api/notifications', notificationRoutes);
 
 // Error handler (must be last)
 app.use(errorHandler);
@@ -73,12 +76,16 @@ httpServer.listen(PORT, HOST, () => {
 
   // Start attachment cleanup scheduler
   startAttachmentCleanupScheduler();
+
+  // Start auto snapshot scheduler
+  startAutoSnapshotScheduler();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
   stopAttachmentCleanupScheduler();
+  stopAutoSnapshotScheduler();
   httpServer.close(() => {
     console.log('HTTP server closed');
   });
@@ -0,0 +1,276 @@
+import { prisma } from '../db/prisma';
+import { getBranchHeadData } from './diagramBranches';
+
+/**
+ * 自動スナップショット（一定間隔・一定回数の保存ごとに作業中の内容をバージョンとして残す）と保持ポリシーによる整理
+ */
+
+export interface SnapshotRetentionPolicy {
+  keepLast: number; // 直近の件数
+  keepDailyDays: number; // 1日1件を残す日数
+  keepWeeklyWeeks: number; // 1週1件を残す週数
+}
+
+// 保持ポリシーに指定できる上限
+export const RETENTION_POLICY_LIMITS: Record<keyof SnapshotRetentionPolicy, { min: number; max: number }> = {
+  keepLast: { min: 1, max: 100 },
+  keepDailyDays: { min: 0, max: 90 },
+  keepWeeklyWeeks: { min: 0, max: 52 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// 自動スナップショットを作るまでの間隔（分）と保存回数（0 で無効）
+// dotenv の読み込みより先にインポートされるため、使うときに環境変数を読む（空文字は未設定として扱う）
+const readNumberEnv = (name: string, fallback: number) => {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+const getSnapshotIntervalMs = () => readNumberEnv('AUTO_SNAPSHOT_INTERVAL_MINUTES', 30) * 60 * 1000;
+const getSnapshotUpdateCount = () => Math.floor(readNumberEnv('AUTO_SNAPSHOT_UPDATE_COUNT', 50));
+
+// スケジューラーの実行間隔（5分ごと）
+const SCHEDULER_INTERVAL_MS = 5 * 60 * 1000;
+
+let schedulerInterval: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * 保持ポリシーに合わない自動スナップショットを返す
+ * 直近 keepLast 件、keepDailyDays 日以内は各日の最新、keepWeeklyWeeks 週以内は各週（月曜始まり）の最新を残す
+ */
+export const selectSnapshotsToPrune = <T extends { id: string; createdAt: Date }>(
+  snapshots: T[],
+  policy: SnapshotRetentionPolicy,
+  now: Date = new Date()
+): T[] => {
+  const sorted = [...snapshots].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const keep = new Set(sorted.slice(0, policy.keepLast).map((snapshot) => snapshot.id));
+  const keptDays = new Set<string>();
+  const keptWeeks = new Set<number>();
+
+  for (const snapshot of sorted) {
+    const time = snapshot.createdAt.getTime();
+    const age = now.getTime() - time;
+
+    if (age < policy.keepDailyDays * DAY_MS) {
+      const day = snapshot.createdAt.toISOString().slice(0, 10);
+      if (!keptDays.has(day)) {
+        keptDays.add(day);
+        keep.add(snapshot.id);
+      }
+    }
+    if (age < policy.keepWeeklyWeeks * WEEK_MS) {
+      // 1970-01-01 は木曜日のため、3日ずらして月曜日で区切る
+      const week = Math.floor((time + 3 * DAY_MS) / WEEK_MS);
+      if (!keptWeeks.has(week)) {
+        keptWeeks.add(week);
+        keep.add(snapshot.id);
+      }
+    }
+  }
+
+  return sorted.filter((snapshot) => !keep.has(snapshot.id));
+};
+
+/**
+ * 保持ポリシーの入力を検証する（指定のない項目は undefined、不正な値があれば null）
+ */
+export const parseRetentionPolicy = (input: Record<string, unknown>): Partial<SnapshotRetentionPolicy> | null => {
+  const policy: Partial<SnapshotRetentionPolicy> = {};
+  for (const key of Object.keys(RETENTION_POLICY_LIMITS) as Array<keyof SnapshotRetentionPolicy>) {
+    const value = input[key];
+    if (value === undefined) continue;
+    const { min, max } = RETENTION_POLICY_LIMITS[key];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      return null;
+    }
+    policy[key] = value;
+  }
+  return policy;
+};
+
+/**
+ * バージョンを作成したことを記録する（コミット・自動スナップショットの両方で呼ぶ）
+ */
+export const markSnapshotTaken = (diagramId: string, diagramVersion: number) =>
+  prisma.diagram.update({
+    where: { id: diagramId },
+    data: { lastSnapshotAt: new Date(), updatesSinceSnapshot: 0, snapshotVersion: diagramVersion },
+  });
+
+/**
+ * 作業中の内容を自動スナップショットとして保存する
+ * 凍結中、または作業中のブランチの最新バージョンと内容が同じ場合は作成しない（null を返す）
+ */
+export const createAutoSnapshot = async (diagramId: string, userId: string | null) => {
+  const diagram = await prisma.diagram.findUnique({
+    where: { id: diagramId },
+    select: { id: true, title: true, data: true, version: true, currentBranchId: true, frozenAt: true },
+  });
+  if (!diagram || diagram.frozenAt) return null;
+
+  const head = await getBranchHeadData(diagram.id, diagram.currentBranchId);
+  if (head && JSON.stringify(head.data) === JSON.stringify(diagram.data)) {
+    await markSnapshotTaken(diagram.id, diagram.version);
+    return null;
+  }
+
+  const latestVersion = await prisma.diagramVersion.findFirst({
+    where: { diagramId },
+    orderBy: { versionNumber: 'desc' },
+    select: { versionNumber: true },
+  });
+
+  const version = await prisma.diagramVersion.create({
+    data: {
+      diagramId,
+      versionNumber: latestVersion ? latestVersion.versionNumber + 1 : 1,
+      title: diagram.title,
+      data: diagram.data as any,
+      commitMessage: null,
+      createdBy: userId,
+      branchId: diagram.currentBranchId,
+      isAuto: true,
+    },
+  });
+  await markSnapshotTaken(diagram.id, diagram.version);
+  return version;
+};
+
+/**
+ * updateDiagram での保存を数え、保存回数か経過時間が設定値に達したら自動スナップショットを作る
+ */
+export const recordDiagramSave = async (diagramId: string, userId: string) => {
+  const diagram = await prisma.diagram.update({
+    where: { id: diagramId },
+    data: { updatesSinceSnapshot: { increment: 1 } },
+    select: { updatesSinceSnapshot: true, lastSnapshotAt: true, createdAt: true },
+  });
+
+  const since = (diagram.lastSnapshotAt ?? diagram.createdAt).getTime();
+  const updateCount = getSnapshotUpdateCount();
+  const intervalMs = getSnapshotIntervalMs();
+  const countReached = updateCount > 0 && diagram.updatesSinceSnapshot >= updateCount;
+  const intervalReached = intervalMs > 0 && Date.now() - since >= intervalMs;
+  if (countReached || intervalReached) {
+    return createAutoSnapshot(diagramId, userId);
+  }
+  return null;
+};
+
+/**
+ * 最後のバージョンから間隔が空き、その後に変更のあるダイアグラムの自動スナップショットを作る
+ * （リアルタイム同期の編集は updateDiagram を通らないため、ここで拾う）
+ */
+export const createDueSnapshots = async (): Promise<number> => {
+  const intervalMs = getSnapshotIntervalMs();
+  if (intervalMs <= 0) return 0;
+
+  const cutoff = new Date(Date.now() - intervalMs);
+  const diagrams: Array<{ id: string; version: number; snapshotVersion: number | null }> =
+    await prisma.diagram.findMany({
+      where: {
+        frozenAt: null,
+        OR: [{ lastSnapshotAt: null, createdAt: { lt: cutoff } }, { lastSnapshotAt: { lt: cutoff } }],
+      },
+      select: { id: true, version: true, snapshotVersion: true },
+    });
+
+  let created = 0;
+  for (const diagram of diagrams.filter((item) => item.version !== item.snapshotVersion)) {
+    try {
+      if (await createAutoSnapshot(diagram.id, null)) created++;
+    } catch (err) {
+      console.error(`[autoSnapshot] スナップショット作成エラー: ${diagram.id}`, err);
+    }
+  }
+  return created;
+};
+
+/**
+ * プロジェクトの保持ポリシーに従って自動スナップショットを削除する
+ * タグの付いたバージョンとブランチの分岐元になっているバージョンは残す
+ */
+export const pruneAutoSnapshots = async (): Promise<number> => {
+  const snapshots: Array<{
+    id: string;
+    diagramId: string;
+    branchId: string | null;
+    createdAt: Date;
+    diagram: { project: { snapshotKeepLast: number; snapshotKeepDailyDays: number; snapshotKeepWeeklyWeeks: number } };
+  }> = await prisma.diagramVersion.findMany({
+    where: { isAuto: true, tags: { none: {} }, branchedFrom: { none: {} } },
+    select: {
+      id: true,
+      diagramId: true,
+      branchId: true,
+      createdAt: true,
+      diagram: {
+        select: {
+          project: { select: { snapshotKeepLast: true, snapshotKeepDailyDays: true, snapshotKeepWeeklyWeeks: true } },
+        },
+      },
+    },
+  });
+
+  // ダイアグラムのブランチごとに整理する
+  const groups = new Map<string, typeof snapshots>();
+  for (const snapshot of snapshots) {
+    const key = `${snapshot.diagramId}:${snapshot.branchId ?? ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), snapshot]);
+  }
+
+  const now = new Date();
+  const pruneIds: string[] = [];
+  for (const group of groups.values()) {
+    const { project } = group[0].diagram;
+    const policy: SnapshotRetentionPolicy = {
+      keepLast: project.snapshotKeepLast,
+      keepDailyDays: project.snapshotKeepDailyDays,
+      keepWeeklyWeeks: project.snapshotKeepWeeklyWeeks,
+    };
+    pruneIds.push(...selectSnapshotsToPrune(group, policy, now).map((snapshot) => snapshot.id));
+  }
+
+  if (pruneIds.length === 0) return 0;
+  const result = await prisma.diagramVersion.deleteMany({ where: { id: { in: pruneIds } } });
+  return result.count;
+};
+
+const runScheduledTasks = async () => {
+  const created = await createDueSnapshots();
+  const pruned = await pruneAutoSnapshots();
+  if (created > 0 || pruned > 0) {
+    console.log(`[autoSnapshot] 自動スナップショット: ${created}件作成, ${pruned}件削除`);
+  }
+};
+
+export const startAutoSnapshotScheduler = (): void => {
+  if (schedulerInterval) {
+    console.log('[autoSnapshot] スケジューラーは既に起動中');
+    return;
+  }
+
+  console.log('[autoSnapshot] 自動スナップショットのスケジューラーを開始');
+
+  runScheduledTasks().catch((err) => {
+    console.error('[autoSnapshot] 初回実行エラー:', err);
+  });
+
+  schedulerInterval = setInterval(() => {
+    runScheduledTasks().catch((err) => {
+      console.error('[autoSnapshot] 定期実行エラー:', err);
+    });
+  }, SCHEDULER_INTERVAL_MS);
+};
+
+export const stopAutoSnapshotScheduler = (): void => {
+  if (schedulerInterval) {
+    clearInterval(schedulerInterval);
+    schedulerInterval = null;
+    console.log('[autoSnapshot] スケジューラーを停止');
+  }
+};
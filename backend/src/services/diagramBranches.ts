@@ -0,0 +1,81 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+
+// main ブランチを表すID（DiagramBranch の行は持たず、branchId が null のバージョンが main の履歴）
+export const MAIN_BRANCH_ID = 'main';
+
+const BRANCH_NAME_MAX_LENGTH = 100;
+
+export const toBranchKey = (branchId: string | null | undefined) => branchId ?? MAIN_BRANCH_ID;
+
+// API の branchId（'main' を含む）を DB の値に変換する
+export const toDbBranchId = (branchId: string) => (branchId === MAIN_BRANCH_ID ? null : branchId);
+
+// ブランチ名の検証（不正な場合は null）
+export const parseBranchName = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const name = value.trim();
+  if (!name || name.length > BRANCH_NAME_MAX_LENGTH || name === MAIN_BRANCH_ID) return null;
+  return name;
+};
+
+/**
+ * ブランチの最新バージョン（コミットがなければ null）
+ */
+export const getBranchHead = (diagramId: string, branchId: string | null) =>
+  prisma.diagramVersion.findFirst({
+    where: { diagramId, branchId },
+    orderBy: { versionNumber: 'desc' },
+  });
+
+/**
+ * ブランチの最新の内容（コミットがなければ分岐元バージョンの内容、どちらもなければ null）
+ */
+export const getBranchHeadData = async (diagramId: string, branchId: string | null) => {
+  const head = await getBranchHead(diagramId, branchId);
+  if (head) return { version: head, data: head.data };
+  if (!branchId) return null;
+
+  const branch = await prisma.diagramBranch.findUnique({
+    where: { id: branchId },
+    include: { baseVersion: true },
+  });
+  return branch?.baseVersion ? { version: branch.baseVersion, data: branch.baseVersion.data } : null;
+};
+
+/**
+ * ブランチを作成する（分岐元を省略した場合は作業中のブランチの最新バージョンから分岐）
+ * 同じ名前のブランチがある場合は null を返す
+ * tx を渡すと、そのトランザクションの中で作成する
+ */
+export const createBranch = async (
+  input: {
+    diagramId: string;
+    name: string;
+    description?: string | null;
+    baseVersionId?: string | null;
+    fromBranchId: string | null;
+    userId: string;
+  },
+  tx: Prisma.TransactionClient = prisma
+) => {
+  const existing = await tx.diagramBranch.findUnique({
+    where: { diagramId_name: { diagramId: input.diagramId, name: input.name } },
+  });
+  if (existing) return null;
+
+  const baseVersionId =
+    input.baseVersionId !== undefined
+      ? input.baseVersionId
+      : (await getBranchHeadData(input.diagramId, input.fromBranchId))?.version.id ?? null;
+
+  return tx.diagramBranch.create({
+    data: {
+      diagramId: input.diagramId,
+      name: input.name,
+      description: input.description ?? null,
+      baseVersionId,
+      createdBy: input.userId,
+    },
+  });
+};
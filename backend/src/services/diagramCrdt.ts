@@ -0,0 +1,180 @@
+import * as Y from 'yjs';
+
+/**
+ * ダイアグラムの CRDT ドキュメント（Yjs）
+ * 構造は gsn-editor/src/services/crdt.ts と同じ:
+ *   modules: Y.Map<moduleId, Y.Map{ title, version, metadata, nodes, links }>
+ *     nodes: Y.Map<nodeId, Y.Map<field>>  … content は Y.Text
+ *     links: Y.Map<linkId, Y.Map<field>>
+ *   meta: Y.Map{ labelCounters }
+ */
+
+const NODE_TEXT_FIELD = 'content';
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// 旧形式（nodes/links 直下）のデータを modules 形式に揃える
+export const normalizeDiagramData = (data: any) => {
+  if (data && typeof data === 'object' && data.modules && typeof data.modules === 'object') {
+    return { ...data, modules: { ...data.modules } };
+  }
+
+  const root = data && typeof data === 'object' ? data : {};
+  return {
+    version: '1.0.0',
+    currentDiagramId: 'root',
+    modules: {
+      root: {
+        ...root,
+        nodes: Array.isArray(root.nodes) ? root.nodes : [],
+        links: Array.isArray(root.links) ? root.links : [],
+      },
+    },
+  };
+};
+
+const setField = (ymap: Y.Map<any>, key: string, value: unknown) => {
+  if (value === undefined) {
+    if (ymap.has(key)) ymap.delete(key);
+    return;
+  }
+  if (!isSame(ymap.get(key), value)) {
+    ymap.set(key, value);
+  }
+};
+
+// 本文は変わった範囲（共通の先頭・末尾を除いた部分）だけを置き換える
+const writeText = (ytext: Y.Text, next: string) => {
+  const current = ytext.toString();
+  if (current === next) return;
+
+  const max = Math.min(current.length, next.length);
+  let start = 0;
+  while (start < max && current[start] === next[start]) start++;
+  let end = 0;
+  while (end < max - start && current[current.length - 1 - end] === next[next.length - 1 - end]) end++;
+
+  const deleteCount = current.length - start - end;
+  if (deleteCount > 0) ytext.delete(start, deleteCount);
+  const insert = next.slice(start, next.length - end);
+  if (insert) ytext.insert(start, insert);
+};
+
+const writeFields = (yitem: Y.Map<any>, item: any, textField?: string) => {
+  const fields = Object.entries(item ?? {}).filter(([, value]) => value !== undefined);
+  const keys = new Set(fields.map(([key]) => key));
+
+  Array.from(yitem.keys()).forEach((key) => {
+    if (!keys.has(key)) yitem.delete(key);
+  });
+
+  fields.forEach(([key, value]) => {
+    if (key === textField) {
+      const text = typeof value === 'string' ? value : '';
+      const existing = yitem.get(key);
+      if (existing instanceof Y.Text) {
+        writeText(existing, text);
+      } else {
+        yitem.set(key, new Y.Text(text));
+      }
+      return;
+    }
+    setField(yitem, key, value);
+  });
+};
+
+const ensureMap = (parent: Y.Map<any>, key: string): Y.Map<any> => {
+  const existing = parent.get(key);
+  if (existing instanceof Y.Map) return existing;
+  const created = new Y.Map<any>();
+  parent.set(key, created);
+  return created;
+};
+
+const writeItems = (ymap: Y.Map<any>, items: any[], textField?: string) => {
+  const valid = items.filter((item) => item && typeof item.id === 'string');
+  const ids = new Set(valid.map((item) => item.id));
+  Array.from(ymap.keys()).forEach((id) => {
+    if (!ids.has(id)) ymap.delete(id);
+  });
+  valid.forEach((item) => writeFields(ensureMap(ymap, item.id), item, textField));
+};
+
+/**
+ * ダイアグラムデータとドキュメントの差分だけをドキュメントに書き込む
+ */
+export const writeDataToDoc = (doc: Y.Doc, data: any) => {
+  const normalized = normalizeDiagramData(data);
+
+  doc.transact(() => {
+    const modules = doc.getMap<any>('modules');
+    Array.from(modules.keys()).forEach((moduleId) => {
+      if (!normalized.modules[moduleId]) modules.delete(moduleId);
+    });
+
+    Object.entries<any>(normalized.modules).forEach(([moduleId, diagram]) => {
+      const ymodule = ensureMap(modules, moduleId);
+      setField(ymodule, 'title', diagram?.title);
+      setField(ymodule, 'version', diagram?.version);
+      setField(ymodule, 'metadata', diagram?.metadata);
+      writeItems(ensureMap(ymodule, 'nodes'), Array.isArray(diagram?.nodes) ? diagram.nodes : [], NODE_TEXT_FIELD);
+      writeItems(ensureMap(ymodule, 'links'), Array.isArray(diagram?.links) ? diagram.links : []);
+    });
+
+    setField(doc.getMap<any>('meta'), 'labelCounters', normalized.labelCounters);
+  });
+};
+
+// 既存の並び順を保ち、新しい要素は末尾に追加する
+const orderItems = (items: Record<string, any>, previous: any[] = []) => {
+  const ordered = previous.filter((item) => item && items[item.id]).map((item) => items[item.id]);
+  const known = new Set(ordered.map((item) => item.id));
+  Object.values(items).forEach((item) => {
+    if (!known.has(item.id)) ordered.push(item);
+  });
+  return ordered;
+};
+
+/**
+ * ドキュメントの内容を Diagram.data の形式に戻す
+ * ドキュメントに含まれない項目（currentDiagramId など）は previousData から引き継ぐ
+ */
+export const readDataFromDoc = (doc: Y.Doc, previousData: any) => {
+  const previous = normalizeDiagramData(previousData);
+  const rawModules = doc.getMap<any>('modules').toJSON() as Record<string, any>;
+
+  const modules: Record<string, any> = {};
+  Object.entries(rawModules).forEach(([moduleId, raw]) => {
+    const previousModule = previous.modules[moduleId];
+    modules[moduleId] = {
+      ...raw,
+      nodes: orderItems(raw.nodes || {}, previousModule?.nodes),
+      links: orderItems(raw.links || {}, previousModule?.links),
+    };
+  });
+
+  const labelCounters = doc.getMap<any>('meta').get('labelCounters');
+
+  return {
+    ...previous,
+    currentDiagramId: modules[previous.currentDiagramId] ? previous.currentDiagramId : 'root',
+    modules,
+    ...(labelCounters !== undefined && { labelCounters }),
+  };
+};
+
+/**
+ * 保存済みの状態からドキュメントを復元する
+ * 状態がまだない（CRDT 導入前の）ダイアグラムは Diagram.data から初期化する
+ */
+export const loadDiagramDoc = (crdtState: Uint8Array | null, data: any) => {
+  const doc = new Y.Doc();
+  if (crdtState) {
+    Y.applyUpdate(doc, crdtState);
+  } else {
+    writeDataToDoc(doc, data);
+  }
+  return { doc, initialized: !crdtState };
+};
+
+export const encodeDocState = (doc: Y.Doc) => Buffer.from(Y.encodeStateAsUpdate(doc));
@@ -0,0 +1,254 @@
+import { normalizeDiagramData } from './diagramCrdt';
+
+/**
+ * 2つのダイアグラムデータ（Diagram.data / DiagramVersion.data）の差分
+ * ノード・リンクは ID で対応付け、モジュールごとに追加・削除・変更を集計する
+ */
+
+export type TextSegment = { type: 'equal' | 'insert' | 'delete'; text: string };
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface NodeDiff {
+  id: string;
+  label: string | null;
+  type: string | null;
+  before: any;
+  after: any;
+  changes: FieldChange[];
+  contentDiff: TextSegment[] | null; // 本文（タグを除いたテキスト）の差分
+  moved: { from: { x: number; y: number }; to: { x: number; y: number } } | null;
+}
+
+export interface LinkDiff {
+  id: string;
+  before: any;
+  after: any;
+  changes: FieldChange[];
+}
+
+export interface ModuleDiff {
+  moduleId: string;
+  title: string | null;
+  status: 'added' | 'removed' | 'modified';
+  titleChange: { before: string | null; after: string | null } | null;
+  nodes: { added: any[]; removed: any[]; modified: NodeDiff[] };
+  links: { added: any[]; removed: any[]; modified: LinkDiff[] };
+}
+
+export interface DiagramDiffSummary {
+  nodesAdded: number;
+  nodesRemoved: number;
+  nodesModified: number;
+  linksAdded: number;
+  linksRemoved: number;
+  linksModified: number;
+}
+
+// この距離未満の位置の変化は移動として扱わない
+const MOVE_THRESHOLD = 1;
+// LCS の表がこのサイズを超える場合は、変化した範囲をまとめて置き換えとして扱う
+const MAX_DIFF_CELLS = 4_000_000;
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const stripTags = (value: unknown) => (typeof value === 'string' ? value.replace(/<[^>]*>/g, '').trim() : '');
+
+// 英数字は単語単位、それ以外（日本語など）は1文字単位で比較する
+const tokenize = (text: string) => text.match(/\s+|[A-Za-z0-9_]+|[\s\S]/gu) ?? [];
+
+const pushSegment = (segments: TextSegment[], type: TextSegment['type'], text: string) => {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/**
+ * テキストの差分（共通の先頭・末尾を除いた範囲をトークン単位の LCS で比較）
+ */
+export const diffText = (before: string, after: string): TextSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const segments: TextSegment[] = [];
+  pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, a.length - end);
+  const midB = b.slice(start, b.length - end);
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_DIFF_CELLS) {
+    pushSegment(segments, 'delete', midA.join(''));
+    pushSegment(segments, 'insert', midB.join(''));
+  } else {
+    // lcs[i][j] = midA[i..] と midB[j..] の最長共通部分列の長さ
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        pushSegment(segments, 'delete', midA[i]);
+        i++;
+      } else {
+        pushSegment(segments, 'insert', midB[j]);
+        j++;
+      }
+    }
+    pushSegment(segments, 'delete', midA.slice(i).join(''));
+    pushSegment(segments, 'insert', midB.slice(j).join(''));
+  }
+
+  pushSegment(segments, 'equal', a.slice(a.length - end).join(''));
+  return segments;
+};
+
+// 指定したキー以外のフィールドの変更を列挙する
+const diffFields = (before: any, after: any, ignore: string[]): FieldChange[] => {
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  return Array.from(keys)
+    .filter((key) => !ignore.includes(key) && !isSame(before?.[key], after?.[key]))
+    .map((field) => ({ field, before: before?.[field] ?? null, after: after?.[field] ?? null }));
+};
+
+const diffNode = (before: any, after: any): NodeDiff | null => {
+  const changes = diffFields(before, after, ['id', 'position']);
+
+  const beforeText = stripTags(before.content);
+  const afterText = stripTags(after.content);
+  const contentDiff = beforeText !== afterText ? diffText(beforeText, afterText) : null;
+
+  const from = before.position ?? { x: 0, y: 0 };
+  const to = after.position ?? { x: 0, y: 0 };
+  const moved =
+    Math.abs((from.x ?? 0) - (to.x ?? 0)) >= MOVE_THRESHOLD || Math.abs((from.y ?? 0) - (to.y ?? 0)) >= MOVE_THRESHOLD
+      ? { from, to }
+      : null;
+
+  if (changes.length === 0 && !moved) return null;
+
+  return {
+    id: after.id,
+    label: after.label ?? before.label ?? null,
+    type: after.type ?? before.type ?? null,
+    before,
+    after,
+    changes,
+    contentDiff,
+    moved,
+  };
+};
+
+const diffLink = (before: any, after: any): LinkDiff | null => {
+  const changes = diffFields(before, after, ['id']);
+  return changes.length > 0 ? { id: after.id, before, after, changes } : null;
+};
+
+const indexById = (items: unknown): Map<string, any> => {
+  const map = new Map<string, any>();
+  if (Array.isArray(items)) {
+    items.forEach((item) => {
+      if (item && typeof item.id === 'string') map.set(item.id, item);
+    });
+  }
+  return map;
+};
+
+const diffItems = <T>(before: unknown, after: unknown, diffItem: (a: any, b: any) => T | null) => {
+  const beforeItems = indexById(before);
+  const afterItems = indexById(after);
+  const added: any[] = [];
+  const removed: any[] = [];
+  const modified: T[] = [];
+
+  afterItems.forEach((item, id) => {
+    const previous = beforeItems.get(id);
+    if (!previous) {
+      added.push(item);
+      return;
+    }
+    const change = diffItem(previous, item);
+    if (change) modified.push(change);
+  });
+  beforeItems.forEach((item, id) => {
+    if (!afterItems.has(id)) removed.push(item);
+  });
+
+  return { added, removed, modified };
+};
+
+/**
+ * before → after の差分を計算する
+ */
+export const diffDiagramData = (beforeData: any, afterData: any) => {
+  const before = normalizeDiagramData(beforeData);
+  const after = normalizeDiagramData(afterData);
+  const moduleIds = Array.from(new Set([...Object.keys(after.modules), ...Object.keys(before.modules)]));
+
+  const modules: ModuleDiff[] = [];
+  moduleIds.forEach((moduleId) => {
+    const previous = before.modules[moduleId];
+    const next = after.modules[moduleId];
+    const nodes = diffItems(previous?.nodes, next?.nodes, diffNode);
+    const links = diffItems(previous?.links, next?.links, diffLink);
+
+    const previousTitle = typeof previous?.title === 'string' ? previous.title : null;
+    const nextTitle = typeof next?.title === 'string' ? next.title : null;
+    const titleChange = previous && next && previousTitle !== nextTitle ? { before: previousTitle, after: nextTitle } : null;
+
+    const hasChanges =
+      titleChange ||
+      [nodes.added, nodes.removed, nodes.modified, links.added, links.removed, links.modified].some(
+        (list) => list.length > 0
+      );
+    if (!hasChanges && previous && next) return;
+
+    modules.push({
+      moduleId,
+      title: nextTitle ?? previousTitle,
+      status: !previous ? 'added' : !next ? 'removed' : 'modified',
+      titleChange,
+      nodes,
+      links,
+    });
+  });
+
+  const summary: DiagramDiffSummary = modules.reduce(
+    (total, module) => ({
+      nodesAdded: total.nodesAdded + module.nodes.added.length,
+      nodesRemoved: total.nodesRemoved + module.nodes.removed.length,
+      nodesModified: total.nodesModified + module.nodes.modified.length,
+      linksAdded: total.linksAdded + module.links.added.length,
+      linksRemoved: total.linksRemoved + module.links.removed.length,
+      linksModified: total.linksModified + module.links.modified.length,
+    }),
+    { nodesAdded: 0, nodesRemoved: 0, nodesModified: 0, linksAdded: 0, linksRemoved: 0, linksModified: 0 }
+  );
+
+  return { modules, summary };
+};
@@ -0,0 +1,21 @@
+import { normalizeDiagramData } from './diagramCrdt';
+import { mergeProjectData, type MergeResolution } from '../../../shared/diagramMerge';
+
+export type { MergeConflict, MergeResolution, MergeSummary } from '../../../shared/diagramMerge';
+
+/**
+ * ダイアグラムデータの3方向マージ（ブランチのマージで使用）
+ * 保存形式の違い（モジュールのない旧形式など）を揃えてから共有のマージ処理に渡す
+ */
+export const mergeDiagramData = (
+  baseData: any,
+  oursData: any,
+  theirsData: any,
+  resolutions: Record<string, MergeResolution> = {}
+) =>
+  mergeProjectData(
+    baseData ? normalizeDiagramData(baseData) : null,
+    normalizeDiagramData(oursData),
+    normalizeDiagramData(theirsData),
+    resolutions
+  );
@@ -0,0 +1,208 @@
+import * as Y from 'yjs';
+import { prisma } from '../db/prisma';
+import { encodeDocState, loadDiagramDoc, readDataFromDoc, writeDataToDoc } from './diagramCrdt';
+
+// CRDT ドキュメントへの更新を示す操作（payload.update に Yjs の更新を base64 で保持）
+export const CRDT_UPDATE_OPERATION = 'crdt_update';
+
+export interface CrdtUpdateInput {
+  diagramId: string;
+  projectId: string;
+  userId: string;
+  update: Uint8Array;
+}
+
+export interface AppliedCrdtUpdate {
+  seq: number;
+  version: number;
+  // ドキュメントが変化しなかった場合は false（操作ログにも記録しない）
+  changed: boolean;
+  // 凍結中のダイアグラムのため適用しなかった
+  frozen?: boolean;
+}
+
+// ダイアグラムごとに更新を直列化する（read-modify-write の競合防止）
+const diagramQueues = new Map<string, Promise<unknown>>();
+
+const enqueue = <T>(diagramId: string, task: () => Promise<T>): Promise<T> => {
+  const previous = diagramQueues.get(diagramId) ?? Promise.resolve();
+  const result = previous.catch(() => undefined).then(task);
+  const tail = result.catch(() => undefined);
+  diagramQueues.set(diagramId, tail);
+  tail.then(() => {
+    if (diagramQueues.get(diagramId) === tail) {
+      diagramQueues.delete(diagramId);
+    }
+  });
+  return result;
+};
+
+// ルートモジュールのタイトルをダイアグラムのタイトルとして扱う
+const getRootTitle = (data: any): string | undefined => {
+  const title = data?.modules?.root?.title;
+  return typeof title === 'string' && title ? title : undefined;
+};
+
+/**
+ * CRDT の更新をドキュメントに適用し、Diagram.data と操作ログに反映する
+ * ダイアグラムが見つからない場合は null を返す
+ */
+export const applyCrdtUpdate = (input: CrdtUpdateInput): Promise<AppliedCrdtUpdate | null> =>
+  enqueue(input.diagramId, async () => {
+    const diagram = await prisma.diagram.findUnique({
+      where: { id: input.diagramId },
+      select: { id: true, projectId: true, data: true, crdtState: true, opSeq: true, version: true, frozenAt: true },
+    });
+
+    if (!diagram || diagram.projectId !== input.projectId) {
+      return null;
+    }
+
+    if (diagram.frozenAt) {
+      return { seq: diagram.opSeq, version: diagram.version, changed: false, frozen: true };
+    }
+
+    const { doc } = loadDiagramDoc(diagram.crdtState, diagram.data);
+    try {
+      const before = encodeDocState(doc);
+      Y.applyUpdate(doc, input.update);
+      const state = encodeDocState(doc);
+
+      if (diagram.crdtState && before.equals(state)) {
+        return { seq: diagram.opSeq, version: diagram.version, changed: false };
+      }
+
+      const seq = diagram.opSeq + 1;
+      const data = readDataFromDoc(doc, diagram.data);
+      const title = getRootTitle(data);
+
+      const [updated] = await prisma.$transaction([
+        prisma.diagram.update({
+          where: { id: diagram.id },
+          data: {
+            ...(title && { title }),
+            data,
+            crdtState: state,
+            opSeq: seq,
+            version: { increment: 1 },
+          },
+          select: { version: true },
+        }),
+        prisma.diagramOperation.create({
+          data: {
+            diagramId: diagram.id,
+            seq,
+            type: CRDT_UPDATE_OPERATION,
+            payload: { update: Buffer.from(input.update).toString('base64') },
+            userId: input.userId,
+          },
+        }),
+      ]);
+
+      return { seq, version: updated.version, changed: true };
+    } finally {
+      doc.destroy();
+    }
+  });
+
+/**
+ * クライアントの状態ベクトルに対する差分と、サーバーの状態ベクトルを返す
+ * ドキュメント未作成のダイアグラムはここで Diagram.data から初期化する（初期化はサーバーだけが行う）
+ */
+export const getCrdtSync = (diagramId: string, projectId: string, stateVector?: Uint8Array) =>
+  enqueue(diagramId, async () => {
+    const diagram = await prisma.diagram.findUnique({
+      where: { id: diagramId },
+      select: { id: true, projectId: true, data: true, crdtState: true, opSeq: true, version: true },
+    });
+
+    if (!diagram || diagram.projectId !== projectId) {
+      return null;
+    }
+
+    const { doc, initialized } = loadDiagramDoc(diagram.crdtState, diagram.data);
+    try {
+      if (initialized) {
+        await prisma.diagram.update({
+          where: { id: diagram.id },
+          data: { crdtState: encodeDocState(doc) },
+        });
+      }
+
+      return {
+        update: Buffer.from(Y.encodeStateAsUpdate(doc, stateVector)),
+        stateVector: Buffer.from(Y.encodeStateVector(doc)),
+        seq: diagram.opSeq,
+        version: diagram.version,
+      };
+    } finally {
+      doc.destroy();
+    }
+  });
+
+/**
+ * PUT による全体保存を更新と同じキューで適用する
+ * 新しいデータとの差分を CRDT の更新として記録し、接続中のクライアントに配信できるよう返す
+ * 凍結中のダイアグラムは更新せず frozen を、expectedVersion が現在のバージョンと異なる場合は conflict を返す
+ * currentBranchId を指定すると、作業中のブランチも同じ更新で切り替える
+ */
+export const replaceDiagramData = (
+  diagramId: string,
+  userId: string,
+  updates: { title?: string; data?: any; currentBranchId?: string | null },
+  expectedVersion?: number
+) =>
+  enqueue(diagramId, async () => {
+    const current = await prisma.diagram.findUniqueOrThrow({
+      where: { id: diagramId },
+      omit: { crdtState: false },
+    });
+
+    const { crdtState: _crdtState, ...serverDiagram } = current;
+
+    // キューに入っている間に凍結された場合も書き込まない
+    if (current.frozenAt) {
+      return { conflict: false as const, frozen: true as const, diagram: serverDiagram };
+    }
+
+    if (expectedVersion !== undefined && current.version !== expectedVersion) {
+      return { conflict: true as const, diagram: serverDiagram };
+    }
+
+    const seq = current.opSeq + 1;
+    const { doc } = loadDiagramDoc(current.crdtState, current.data);
+    try {
+      const stateVector = Y.encodeStateVector(doc);
+      if (updates.data !== undefined) {
+        writeDataToDoc(doc, updates.data);
+      }
+      const update = Y.encodeStateAsUpdate(doc, stateVector);
+
+      const [diagram] = await prisma.$transaction([
+        prisma.diagram.update({
+          where: { id: diagramId },
+          data: {
+            ...(updates.title !== undefined && { title: updates.title }),
+            ...(updates.data !== undefined && { data: updates.data }),
+            ...(updates.currentBranchId !== undefined && { currentBranchId: updates.currentBranchId }),
+            crdtState: encodeDocState(doc),
+            opSeq: seq,
+            version: { increment: 1 },
+          },
+        }),
+        prisma.diagramOperation.create({
+          data: {
+            diagramId,
+            seq,
+            type: CRDT_UPDATE_OPERATION,
+            payload: { update: Buffer.from(update).toString('base64') },
+            userId,
+          },
+        }),
+      ]);
+
+      return { conflict: false as const, diagram, update };
+    } finally {
+      doc.destroy();
+    }
+  });
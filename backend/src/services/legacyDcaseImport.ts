@@ -0,0 +1,631 @@
+import { randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+
+/**
+ * 旧 D-Case Communicator（AngularJS + MongoDB 版）のエクスポートを取り込む
+ *
+ * 受け付ける形式
+ * - Mongo のダンプ: { dcaseList: [...], dcaseParts: { <dcaseID>: [...] }, dcaseHistory: { <dcaseID>: [...] } }
+ * - downloadDCaseJson.php の zip に含まれる <dcaseID>.json（root にパーツの木）
+ * - 上記のケースを並べた配列、または { cases: [...] }（各ケースに parts / partsList / root / history を直接持たせてもよい）
+ *
+ * 親ケースを持たないケースごとに1つのダイアグラムを作り、External パーツから作られた子ケースはモジュールとして取り込む
+ */
+
+type NodeType = 'Goal' | 'Strategy' | 'Context' | 'Evidence' | 'Assumption' | 'Justification' | 'Undeveloped' | 'Module';
+
+interface ImportedNode {
+  id: string;
+  type: NodeType;
+  position: { x: number; y: number };
+  size: { width: number; height: number };
+  content: string;
+  label: string;
+  moduleId?: string;
+  moduleName?: string;
+}
+
+interface ImportedLink {
+  id: string;
+  source: string;
+  target: string;
+  type: 'solid' | 'dashed';
+}
+
+interface ImportedModule {
+  version: string;
+  title: string;
+  nodes: ImportedNode[];
+  links: ImportedLink[];
+  metadata: { createdAt: string; updatedAt: string; id: string; parentModuleId?: string; isModule: boolean };
+}
+
+export interface ImportedProjectData {
+  version: string;
+  currentDiagramId: string;
+  modules: Record<string, ImportedModule>;
+  labelCounters: Record<NodeType, number>;
+  exportedAt: string;
+}
+
+export interface UnmappedElement {
+  dcaseId: string;
+  partId?: string;
+  kind?: string;
+  reason: string;
+}
+
+export interface ConvertedVersion {
+  data: ImportedProjectData;
+  commitMessage: string | null;
+  createdAt: Date;
+}
+
+export interface ConvertedDiagram {
+  dcaseId: string;
+  title: string;
+  data: ImportedProjectData;
+  versions: ConvertedVersion[];
+}
+
+export interface LegacyImportReport {
+  cases: number;
+  diagrams: number;
+  modules: number;
+  nodes: number;
+  links: number;
+  versions: number;
+  unmapped: UnmappedElement[];
+}
+
+interface LegacyPart {
+  id: string;
+  parent: string;
+  children: string[];
+  kind: string;
+  detail: string;
+  label?: string;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+}
+
+interface LegacySnapshot {
+  time: number; // YYYYMMDDHHmmss（日本時間）
+  message: string | null;
+  parts: LegacyPart[];
+}
+
+interface LegacyCase {
+  dcaseId: string;
+  title: string;
+  parentDcaseId: string;
+  parentPartsId: string;
+  parts: LegacyPart[];
+  history: LegacySnapshot[];
+}
+
+// 旧エディタのパーツ種別と GSN ノードタイプの対応（Monitor は実行時の証拠として Evidence に寄せる）
+const KIND_MAP: Record<string, NodeType> = {
+  Goal: 'Goal',
+  Plan: 'Strategy',
+  Suppose: 'Context',
+  Evidence: 'Evidence',
+  Monitor: 'Evidence',
+  Unachieved: 'Undeveloped',
+  Assumption: 'Assumption',
+  Justification: 'Justification',
+  External: 'Module',
+};
+
+// 親からコンテキスト系ノードへのリンクは破線
+const CONTEXT_TYPES = new Set<NodeType>(['Context', 'Assumption', 'Justification']);
+
+const LABEL_PREFIXES: Record<NodeType, string> = {
+  Goal: 'G',
+  Strategy: 'S',
+  Context: 'C',
+  Evidence: 'E',
+  Assumption: 'A',
+  Justification: 'J',
+  Undeveloped: 'U',
+  Module: 'M',
+};
+
+const DEFAULT_SIZE = { width: 180, height: 120 };
+const LAYOUT_GAP_X = 40;
+const LAYOUT_GAP_Y = 80;
+
+const PARTS_PREFIX = 'Parts_';
+
+// 履歴の多いケースでも既定の 5 秒で打ち切られないようにする
+const IMPORT_TRANSACTION_TIMEOUT_MS = 60_000;
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : value == null ? '' : String(value));
+
+const asNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+// Mongo 上の ID には "Parts_" が付き、exportDCase.php の出力では外されている
+const normalizePartId = (value: unknown): string => {
+  const id = asString(value);
+  return id.startsWith(PARTS_PREFIX) ? id.slice(PARTS_PREFIX.length) : id;
+};
+
+const createEmptyCounters = (): Record<NodeType, number> => ({
+  Goal: 0,
+  Strategy: 0,
+  Context: 0,
+  Evidence: 0,
+  Assumption: 0,
+  Justification: 0,
+  Undeveloped: 0,
+  Module: 0,
+});
+
+/**
+ * 旧エディタのタイムスタンプ（YYYYMMDDHHmmss、日本時間）を Date に変換する
+ */
+export const parseLegacyTimestamp = (value: unknown): Date | null => {
+  const text = asString(value);
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(text);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hour - 9, minute, second));
+};
+
+// フラットなパーツ（Mongo / exportDCase.php）を読む
+const readFlatPart = (raw: any): LegacyPart | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const id = normalizePartId(raw.id ?? raw.partsID);
+  if (!id) return null;
+  const children = raw.childrenID ?? raw.children ?? [];
+  return {
+    id,
+    parent: normalizePartId(raw.parent ?? raw.parentID),
+    children: Array.isArray(children) ? children.map(normalizePartId).filter(Boolean) : [],
+    kind: asString(raw.kind) || 'error',
+    detail: asString(raw.detail),
+    label: asString(raw.label) || undefined,
+    x: asNumber(raw.x),
+    y: asNumber(raw.y),
+    width: asNumber(raw.width),
+    height: asNumber(raw.height),
+  };
+};
+
+// downloadDCaseJson.php の木（childlen は元のつづりのまま）を平らにする
+const flattenPartTree = (roots: any[], parentId = ''): LegacyPart[] =>
+  roots.flatMap((raw) => {
+    const part = readFlatPart({ ...raw, parent: parentId, children: undefined, childrenID: undefined });
+    if (!part) return [];
+    const children: any[] = Array.isArray(raw.childlen) ? raw.childlen : Array.isArray(raw.children) ? raw.children : [];
+    part.children = children.map((child) => normalizePartId(child?.id ?? child)).filter(Boolean);
+    return [part, ...flattenPartTree(children.filter((child) => child && typeof child === 'object'), part.id)];
+  });
+
+const readParts = (raw: any): LegacyPart[] => {
+  if (Array.isArray(raw?.parts)) return raw.parts.map(readFlatPart).filter(Boolean) as LegacyPart[];
+  if (Array.isArray(raw?.partsList)) return raw.partsList.map(readFlatPart).filter(Boolean) as LegacyPart[];
+  if (Array.isArray(raw?.root)) return flattenPartTree(raw.root);
+  return [];
+};
+
+// dcaseHistory のドキュメント（コミット時点の dcaseInfo とパーツ全体）を読む
+const readSnapshot = (raw: any): LegacySnapshot | null => {
+  const time = Number(raw?.snapshotTime ?? raw?.updateDay ?? raw?.commitTime);
+  if (!Number.isFinite(time) || !parseLegacyTimestamp(time)) return null;
+  const commitLog: any[] = Array.isArray(raw.commitLog) ? raw.commitLog : [];
+  const entry = commitLog.find((log) => Number(log?.date) === time) ?? commitLog[commitLog.length - 1];
+  return { time, message: asString(entry?.msg) || null, parts: readParts(raw) };
+};
+
+const readCase = (raw: any, extraParts?: any[], extraHistory?: any[]): LegacyCase | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const dcaseId = asString(raw.dcaseID ?? raw.dcaseId);
+  if (!dcaseId) return null;
+  const parts = readParts(extraParts ? { parts: extraParts } : raw);
+  const history = (extraHistory ?? raw.history ?? [])
+    .map(readSnapshot)
+    .filter(Boolean)
+    .sort((a: LegacySnapshot, b: LegacySnapshot) => a.time - b.time) as LegacySnapshot[];
+  return {
+    dcaseId,
+    title: asString(raw.title) || dcaseId,
+    parentDcaseId: asString(raw.parentDcaseID ?? raw.parentDcaseId),
+    parentPartsId: normalizePartId(raw.parentPartsID ?? raw.parentPartsId),
+    parts,
+    history,
+  };
+};
+
+/**
+ * エクスポートの形式を判別してケースの一覧にする
+ */
+export const readLegacyCases = (input: unknown): LegacyCase[] => {
+  const data = input as any;
+  if (Array.isArray(data)) return data.map((item) => readCase(item)).filter(Boolean) as LegacyCase[];
+  if (!data || typeof data !== 'object') return [];
+
+  if (Array.isArray(data.dcaseList)) {
+    const partsById = data.dcaseParts && typeof data.dcaseParts === 'object' ? data.dcaseParts : {};
+    const historyById = data.dcaseHistory && typeof data.dcaseHistory === 'object' ? data.dcaseHistory : {};
+    return data.dcaseList
+      .map((item: any) => {
+        const id = asString(item?.dcaseID);
+        const parts = Array.isArray(partsById[id]) ? partsById[id] : undefined;
+        const history = Array.isArray(historyById[id]) ? historyById[id] : undefined;
+        return readCase(item, parts, history);
+      })
+      .filter(Boolean) as LegacyCase[];
+  }
+  if (Array.isArray(data.cases)) return readLegacyCases(data.cases);
+
+  const single = readCase(data);
+  return single ? [single] : [];
+};
+
+// 位置のないパーツを親から下に向かう木として並べる
+const layoutTree = (nodes: ImportedNode[], links: ImportedLink[]) => {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const children = new Map<string, string[]>();
+  const hasParent = new Set<string>();
+  for (const link of links) {
+    children.set(link.source, [...(children.get(link.source) ?? []), link.target]);
+    hasParent.add(link.target);
+  }
+
+  const placed = new Set<string>();
+  let nextX = 0;
+  const place = (id: string, depth: number): number => {
+    const node = byId.get(id)!;
+    placed.add(id);
+    const childIds = (children.get(id) ?? []).filter((childId) => !placed.has(childId));
+    node.position = { x: 0, y: depth * (DEFAULT_SIZE.height + LAYOUT_GAP_Y) };
+    if (childIds.length === 0) {
+      node.position.x = nextX;
+      nextX += node.size.width + LAYOUT_GAP_X;
+      return node.position.x;
+    }
+    const centers = childIds.map((childId) => place(childId, depth + 1));
+    node.position.x = (centers[0] + centers[centers.length - 1]) / 2;
+    return node.position.x;
+  };
+
+  for (const node of nodes) {
+    if (!hasParent.has(node.id) && !placed.has(node.id)) place(node.id, 0);
+  }
+  for (const node of nodes) {
+    if (!placed.has(node.id)) place(node.id, 0);
+  }
+};
+
+interface ConvertContext {
+  cases: Map<string, LegacyCase>;
+  childCases: Map<string, LegacyCase>; // `${親ケース}:${External パーツ}` → 子ケース
+  unmapped: UnmappedElement[];
+  reported: Set<string>;
+}
+
+const report = (context: ConvertContext, element: UnmappedElement) => {
+  const key = `${element.dcaseId}:${element.partId ?? ''}:${element.reason}`;
+  if (context.reported.has(key)) return;
+  context.reported.add(key);
+  context.unmapped.push(element);
+};
+
+// 1つのダイアグラムを組み立てる間の状態
+interface BuildState {
+  modules: Record<string, ImportedModule>;
+  counters: Record<NodeType, number>;
+  usedIds: Set<string>; // 他のケースと重複したパーツIDは付け替える
+  visiting: Set<string>;
+  partsFor: (dcase: LegacyCase) => LegacyPart[];
+  timestamp: string;
+}
+
+/**
+ * 1つのケース（とモジュールになる子ケース）をプロジェクトデータのモジュールに変換する
+ */
+const convertCase = (
+  legacyCase: LegacyCase,
+  moduleId: string,
+  parentModuleId: string | undefined,
+  context: ConvertContext,
+  state: BuildState
+) => {
+  const { counters } = state;
+  const parts = state.partsFor(legacyCase);
+  state.visiting.add(legacyCase.dcaseId);
+
+  const idMap = new Map<string, string>();
+  for (const part of parts) {
+    const id = state.usedIds.has(part.id) ? `${moduleId}_${part.id}` : part.id;
+    state.usedIds.add(id);
+    idMap.set(part.id, id);
+  }
+
+  const nodes: ImportedNode[] = [];
+  for (const part of parts) {
+    let type = KIND_MAP[part.kind];
+    if (!type) {
+      report(context, {
+        dcaseId: legacyCase.dcaseId,
+        partId: part.id,
+        kind: part.kind,
+        reason: part.kind === 'Pendding' ? '保留中のパーツは取り込みません' : '対応するノードタイプがありません',
+      });
+      continue;
+    }
+
+    if (part.kind === 'Monitor') {
+      report(context, {
+        dcaseId: legacyCase.dcaseId,
+        partId: part.id,
+        kind: part.kind,
+        reason: 'モニタは Evidence として取り込みました（監視の設定は引き継がれません）',
+      });
+    }
+
+    // External は子ケースをモジュールとして取り込み、参照先がなければ未展開のノードとして残す
+    const child = type === 'Module' ? context.childCases.get(`${legacyCase.dcaseId}:${part.id}`) : undefined;
+    if (type === 'Module' && (!child || state.visiting.has(child.dcaseId))) {
+      type = 'Undeveloped';
+      report(context, {
+        dcaseId: legacyCase.dcaseId,
+        partId: part.id,
+        kind: part.kind,
+        reason: child ? 'モジュールの参照が循環しています' : '参照先のケースがエクスポートに含まれていません',
+      });
+    }
+
+    counters[type] += 1;
+    const node: ImportedNode = {
+      id: idMap.get(part.id)!,
+      type,
+      position: { x: part.x ?? 0, y: part.y ?? 0 },
+      size: { width: part.width || DEFAULT_SIZE.width, height: part.height || DEFAULT_SIZE.height },
+      content: part.detail,
+      label: part.label || `${LABEL_PREFIXES[type]}${counters[type]}`,
+    };
+
+    if (type === 'Module' && child) {
+      node.moduleId = child.dcaseId;
+      node.moduleName = child.title;
+      if (!state.modules[child.dcaseId]) {
+        convertCase(child, child.dcaseId, moduleId, context, state);
+      }
+    }
+
+    nodes.push(node);
+  }
+
+  // リンクは親の childrenID と子の parent の両方から拾う
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const links: ImportedLink[] = [];
+  const linkKeys = new Set<string>();
+  const addLink = (sourcePart: string, targetPart: string) => {
+    const key = `${sourcePart}->${targetPart}`;
+    if (linkKeys.has(key) || sourcePart === targetPart) return;
+    linkKeys.add(key);
+    const source = nodeById.get(idMap.get(sourcePart) ?? '');
+    const target = nodeById.get(idMap.get(targetPart) ?? '');
+    if (!source || !target) {
+      report(context, {
+        dcaseId: legacyCase.dcaseId,
+        partId: source ? targetPart : sourcePart,
+        reason: `リンク ${sourcePart} → ${targetPart} の端点が取り込まれていません`,
+      });
+      return;
+    }
+    links.push({
+      id: `link_${source.id}_${target.id}`,
+      source: source.id,
+      target: target.id,
+      type: CONTEXT_TYPES.has(target.type) ? 'dashed' : 'solid',
+    });
+  };
+  for (const part of parts) {
+    part.children.forEach((childId) => addLink(part.id, childId));
+    if (part.parent) addLink(part.parent, part.id);
+  }
+
+  // 旧エディタはリンクを張り直すと位置を消すため、位置のないパーツがあれば並べ直す
+  const unplaced = parts.some(
+    (part) => nodeById.has(idMap.get(part.id)!) && (part.x === undefined || part.y === undefined)
+  );
+  if (unplaced) {
+    layoutTree(nodes, links);
+  }
+
+  state.modules[moduleId] = {
+    version: '1.0',
+    title: legacyCase.title,
+    nodes,
+    links,
+    metadata: {
+      createdAt: state.timestamp,
+      updatedAt: state.timestamp,
+      id: moduleId,
+      ...(parentModuleId ? { parentModuleId } : {}),
+      isModule: moduleId !== 'root',
+    },
+  };
+  state.visiting.delete(legacyCase.dcaseId);
+};
+
+const buildProjectData = (
+  rootCase: LegacyCase,
+  context: ConvertContext,
+  partsFor: (dcase: LegacyCase) => LegacyPart[],
+  timestamp: string
+): ImportedProjectData => {
+  const state: BuildState = {
+    modules: {},
+    counters: createEmptyCounters(),
+    usedIds: new Set(),
+    visiting: new Set(),
+    partsFor,
+    timestamp,
+  };
+  convertCase(rootCase, 'root', undefined, context, state);
+  return {
+    version: '1.0',
+    currentDiagramId: 'root',
+    modules: state.modules,
+    labelCounters: state.counters,
+    exportedAt: timestamp,
+  };
+};
+
+/**
+ * 旧 D-Case のエクスポートをダイアグラム（現在の内容とコミット履歴）に変換する
+ */
+export const convertLegacyDcase = (input: unknown): { diagrams: ConvertedDiagram[]; report: LegacyImportReport } => {
+  const cases = readLegacyCases(input);
+  const context: ConvertContext = {
+    cases: new Map(cases.map((item) => [item.dcaseId, item])),
+    childCases: new Map(),
+    unmapped: [],
+    reported: new Set(),
+  };
+
+  for (const item of cases) {
+    if (item.parentDcaseId && item.parentPartsId) {
+      context.childCases.set(`${item.parentDcaseId}:${item.parentPartsId}`, item);
+    }
+  }
+
+  const now = new Date().toISOString();
+  // 親ケースがエクスポートにないケースもダイアグラムとして取り込む
+  const rootCases = cases.filter((item) => !item.parentDcaseId || !context.cases.has(item.parentDcaseId));
+  const diagrams: ConvertedDiagram[] = rootCases.map((rootCase) => {
+    if (rootCase.parentDcaseId) {
+      report(context, {
+        dcaseId: rootCase.dcaseId,
+        reason: `親ケース ${rootCase.parentDcaseId} がエクスポートに含まれていないため、単独のダイアグラムとして取り込みました`,
+      });
+    }
+
+    const data = buildProjectData(rootCase, context, (dcase) => dcase.parts, now);
+
+    // 各ケースのコミット時点を時刻順に並べ、その時点での各ケースの最新のスナップショットから版を作る
+    const caseIds = Object.keys(data.modules).map((moduleId) =>
+      moduleId === 'root' ? rootCase.dcaseId : moduleId
+    );
+    const snapshots = caseIds
+      .flatMap((id) => context.cases.get(id)?.history ?? [])
+      .sort((a, b) => a.time - b.time);
+
+    const versions: ConvertedVersion[] = snapshots.map((snapshot) => {
+      const partsFor = (dcase: LegacyCase) => {
+        const latest = [...dcase.history].reverse().find((item) => item.time <= snapshot.time);
+        return latest ? latest.parts : dcase.parts;
+      };
+      const createdAt = parseLegacyTimestamp(snapshot.time)!;
+      // 履歴の変換で出た未対応要素は現在の内容と重複するため、報告は現在の内容の分だけにする
+      const historyContext: ConvertContext = { ...context, unmapped: [], reported: new Set() };
+      return {
+        data: buildProjectData(rootCase, historyContext, partsFor, createdAt.toISOString()),
+        commitMessage: snapshot.message,
+        createdAt,
+      };
+    });
+
+    return { dcaseId: rootCase.dcaseId, title: rootCase.title, data, versions };
+  });
+
+  for (const item of cases) {
+    if (item.parts.length === 0) {
+      report(context, { dcaseId: item.dcaseId, reason: 'パーツがありません' });
+    }
+  }
+
+  const allModules = diagrams.flatMap((diagram) => Object.values(diagram.data.modules));
+  return {
+    diagrams,
+    report: {
+      cases: cases.length,
+      diagrams: diagrams.length,
+      modules: allModules.length - diagrams.length,
+      nodes: allModules.reduce((sum, module) => sum + module.nodes.length, 0),
+      links: allModules.reduce((sum, module) => sum + module.links.length, 0),
+      versions: diagrams.reduce((sum, diagram) => sum + diagram.versions.length, 0),
+      unmapped: context.unmapped,
+    },
+  };
+};
+
+/**
+ * 変換したダイアグラムと履歴を新しいプロジェクトとして保存する
+ */
+export const importLegacyDcase = async (
+  input: unknown,
+  options: { ownerId: string; title?: string; description?: string }
+) => {
+  const { diagrams, report } = convertLegacyDcase(input);
+  if (diagrams.length === 0) {
+    return null;
+  }
+
+  const project = await prisma.$transaction(
+    async (tx: Prisma.TransactionClient) => {
+      const created = await tx.project.create({
+        data: {
+          title: options.title || diagrams[0].title,
+          description: options.description ?? null,
+          ownerId: options.ownerId,
+        },
+      });
+
+      const rows = diagrams.map((converted) => {
+        const latest = converted.versions[converted.versions.length - 1];
+        const unchanged = latest && JSON.stringify(latest.data.modules) === JSON.stringify(converted.data.modules);
+        return { converted, diagramId: randomUUID(), latest, unchanged };
+      });
+
+      await tx.diagram.createMany({
+        data: rows.map(({ converted, diagramId, latest, unchanged }) => ({
+          id: diagramId,
+          projectId: created.id,
+          title: converted.title,
+          data: converted.data as any,
+          // 最新のコミットと同じ内容なら自動スナップショットを作らない
+          ...(unchanged ? { lastSnapshotAt: latest.createdAt, snapshotVersion: 1 } : {}),
+        })),
+      });
+
+      await tx.diagramVersion.createMany({
+        data: rows.flatMap(({ converted, diagramId }) =>
+          converted.versions.map((version, index) => ({
+            diagramId,
+            versionNumber: index + 1,
+            title: version.data.modules.root?.title ?? converted.title,
+            data: version.data as any,
+            commitMessage: version.commitMessage,
+            createdBy: options.ownerId,
+            createdAt: version.createdAt,
+          }))
+        ),
+      });
+
+      await tx.activityLog.createMany({
+        data: rows.map(({ converted, diagramId }) => ({
+          userId: options.ownerId,
+          projectId: created.id,
+          action: 'diagram_created',
+          data: { diagramId, title: converted.title, importedFrom: converted.dcaseId },
+        })),
+      });
+
+      return created;
+    },
+    { timeout: IMPORT_TRANSACTION_TIMEOUT_MS }
+  );
+
+  return { project, report };
+};
@@ -0,0 +1,207 @@
+import { prisma } from '../db/prisma';
+import { normalizeDiagramData } from './diagramCrdt';
+import { TextSegment, diffText } from './diagramDiff';
+
+/**
+ * ノード単位の履歴（コミット済みバージョンをたどり、1つのノードの変更を集める）
+ */
+
+export type NodeChangeKind = 'created' | 'deleted' | 'content' | 'label' | 'type' | 'link';
+
+export interface NodeLinkChange {
+  status: 'added' | 'removed';
+  direction: 'incoming' | 'outgoing';
+  linkType: string | null;
+  otherId: string;
+  otherLabel: string | null;
+}
+
+export interface NodeChange {
+  kind: NodeChangeKind;
+  before?: unknown;
+  after?: unknown;
+  contentDiff?: TextSegment[];
+  link?: NodeLinkChange;
+}
+
+// ノードとそのノードにつながるリンク（履歴の比較に使うスナップショット）
+interface NodeSnapshot {
+  node: any;
+  links: any[];
+  labels: Map<string, string | null>;
+}
+
+interface LineageVersion {
+  id: string;
+  versionNumber: number;
+  commitMessage: string | null;
+  createdBy: string | null;
+  branchId: string | null;
+  createdAt: Date;
+  data: any;
+}
+
+// ブランチをたどる深さの上限（分岐元が循環している場合の保険）
+const MAX_LINEAGE_DEPTH = 20;
+
+const stripTags = (value: unknown) => (typeof value === 'string' ? value.replace(/<[^>]*>/g, '').trim() : '');
+
+/**
+ * ブランチの系譜（分岐元のブランチの分岐点までの履歴 + そのブランチの履歴）を古い順に返す
+ */
+export const getBranchLineage = async (diagramId: string, branchId: string | null): Promise<LineageVersion[]> => {
+  const segments: LineageVersion[][] = [];
+  const visited = new Set<string>();
+  let current: string | null = branchId;
+  let upTo: number | null = null;
+
+  for (let depth = 0; depth < MAX_LINEAGE_DEPTH; depth++) {
+    const versions: LineageVersion[] = await prisma.diagramVersion.findMany({
+      where: {
+        diagramId,
+        branchId: current,
+        ...(upTo !== null && { versionNumber: { lte: upTo } }),
+      },
+      orderBy: { versionNumber: 'asc' },
+    });
+    segments.unshift(versions);
+
+    if (!current || visited.has(current)) break;
+    visited.add(current);
+
+    const branch: { baseVersion: { branchId: string | null; versionNumber: number } | null } | null =
+      await prisma.diagramBranch.findUnique({
+        where: { id: current },
+        include: { baseVersion: { select: { branchId: true, versionNumber: true } } },
+      });
+    if (!branch?.baseVersion) break;
+
+    current = branch.baseVersion.branchId;
+    upTo = branch.baseVersion.versionNumber;
+  }
+
+  return segments.flat();
+};
+
+/**
+ * データの中からノードを探す（どのモジュールにあっても見つける）
+ */
+export const findNodeSnapshot = (data: any, nodeId: string): NodeSnapshot | null => {
+  if (!data) return null;
+  const { modules } = normalizeDiagramData(data);
+
+  for (const module of Object.values<any>(modules)) {
+    const nodes: any[] = Array.isArray(module?.nodes) ? module.nodes : [];
+    const node = nodes.find((item) => item?.id === nodeId);
+    if (!node) continue;
+
+    const links = (Array.isArray(module.links) ? module.links : []).filter(
+      (link: any) => link?.source === nodeId || link?.target === nodeId
+    );
+    const labels = new Map<string, string | null>(nodes.map((item) => [item.id, item.label ?? null]));
+    return { node, links, labels };
+  }
+  return null;
+};
+
+const linkKey = (link: any) => `${link.source}->${link.target}:${link.type ?? ''}`;
+
+const toLinkChange = (
+  nodeId: string,
+  link: any,
+  status: NodeLinkChange['status'],
+  labels: Map<string, string | null>
+): NodeChange => {
+  const direction = link.source === nodeId ? 'outgoing' : 'incoming';
+  const otherId = direction === 'outgoing' ? link.target : link.source;
+  return {
+    kind: 'link',
+    link: {
+      status,
+      direction,
+      linkType: link.type ?? null,
+      otherId,
+      otherLabel: labels.get(otherId) ?? null,
+    },
+  };
+};
+
+/**
+ * 2つのスナップショットの間のノードの変更（変化がなければ空配列）
+ */
+export const diffNodeSnapshots = (
+  nodeId: string,
+  before: NodeSnapshot | null,
+  after: NodeSnapshot | null
+): NodeChange[] => {
+  if (!before && !after) return [];
+  if (!before) {
+    return [
+      { kind: 'created', after: { label: after!.node.label ?? null, type: after!.node.type ?? null } },
+      ...after!.links.map((link) => toLinkChange(nodeId, link, 'added', after!.labels)),
+    ];
+  }
+  if (!after) {
+    return [{ kind: 'deleted', before: { label: before.node.label ?? null, type: before.node.type ?? null } }];
+  }
+
+  const changes: NodeChange[] = [];
+
+  if ((before.node.type ?? null) !== (after.node.type ?? null)) {
+    changes.push({ kind: 'type', before: before.node.type ?? null, after: after.node.type ?? null });
+  }
+  if ((before.node.label ?? null) !== (after.node.label ?? null)) {
+    changes.push({ kind: 'label', before: before.node.label ?? null, after: after.node.label ?? null });
+  }
+
+  const beforeText = stripTags(before.node.content);
+  const afterText = stripTags(after.node.content);
+  if (beforeText !== afterText) {
+    changes.push({
+      kind: 'content',
+      before: before.node.content ?? '',
+      after: after.node.content ?? '',
+      contentDiff: diffText(beforeText, afterText),
+    });
+  }
+
+  // リンクは ID ではなく接続先と種類で比較する（付け直しで ID が変わっても変更扱いにしない）
+  const beforeKeys = new Set(before.links.map(linkKey));
+  const afterKeys = new Set(after.links.map(linkKey));
+  after.links
+    .filter((link) => !beforeKeys.has(linkKey(link)))
+    .forEach((link) => changes.push(toLinkChange(nodeId, link, 'added', after.labels)));
+  before.links
+    .filter((link) => !afterKeys.has(linkKey(link)))
+    .forEach((link) => changes.push(toLinkChange(nodeId, link, 'removed', before.labels)));
+
+  return changes;
+};
+
+/**
+ * ノードの履歴（変更のあったバージョンのみ、古い順）と、現在の作業中の内容との差分
+ */
+export const buildNodeHistory = async (
+  diagram: { id: string; data: any; currentBranchId: string | null },
+  nodeId: string,
+  branchId: string | null
+) => {
+  const lineage = await getBranchLineage(diagram.id, branchId);
+
+  const entries: Array<{ version: LineageVersion; changes: NodeChange[] }> = [];
+  let previous: NodeSnapshot | null = null;
+  for (const version of lineage) {
+    const snapshot = findNodeSnapshot(version.data, nodeId);
+    const changes = diffNodeSnapshots(nodeId, previous, snapshot);
+    if (changes.length > 0) {
+      entries.push({ version, changes });
+    }
+    previous = snapshot;
+  }
+
+  // 作業中の内容は、作業中のブランチの履歴を見ている場合だけ比較する
+  const current = findNodeSnapshot(diagram.data, nodeId);
+  const uncommitted = branchId === diagram.currentBranchId ? diffNodeSnapshots(nodeId, previous, current) : [];
+
+  return { entries, uncommitted, current, latest: previous };
+};
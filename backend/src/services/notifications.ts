@@ -0,0 +1,78 @@
+import { prisma } from '../db/prisma';
+import { buildUserName } from '../utils/userName';
+import { emitNotification } from '../websocket/emitter';
+
+export type NotificationType = 'mention' | 'survey_response' | 'role_changed';
+
+export interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  projectId?: string | null;
+  actorId?: string | null;
+  data?: Record<string, unknown>;
+}
+
+interface NotificationUser {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+export interface NotificationRecord {
+  id: string;
+  userId: string;
+  type: string;
+  projectId: string | null;
+  actorId: string | null;
+  data: unknown;
+  readAt: Date | null;
+  createdAt: Date;
+  actor: NotificationUser | null;
+  project: { id: string; title: string } | null;
+}
+
+export const notificationInclude = {
+  actor: { select: { id: true, email: true, firstName: true, lastName: true } },
+  project: { select: { id: true, title: true } },
+};
+
+export const toNotificationResponse = (notification: NotificationRecord) => ({
+  id: notification.id,
+  type: notification.type,
+  projectId: notification.projectId,
+  projectTitle: notification.project?.title ?? null,
+  actorId: notification.actorId,
+  actorName: notification.actor ? buildUserName(notification.actor) : null,
+  data: notification.data ?? {},
+  readAt: notification.readAt,
+  createdAt: notification.createdAt,
+});
+
+/**
+ * 通知を作成し、受信者の接続中のクライアントに配信する
+ * 通知の失敗で元の操作（コメント作成など）を失敗させないよう、エラーはログに残すだけにする
+ */
+export const notifyUsers = async (inputs: NotificationInput[]): Promise<void> => {
+  // 自分自身の操作は通知しない
+  const targets = inputs.filter((input) => input.userId !== input.actorId);
+
+  for (const input of targets) {
+    try {
+      const notification: NotificationRecord = await prisma.notification.create({
+        data: {
+          userId: input.userId,
+          type: input.type,
+          projectId: input.projectId ?? null,
+          actorId: input.actorId ?? null,
+          data: input.data ?? {},
+        },
+        include: notificationInclude,
+      });
+
+      emitNotification(input.userId, toNotificationResponse(notification));
+    } catch (error) {
+      console.error('Create notification error:', error);
+    }
+  }
+};
@@ -0,0 +1,164 @@
+import { normalizeDiagramData } from './diagramCrdt';
+import { NODE_LABELS, type NodeType } from '../../../shared/gsn';
+import {
+  validateDiagram,
+  type ValidationError,
+  type ValidationLink,
+  type ValidationNode,
+  type ValidationRuleOverride,
+  type ValidationRuleOverrides,
+  type ValidationWarning,
+} from '../../../shared/validation';
+
+/**
+ * プロジェクトごとの GSN 検証ルールの設定と、保存済みのダイアグラムの検証
+ *
+ * ルール本体は shared/validation（フロントエンドと共有。組織独自のルールも含む）にあり、
+ * ここではルールIDごとの有効・無効・重要度・リンク作成時の強制の上書きと、
+ * コミット・アンケート公開の前に検証するか（ゲート）を扱う
+ */
+
+// off: 検証しない, block: エラーがあれば拒否, override: エラーがあれば理由の入力を求める
+export type ValidationGate = 'off' | 'block' | 'override';
+
+const VALIDATION_GATES: ValidationGate[] = ['off', 'block', 'override'];
+const OVERRIDE_MESSAGE_MAX_LENGTH = 1000;
+
+const RULE_ID_PATTERN = /^[A-Za-z0-9_.:-]{1,64}$/;
+const MAX_RULES = 200;
+
+/**
+ * ルール設定の入力を検証する（不正な値があれば null）
+ */
+export const parseValidationRuleOverrides = (input: unknown): ValidationRuleOverrides | null => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return null;
+  const entries = Object.entries(input as Record<string, unknown>);
+  if (entries.length > MAX_RULES) return null;
+
+  const overrides: ValidationRuleOverrides = {};
+  for (const [ruleId, value] of entries) {
+    if (!RULE_ID_PATTERN.test(ruleId) || typeof value !== 'object' || value === null) return null;
+    const { enabled, severity, enforce } = value as Record<string, unknown>;
+    if (enabled !== undefined && typeof enabled !== 'boolean') return null;
+    if (enforce !== undefined && typeof enforce !== 'boolean') return null;
+    if (severity !== undefined && severity !== 'error' && severity !== 'warning') return null;
+
+    const override: ValidationRuleOverride = {};
+    if (enabled !== undefined) override.enabled = enabled;
+    if (severity !== undefined) override.severity = severity;
+    if (enforce !== undefined) override.enforce = enforce;
+    // 既定値のままのルールは保存しない
+    if (Object.keys(override).length > 0) overrides[ruleId] = override;
+  }
+  return overrides;
+};
+
+/**
+ * ゲートの設定の入力（{ commit, survey }）を検証する（不正な値があれば null）
+ */
+export const parseValidationGates = (
+  input: unknown
+): { commitValidationGate?: ValidationGate; surveyValidationGate?: ValidationGate } | null => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return null;
+  const { commit, survey } = input as Record<string, unknown>;
+  const isGate = (value: unknown): value is ValidationGate =>
+    VALIDATION_GATES.includes(value as ValidationGate);
+  if (commit !== undefined && !isGate(commit)) return null;
+  if (survey !== undefined && !isGate(survey)) return null;
+  return {
+    ...(commit !== undefined ? { commitValidationGate: commit } : {}),
+    ...(survey !== undefined ? { surveyValidationGate: survey } : {}),
+  };
+};
+
+// 指摘がどのモジュール（ルートは 'root'）のものか
+export type SnapshotValidationFinding = (ValidationError | ValidationWarning) & { moduleId: string };
+
+export interface SnapshotValidationResult {
+  isValid: boolean;
+  errors: SnapshotValidationFinding[];
+  warnings: SnapshotValidationFinding[];
+}
+
+const NODE_TYPES = Object.keys(NODE_LABELS) as NodeType[];
+
+// 保存されている JSON から検証に使う項目を取り出す（種類の分からないノードは除く）
+const toNodes = (items: unknown): ValidationNode[] =>
+  (Array.isArray(items) ? items : [])
+    .filter((item: any) => typeof item?.id === 'string' && NODE_TYPES.includes(item.type))
+    .map((item: any) => ({
+      id: item.id,
+      type: item.type,
+      label: typeof item.label === 'string' ? item.label : undefined,
+      position: { x: Number(item.position?.x) || 0, y: Number(item.position?.y) || 0 },
+      size: { width: Number(item.size?.width) || 180, height: Number(item.size?.height) || 120 },
+    }));
+
+const toLinks = (items: unknown): ValidationLink[] =>
+  (Array.isArray(items) ? items : [])
+    .filter(
+      (item: any) =>
+        typeof item?.id === 'string' && typeof item.source === 'string' && typeof item.target === 'string'
+    )
+    .map((item: any) => ({
+      id: item.id,
+      source: item.source,
+      target: item.target,
+      type: item.type === 'dashed' ? 'dashed' : 'solid',
+    }));
+
+/**
+ * ダイアグラムのデータ（Diagram.data・DiagramVersion.data・Survey.gsnSnapshot）をモジュールごとに検証する
+ */
+export const validateDiagramSnapshot = (
+  data: unknown,
+  overrides: ValidationRuleOverrides = {}
+): SnapshotValidationResult => {
+  const { modules } = normalizeDiagramData(data);
+  const errors: SnapshotValidationFinding[] = [];
+  const warnings: SnapshotValidationFinding[] = [];
+
+  // ルートを先に、モジュールはその後に並べる
+  const moduleIds = Object.keys(modules).sort((a, b) => (a === 'root' ? -1 : b === 'root' ? 1 : 0));
+  for (const moduleId of moduleIds) {
+    const module = (modules as Record<string, any>)[moduleId];
+    const result = validateDiagram(toNodes(module?.nodes), toLinks(module?.links), overrides);
+    errors.push(...result.errors.map((finding) => ({ ...finding, moduleId })));
+    warnings.push(...result.warnings.map((finding) => ({ ...finding, moduleId })));
+  }
+
+  return { isValid: errors.length === 0, errors, warnings };
+};
+
+export type ValidationGateCheck =
+  | { allowed: true; overrideMessage: string | null; validation: SnapshotValidationResult | null }
+  | { allowed: false; overrideAllowed: boolean; validation: SnapshotValidationResult };
+
+/**
+ * ゲートの設定に従ってスナップショットを検証する
+ * エラーがある場合、block は拒否し、override は理由（overrideMessage）があれば通す
+ */
+export const checkValidationGate = (
+  gate: unknown,
+  data: unknown,
+  ruleSettings: unknown,
+  overrideMessage: unknown
+): ValidationGateCheck => {
+  if (gate !== 'block' && gate !== 'override') {
+    return { allowed: true, overrideMessage: null, validation: null };
+  }
+
+  const validation = validateDiagramSnapshot(data, parseValidationRuleOverrides(ruleSettings ?? {}) ?? {});
+  if (validation.isValid) {
+    return { allowed: true, overrideMessage: null, validation };
+  }
+
+  const message =
+    gate === 'override' && typeof overrideMessage === 'string'
+      ? overrideMessage.trim().slice(0, OVERRIDE_MESSAGE_MAX_LENGTH)
+      : '';
+  if (message) {
+    return { allowed: true, overrideMessage: message, validation };
+  }
+  return { allowed: false, overrideAllowed: gate === 'override', validation };
+};
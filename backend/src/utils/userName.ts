@@ -0,0 +1,5 @@
+// 表示名（姓 名、未設定ならメールアドレス）
+export const buildUserName = (user: { email: string; firstName: string | null; lastName: string | null }) => {
+  const fullName = [user.lastName, user.firstName].filter(Boolean).join(' ').trim();
+  return fullName || user.email;
+};
@@ -14,3 +14,51 @@ export const emitSurveyResponseCreated = (projectId: string, surveyId: string) =
     timestamp: new Date().toISOString(),
   });
 };
+
+// REST での保存・復元による CRDT の更新を接続中のクライアントに配信する
+export const emitCrdtUpdate = (
+  projectId: string,
+  dbDiagramId: string,
+  update: Uint8Array,
+  seq: number,
+  version: number
+) => {
+  if (!io) return;
+  io.to(projectId).emit('crdt_update', { dbDiagramId, update, seq, version });
+};
+
+// コメントの追加・更新・削除を接続中のクライアントに配信する（diagramId は DB のダイアグラムID）
+export const emitCommentAdded = (projectId: string, diagramId: string, nodeId: string, comment: unknown) => {
+  if (!io) return;
+  io.to(projectId).emit('comment_added', { diagramId, nodeId, comment });
+};
+
+export const emitCommentUpdated = (projectId: string, diagramId: string, nodeId: string, comment: unknown) => {
+  if (!io) return;
+  io.to(projectId).emit('comment_updated', { diagramId, nodeId, comment });
+};
+
+export const emitCommentDeleted = (projectId: string, diagramId: string, nodeId: string, commentId: string) => {
+  if (!io) return;
+  io.to(projectId).emit('comment_deleted', { diagramId, nodeId, commentId });
+};
+
+// ダイアグラムの凍結・解除を接続中のクライアントに配信する（frozenAt が null なら解除）
+export const emitDiagramFrozen = (
+  projectId: string,
+  diagram: { id: string; frozenAt: Date | null; frozenBy: string | null; frozenReason: string | null }
+) => {
+  if (!io) return;
+  io.to(projectId).emit('diagram_frozen', {
+    diagramId: diagram.id,
+    frozenAt: diagram.frozenAt,
+    frozenBy: diagram.frozenBy,
+    frozenReason: diagram.frozenReason,
+  });
+};
+
+// ユーザー宛ての通知を配信する（接続中の全タブに届く）
+export const emitNotification = (userId: string, notification: unknown) => {
+  if (!io) return;
+  io.to(`user:${userId}`).emit('notification', notification);
+};
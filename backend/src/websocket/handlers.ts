@@ -1,9 +1,16 @@
 import { Server, Socket } from 'socket.io';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../db/prisma';
+import { applyCrdtUpdate, getCrdtSync } from '../services/diagramOperations';
+import { buildUserName } from '../utils/userName';
+
+type ProjectRole = 'owner' | 'editor' | 'viewer';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
   userName?: string;
   currentProjectId?: string;
+  projectRole?: ProjectRole;
 }
 
 interface OnlineUser {
@@ -13,6 +20,15 @@ interface OnlineUser {
   joinedAt: string;
 }
 
+interface NodeLock {
+  nodeId: string;
+  diagramId: string;
+  userId: string;
+  userName: string;
+  socketId: string;
+  expiresAt: number;
+}
+
 // Track online users per project (Map key is socketId, not userId)
 const onlineUsers = new Map<string, Map<string, OnlineUser>>();
 
@@ -41,17 +57,273 @@ const removeOnlineUser = (projectId: string, socketId: string) => {
   }
 };
 
+// Soft edit locks per project (Map key is nodeId); expire unless the holder sends heartbeats
+const nodeLocks = new Map<string, Map<string, NodeLock>>();
+const NODE_LOCK_TTL_MS = 30000;
+const NODE_LOCK_SWEEP_INTERVAL_MS = 10000;
+
+// Drop expired locks, returns true if any lock was removed
+const purgeExpiredLocks = (projectId: string) => {
+  const projectLocks = nodeLocks.get(projectId);
+  if (!projectLocks) return false;
+
+  const now = Date.now();
+  let changed = false;
+  projectLocks.forEach((lock, nodeId) => {
+    if (lock.expiresAt <= now) {
+      projectLocks.delete(nodeId);
+      changed = true;
+    }
+  });
+  if (projectLocks.size === 0) {
+    nodeLocks.delete(projectId);
+  }
+  return changed;
+};
+
+const getNodeLocks = (projectId: string) => {
+  purgeExpiredLocks(projectId);
+  const projectLocks = nodeLocks.get(projectId);
+  return projectLocks
+    ? Array.from(projectLocks.values()).map(({ socketId: _socketId, ...lock }) => lock)
+    : [];
+};
+
+// Release every lock held by a socket, returns true if any lock was released
+const releaseSocketLocks = (projectId: string, socketId: string) => {
+  const projectLocks = nodeLocks.get(projectId);
+  if (!projectLocks) return false;
+
+  let changed = false;
+  projectLocks.forEach((lock, nodeId) => {
+    if (lock.socketId === socketId) {
+      projectLocks.delete(nodeId);
+      changed = true;
+    }
+  });
+  if (projectLocks.size === 0) {
+    nodeLocks.delete(projectId);
+  }
+  return changed;
+};
+
+// Resolve the caller's role in a project (owner / member role), null if no access
+const getProjectRole = async (projectId: string, userId: string): Promise<ProjectRole | null> => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { ownerId: true },
+  });
+
+  if (!project) {
+    return null;
+  }
+
+  if (project.ownerId === userId) {
+    return 'owner';
+  }
+
+  const member = await prisma.projectMember.findFirst({
+    where: { projectId, userId },
+    select: { role: true },
+  });
+
+  if (!member) {
+    return null;
+  }
+
+  return member.role === 'owner' || member.role === 'editor' ? member.role : 'viewer';
+};
+
+const canEdit = (role?: ProjectRole) => role === 'owner' || role === 'editor';
+
+const emitSocketError = (socket: AuthenticatedSocket, event: string, message: string) => {
+  socket.emit('ws_error', { event, message });
+};
+
+// socket.io から受け取ったバイナリ（Buffer / ArrayBuffer）を Uint8Array に揃える
+const toUint8Array = (value: unknown): Uint8Array | null => {
+  if (value instanceof Uint8Array) return value;
+  if (value instanceof ArrayBuffer) return new Uint8Array(value);
+  return null;
+};
+
+let webSocketServer: Server | null = null;
+
+const broadcastNodeLocks = (io: Server, projectId: string) => {
+  io.to(projectId).emit('node_locks', getNodeLocks(projectId));
+};
+
+const leaveCurrentProject = (io: Server, socket: AuthenticatedSocket) => {
+  const projectId = socket.currentProjectId;
+  if (!projectId) {
+    return;
+  }
+
+  removeOnlineUser(projectId, socket.id);
+  const releasedLocks = releaseSocketLocks(projectId, socket.id);
+  socket.leave(projectId);
+  socket.currentProjectId = undefined;
+  socket.projectRole = undefined;
+
+  // Get updated online users
+  const currentUsers = getOnlineUsers(projectId);
+
+  // Notify other users
+  socket.to(projectId).emit('user_left', {
+    userId: socket.userId,
+    userName: socket.userName,
+    timestamp: new Date().toISOString(),
+  });
+
+  // Broadcast updated online users list
+  io.to(projectId).emit('online_users', currentUsers);
+  if (releasedLocks) {
+    broadcastNodeLocks(io, projectId);
+  }
+
+  console.log(`[WebSocket] Project ${projectId} now has ${currentUsers.length} users online`);
+};
+
+/**
+ * Apply a member's role change (or removal) to their connected sockets.
+ * Joined sockets get the new role; sockets that lost access are removed from the project.
+ */
+export const refreshProjectMemberSockets = async (projectId: string, userId: string) => {
+  const io = webSocketServer;
+  if (!io) return;
+
+  const sockets = Array.from(io.sockets.sockets.values() as Iterable<AuthenticatedSocket>).filter(
+    (socket) => socket.userId === userId && socket.currentProjectId === projectId
+  );
+  if (sockets.length === 0) return;
+
+  const role = await getProjectRole(projectId, userId);
+  sockets.forEach((socket) => {
+    if (role) {
+      socket.projectRole = role;
+    } else {
+      leaveCurrentProject(io, socket);
+    }
+    socket.emit('project_role_changed', { projectId, role });
+  });
+};
+
 export const setupWebSocket = (io: Server) => {
+  webSocketServer = io;
+
+  // Notify clients when locks expire without an explicit release
+  setInterval(() => {
+    Array.from(nodeLocks.keys()).forEach((projectId) => {
+      if (purgeExpiredLocks(projectId)) {
+        broadcastNodeLocks(io, projectId);
+      }
+    });
+  }, NODE_LOCK_SWEEP_INTERVAL_MS).unref();
+
+  // Authenticate the handshake the same way as the REST middleware (JWT + session row)
+  io.use(async (socket: AuthenticatedSocket, next) => {
+    try {
+      const token = socket.handshake.auth?.token;
+
+      if (!token || typeof token !== 'string') {
+        return next(new Error('No token provided'));
+      }
+
+      const jwtSecret = process.env.JWT_SECRET;
+
+      if (!jwtSecret) {
+        throw new Error('JWT_SECRET is not defined');
+      }
+
+      const decoded = jwt.verify(token, jwtSecret) as { userId: string; email: string };
+
+      const session = await prisma.session.findUnique({
+        where: { token },
+        include: { user: true },
+      });
+
+      if (!session || session.expiresAt < new Date() || session.userId !== decoded.userId) {
+        return next(new Error('Invalid or expired token'));
+      }
+
+      socket.userId = session.user.id;
+      socket.userName = buildUserName(session.user);
+      next();
+    } catch (error) {
+      if (error instanceof jwt.JsonWebTokenError) {
+        next(new Error('Invalid token'));
+      } else {
+        console.error('[WebSocket] Authentication error:', error);
+        next(new Error('Authentication failed'));
+      }
+    }
+  });
+
   io.on('connection', (socket: AuthenticatedSocket) => {
-    console.log(`[WebSocket] Client connected: ${socket.id}`);
+    console.log(`[WebSocket] Client connected: ${socket.id} (${socket.userId})`);
+
+    // ユーザー宛ての通知を受け取るための個人用ルーム
+    socket.join(`user:${socket.userId}`);
+
+    // Events are accepted for the joined project only; mutating events require editor role
+    const isAllowed = (event: string, data: any, mutating: boolean) => {
+      const projectId = socket.currentProjectId;
+      if (!projectId || data?.projectId !== projectId) {
+        emitSocketError(socket, event, 'Not joined to this project');
+        return false;
+      }
+      if (mutating && !canEdit(socket.projectRole)) {
+        emitSocketError(socket, event, 'Insufficient permissions');
+        return false;
+      }
+      return true;
+    };
+
+    const relay = (event: string, options: { mutating: boolean }) => {
+      socket.on(event, (data) => {
+        if (!isAllowed(event, data, options.mutating)) return;
+        socket.to(socket.currentProjectId!).emit(event, data);
+      });
+    };
+
+    // Handle join_project (client-sent userId / userName are ignored)
+    socket.on('join_project', async (data, ack?: (result: { role?: ProjectRole; error?: string }) => void) => {
+      const respond = typeof ack === 'function' ? ack : () => undefined;
+      const projectId = data?.projectId;
+      const userId = socket.userId!;
+      const userName = socket.userName!;
+
+      if (!projectId || typeof projectId !== 'string') {
+        emitSocketError(socket, 'join_project', 'projectId is required');
+        respond({ error: 'projectId is required' });
+        return;
+      }
+
+      let role: ProjectRole | null;
+      try {
+        role = await getProjectRole(projectId, userId);
+      } catch (error) {
+        console.error('[WebSocket] join_project error:', error);
+        emitSocketError(socket, 'join_project', 'Failed to join project');
+        respond({ error: 'Failed to join project' });
+        return;
+      }
 
-    // Handle join_project
-    socket.on('join_project', ({ projectId, userId, userName }) => {
-      console.log(`[WebSocket] User ${userName} (${userId}) joined project ${projectId}`);
+      if (!role) {
+        console.warn(`[WebSocket] User ${userId} denied access to project ${projectId}`);
+        emitSocketError(socket, 'join_project', 'Access denied');
+        respond({ error: 'Access denied' });
+        return;
+      }
+
+      if (socket.currentProjectId && socket.currentProjectId !== projectId) {
+        leaveCurrentProject(io, socket);
+      }
+
+      console.log(`[WebSocket] User ${userName} (${userId}) joined project ${projectId} as ${role}`);
 
-      socket.userId = userId;
-      socket.userName = userName;
       socket.currentProjectId = projectId;
+      socket.projectRole = role;
 
       // Join the project room
       socket.join(projectId);
@@ -67,8 +339,9 @@ export const setupWebSocket = (io: Server) => {
       // Get current online users
       const currentUsers = getOnlineUsers(projectId);
 
-      // Send current online users to the joining user
+      // Send current online users and edit locks to the joining user
       socket.emit('online_users', currentUsers);
+      socket.emit('node_locks', getNodeLocks(projectId));
 
       // Notify other users in the room
       socket.to(projectId).emit('user_joined', {
@@ -77,79 +350,177 @@ export const setupWebSocket = (io: Server) => {
         timestamp: new Date().toISOString(),
       });
 
+      respond({ role });
+
       console.log(`[WebSocket] Project ${projectId} now has ${currentUsers.length} users online`);
     });
 
     // Handle leave_project
-    socket.on('leave_project', ({ projectId }) => {
+    socket.on('leave_project', (data) => {
+      const projectId = data?.projectId;
+      if (typeof projectId !== 'string' || projectId !== socket.currentProjectId) {
+        return;
+      }
+
       console.log(`[WebSocket] User ${socket.userName} left project ${projectId}`);
+      leaveCurrentProject(io, socket);
+    });
 
-      removeOnlineUser(projectId, socket.id);
+    // Apply CRDT updates to the stored document, then broadcast them with their sequence number
+    socket.on('crdt_update', async (data) => {
+      if (!isAllowed('crdt_update', data, true)) return;
 
-      socket.leave(projectId);
+      const update = toUint8Array(data.update);
+      if (!data.dbDiagramId || !update) {
+        emitSocketError(socket, 'crdt_update', 'Invalid update');
+        return;
+      }
 
-      // Get updated online users
-      const currentUsers = getOnlineUsers(projectId);
+      try {
+        const applied = await applyCrdtUpdate({
+          diagramId: String(data.dbDiagramId),
+          projectId: data.projectId,
+          userId: socket.userId!,
+          update,
+        });
 
-      // Notify other users
-      socket.to(projectId).emit('user_left', {
-        userId: socket.userId,
-        userName: socket.userName,
-        timestamp: new Date().toISOString(),
-      });
+        if (!applied) {
+          emitSocketError(socket, 'crdt_update', 'Diagram not found');
+          return;
+        }
+
+        if (applied.frozen) {
+          emitSocketError(socket, 'crdt_update', 'Diagram is frozen');
+          return;
+        }
+
+        if (applied.changed) {
+          socket.to(data.projectId).emit('crdt_update', {
+            dbDiagramId: data.dbDiagramId,
+            update,
+            seq: applied.seq,
+            version: applied.version,
+          });
+        }
+        socket.emit('op_ack', {
+          dbDiagramId: data.dbDiagramId,
+          seq: applied.seq,
+          version: applied.version,
+        });
+      } catch (error) {
+        console.error('[WebSocket] Failed to apply crdt_update:', error);
+        emitSocketError(socket, 'crdt_update', 'Failed to apply update');
+      }
+    });
 
-      // Broadcast updated online users list
-      io.to(projectId).emit('online_users', currentUsers);
+    // Exchange state vectors: return the updates the client is missing (also used on reconnect)
+    socket.on('crdt_sync', async (data, ack) => {
+      if (typeof ack !== 'function') return;
+      if (!isAllowed('crdt_sync', data, false)) {
+        ack({ error: 'Not joined to this project' });
+        return;
+      }
 
-      console.log(`[WebSocket] Project ${projectId} now has ${currentUsers.length} users online`);
+      try {
+        const result = await getCrdtSync(
+          String(data.dbDiagramId),
+          data.projectId,
+          toUint8Array(data.stateVector) ?? undefined
+        );
+        if (!result) {
+          ack({ error: 'Diagram not found' });
+          return;
+        }
+        ack(result);
+      } catch (error) {
+        console.error('[WebSocket] crdt_sync error:', error);
+        ack({ error: 'Failed to sync diagram' });
+      }
     });
 
-    // Handle node operations
-    socket.on('node_created', (data) => {
-      console.log(`[WebSocket] Node created in project ${data.projectId}`);
+    // Acquire a soft edit lock when a node editor opens (denied while another socket holds it)
+    socket.on('node_lock_acquire', (data, ack?: (result: { granted: boolean; holder?: Omit<NodeLock, 'socketId'> }) => void) => {
+      const respond = typeof ack === 'function' ? ack : () => undefined;
+      if (!isAllowed('node_lock_acquire', data, true) || typeof data.nodeId !== 'string') {
+        respond({ granted: false });
+        return;
+      }
 
-      // Broadcast to other users in the same project
-      socket.to(data.projectId).emit('node_created', data);
-    });
+      const projectId = data.projectId as string;
+      purgeExpiredLocks(projectId);
+      const current = nodeLocks.get(projectId)?.get(data.nodeId);
+      if (current && current.socketId !== socket.id) {
+        const { socketId: _socketId, ...holder } = current;
+        respond({ granted: false, holder });
+        return;
+      }
 
-    socket.on('node_updated', (data) => {
-      socket.to(data.projectId).emit('node_updated', data);
+      if (!nodeLocks.has(projectId)) {
+        nodeLocks.set(projectId, new Map());
+      }
+      nodeLocks.get(projectId)!.set(data.nodeId, {
+        nodeId: data.nodeId,
+        diagramId: String(data.diagramId || 'root'),
+        userId: socket.userId!,
+        userName: socket.userName!,
+        socketId: socket.id,
+        expiresAt: Date.now() + NODE_LOCK_TTL_MS,
+      });
+      respond({ granted: true });
+      broadcastNodeLocks(io, projectId);
     });
 
-    socket.on('node_deleted', (data) => {
-      socket.to(data.projectId).emit('node_deleted', data);
-    });
+    // Extend a held lock
+    socket.on('node_lock_heartbeat', (data, ack?: (result: { held: boolean }) => void) => {
+      const respond = typeof ack === 'function' ? ack : () => undefined;
+      if (!isAllowed('node_lock_heartbeat', data, true)) {
+        respond({ held: false });
+        return;
+      }
 
-    socket.on('node_moved', (data) => {
-      socket.to(data.projectId).emit('node_moved', data);
+      const lock = nodeLocks.get(data.projectId)?.get(data.nodeId);
+      if (!lock || lock.socketId !== socket.id) {
+        respond({ held: false });
+        return;
+      }
+      lock.expiresAt = Date.now() + NODE_LOCK_TTL_MS;
+      respond({ held: true });
     });
 
-    // Handle link operations
-    socket.on('link_created', (data) => {
-      socket.to(data.projectId).emit('link_created', data);
-    });
+    socket.on('node_lock_release', (data) => {
+      if (!isAllowed('node_lock_release', data, true)) return;
 
-    socket.on('link_deleted', (data) => {
-      socket.to(data.projectId).emit('link_deleted', data);
-    });
+      const projectLocks = nodeLocks.get(data.projectId);
+      const lock = projectLocks?.get(data.nodeId);
+      if (!projectLocks || !lock || lock.socketId !== socket.id) return;
 
-    socket.on('link_updated', (data) => {
-      socket.to(data.projectId).emit('link_updated', data);
+      projectLocks.delete(data.nodeId);
+      if (projectLocks.size === 0) {
+        nodeLocks.delete(data.projectId);
+      }
+      broadcastNodeLocks(io, data.projectId);
     });
 
-    // Handle comment operations
-    socket.on('comment_added', (data) => {
-      socket.to(data.projectId).emit('comment_added', data);
-    });
+    // Ask the current holder to hand over the node
+    socket.on('node_lock_request', (data) => {
+      if (!isAllowed('node_lock_request', data, true)) return;
 
-    socket.on('comment_deleted', (data) => {
-      socket.to(data.projectId).emit('comment_deleted', data);
+      const lock = nodeLocks.get(data.projectId)?.get(data.nodeId);
+      if (!lock || lock.socketId === socket.id) return;
+
+      io.to(lock.socketId).emit('node_lock_requested', {
+        nodeId: data.nodeId,
+        userId: socket.userId,
+        userName: socket.userName,
+      });
     });
 
     // Handle cursor movement
     socket.on('cursor_moved', (data) => {
       // console.log(`[WebSocket] Cursor moved: ${socket.userName} at (${data.x}, ${data.y})`);
-      socket.to(data.projectId).emit('cursor_moved', {
+      const projectId = socket.currentProjectId;
+      if (!projectId || data?.projectId !== projectId) return;
+      socket.to(projectId).emit('cursor_moved', {
         userId: socket.userId,
         userName: socket.userName,
         x: data.x,
@@ -157,39 +528,13 @@ export const setupWebSocket = (io: Server) => {
       });
     });
 
-    // Handle module operations
-    socket.on('module_created', (data) => {
-      console.log(`[WebSocket] Module created in project ${data.projectId}`);
-      socket.to(data.projectId).emit('module_created', data);
-    });
-
     // Handle diagram reload requests (e.g. version restore)
-    socket.on('diagram_reload', (data) => {
-      socket.to(data.projectId).emit('diagram_reload', data);
-    });
+    relay('diagram_reload', { mutating: true });
 
     // Handle disconnect
     socket.on('disconnect', () => {
       console.log(`[WebSocket] Client disconnected: ${socket.id}`);
-
-      if (socket.currentProjectId) {
-        const projectId = socket.currentProjectId;
-        removeOnlineUser(projectId, socket.id);
-
-        // Get updated online users
-        const currentUsers = getOnlineUsers(projectId);
-
-        socket.to(projectId).emit('user_left', {
-          userId: socket.userId,
-          userName: socket.userName,
-          timestamp: new Date().toISOString(),
-        });
-
-        // Broadcast updated online users list
-        io.to(projectId).emit('online_users', currentUsers);
-
-        console.log(`[WebSocket] Project ${projectId} now has ${currentUsers.length} users online after disconnect`);
-      }
+      leaveCurrentProject(io, socket);
     });
   });
 };
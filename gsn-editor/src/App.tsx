@@ -2,6 +2,8 @@ import { useEffect, useState, useMemo } from 'react';
 import { Header } from './components/Header/Header';
 import { Sidebar } from './components/Sidebar/Sidebar';
 import { Canvas } from './components/Canvas/Canvas';
+import { OutlineView } from './components/Canvas/OutlineView';
+import { TableView } from './components/Canvas/TableView';
 import { LoginForm } from './components/Auth/LoginForm';
 import { RegisterForm } from './components/Auth/RegisterForm';
 import { ProjectList } from './components/Projects/ProjectList';
@@ -10,6 +12,9 @@ import { SurveyManagerModal } from './components/Surveys/SurveyManagerModal';
 import { PublicSurveyPage } from './components/Surveys/PublicSurveyPage';
 import { useAuthStore } from './stores/authStore';
 import { useDiagramStore } from './stores/diagramStore';
+import { useViewModeStore } from './stores/viewModeStore';
+import { useValidationSettingsStore } from './stores/validationSettingsStore';
+import { startLiveValidation } from './stores/liveValidationStore';
 import { projectAPI } from './services/api';
 
 function App() {
@@ -26,6 +31,9 @@ function App() {
   const setProjectRole = useDiagramStore((state) => state.setProjectRole);
   const checkForRemoteUpdate = useDiagramStore((state) => state.checkForRemoteUpdate);
   const currentProjectId = useDiagramStore((state) => state.currentProjectId);
+  const viewMode = useViewModeStore((state) => state.viewMode);
+  const setValidationOverrides = useValidationSettingsStore((state) => state.setOverrides);
+  const setValidationGates = useValidationSettingsStore((state) => state.setGates);
 
   const [showRegister, setShowRegister] = useState(false);
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
@@ -79,11 +87,13 @@ function App() {
     }
   }, [selectedProjectId, setCurrentProject, setProjectRole, isPublicSurvey]);
 
-  // Load project role for permission-aware UI
+  // Load project role for permission-aware UI (and the project's validation rule settings)
   useEffect(() => {
     if (isPublicSurvey) return;
     if (!selectedProjectId || !user) {
       setProjectRole(null);
+      setValidationOverrides({});
+      setValidationGates({});
       return;
     }
 
@@ -101,6 +111,8 @@ function App() {
               : null;
         if (!canceled) {
           setProjectRole(role);
+          setValidationOverrides(project.validationRules ?? {});
+          setValidationGates({ commit: project.commitValidationGate, survey: project.surveyValidationGate });
         }
       } catch (error) {
         console.error('Failed to load project role:', error);
@@ -115,7 +127,7 @@ function App() {
     return () => {
       canceled = true;
     };
-  }, [selectedProjectId, user, setProjectRole, isPublicSurvey]);
+  }, [selectedProjectId, user, setProjectRole, setValidationOverrides, setValidationGates, isPublicSurvey]);
 
   // Periodic refresh to detect missed events
   useEffect(() => {
@@ -127,6 +139,13 @@ function App() {
     return () => window.clearInterval(intervalId);
   }, [isAuthenticated, selectedProjectId, checkForRemoteUpdate, isPublicSurvey]);
 
+  // Re-run GSN validation as the diagram changes (canvas markers and the header count)
+  useEffect(() => {
+    if (isPublicSurvey) return;
+    if (!isAuthenticated || !selectedProjectId) return;
+    return startLiveValidation();
+  }, [isAuthenticated, selectedProjectId, isPublicSurvey]);
+
   console.log('App render:', { isAuthenticated, isLoading, user, selectedProjectId });
 
   if (isPublicSurvey && publicSurveyToken) {
@@ -178,11 +197,12 @@ function App() {
         onLogout={logout}
         onBackToProjects={() => setSelectedProjectId(null)}
         onOpenSurveyManager={() => setShowSurveyManager(true)}
+        onOpenProject={setSelectedProjectId}
       />
       <div style={{ display: 'flex', flex: 1, overflow: 'hidden' }}>
         <Sidebar />
         <div style={{ flex: 1, overflow: 'hidden' }}>
-          <Canvas />
+          {viewMode === 'outline' ? <OutlineView /> : viewMode === 'table' ? <TableView /> : <Canvas />}
         </div>
       </div>
       {currentProjectId && (
@@ -0,0 +1,38 @@
+import { api } from '../services/api';
+
+export interface ProjectActivity {
+  id: string;
+  action: string; // 'diagram_updated', 'create_version', 'invite_member', 'publish_survey', 'apply_ai_ops' など
+  userId: string | null;
+  userName: string | null;
+  data: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface ActivityQuery {
+  userId?: string;
+  actions?: string[];
+  from?: string; // ISO 8601
+  to?: string; // ISO 8601
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ActivityPage {
+  activities: ProjectActivity[];
+  nextCursor: string | null;
+}
+
+export const activityApi = {
+  // アクティビティ一覧取得（新しい順、nextCursor で続きを取得）
+  getAll: async (projectId: string, query: ActivityQuery = {}): Promise<ActivityPage> => {
+    const { actions, ...rest } = query;
+    const response = await api.get(`/projects/${projectId}/activity`, {
+      params: {
+        ...rest,
+        ...(actions && actions.length > 0 && { action: actions.join(',') }),
+      },
+    });
+    return response.data;
+  },
+};
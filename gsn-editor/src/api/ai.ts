@@ -132,4 +132,12 @@ export const aiApi = {
     const response = await api.post(`/projects/${projectId}/ai/chat`, payload);
     return response.data;
   },
+
+  // 適用した操作をプロジェクトのアクティビティに記録する
+  async recordAppliedOps(
+    projectId: string,
+    payload: { conversationId?: string; diagramId?: string; ops: AiOp[] },
+  ): Promise<void> {
+    await api.post(`/projects/${projectId}/ai/ops-applied`, payload);
+  },
 };
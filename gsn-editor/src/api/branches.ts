@@ -0,0 +1,88 @@
+import { api } from '../services/api';
+import type { DiagramVersion } from './versions';
+import type { MergeConflict, MergeResolution } from '../../../shared/diagramMerge';
+
+// main ブランチのID（作業中のブランチが main の場合も currentBranchId はこの値）
+export const MAIN_BRANCH_ID = 'main';
+
+export interface DiagramBranch {
+  id: string; // main は MAIN_BRANCH_ID
+  name: string;
+  description: string | null;
+  baseVersionId: string | null; // 分岐元（最後にマージした）バージョン
+  baseVersionNumber: number | null;
+  headVersionId: string | null;
+  headVersionNumber: number | null;
+  versionCount: number;
+  createdBy: string | null;
+  mergedAt: string | null;
+  createdAt: string;
+}
+
+export interface BranchList {
+  currentBranchId: string;
+  branches: DiagramBranch[];
+}
+
+export interface CreateBranchRequest {
+  name: string;
+  description?: string;
+  fromVersionId?: string; // 省略時は作業中のブランチの最新バージョンから分岐
+}
+
+// ours は作業中のブランチ、theirs はマージするブランチの内容（削除された場合は null）
+export type { MergeConflict, MergeResolution };
+
+export interface MergePreview {
+  source: { id: string; name: string };
+  target: { id: string };
+  conflicts: MergeConflict[];
+  summary: { fromTheirs: number; conflicts: number };
+}
+
+export interface MergeBranchRequest {
+  resolutions: Record<string, MergeResolution>;
+  commitMessage?: string;
+}
+
+export const branchesApi = {
+  // ブランチ一覧取得（先頭は main）
+  getAll: async (projectId: string, diagramId: string): Promise<BranchList> => {
+    const response = await api.get(`/projects/${projectId}/diagrams/${diagramId}/branches`);
+    return response.data;
+  },
+
+  // ブランチ作成
+  create: async (projectId: string, diagramId: string, data: CreateBranchRequest): Promise<DiagramBranch> => {
+    const response = await api.post(`/projects/${projectId}/diagrams/${diagramId}/branches`, data);
+    return response.data;
+  },
+
+  // ブランチへの切り替え（作業中の内容はブランチの最新の内容に置き換わる）
+  // 未コミットの変更がある場合は discardChanges を指定しないと 409 になる
+  checkout: async (projectId: string, diagramId: string, branchId: string, discardChanges = false): Promise<void> => {
+    await api.post(`/projects/${projectId}/diagrams/${diagramId}/branches/${branchId}/checkout`, { discardChanges });
+  },
+
+  // 作業中のブランチへのマージのプレビュー（衝突の一覧）
+  previewMerge: async (projectId: string, diagramId: string, branchId: string): Promise<MergePreview> => {
+    const response = await api.get(`/projects/${projectId}/diagrams/${diagramId}/branches/${branchId}/merge`);
+    return response.data;
+  },
+
+  // 作業中のブランチへのマージ（結果はコミットされる）
+  merge: async (
+    projectId: string,
+    diagramId: string,
+    branchId: string,
+    data: MergeBranchRequest
+  ): Promise<{ version: DiagramVersion }> => {
+    const response = await api.post(`/projects/${projectId}/diagrams/${diagramId}/branches/${branchId}/merge`, data);
+    return response.data;
+  },
+
+  // ブランチ削除
+  delete: async (projectId: string, diagramId: string, branchId: string): Promise<void> => {
+    await api.delete(`/projects/${projectId}/diagrams/${diagramId}/branches/${branchId}`);
+  },
+};
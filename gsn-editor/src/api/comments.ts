@@ -0,0 +1,46 @@
+import { api } from '../services/api';
+import type { NodeComment } from '../types/diagram';
+
+export interface CreateCommentRequest {
+  nodeId: string;
+  body: string;
+  parentId?: string | null; // 返信先のコメントID
+  mentions?: string[]; // メンションしたユーザーID
+}
+
+export interface UpdateCommentRequest {
+  body?: string;
+  resolved?: boolean;
+}
+
+export const commentsApi = {
+  // コメント一覧取得（nodeId を指定するとそのノードのみ）
+  getAll: async (projectId: string, diagramId: string, nodeId?: string): Promise<NodeComment[]> => {
+    const response = await api.get(`/projects/${projectId}/diagrams/${diagramId}/comments`, {
+      params: nodeId ? { nodeId } : undefined,
+    });
+    return response.data.comments;
+  },
+
+  // コメント・返信の作成
+  create: async (projectId: string, diagramId: string, data: CreateCommentRequest): Promise<NodeComment> => {
+    const response = await api.post(`/projects/${projectId}/diagrams/${diagramId}/comments`, data);
+    return response.data.comment;
+  },
+
+  // 本文の編集、解決/再オープン
+  update: async (
+    projectId: string,
+    diagramId: string,
+    commentId: string,
+    data: UpdateCommentRequest
+  ): Promise<NodeComment> => {
+    const response = await api.patch(`/projects/${projectId}/diagrams/${diagramId}/comments/${commentId}`, data);
+    return response.data.comment;
+  },
+
+  // コメント削除（返信も削除される）
+  delete: async (projectId: string, diagramId: string, commentId: string): Promise<void> => {
+    await api.delete(`/projects/${projectId}/diagrams/${diagramId}/comments/${commentId}`);
+  },
+};
@@ -36,6 +36,7 @@ apiClient.interceptors.request.use((config) => {
 export interface DiagramMetadata {
   id: string;
   title: string;
+  frozenAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -46,6 +47,10 @@ export interface DiagramData {
   title: string;
   data: unknown; // JSON data (nodes, links, modules, etc.)
   version: number;
+  opSeq?: number; // last applied realtime operation sequence
+  frozenAt?: string | null; // frozen diagrams reject edits until unfrozen
+  frozenBy?: string | null;
+  frozenReason?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -58,6 +63,20 @@ export interface CreateDiagramRequest {
 export interface UpdateDiagramRequest {
   title?: string;
   data?: unknown;
+  baseVersion?: number | null; // expected server version (sent as If-Match)
+}
+
+/**
+ * Thrown when the server copy was updated by someone else (409)
+ */
+export class DiagramConflictError extends Error {
+  serverDiagram: DiagramData;
+
+  constructor(serverDiagram: DiagramData) {
+    super('Diagram was updated by another user');
+    this.name = 'DiagramConflictError';
+    this.serverDiagram = serverDiagram;
+  }
 }
 
 // API functions
@@ -88,13 +107,40 @@ export const diagramsApi = {
 
   /**
    * Update a diagram
+   * Throws DiagramConflictError when baseVersion does not match the server version
    */
   async updateDiagram(
     projectId: string,
     diagramId: string,
     request: UpdateDiagramRequest
   ): Promise<DiagramData> {
-    const response = await apiClient.put(`/projects/${projectId}/diagrams/${diagramId}`, request);
+    const { baseVersion, ...body } = request;
+    try {
+      const response = await apiClient.put(`/projects/${projectId}/diagrams/${diagramId}`, body, {
+        headers: baseVersion != null ? { 'If-Match': `"${baseVersion}"` } : undefined,
+      });
+      return response.data.diagram;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 409 && error.response.data?.diagram) {
+        throw new DiagramConflictError(error.response.data.diagram);
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Freeze a diagram (owner only)
+   */
+  async freezeDiagram(projectId: string, diagramId: string, reason?: string): Promise<DiagramData> {
+    const response = await apiClient.post(`/projects/${projectId}/diagrams/${diagramId}/freeze`, { reason });
+    return response.data.diagram;
+  },
+
+  /**
+   * Unfreeze a diagram (owner only)
+   */
+  async unfreezeDiagram(projectId: string, diagramId: string): Promise<DiagramData> {
+    const response = await apiClient.delete(`/projects/${projectId}/diagrams/${diagramId}/freeze`);
     return response.data.diagram;
   },
 
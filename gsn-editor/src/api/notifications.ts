@@ -0,0 +1,42 @@
+import { api } from '../services/api';
+
+export type NotificationType = 'mention' | 'survey_response' | 'role_changed';
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  projectId: string | null;
+  projectTitle: string | null;
+  actorId: string | null;
+  actorName: string | null;
+  // mention: diagramId, nodeId, commentId, excerpt
+  // survey_response: surveyId, surveyTitle, audience
+  // role_changed: role, previousRole
+  data: Record<string, string | null | undefined>;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationList {
+  notifications: AppNotification[];
+  unreadCount: number;
+}
+
+export const notificationsApi = {
+  // 自分宛ての通知一覧（新しい順）
+  getAll: async (params?: { unread?: boolean; limit?: number }): Promise<NotificationList> => {
+    const response = await api.get('/notifications', { params });
+    return response.data;
+  },
+
+  // 既読にする
+  markAsRead: async (notificationId: string): Promise<AppNotification> => {
+    const response = await api.patch(`/notifications/${notificationId}/read`);
+    return response.data.notification;
+  },
+
+  // すべて既読にする
+  markAllAsRead: async (): Promise<void> => {
+    await api.post('/notifications/read-all');
+  },
+};
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { api } from '../services/api';
+import { rethrowValidationGateError } from './validation';
 
 export type SurveyStatus = 'draft' | 'published' | 'closed';
 export type SurveyAudience = 'general' | 'expert';
@@ -138,9 +139,14 @@ export const surveysApi = {
     return response.data;
   },
 
-  async publishSurvey(surveyId: string): Promise<{ survey: Survey }> {
-    const response = await api.post(`/surveys/${surveyId}/publish`);
-    return response.data;
+  // GSN検証のゲートで拒否された場合は ValidationGateError（validationOverride に理由を付けて再送できる）
+  async publishSurvey(surveyId: string, validationOverride?: string): Promise<{ survey: Survey }> {
+    try {
+      const response = await api.post(`/surveys/${surveyId}/publish`, validationOverride ? { validationOverride } : undefined);
+      return response.data;
+    } catch (error) {
+      return rethrowValidationGateError(error);
+    }
   },
 
   async closeSurvey(surveyId: string): Promise<{ survey: Survey }> {
@@ -0,0 +1,52 @@
+import axios from 'axios';
+import type { ValidationError, ValidationWarning } from '../utils/validation';
+
+// コミット・アンケート公開の前の GSN 検証（off: 検証しない, block: エラーがあれば拒否, override: エラーがあれば理由を求める）
+export type ValidationGate = 'off' | 'block' | 'override';
+
+export interface ValidationGates {
+  commit: ValidationGate;
+  survey: ValidationGate;
+}
+
+// サーバーでの検証の指摘（どのモジュールのものか。ルートは 'root'）
+export type ServerValidationFinding = (ValidationError | ValidationWarning) & { moduleId: string };
+
+export interface ServerValidationResult {
+  isValid: boolean;
+  errors: ServerValidationFinding[];
+  warnings: ServerValidationFinding[];
+}
+
+/**
+ * Thrown when the project's validation gate rejects a commit or a survey publication (409)
+ */
+export class ValidationGateError extends Error {
+  validation: ServerValidationResult;
+  overrideAllowed: boolean; // 理由を入力すれば通せる
+
+  constructor(message: string, validation: ServerValidationResult, overrideAllowed: boolean) {
+    super(message);
+    this.name = 'ValidationGateError';
+    this.validation = validation;
+    this.overrideAllowed = overrideAllowed;
+  }
+}
+
+// ゲートによる拒否なら ValidationGateError に置き換えて投げ直す
+export const rethrowValidationGateError = (error: unknown): never => {
+  if (axios.isAxiosError(error) && error.response?.status === 409 && error.response.data?.validation) {
+    const { error: message, validation, overrideAllowed } = error.response.data;
+    throw new ValidationGateError(message, validation, Boolean(overrideAllowed));
+  }
+  throw error;
+};
+
+// 確認ダイアログに出す指摘の一覧（多い場合は先頭だけ）
+export const formatValidationFindings = (findings: ServerValidationFinding[], limit = 5): string => {
+  const lines = findings.slice(0, limit).map((finding) => `・${finding.message}`);
+  if (findings.length > limit) {
+    lines.push(`…ほか${findings.length - limit}件`);
+  }
+  return lines.join('\n');
+};
@@ -1,5 +1,15 @@
 import { api } from '../services/api';
-import type { DiagramData } from '../types/diagram';
+import { rethrowValidationGateError } from './validation';
+import type { DiagramData, Link, Node, Position, ProjectData } from '../types/diagram';
+
+// タグ（ベースライン）。タグの付いたバージョンは削除できない
+export interface VersionTag {
+  id: string;
+  name: string;
+  description: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
 
 // Version management API - Diagram version interface
 export interface DiagramVersion {
@@ -10,11 +20,119 @@ export interface DiagramVersion {
   data?: DiagramData; // Full diagram data (only in getVersion response)
   commitMessage: string | null;
   createdBy: string | null;
+  branchId: string | null; // null は main
+  isAuto?: boolean; // 自動スナップショット
   createdAt: string;
+  tags?: VersionTag[]; // 一覧（getAll）でのみ含まれる
+}
+
+// バージョン比較の片側（'current' は現在のダイアグラム）
+export interface VersionRef {
+  id: string;
+  versionNumber: number | null;
+  title: string;
+  commitMessage: string | null;
+  createdAt: string;
+}
+
+export interface TextSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface NodeDiff {
+  id: string;
+  label: string | null;
+  type: string | null;
+  before: Node;
+  after: Node;
+  changes: FieldChange[];
+  contentDiff: TextSegment[] | null;
+  moved: { from: Position; to: Position } | null;
+}
+
+export interface LinkDiff {
+  id: string;
+  before: Link;
+  after: Link;
+  changes: FieldChange[];
+}
+
+export interface ModuleDiff {
+  moduleId: string;
+  title: string | null;
+  status: 'added' | 'removed' | 'modified';
+  titleChange: { before: string | null; after: string | null } | null;
+  nodes: { added: Node[]; removed: Node[]; modified: NodeDiff[] };
+  links: { added: Link[]; removed: Link[]; modified: LinkDiff[] };
+}
+
+export interface VersionDiff {
+  from: VersionRef;
+  to: VersionRef & { data: Pick<ProjectData, 'modules'> };
+  modules: ModuleDiff[];
+  summary: {
+    nodesAdded: number;
+    nodesRemoved: number;
+    nodesModified: number;
+    linksAdded: number;
+    linksRemoved: number;
+    linksModified: number;
+  };
+}
+
+export const CURRENT_VERSION_ID = 'current';
+
+// ノード単位の履歴
+export interface NodeLinkChange {
+  status: 'added' | 'removed';
+  direction: 'incoming' | 'outgoing';
+  linkType: string | null;
+  otherId: string;
+  otherLabel: string | null;
+}
+
+export interface NodeChange {
+  kind: 'created' | 'deleted' | 'content' | 'label' | 'type' | 'link';
+  before?: unknown;
+  after?: unknown;
+  contentDiff?: TextSegment[];
+  link?: NodeLinkChange;
+}
+
+export interface NodeHistoryEntry {
+  versionId: string;
+  versionNumber: number;
+  commitMessage: string | null;
+  createdAt: string;
+  authorId: string | null;
+  authorName: string | null;
+  branchId: string;
+  branchName: string | null;
+  changes: NodeChange[];
+}
+
+export interface NodeHistory {
+  nodeId: string;
+  label: string | null;
+  type: string | null;
+  branchId: string;
+  entries: NodeHistoryEntry[]; // 最新が最初
+  blame: Record<'content' | 'label' | 'type' | 'links', string | null>; // 最後に変更したバージョンのID
+  uncommitted: NodeChange[]; // 最新のコミット以降の未コミットの変更
 }
 
 export interface CreateVersionRequest {
   commitMessage: string;
+  branchId?: string; // コミット先のブランチ（省略時は作業中のブランチ）
+  newBranchName?: string; // 指定すると新しいブランチを作成してコミット
+  validationOverride?: string; // GSN検証のエラーを承知でコミットする理由（ゲートが override の場合）
 }
 
 export const versionsApi = {
@@ -30,10 +148,14 @@ export const versionsApi = {
     return response.data;
   },
 
-  // バージョン作成（コミット）
+  // バージョン作成（コミット）。GSN検証のゲートで拒否された場合は ValidationGateError
   create: async (projectId: string, diagramId: string, data: CreateVersionRequest): Promise<DiagramVersion> => {
-    const response = await api.post(`/projects/${projectId}/diagrams/${diagramId}/versions`, data);
-    return response.data;
+    try {
+      const response = await api.post(`/projects/${projectId}/diagrams/${diagramId}/versions`, data);
+      return response.data;
+    } catch (error) {
+      return rethrowValidationGateError(error);
+    }
   },
 
   // バージョンへのロールバック
@@ -41,6 +163,41 @@ export const versionsApi = {
     await api.post(`/projects/${projectId}/diagrams/${diagramId}/versions/${versionId}/restore`);
   },
 
+  // バージョン間の差分（b に CURRENT_VERSION_ID を指定すると現在のダイアグラムと比較）
+  diff: async (projectId: string, diagramId: string, a: string, b: string): Promise<VersionDiff> => {
+    const response = await api.get(`/projects/${projectId}/diagrams/${diagramId}/versions/${a}/diff/${b}`);
+    return response.data;
+  },
+
+  // ノード単位の履歴（branchId を省略すると作業中のブランチ）
+  getNodeHistory: async (
+    projectId: string,
+    diagramId: string,
+    nodeId: string,
+    branchId?: string
+  ): Promise<NodeHistory> => {
+    const response = await api.get(`/projects/${projectId}/diagrams/${diagramId}/versions/nodes/${nodeId}/history`, {
+      params: branchId ? { branchId } : undefined,
+    });
+    return response.data;
+  },
+
+  // タグ（ベースライン）作成
+  createTag: async (
+    projectId: string,
+    diagramId: string,
+    versionId: string,
+    data: { name: string; description?: string }
+  ): Promise<VersionTag> => {
+    const response = await api.post(`/projects/${projectId}/diagrams/${diagramId}/versions/${versionId}/tags`, data);
+    return response.data;
+  },
+
+  // タグ削除（オーナーのみ）
+  deleteTag: async (projectId: string, diagramId: string, versionId: string, tagId: string): Promise<void> => {
+    await api.delete(`/projects/${projectId}/diagrams/${diagramId}/versions/${versionId}/tags/${tagId}`);
+  },
+
   // バージョン削除
   delete: async (projectId: string, diagramId: string, versionId: string): Promise<void> => {
     await api.delete(`/projects/${projectId}/diagrams/${diagramId}/versions/${versionId}`);
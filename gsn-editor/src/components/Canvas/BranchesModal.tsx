@@ -0,0 +1,396 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { branchesApi, MAIN_BRANCH_ID } from '../../api/branches';
+import type { DiagramBranch, MergeBranchRequest } from '../../api/branches';
+import { useAuthStore } from '../../stores/authStore';
+import { LoadingState } from '../Status/LoadingState';
+import { ErrorState } from '../Status/ErrorState';
+import { MergeModal } from './MergeModal';
+
+interface BranchesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  diagramId: string;
+  canEdit: boolean;
+  isOwner: boolean;
+  onCheckout: (branchId: string, discardChanges?: boolean) => Promise<void>;
+  onMerge: (branchId: string, request: MergeBranchRequest) => Promise<void>;
+}
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  (err as { response?: { data?: { error?: string } } })?.response?.data?.error ??
+  (err instanceof Error ? err.message : fallback);
+
+export const BranchesModal: React.FC<BranchesModalProps> = ({
+  isOpen,
+  onClose,
+  projectId,
+  diagramId,
+  canEdit,
+  isOwner,
+  onCheckout,
+  onMerge,
+}) => {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuthStore();
+  const [branches, setBranches] = useState<DiagramBranch[]>([]);
+  const [currentBranchId, setCurrentBranchId] = useState<string>(MAIN_BRANCH_ID);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // 新しいブランチ
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+
+  // マージするブランチ
+  const [mergeSource, setMergeSource] = useState<DiagramBranch | null>(null);
+
+  const loadBranches = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await branchesApi.getAll(projectId, diagramId);
+      setBranches(data.branches);
+      setCurrentBranchId(data.currentBranchId);
+    } catch (err: unknown) {
+      console.error('Failed to load branches:', err);
+      setError(getErrorMessage(err, t('branch.loadError')));
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, diagramId, t]);
+
+  useEffect(() => {
+    if (isOpen && projectId && diagramId) {
+      loadBranches();
+    }
+  }, [isOpen, projectId, diagramId, loadBranches]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) {
+      setError(t('branch.nameRequired'));
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await branchesApi.create(projectId, diagramId, {
+        name: newName.trim(),
+        description: newDescription.trim() || undefined,
+      });
+      setNewName('');
+      setNewDescription('');
+      await loadBranches();
+    } catch (err: unknown) {
+      console.error('Failed to create branch:', err);
+      setError(getErrorMessage(err, t('branch.createError')));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCheckout = async (branch: DiagramBranch) => {
+    setBusy(true);
+    setError(null);
+    try {
+      try {
+        await onCheckout(branch.id);
+      } catch (err: unknown) {
+        // 未コミットの変更がある場合は、破棄してよいか確認してから切り替える
+        const response = (err as { response?: { status?: number; data?: { uncommittedChanges?: boolean } } })?.response;
+        if (response?.status !== 409 || !response.data?.uncommittedChanges) {
+          throw err;
+        }
+        if (!confirm(t('branch.checkoutConfirm', { name: branch.name }))) {
+          return;
+        }
+        await onCheckout(branch.id, true);
+      }
+      await loadBranches();
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, t('branch.checkoutError')));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (branch: DiagramBranch) => {
+    if (!confirm(t('branch.deleteConfirm', { name: branch.name }))) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await branchesApi.delete(projectId, diagramId, branch.id);
+      await loadBranches();
+    } catch (err: unknown) {
+      console.error('Failed to delete branch:', err);
+      setError(getErrorMessage(err, t('branch.deleteError')));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    const locale = i18n.language === 'ja' ? 'ja-JP' : 'en-US';
+    return date.toLocaleString(locale, {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  if (!isOpen) return null;
+
+  const currentBranch = branches.find((branch) => branch.id === currentBranchId);
+  const buttonStyle = (color: string): React.CSSProperties => ({
+    padding: '6px 12px',
+    backgroundColor: 'white',
+    color,
+    border: `1px solid ${color}`,
+    borderRadius: '6px',
+    cursor: busy ? 'not-allowed' : 'pointer',
+    fontSize: '13px',
+    fontWeight: '500',
+  });
+  const inputStyle: React.CSSProperties = {
+    padding: '8px 12px',
+    border: '1px solid #D1D5DB',
+    borderRadius: '6px',
+    fontSize: '14px',
+  };
+
+  return (
+    <>
+      <div
+        style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000,
+        }}
+        onClick={onClose}
+      >
+        <div
+          style={{
+            backgroundColor: 'white',
+            borderRadius: '8px',
+            width: '700px',
+            maxHeight: '80vh',
+            display: 'flex',
+            flexDirection: 'column',
+            boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)',
+          }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* ヘッダー */}
+          <div
+            style={{
+              padding: '20px',
+              borderBottom: '1px solid #E5E7EB',
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+            }}
+          >
+            <h2 style={{ margin: 0, fontSize: '20px', fontWeight: 'bold' }}>🌿 {t('branch.title')}</h2>
+            <button
+              onClick={onClose}
+              style={{
+                background: 'none',
+                border: 'none',
+                fontSize: '24px',
+                cursor: 'pointer',
+                color: '#6B7280',
+              }}
+            >
+              ×
+            </button>
+          </div>
+
+          {/* 新しいブランチ */}
+          {canEdit && (
+            <form
+              onSubmit={handleCreate}
+              style={{
+                padding: '16px 20px',
+                borderBottom: '1px solid #E5E7EB',
+                backgroundColor: '#F9FAFB',
+                display: 'flex',
+                gap: '8px',
+                flexWrap: 'wrap',
+              }}
+            >
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder={t('branch.namePlaceholder')}
+                maxLength={100}
+                style={{ ...inputStyle, flex: '1 1 180px' }}
+              />
+              <input
+                type="text"
+                value={newDescription}
+                onChange={(e) => setNewDescription(e.target.value)}
+                placeholder={t('branch.descriptionPlaceholder')}
+                maxLength={500}
+                style={{ ...inputStyle, flex: '2 1 240px' }}
+              />
+              <button
+                type="submit"
+                disabled={busy}
+                style={{
+                  padding: '8px 16px',
+                  backgroundColor: '#3B82F6',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '6px',
+                  cursor: busy ? 'not-allowed' : 'pointer',
+                  fontWeight: '500',
+                }}
+              >
+                {t('branch.create')}
+              </button>
+              <div style={{ width: '100%', fontSize: '12px', color: '#6B7280' }}>
+                {t('branch.createHint', { name: currentBranch?.name ?? MAIN_BRANCH_ID })}
+              </div>
+            </form>
+          )}
+
+          {/* コンテンツ */}
+          <div style={{ padding: '20px', overflowY: 'auto', flex: 1 }}>
+            {loading && <LoadingState />}
+
+            {error && <ErrorState message={error} />}
+
+            {!loading &&
+              branches.map((branch) => {
+                const isCurrent = branch.id === currentBranchId;
+                const canDelete =
+                  canEdit && branch.id !== MAIN_BRANCH_ID && (isOwner || branch.createdBy === user?.id);
+                return (
+                  <div
+                    key={branch.id}
+                    style={{
+                      marginBottom: '12px',
+                      padding: '16px',
+                      borderRadius: '8px',
+                      backgroundColor: isCurrent ? '#EFF6FF' : '#F9FAFB',
+                      border: isCurrent ? '2px solid #3B82F6' : '1px solid #E5E7EB',
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'flex-start',
+                      gap: '12px',
+                    }}
+                  >
+                    <div style={{ minWidth: 0 }}>
+                      <div style={{ fontWeight: 'bold', fontSize: '16px', marginBottom: '4px' }}>
+                        {branch.name}
+                        {isCurrent && (
+                          <span
+                            style={{
+                              marginLeft: '8px',
+                              padding: '2px 8px',
+                              backgroundColor: '#3B82F6',
+                              color: 'white',
+                              borderRadius: '12px',
+                              fontSize: '11px',
+                              fontWeight: 'bold',
+                            }}
+                          >
+                            {t('branch.current')}
+                          </span>
+                        )}
+                      </div>
+                      {branch.description && (
+                        <div style={{ fontSize: '13px', color: '#374151', marginBottom: '4px' }}>{branch.description}</div>
+                      )}
+                      <div style={{ fontSize: '13px', color: '#6B7280' }}>
+                        {t('branch.commits', { count: branch.versionCount })}
+                        {branch.headVersionNumber !== null && ` · ${t('branch.head', { version: branch.headVersionNumber })}`}
+                        {branch.baseVersionNumber !== null &&
+                          ` · ${t('branch.base', { version: branch.baseVersionNumber })}`}
+                      </div>
+                      {branch.mergedAt && (
+                        <div style={{ fontSize: '12px', color: '#059669', marginTop: '2px' }}>
+                          {t('branch.mergedAt', { date: formatDate(branch.mergedAt) })}
+                        </div>
+                      )}
+                    </div>
+                    {canEdit && !isCurrent && (
+                      <div style={{ display: 'flex', gap: '8px', flexShrink: 0 }}>
+                        <button onClick={() => handleCheckout(branch)} disabled={busy} style={buttonStyle('#3B82F6')}>
+                          {t('branch.checkout')}
+                        </button>
+                        <button onClick={() => setMergeSource(branch)} disabled={busy} style={buttonStyle('#7C3AED')}>
+                          {t('branch.mergeInto', { name: currentBranch?.name ?? MAIN_BRANCH_ID })}
+                        </button>
+                        {canDelete && (
+                          <button onClick={() => handleDelete(branch)} disabled={busy} style={buttonStyle('#EF4444')}>
+                            {t('common.delete')}
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+          </div>
+
+          {/* フッター */}
+          <div
+            style={{
+              padding: '16px 20px',
+              borderTop: '1px solid #E5E7EB',
+              display: 'flex',
+              justifyContent: 'flex-end',
+            }}
+          >
+            <button
+              onClick={onClose}
+              style={{
+                padding: '8px 16px',
+                backgroundColor: '#F3F4F6',
+                color: '#374151',
+                border: 'none',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontWeight: '500',
+              }}
+            >
+              {t('common.close')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* マージ（衝突の解決） */}
+      {mergeSource && (
+        <MergeModal
+          projectId={projectId}
+          diagramId={diagramId}
+          source={mergeSource}
+          targetName={currentBranch?.name ?? MAIN_BRANCH_ID}
+          onClose={() => setMergeSource(null)}
+          onMerge={async (request) => {
+            await onMerge(mergeSource.id, request);
+            await loadBranches();
+          }}
+        />
+      )}
+    </>
+  );
+};
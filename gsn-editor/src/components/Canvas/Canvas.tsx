@@ -4,7 +4,7 @@ import { useAuthStore } from '../../stores/authStore';
 import { Node } from './Node';
 import { Link, ArrowMarker } from './Link';
 import { ContextMenu } from './ContextMenu';
-import { NodeEditor } from './NodeEditor';
+import { NodeEditor, type NodeEditorTab } from './NodeEditor';
 import { CommentPopover } from './CommentPopover';
 import { SavePatternModal } from './SavePatternModal';
 import { PatternLibrary } from '../Sidebar/PatternLibrary';
@@ -14,6 +14,14 @@ import { GRID_SIZE } from '../../types/diagram';
 import { patternsApi } from '../../api/patterns';
 import type { PatternData } from '../../api/patterns';
 import { websocketService } from '../../services/websocket';
+import type { NodeLock } from '../../services/websocket';
+import { getUserColor } from '../../utils/userColor';
+import { DIFF_COLORS, type DiffStatus } from '../../utils/diffColors';
+import { linkTypeFor } from '../../utils/textFormats';
+import { useVersionDiffStore } from '../../stores/versionDiffStore';
+import { useDiagramFreezeStore } from '../../stores/diagramFreezeStore';
+import { useLiveValidationStore } from '../../stores/liveValidationStore';
+import { VersionDiffPanel } from './VersionDiffPanel';
 
 export const Canvas: React.FC = () => {
   const {
@@ -40,7 +48,9 @@ export const Canvas: React.FC = () => {
     switchToParent,
     currentDiagramId,
     modules,
+    comments,
     addComment,
+    setCommentResolved,
     deleteComment,
     showPatternLibrary,
     setShowPatternLibrary,
@@ -49,11 +59,22 @@ export const Canvas: React.FC = () => {
     generateLabel,
     userCursors,
     currentProjectId,
+    currentDiagramDbId,
     clearOldCursors,
     projectRole,
+    nodeLocks,
+    nodeEditRequest,
+    acquireNodeLock,
+    releaseNodeLock,
+    requestNodeEdit,
+    clearNodeEditRequest,
   } = useDiagramStore();
 
   const { user } = useAuthStore();
+  const { diff, moduleId: diffModuleId, focusedId: diffFocusedId, setFocused: setDiffFocused, closeDiff } =
+    useVersionDiffStore();
+  const { freeze } = useDiagramFreezeStore();
+  const { nodeMarkers, linkMarkers } = useLiveValidationStore();
 
   const svgRef = useRef<SVGSVGElement>(null);
   const lastCursorSentRef = useRef<number>(0);
@@ -96,6 +117,10 @@ export const Canvas: React.FC = () => {
 
   // ノード編集モーダル
   const [editingNode, setEditingNode] = useState<NodeType | null>(null);
+  // 他のユーザーが編集中の場合はそのロック（閲覧のみで開く）
+  const [editingLockHolder, setEditingLockHolder] = useState<NodeLock | null>(null);
+  const [editingNodeTab, setEditingNodeTab] = useState<NodeEditorTab>('edit');
+  const reacquiringLockRef = useRef(false);
 
   // コメントポップオーバー
   const [commentPopover, setCommentPopover] = useState<{
@@ -110,7 +135,56 @@ export const Canvas: React.FC = () => {
   const [patternLinks, setPatternLinks] = useState<LinkType[]>([]);
 
   const { viewport, selectedNodeType, mode, selectedNodes, gridSnapEnabled } = canvasState;
-  const isReadOnly = projectRole === 'viewer';
+  // 閲覧者と凍結中のダイアグラムは編集できない（コメントは凍結中も可能）
+  const isReadOnly = projectRole === 'viewer' || !!freeze;
+  const editingNodeId = editingNode?.id;
+
+  // 編集ロックを取得してからエディタを開く（取得できなければ閲覧のみ）
+  const openNodeEditor = async (node: NodeType, tab: NodeEditorTab = 'edit') => {
+    // 閲覧者は履歴の表示のみ（ロックは取得しない）
+    const holder = isReadOnly ? null : await acquireNodeLock(node.id);
+    setEditingNode(node);
+    setEditingLockHolder(holder);
+    setEditingNodeTab(tab);
+  };
+
+  const closeNodeEditor = () => {
+    setEditingNode(null);
+    setEditingLockHolder(null);
+  };
+
+  // エディタを閉じたとき（アンマウント時も）ロックを解放する
+  useEffect(() => {
+    if (!editingNodeId) return;
+    return () => releaseNodeLock(editingNodeId);
+  }, [editingNodeId, releaseNodeLock]);
+
+  // 閲覧のみで開いているノードのロックが解放されたら、最新の内容で編集モードに切り替える
+  useEffect(() => {
+    if (!editingNodeId || !editingLockHolder || reacquiringLockRef.current) return;
+    if (nodeLocks.some((lock) => lock.nodeId === editingNodeId)) return;
+
+    reacquiringLockRef.current = true;
+    void acquireNodeLock(editingNodeId)
+      .then((holder) => {
+        if (holder) {
+          setEditingLockHolder(holder);
+          return;
+        }
+        const latest = useDiagramStore.getState().nodes.find((n) => n.id === editingNodeId);
+        if (latest) {
+          setEditingNode(latest);
+          setEditingLockHolder(null);
+        } else {
+          // 編集中に削除された
+          setEditingNode(null);
+          setEditingLockHolder(null);
+        }
+      })
+      .finally(() => {
+        reacquiringLockRef.current = false;
+      });
+  }, [editingNodeId, editingLockHolder, nodeLocks, acquireNodeLock]);
 
   // グリッドスナップ関数
   const snapToGrid = (value: number): number => {
@@ -133,6 +207,12 @@ export const Canvas: React.FC = () => {
       // ノード編集中またはコメントポップオーバー表示中は無効化
       if (editingNode || commentPopover) return;
 
+      // バージョン比較の表示中は編集のショートカットを無効化（ESCで比較を終了）
+      if (diff) {
+        if (e.key === 'Escape') closeDiff();
+        return;
+      }
+
       // ESC: リンクモードをキャンセル
       if (e.key === 'Escape') {
         setLinkSourceId(null);
@@ -186,9 +266,14 @@ export const Canvas: React.FC = () => {
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [editingNode, commentPopover, deleteSelectedNodes, selectAll, clearSelection, moveSelectedNodes, copySelectedNodes, pasteNodes]);
+  }, [editingNode, commentPopover, diff, closeDiff, deleteSelectedNodes, selectAll, clearSelection, moveSelectedNodes, copySelectedNodes, pasteNodes]);
 
-  // 古いカーソルを定期的にクリア
+  // プロジェクトを切り替えたらバージョン比較を終了する
+  useEffect(() => {
+    closeDiff();
+  }, [currentProjectId, closeDiff]);
+
+    // 古いカーソルを定期的にクリア
   useEffect(() => {
     const interval = setInterval(() => {
       clearOldCursors();
@@ -305,6 +390,11 @@ export const Canvas: React.FC = () => {
     setLinkContextMenu(null);
     setSelectedLinkId(null);
 
+    if (diff) {
+      setDiffFocused(null);
+      return;
+    }
+
     if (mode === 'addNode' && selectedNodeType) {
       if (isReadOnly) return;
       const coords = screenToSvgCoordinates(e.clientX, e.clientY);
@@ -332,7 +422,8 @@ export const Canvas: React.FC = () => {
 
   // ノード右クリック
   const handleNodeContextMenu = (nodeId: string) => (e: React.MouseEvent) => {
-    if (isReadOnly) return;
+    // 閲覧者には履歴の表示だけを出す
+    if (isReadOnly && !(currentProjectId && currentDiagramDbId)) return;
     e.preventDefault();
     e.stopPropagation();
     setContextMenu({
@@ -385,7 +476,12 @@ export const Canvas: React.FC = () => {
     // リンク追加モード中の場合
     if (linkSourceId) {
       if (linkSourceId !== nodeId) {
-        addLink(linkSourceId, nodeId, 'solid');
+        // 前提・仮定・正当化へは InContextOf（破線）、それ以外は SupportedBy（実線）でつなぐ
+        const target = nodes.find((n) => n.id === nodeId);
+        const rejected = addLink(linkSourceId, nodeId, target ? linkTypeFor(target.type) : 'solid');
+        if (rejected) {
+          alert(`リンクを作成できません: ${rejected}`);
+        }
       }
       setLinkSourceId(null);
       return;
@@ -566,7 +662,7 @@ export const Canvas: React.FC = () => {
     }
 
     // 空白領域で左ボタン（選択モード以外、またはノード追加モードでない場合）
-    if (e.button === 0 && e.target === svgRef.current && mode !== 'addNode') {
+    if (e.button === 0 && e.target === svgRef.current && (mode !== 'addNode' || diff)) {
       e.preventDefault();
       setIsPanning(true);
       setPanStart({ x: e.clientX, y: e.clientY });
@@ -597,6 +693,37 @@ export const Canvas: React.FC = () => {
     return currentDiagramId !== 'root';
   })();
 
+  // ノードごとの未解決コメントスレッド数
+  const openCommentCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    comments.forEach((comment) => {
+      if (comment.parentId || comment.resolvedAt) return;
+      counts.set(comment.nodeId, (counts.get(comment.nodeId) ?? 0) + 1);
+    });
+    return counts;
+  }, [comments]);
+
+  // バージョン比較の表示内容（新しい側のモジュールに削除されたノード・リンクを重ねる）
+  const diffView = useMemo(() => {
+    if (!diff) return null;
+    const moduleDiff = diff.modules.find((module) => module.moduleId === diffModuleId);
+    const moduleData = diff.to.data.modules[diffModuleId];
+    const status = new Map<string, DiffStatus>();
+    moduleDiff?.nodes.added.forEach((node) => status.set(node.id, 'added'));
+    moduleDiff?.nodes.removed.forEach((node) => status.set(node.id, 'removed'));
+    moduleDiff?.nodes.modified.forEach((node) => status.set(node.id, 'modified'));
+    moduleDiff?.links.added.forEach((link) => status.set(link.id, 'added'));
+    moduleDiff?.links.removed.forEach((link) => status.set(link.id, 'removed'));
+    moduleDiff?.links.modified.forEach((link) => status.set(link.id, 'modified'));
+
+    return {
+      nodes: [...(moduleData?.nodes ?? []), ...(moduleDiff?.nodes.removed ?? [])],
+      links: [...(moduleData?.links ?? []), ...(moduleDiff?.links.removed ?? [])],
+      moves: (moduleDiff?.nodes.modified ?? []).filter((node) => node.moved),
+      status,
+    };
+  }, [diff, diffModuleId]);
+
   const moduleTopGoalContent = useMemo(() => {
     const map = new Map<string, string>();
     const stripHtml = (html: string) => html.replace(/<[^>]*>/g, '').trim();
@@ -686,8 +813,79 @@ export const Canvas: React.FC = () => {
             </g>
           )}
 
+          {/* バージョン比較の表示（閲覧のみ） */}
+          {diffView && (
+            <>
+              {/* 移動したノードの元の位置 */}
+              {diffView.moves.map((node) => (
+                <g key={`moved-${node.id}`} pointerEvents="none">
+                  <rect
+                    x={node.moved!.from.x - node.before.size.width / 2}
+                    y={node.moved!.from.y - node.before.size.height / 2}
+                    width={node.before.size.width}
+                    height={node.before.size.height}
+                    fill="none"
+                    stroke={DIFF_COLORS.modified}
+                    strokeWidth={1.5}
+                    strokeDasharray="4 4"
+                    rx={4}
+                    opacity={0.7}
+                  />
+                  <line
+                    x1={node.moved!.from.x}
+                    y1={node.moved!.from.y}
+                    x2={node.moved!.to.x}
+                    y2={node.moved!.to.y}
+                    stroke={DIFF_COLORS.modified}
+                    strokeWidth={1.5}
+                    strokeDasharray="4 4"
+                    opacity={0.7}
+                  />
+                </g>
+              ))}
+
+              {diffView.links.map((link) => {
+                const sourceNode = diffView.nodes.find((n) => n.id === link.source);
+                const targetNode = diffView.nodes.find((n) => n.id === link.target);
+                if (!sourceNode || !targetNode) return null;
+
+                return (
+                  <Link
+                    key={link.id}
+                    link={link}
+                    sourceNode={sourceNode}
+                    targetNode={targetNode}
+                    isSelected={diffFocusedId === link.id}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setDiffFocused(link.id);
+                    }}
+                    onContextMenu={(e) => e.preventDefault()}
+                    diffStatus={diffView.status.get(link.id)}
+                  />
+                );
+              })}
+
+              {diffView.nodes.map((node) => (
+                <Node
+                  key={node.id}
+                  node={node}
+                  isSelected={diffFocusedId === node.id}
+                  hideEmptyContent={node.type === 'Module'}
+                  onSelect={(e) => {
+                    e.stopPropagation();
+                    setDiffFocused(node.id);
+                  }}
+                  onDoubleClick={() => {}}
+                  onDragStart={(e) => e.stopPropagation()}
+                  diffStatus={diffView.status.get(node.id)}
+                />
+              ))}
+            </>
+          )}
+
           {/* リンクを先に描画 */}
-          {links.map((link) => {
+          {!diffView && links.map((link) => {
             const sourceNode = nodes.find((n) => n.id === link.source);
             const targetNode = nodes.find((n) => n.id === link.target);
             if (!sourceNode || !targetNode) return null;
@@ -706,16 +904,18 @@ export const Canvas: React.FC = () => {
                   x: (x1 + x2) / 2,
                   y: (y1 + y2) / 2,
                 })}
+                validationMarker={linkMarkers[link.id]}
               />
             );
           })}
 
           {/* ノードを描画 */}
-          {nodes.map((node) => {
+          {!diffView && nodes.map((node) => {
             const moduleContent =
               node.type === 'Module' && node.moduleId
                 ? moduleTopGoalContent.get(node.moduleId) ?? ''
                 : null;
+            const lockHolder = nodeLocks.find((lock) => lock.nodeId === node.id && lock.userId !== user?.id);
 
             return (
               <Node
@@ -732,13 +932,16 @@ export const Canvas: React.FC = () => {
                   if (node.type === 'Module' && node.moduleId) {
                     switchToModule(node.moduleId);
                   } else if (!isReadOnly) {
-                    setEditingNode(node);
+                    void openNodeEditor(node);
                   }
                 }}
                 onDragStart={handleNodeDragStart(node.id)}
                 onContextMenu={handleNodeContextMenu(node.id)}
                 onResizeStart={(e, direction) => handleResizeStart(node.id, direction)(e)}
                 onCommentClick={handleCommentClick(node.id)}
+                openCommentCount={openCommentCounts.get(node.id)}
+                lockHolder={lockHolder ? { userName: lockHolder.userName, color: getUserColor(lockHolder.userId) } : null}
+                validationMarker={nodeMarkers[node.id]}
               />
             );
           })}
@@ -748,10 +951,7 @@ export const Canvas: React.FC = () => {
             // 自分のカーソルは表示しない
             if (user && cursor.userId === user.id) return null;
 
-            // ユーザーIDから一貫した色を生成（ハッシュベース）
-            const colors = ['#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#06B6D4', '#F97316'];
-            const hash = cursor.userId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-            const color = colors[hash % colors.length];
+            const color = getUserColor(cursor.userId);
 
             return (
               <UserCursor
@@ -766,6 +966,9 @@ export const Canvas: React.FC = () => {
         </g>
       </svg>
 
+      {/* バージョン比較の変更一覧 */}
+      <VersionDiffPanel />
+
       {/* 右クリックメニュー */}
       {contextMenu && (
         <ContextMenu
@@ -789,6 +992,14 @@ export const Canvas: React.FC = () => {
               ? () => switchToParent()
               : undefined
           }
+          onShowHistory={
+            currentProjectId && currentDiagramDbId
+              ? () => {
+                  const node = nodes.find((n) => n.id === contextMenu.nodeId);
+                  if (node) void openNodeEditor(node, 'history');
+                }
+              : undefined
+          }
           onSaveAsPattern={() => {
             // 右クリックしたノードからサブツリー全体を取得
             const getSubtree = (rootId: string): { nodes: NodeType[], links: LinkType[] } => {
@@ -826,9 +1037,34 @@ export const Canvas: React.FC = () => {
           isGoalNode={nodes.find(n => n.id === contextMenu.nodeId)?.type === 'Goal'}
           isTopGoal={isTopGoal(contextMenu.nodeId) && hasParentModule}
           hasSelection={true}
+          readOnly={isReadOnly}
         />
       )}
 
+      {/* 凍結中の表示 */}
+      {freeze && !diff && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '12px',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            backgroundColor: '#FFFBEB',
+            color: '#92400E',
+            border: '1px solid #FCD34D',
+            padding: '8px 16px',
+            borderRadius: '8px',
+            fontSize: '13px',
+            zIndex: 90,
+            maxWidth: '60%',
+            boxShadow: '0 2px 4px rgba(0, 0, 0, 0.06)',
+          }}
+        >
+          🔒 このダイアグラムは凍結されているため編集できません
+          {freeze.frozenReason && `（${freeze.frozenReason}）`}
+        </div>
+      )}
+
       {/* リンク追加モード中のヘルプテキスト */}
       {linkSourceId && (
         <div
@@ -867,6 +1103,27 @@ export const Canvas: React.FC = () => {
           }}
           onClick={(e) => e.stopPropagation()}
         >
+          <button
+            onClick={() => {
+              updateLink(activeLink.id, { type: activeLink.type === 'solid' ? 'dashed' : 'solid' });
+              setLinkContextMenu(null);
+            }}
+            style={{
+              width: '100%',
+              padding: '12px 16px',
+              border: 'none',
+              backgroundColor: 'transparent',
+              textAlign: 'left',
+              cursor: 'pointer',
+              fontSize: '14px',
+              color: '#111827',
+              fontWeight: '500',
+            }}
+            onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = '#F3F4F6')}
+            onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = 'transparent')}
+          >
+            {activeLink.type === 'solid' ? '破線（InContextOf）にする' : '実線（SupportedBy）にする'}
+          </button>
           {!isSmoothLink && (
             <button
               onClick={() => {
@@ -962,14 +1219,24 @@ export const Canvas: React.FC = () => {
         </div>
       )}
 
-      {/* ノード編集モーダル */}
+      {/* ノード編集モーダル（他のユーザーが編集中の間は閲覧のみで、変更をそのまま表示する） */}
       {editingNode && (
         <NodeEditor
-          node={editingNode}
+          key={`${editingNode.id}-${editingLockHolder ? 'locked' : 'editing'}`}
+          node={editingLockHolder ? nodes.find((n) => n.id === editingNode.id) ?? editingNode : editingNode}
+          lockedBy={editingLockHolder ? { userName: editingLockHolder.userName, color: getUserColor(editingLockHolder.userId) } : null}
+          onRequestEdit={() => requestNodeEdit(editingNode.id)}
+          editRequestedBy={nodeEditRequest?.nodeId === editingNode.id ? nodeEditRequest.userName : null}
+          onDismissEditRequest={clearNodeEditRequest}
+          readOnly={isReadOnly}
+          projectId={currentProjectId}
+          diagramId={currentDiagramDbId}
+          initialTab={editingNodeTab}
+          onTabChange={setEditingNodeTab}
           onSave={(content, label) => {
-            updateNode(editingNode.id, { content, label });
+            updateNode(editingNode.id, { content, label }, { baseContent: editingNode.content });
           }}
-          onClose={() => setEditingNode(null)}
+          onClose={closeNodeEditor}
         />
       )}
 
@@ -986,16 +1253,16 @@ export const Canvas: React.FC = () => {
           <CommentPopover
             nodeId={node.id}
             nodeLabel={node.label || node.type}
-            comments={node.comments || []}
+            projectId={currentProjectId}
+            comments={comments.filter((c) => c.nodeId === node.id)}
             position={{ x: commentPopover.x, y: commentPopover.y }}
             currentUserId={user.id}
             currentUserName={userName}
-            onAddComment={(nodeId, content) => {
-              addComment(nodeId, user.id, userName, content);
-            }}
-            onDeleteComment={(nodeId, commentId) => {
-              deleteComment(nodeId, commentId);
-            }}
+            canEdit={projectRole !== 'viewer'}
+            canDeleteOthers={projectRole === 'owner'}
+            onAddComment={addComment}
+            onResolveThread={setCommentResolved}
+            onDeleteComment={deleteComment}
             onClose={() => setCommentPopover(null)}
           />
         );
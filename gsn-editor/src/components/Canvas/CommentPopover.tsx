@@ -1,33 +1,83 @@
 import React, { useState, useRef, useEffect } from 'react';
 import type { NodeComment } from '../../types/diagram';
+import { projectMembersApi, type User } from '../../api/projectMembers';
 
 interface CommentPopoverProps {
   nodeId: string;
   nodeLabel: string;
+  projectId: string | null; // メンション候補（プロジェクトメンバー）の取得に使う
   comments: NodeComment[];
   position: { x: number; y: number };
   currentUserId: string;
   currentUserName: string;
-  onAddComment: (nodeId: string, content: string) => void;
-  onDeleteComment: (nodeId: string, commentId: string) => void;
+  canEdit: boolean; // コメントの投稿・解決（viewer は閲覧のみ）
+  canDeleteOthers: boolean; // 他のユーザーのコメントも削除できる（プロジェクトオーナー）
+  onAddComment: (nodeId: string, body: string, parentId?: string, mentions?: string[]) => Promise<void>;
+  onResolveThread: (commentId: string, resolved: boolean) => Promise<void>;
+  onDeleteComment: (commentId: string) => Promise<void>;
   onClose: () => void;
 }
 
+interface MentionCandidate {
+  userId: string;
+  name: string;
+  email: string;
+}
+
+// 入力中のメンション（@ からキャレットまで）
+interface MentionQuery {
+  target: 'new' | 'reply';
+  query: string;
+  start: number; // @ の位置
+  end: number; // キャレットの位置
+  index: number; // 選択中の候補
+}
+
+const MENTION_PATTERN = /(^|\s)@([^\s@]*)$/;
+const MAX_MENTION_SUGGESTIONS = 6;
+
+const getDisplayName = (user: User) =>
+  user.firstName || user.lastName ? `${user.lastName || ''} ${user.firstName || ''}`.trim() : user.email;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
 export const CommentPopover: React.FC<CommentPopoverProps> = ({
   nodeId,
   nodeLabel,
+  projectId,
   comments,
   position,
   currentUserId,
   currentUserName,
+  canEdit,
+  canDeleteOthers,
   onAddComment,
+  onResolveThread,
   onDeleteComment,
   onClose,
 }) => {
   const [newComment, setNewComment] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [showResolved, setShowResolved] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [members, setMembers] = useState<MentionCandidate[]>([]);
+  const [mention, setMention] = useState<MentionQuery | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const replyTextareaRef = useRef<HTMLTextAreaElement>(null);
   const popoverRef = useRef<HTMLDivElement>(null);
 
+  // スレッド（先頭コメント）ごとに返信をまとめる
+  const threads = comments.filter((c) => !c.parentId);
+  const repliesByThread = new Map<string, NodeComment[]>();
+  comments.forEach((c) => {
+    if (!c.parentId) return;
+    repliesByThread.set(c.parentId, [...(repliesByThread.get(c.parentId) || []), c]);
+  });
+  const openThreads = threads.filter((t) => !t.resolvedAt);
+  const resolvedCount = threads.length - openThreads.length;
+  const visibleThreads = showResolved ? threads : openThreads;
+
   useEffect(() => {
     // テキストエリアにフォーカス
     if (textareaRef.current) {
@@ -57,15 +107,214 @@ export const CommentPopover: React.FC<CommentPopoverProps> = ({
     };
   }, [onClose]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // メンション候補（オーナーとメンバー）を取得
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    projectMembersApi
+      .getMembers(projectId)
+      .then(({ owner, members: projectMembers }) => {
+        if (cancelled) return;
+        const users = [owner, ...projectMembers.map((member) => member.user)].filter(Boolean);
+        const unique = new Map(users.map((user) => [user.id, user]));
+        setMembers(
+          Array.from(unique.values()).map((user) => ({
+            userId: user.id,
+            name: getDisplayName(user),
+            email: user.email,
+          }))
+        );
+      })
+      .catch((error) => {
+        console.error('Failed to load project members:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const mentionSuggestions = mention
+    ? members
+        .filter((member) => member.userId !== currentUserId)
+        .filter((member) => {
+          const query = mention.query.toLowerCase();
+          return member.name.toLowerCase().includes(query) || member.email.toLowerCase().includes(query);
+        })
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+
+  // 本文に含まれる @名前 をメンションとして扱う
+  const extractMentions = (body: string) =>
+    members
+      .filter((member) => member.userId !== currentUserId && body.includes(`@${member.name}`))
+      .map((member) => member.userId);
+
+  const updateMentionQuery = (target: MentionQuery['target'], textarea: HTMLTextAreaElement) => {
+    const caret = textarea.selectionStart ?? textarea.value.length;
+    const match = textarea.value.slice(0, caret).match(MENTION_PATTERN);
+    if (!match || members.length === 0) {
+      setMention(null);
+      return;
+    }
+    const query = match[2];
+    setMention({ target, query, start: caret - query.length - 1, end: caret, index: 0 });
+  };
+
+  const insertMention = (candidate: MentionCandidate) => {
+    if (!mention) return;
+    const isReply = mention.target === 'reply';
+    const text = isReply ? replyText : newComment;
+    const inserted = `@${candidate.name} `;
+    const next = text.slice(0, mention.start) + inserted + text.slice(mention.end);
+    const caret = mention.start + inserted.length;
+
+    if (isReply) {
+      setReplyText(next);
+    } else {
+      setNewComment(next);
+    }
+    setMention(null);
+
+    const textarea = isReply ? replyTextareaRef.current : textareaRef.current;
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(caret, caret);
+    });
+  };
+
+  // 候補の選択中はキー操作を候補リストで使う（処理した場合は true）
+  const handleMentionKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>, target: MentionQuery['target']) => {
+    if (!mention || mention.target !== target || mentionSuggestions.length === 0) return false;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      const count = mentionSuggestions.length;
+      setMention({ ...mention, index: (mention.index + step + count) % count });
+      return true;
+    }
+    if ((e.key === 'Enter' && !e.ctrlKey && !e.metaKey) || e.key === 'Tab') {
+      e.preventDefault();
+      insertMention(mentionSuggestions[Math.min(mention.index, mentionSuggestions.length - 1)]);
+      return true;
+    }
+    if (e.key === 'Escape') {
+      // ポップオーバーは閉じずに候補だけ閉じる
+      e.preventDefault();
+      e.stopPropagation();
+      setMention(null);
+      return true;
+    }
+    return false;
+  };
+
+  const renderMentionSuggestions = (target: MentionQuery['target'], placement: 'above' | 'below') => {
+    if (!mention || mention.target !== target || mentionSuggestions.length === 0) return null;
+
+    return (
+      <div
+        style={{
+          position: 'absolute',
+          left: 0,
+          right: 0,
+          ...(placement === 'above' ? { bottom: '100%', marginBottom: '4px' } : { top: '100%', marginTop: '4px' }),
+          backgroundColor: 'white',
+          border: '1px solid #E5E7EB',
+          borderRadius: '8px',
+          boxShadow: '0 4px 12px rgba(0, 0, 0, 0.12)',
+          zIndex: 10,
+          overflow: 'hidden',
+        }}
+      >
+        {mentionSuggestions.map((candidate, index) => (
+          <div
+            key={candidate.userId}
+            onMouseDown={(e) => {
+              // テキストエリアのフォーカスを保ったまま選択する
+              e.preventDefault();
+              insertMention(candidate);
+            }}
+            onMouseEnter={() => setMention({ ...mention, index })}
+            style={{
+              padding: '6px 10px',
+              cursor: 'pointer',
+              backgroundColor: index === mention.index ? '#EFF6FF' : 'white',
+              display: 'flex',
+              alignItems: 'baseline',
+              gap: '6px',
+            }}
+          >
+            <span style={{ fontSize: '12px', fontWeight: '600', color: '#1F2937' }}>{candidate.name}</span>
+            <span style={{ fontSize: '11px', color: '#9CA3AF' }}>{candidate.email}</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // 本文中のメンションを強調表示する
+  const renderBody = (comment: NodeComment) => {
+    const names = members
+      .filter((member) => comment.mentions?.includes(member.userId))
+      .map((member) => member.name)
+      .sort((a, b) => b.length - a.length);
+    if (names.length === 0) return comment.body;
+
+    const pattern = new RegExp(`(@(?:${names.map(escapeRegExp).join('|')}))`, 'g');
+    return comment.body.split(pattern).map((part, index) =>
+      index % 2 === 1 ? (
+        <span key={index} style={{ color: '#2563EB', fontWeight: '600' }}>
+          {part}
+        </span>
+      ) : (
+        part
+      )
+    );
+  };
+
+  // 送信に失敗した場合は入力内容を残す
+  const runAction = async (action: () => Promise<void>, errorMessage: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error(errorMessage, error);
+      alert(errorMessage);
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (newComment.trim()) {
-      onAddComment(nodeId, newComment.trim());
+    const body = newComment.trim();
+    if (!body || isSubmitting) return;
+    const mentions = extractMentions(body);
+    if (await runAction(() => onAddComment(nodeId, body, undefined, mentions), 'コメントの送信に失敗しました')) {
       setNewComment('');
     }
   };
 
+  const handleReplySubmit = async (threadId: string) => {
+    const body = replyText.trim();
+    if (!body || isSubmitting) return;
+    const mentions = extractMentions(body);
+    if (await runAction(() => onAddComment(nodeId, body, threadId, mentions), '返信の送信に失敗しました')) {
+      setReplyText('');
+      setReplyTo(null);
+    }
+  };
+
+  const handleDelete = (comment: NodeComment) => {
+    const hasReplies = !comment.parentId && (repliesByThread.get(comment.id)?.length ?? 0) > 0;
+    if (hasReplies && !confirm('返信もまとめて削除されます。削除しますか？')) return;
+    void runAction(() => onDeleteComment(comment.id), 'コメントの削除に失敗しました');
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (handleMentionKeyDown(e, 'new')) return;
     // Ctrl+Enter or Cmd+Enter で送信
     if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
       e.preventDefault();
@@ -86,7 +335,115 @@ export const CommentPopover: React.FC<CommentPopoverProps> = ({
   // 画面内に収まるように位置を調整
   const adjustedPosition = {
     x: Math.min(position.x, window.innerWidth - 360),
-    y: Math.min(position.y, window.innerHeight - 400),
+    y: Math.min(position.y, window.innerHeight - 480),
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    background: 'none',
+    border: 'none',
+    cursor: 'pointer',
+    color: '#6B7280',
+    fontSize: '11px',
+    padding: '2px 4px',
+    borderRadius: '4px',
+  };
+
+  const renderComment = (comment: NodeComment, isReply: boolean) => {
+    const isMine = comment.authorId === currentUserId;
+    const canDelete = canEdit && (isMine || canDeleteOthers);
+
+    return (
+      <div
+        key={comment.id}
+        style={{
+          padding: isReply ? '8px 10px' : '10px 12px',
+          backgroundColor: isMine ? '#EFF6FF' : '#F3F4F6',
+          borderRadius: '8px',
+          position: 'relative',
+          marginLeft: isReply ? '20px' : 0,
+        }}
+      >
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            marginBottom: '6px',
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            {/* アバター */}
+            <div
+              style={{
+                width: '22px',
+                height: '22px',
+                borderRadius: '50%',
+                backgroundColor: isMine ? '#3B82F6' : '#6B7280',
+                color: 'white',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                fontSize: '10px',
+                fontWeight: '600',
+              }}
+            >
+              {comment.authorName.charAt(0).toUpperCase()}
+            </div>
+            <span
+              style={{
+                fontWeight: '600',
+                fontSize: '12px',
+                color: '#374151',
+              }}
+            >
+              {comment.authorName}
+            </span>
+            <span style={{ fontSize: '11px', color: '#9CA3AF' }}>
+              {formatDate(comment.createdAt)}
+            </span>
+          </div>
+          {/* 削除ボタン（自分のコメント、オーナーは全て） */}
+          {canDelete && (
+            <button
+              onClick={() => handleDelete(comment)}
+              disabled={isSubmitting}
+              style={{
+                background: 'none',
+                border: 'none',
+                cursor: 'pointer',
+                color: '#9CA3AF',
+                fontSize: '14px',
+                padding: '2px 4px',
+                borderRadius: '4px',
+                transition: 'all 0.15s',
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.color = '#EF4444';
+                e.currentTarget.style.backgroundColor = '#FEE2E2';
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.color = '#9CA3AF';
+                e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+              title="削除"
+            >
+              🗑️
+            </button>
+          )}
+        </div>
+        <div
+          style={{
+            fontSize: '13px',
+            color: '#1F2937',
+            lineHeight: '1.5',
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+          }}
+        >
+          {renderBody(comment)}
+        </div>
+      </div>
+    );
   };
 
   return (
@@ -97,7 +454,7 @@ export const CommentPopover: React.FC<CommentPopoverProps> = ({
         left: adjustedPosition.x,
         top: adjustedPosition.y,
         width: '340px',
-        maxHeight: '400px',
+        maxHeight: '480px',
         backgroundColor: 'white',
         borderRadius: '12px',
         boxShadow: '0 10px 25px rgba(0, 0, 0, 0.15), 0 4px 10px rgba(0, 0, 0, 0.1)',
@@ -123,7 +480,7 @@ export const CommentPopover: React.FC<CommentPopoverProps> = ({
           <span style={{ fontWeight: '600', color: '#1F2937', fontSize: '14px' }}>
             {nodeLabel || 'ノード'}のコメント
           </span>
-          {comments.length > 0 && (
+          {openThreads.length > 0 && (
             <span
               style={{
                 backgroundColor: '#3B82F6',
@@ -134,36 +491,46 @@ export const CommentPopover: React.FC<CommentPopoverProps> = ({
                 borderRadius: '10px',
               }}
             >
-              {comments.length}
+              {openThreads.length}
             </span>
           )}
         </div>
-        <button
-          onClick={onClose}
-          style={{
-            background: 'none',
-            border: 'none',
-            cursor: 'pointer',
-            color: '#9CA3AF',
-            fontSize: '20px',
-            padding: '0',
-            lineHeight: 1,
-          }}
-        >
-          ×
-        </button>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          {resolvedCount > 0 && (
+            <button
+              onClick={() => setShowResolved(!showResolved)}
+              style={{ ...smallButtonStyle, color: '#3B82F6' }}
+            >
+              {showResolved ? '解決済みを隠す' : `解決済みを表示 (${resolvedCount})`}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              color: '#9CA3AF',
+              fontSize: '20px',
+              padding: '0',
+              lineHeight: 1,
+            }}
+          >
+            ×
+          </button>
+        </div>
       </div>
 
-      {/* コメント一覧 */}
+      {/* スレッド一覧 */}
       <div
         style={{
           flex: 1,
           overflowY: 'auto',
-          padding: comments.length > 0 ? '12px 16px' : '0',
-          maxHeight: '200px',
+          padding: visibleThreads.length > 0 ? '12px 16px' : '0',
+          maxHeight: '300px',
         }}
       >
-        {comments.length === 0 ? (
+        {visibleThreads.length === 0 ? (
           <div
             style={{
               padding: '24px 16px',
@@ -172,178 +539,209 @@ export const CommentPopover: React.FC<CommentPopoverProps> = ({
               fontSize: '13px',
             }}
           >
-            コメントはまだありません
+            {resolvedCount > 0 ? '未解決のコメントはありません' : 'コメントはまだありません'}
           </div>
         ) : (
-          <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
-            {comments.map((comment) => (
-              <div
-                key={comment.id}
-                style={{
-                  padding: '10px 12px',
-                  backgroundColor: comment.authorId === currentUserId ? '#EFF6FF' : '#F3F4F6',
-                  borderRadius: '8px',
-                  position: 'relative',
-                }}
-              >
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+            {visibleThreads.map((thread) => {
+              const replies = repliesByThread.get(thread.id) || [];
+              const isResolved = !!thread.resolvedAt;
+
+              return (
                 <div
+                  key={thread.id}
                   style={{
                     display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'space-between',
-                    marginBottom: '6px',
+                    flexDirection: 'column',
+                    gap: '6px',
+                    opacity: isResolved ? 0.7 : 1,
                   }}
                 >
-                  <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
-                    {/* アバター */}
-                    <div
-                      style={{
-                        width: '22px',
-                        height: '22px',
-                        borderRadius: '50%',
-                        backgroundColor: comment.authorId === currentUserId ? '#3B82F6' : '#6B7280',
-                        color: 'white',
-                        display: 'flex',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                        fontSize: '10px',
-                        fontWeight: '600',
-                      }}
-                    >
-                      {comment.authorName.charAt(0).toUpperCase()}
-                    </div>
-                    <span
-                      style={{
-                        fontWeight: '600',
-                        fontSize: '12px',
-                        color: '#374151',
-                      }}
-                    >
-                      {comment.authorName}
-                    </span>
-                    <span style={{ fontSize: '11px', color: '#9CA3AF' }}>
-                      {formatDate(comment.createdAt)}
-                    </span>
+                  {renderComment(thread, false)}
+                  {replies.map((reply) => renderComment(reply, true))}
+
+                  {/* スレッドの操作 */}
+                  <div
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '8px',
+                      marginLeft: replies.length > 0 ? '20px' : 0,
+                    }}
+                  >
+                    {isResolved && (
+                      <span style={{ fontSize: '11px', color: '#059669' }}>
+                        ✓ 解決済み{thread.resolvedByName && `（${thread.resolvedByName}）`}
+                      </span>
+                    )}
+                    {canEdit && !isResolved && (
+                      <button
+                        onClick={() => {
+                          setReplyTo(replyTo === thread.id ? null : thread.id);
+                          setReplyText('');
+                          setMention(null);
+                        }}
+                        style={smallButtonStyle}
+                      >
+                        返信
+                      </button>
+                    )}
+                    {canEdit && (
+                      <button
+                        onClick={() => {
+                          void runAction(
+                            () => onResolveThread(thread.id, !isResolved),
+                            isResolved ? '再オープンに失敗しました' : '解決に失敗しました'
+                          );
+                        }}
+                        disabled={isSubmitting}
+                        style={{ ...smallButtonStyle, color: isResolved ? '#6B7280' : '#059669' }}
+                      >
+                        {isResolved ? '再オープン' : '✓ 解決'}
+                      </button>
+                    )}
                   </div>
-                  {/* 削除ボタン（自分のコメントのみ） */}
-                  {comment.authorId === currentUserId && (
-                    <button
-                      onClick={() => onDeleteComment(nodeId, comment.id)}
-                      style={{
-                        background: 'none',
-                        border: 'none',
-                        cursor: 'pointer',
-                        color: '#9CA3AF',
-                        fontSize: '14px',
-                        padding: '2px 4px',
-                        borderRadius: '4px',
-                        transition: 'all 0.15s',
-                      }}
-                      onMouseEnter={(e) => {
-                        e.currentTarget.style.color = '#EF4444';
-                        e.currentTarget.style.backgroundColor = '#FEE2E2';
-                      }}
-                      onMouseLeave={(e) => {
-                        e.currentTarget.style.color = '#9CA3AF';
-                        e.currentTarget.style.backgroundColor = 'transparent';
-                      }}
-                      title="削除"
-                    >
-                      🗑️
-                    </button>
+
+                  {/* 返信入力 */}
+                  {replyTo === thread.id && (
+                    <div style={{ display: 'flex', gap: '6px', marginLeft: '20px', position: 'relative' }}>
+                      {renderMentionSuggestions('reply', 'below')}
+                      <textarea
+                        ref={replyTextareaRef}
+                        autoFocus
+                        value={replyText}
+                        onChange={(e) => {
+                          setReplyText(e.target.value);
+                          updateMentionQuery('reply', e.target);
+                        }}
+                        onKeyDown={(e) => {
+                          if (handleMentionKeyDown(e, 'reply')) return;
+                          if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
+                            e.preventDefault();
+                            void handleReplySubmit(thread.id);
+                          }
+                        }}
+                        onBlur={() => setMention(null)}
+                        placeholder="返信を入力... (@でメンション, Ctrl+Enterで送信)"
+                        style={{
+                          flex: 1,
+                          minHeight: '32px',
+                          maxHeight: '80px',
+                          padding: '6px 8px',
+                          border: '1px solid #D1D5DB',
+                          borderRadius: '6px',
+                          fontSize: '12px',
+                          resize: 'none',
+                          outline: 'none',
+                          boxSizing: 'border-box',
+                        }}
+                      />
+                      <button
+                        onClick={() => void handleReplySubmit(thread.id)}
+                        disabled={!replyText.trim() || isSubmitting}
+                        style={{
+                          padding: '6px 10px',
+                          backgroundColor: replyText.trim() ? '#3B82F6' : '#E5E7EB',
+                          color: replyText.trim() ? 'white' : '#9CA3AF',
+                          border: 'none',
+                          borderRadius: '6px',
+                          cursor: replyText.trim() ? 'pointer' : 'not-allowed',
+                          fontSize: '12px',
+                          fontWeight: '500',
+                        }}
+                      >
+                        返信
+                      </button>
+                    </div>
                   )}
                 </div>
-                <div
-                  style={{
-                    fontSize: '13px',
-                    color: '#1F2937',
-                    lineHeight: '1.5',
-                    whiteSpace: 'pre-wrap',
-                    wordBreak: 'break-word',
-                  }}
-                >
-                  {comment.content}
-                </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
 
-      {/* 新規コメント入力 */}
-      <form
-        onSubmit={handleSubmit}
-        style={{
-          padding: '12px 16px',
-          borderTop: '1px solid #E5E7EB',
-          backgroundColor: '#FAFAFA',
-        }}
-      >
-        <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-end' }}>
-          <div
-            style={{
-              width: '28px',
-              height: '28px',
-              borderRadius: '50%',
-              backgroundColor: '#3B82F6',
-              color: 'white',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              fontSize: '12px',
-              fontWeight: '600',
-              flexShrink: 0,
-            }}
-          >
-            {currentUserName.charAt(0).toUpperCase()}
-          </div>
-          <div style={{ flex: 1 }}>
-            <textarea
-              ref={textareaRef}
-              value={newComment}
-              onChange={(e) => setNewComment(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="コメントを入力... (Ctrl+Enterで送信)"
+      {/* 新規コメント入力（新しいスレッド） */}
+      {canEdit && (
+        <form
+          onSubmit={handleSubmit}
+          style={{
+            padding: '12px 16px',
+            borderTop: '1px solid #E5E7EB',
+            backgroundColor: '#FAFAFA',
+          }}
+        >
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-end' }}>
+            <div
               style={{
-                width: '100%',
-                minHeight: '36px',
-                maxHeight: '80px',
-                padding: '8px 10px',
-                border: '1px solid #D1D5DB',
+                width: '28px',
+                height: '28px',
+                borderRadius: '50%',
+                backgroundColor: '#3B82F6',
+                color: 'white',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                fontSize: '12px',
+                fontWeight: '600',
+                flexShrink: 0,
+              }}
+            >
+              {currentUserName.charAt(0).toUpperCase()}
+            </div>
+            <div style={{ flex: 1, position: 'relative' }}>
+              {renderMentionSuggestions('new', 'above')}
+              <textarea
+                ref={textareaRef}
+                value={newComment}
+                onChange={(e) => {
+                  setNewComment(e.target.value);
+                  updateMentionQuery('new', e.target);
+                }}
+                onKeyDown={handleKeyDown}
+                placeholder="コメントを入力... (@でメンション, Ctrl+Enterで送信)"
+                style={{
+                  width: '100%',
+                  minHeight: '36px',
+                  maxHeight: '80px',
+                  padding: '8px 10px',
+                  border: '1px solid #D1D5DB',
+                  borderRadius: '8px',
+                  fontSize: '13px',
+                  resize: 'none',
+                  outline: 'none',
+                  transition: 'border-color 0.15s',
+                  boxSizing: 'border-box',
+                }}
+                onFocus={(e) => {
+                  e.currentTarget.style.borderColor = '#3B82F6';
+                }}
+                onBlur={(e) => {
+                  e.currentTarget.style.borderColor = '#D1D5DB';
+                  setMention(null);
+                }}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={!newComment.trim() || isSubmitting}
+              style={{
+                padding: '8px 14px',
+                backgroundColor: newComment.trim() ? '#3B82F6' : '#E5E7EB',
+                color: newComment.trim() ? 'white' : '#9CA3AF',
+                border: 'none',
                 borderRadius: '8px',
+                cursor: newComment.trim() ? 'pointer' : 'not-allowed',
+                fontWeight: '500',
                 fontSize: '13px',
-                resize: 'none',
-                outline: 'none',
-                transition: 'border-color 0.15s',
-                boxSizing: 'border-box',
-              }}
-              onFocus={(e) => {
-                e.currentTarget.style.borderColor = '#3B82F6';
-              }}
-              onBlur={(e) => {
-                e.currentTarget.style.borderColor = '#D1D5DB';
+                transition: 'all 0.15s',
               }}
-            />
+            >
+              送信
+            </button>
           </div>
-          <button
-            type="submit"
-            disabled={!newComment.trim()}
-            style={{
-              padding: '8px 14px',
-              backgroundColor: newComment.trim() ? '#3B82F6' : '#E5E7EB',
-              color: newComment.trim() ? 'white' : '#9CA3AF',
-              border: 'none',
-              borderRadius: '8px',
-              cursor: newComment.trim() ? 'pointer' : 'not-allowed',
-              fontWeight: '500',
-              fontSize: '13px',
-              transition: 'all 0.15s',
-            }}
-          >
-            送信
-          </button>
-        </div>
-      </form>
+        </form>
+      )}
     </div>
   );
 };
@@ -1,24 +1,53 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
+import { branchesApi, type DiagramBranch } from '../../api/branches';
+import type { CreateVersionRequest } from '../../api/versions';
+
+export type CommitTarget = Omit<CreateVersionRequest, 'commitMessage'>;
 
 interface CommitModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onCommit: (message: string) => void;
+  onCommit: (message: string, target: CommitTarget) => void;
+  projectId: string;
+  diagramId: string;
 }
 
-const CommitModalContent: React.FC<Omit<CommitModalProps, 'isOpen'>> = ({ onClose, onCommit }) => {
+// ブランチ選択で「新しいブランチ」を表す値
+const NEW_BRANCH_OPTION = '__new__';
+
+const CommitModalContent: React.FC<Omit<CommitModalProps, 'isOpen'>> = ({ onClose, onCommit, projectId, diagramId }) => {
   const { t } = useTranslation();
   const [message, setMessage] = useState('');
   const [error, setError] = useState<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  // コミット先のブランチ
+  const [branches, setBranches] = useState<DiagramBranch[]>([]);
+  const [currentBranchId, setCurrentBranchId] = useState<string | null>(null);
+  const [selectedBranchId, setSelectedBranchId] = useState<string | null>(null);
+  const [newBranchName, setNewBranchName] = useState('');
+
   useEffect(() => {
     // フォーカスを設定
     const timeoutId = window.setTimeout(() => textareaRef.current?.focus(), 100);
     return () => window.clearTimeout(timeoutId);
   }, []);
 
+  useEffect(() => {
+    if (!projectId || !diagramId) return;
+    branchesApi
+      .getAll(projectId, diagramId)
+      .then((list) => {
+        setBranches(list.branches);
+        setCurrentBranchId(list.currentBranchId);
+        setSelectedBranchId(list.currentBranchId);
+      })
+      .catch((err) => console.error('Failed to load branches:', err));
+  }, [projectId, diagramId]);
+
+  const isNewBranch = selectedBranchId === NEW_BRANCH_OPTION;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -27,7 +56,19 @@ const CommitModalContent: React.FC<Omit<CommitModalProps, 'isOpen'>> = ({ onClos
       return;
     }
 
-    onCommit(message.trim());
+    if (isNewBranch && !newBranchName.trim()) {
+      setError(t('branch.nameRequired'));
+      return;
+    }
+
+    // ブランチ一覧を取得できなかった場合は作業中のブランチにコミット
+    const target: CommitTarget = isNewBranch
+      ? { newBranchName: newBranchName.trim() }
+      : selectedBranchId
+        ? { branchId: selectedBranchId }
+        : {};
+
+    onCommit(message.trim(), target);
     onClose();
   };
 
@@ -136,6 +177,67 @@ const CommitModalContent: React.FC<Omit<CommitModalProps, 'isOpen'>> = ({ onClos
             <div style={{ marginTop: '8px', fontSize: '13px', color: '#6B7280' }}>
               💡 {t('version.shortcutHint')}
             </div>
+
+            {/* コミット先のブランチ */}
+            {branches.length > 0 && (
+              <div style={{ marginTop: '16px' }}>
+                <label
+                  htmlFor="commit-branch"
+                  style={{ display: 'block', marginBottom: '8px', fontWeight: '500', color: '#374151' }}
+                >
+                  🌿 {t('branch.commitTo')}
+                </label>
+                <select
+                  id="commit-branch"
+                  value={selectedBranchId ?? ''}
+                  onChange={(e) => {
+                    setSelectedBranchId(e.target.value);
+                    setError(null);
+                  }}
+                  style={{
+                    width: '100%',
+                    padding: '8px 12px',
+                    border: '1px solid #D1D5DB',
+                    borderRadius: '6px',
+                    fontSize: '14px',
+                  }}
+                >
+                  {branches.map((branch) => (
+                    <option key={branch.id} value={branch.id}>
+                      {branch.name}
+                      {branch.id === currentBranchId ? ` （${t('branch.current')}）` : ''}
+                    </option>
+                  ))}
+                  <option value={NEW_BRANCH_OPTION}>＋ {t('branch.newBranch')}</option>
+                </select>
+                {isNewBranch && (
+                  <input
+                    type="text"
+                    value={newBranchName}
+                    onChange={(e) => {
+                      setNewBranchName(e.target.value);
+                      setError(null);
+                    }}
+                    onKeyDown={handleKeyDown}
+                    placeholder={t('branch.namePlaceholder')}
+                    maxLength={100}
+                    style={{
+                      width: '100%',
+                      marginTop: '8px',
+                      padding: '8px 12px',
+                      border: '1px solid #D1D5DB',
+                      borderRadius: '6px',
+                      fontSize: '14px',
+                    }}
+                  />
+                )}
+                {selectedBranchId && selectedBranchId !== currentBranchId && (
+                  <div style={{ marginTop: '8px', fontSize: '13px', color: '#6B7280' }}>
+                    {t('branch.commitSwitchHint')}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* フッター */}
@@ -184,7 +286,7 @@ const CommitModalContent: React.FC<Omit<CommitModalProps, 'isOpen'>> = ({ onClos
   );
 };
 
-export const CommitModal: React.FC<CommitModalProps> = ({ isOpen, onClose, onCommit }) => {
+export const CommitModal: React.FC<CommitModalProps> = ({ isOpen, onClose, onCommit, projectId, diagramId }) => {
   if (!isOpen) return null;
-  return <CommitModalContent onClose={onClose} onCommit={onCommit} />;
+  return <CommitModalContent onClose={onClose} onCommit={onCommit} projectId={projectId} diagramId={diagramId} />;
 };
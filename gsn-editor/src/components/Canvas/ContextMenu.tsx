@@ -11,9 +11,11 @@ interface ContextMenuProps {
   onConvertToModule?: () => void;
   onOpenParentModule?: () => void;
   onSaveAsPattern?: () => void;
+  onShowHistory?: () => void;
   isGoalNode?: boolean;
   isTopGoal?: boolean;
   hasSelection?: boolean;
+  readOnly?: boolean; // 閲覧者（履歴の表示のみ）
 }
 
 export const ContextMenu: React.FC<ContextMenuProps> = ({
@@ -26,9 +28,11 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
   onConvertToModule,
   onOpenParentModule,
   onSaveAsPattern,
+  onShowHistory,
   isGoalNode = false,
   isTopGoal = false,
   hasSelection = false,
+  readOnly = false,
 }) => {
   const { t } = useTranslation();
 
@@ -47,21 +51,59 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
     };
   }, [onClose]);
 
-  return (
+  const menuStyle: React.CSSProperties = {
+    position: 'fixed',
+    left: x,
+    top: y,
+    backgroundColor: '#FFFFFF',
+    border: '1px solid #E5E7EB',
+    borderRadius: '8px',
+    boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)',
+    zIndex: 1000,
+    minWidth: '180px',
+    overflow: 'hidden',
+  };
+
+  const historyItem = onShowHistory && (
     <div
-      onClick={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        e.stopPropagation();
+        onShowHistory();
+        onClose();
+      }}
       style={{
-        position: 'fixed',
-        left: x,
-        top: y,
-        backgroundColor: '#FFFFFF',
-        border: '1px solid #E5E7EB',
-        borderRadius: '8px',
-        boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)',
-        zIndex: 1000,
-        minWidth: '180px',
-        overflow: 'hidden',
+        padding: '12px 16px',
+        cursor: 'pointer',
+        borderBottom: readOnly ? 'none' : '1px solid #F3F4F6',
+        fontSize: '14px',
+        fontWeight: '500',
+        color: '#374151',
+        transition: 'background-color 0.15s',
       }}
+      onMouseEnter={(e) => {
+        e.currentTarget.style.backgroundColor = '#F9FAFB';
+      }}
+      onMouseLeave={(e) => {
+        e.currentTarget.style.backgroundColor = 'transparent';
+      }}
+    >
+      {t('canvas.contextMenu.showHistory')}
+    </div>
+  );
+
+  // 閲覧者は履歴の表示だけ
+  if (readOnly) {
+    return historyItem ? (
+      <div onClick={(e) => e.stopPropagation()} style={menuStyle}>
+        {historyItem}
+      </div>
+    ) : null;
+  }
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      style={menuStyle}
     >
       <div
         onClick={(e) => {
@@ -165,6 +207,7 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
           {t('canvas.contextMenu.openParentModule')}
         </div>
       )}
+      {historyItem}
       {hasSelection && onSaveAsPattern && (
         <div
           onClick={(e) => {
@@ -0,0 +1,29 @@
+import React from 'react';
+import type { TextSegment } from '../../api/versions';
+
+interface DiffTextProps {
+  segments: TextSegment[];
+}
+
+// テキスト差分の表示（追加は緑、削除は赤の取り消し線）
+export const DiffText: React.FC<DiffTextProps> = ({ segments }) => (
+  <>
+    {segments.map((segment, index) => {
+      if (segment.type === 'insert') {
+        return (
+          <span key={index} style={{ backgroundColor: '#DCFCE7', color: '#166534' }}>
+            {segment.text}
+          </span>
+        );
+      }
+      if (segment.type === 'delete') {
+        return (
+          <span key={index} style={{ backgroundColor: '#FEE2E2', color: '#991B1B', textDecoration: 'line-through' }}>
+            {segment.text}
+          </span>
+        );
+      }
+      return <span key={index}>{segment.text}</span>;
+    })}
+  </>
+);
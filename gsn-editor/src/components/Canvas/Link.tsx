@@ -1,5 +1,8 @@
 import React from 'react';
 import type { Link as LinkType, Node } from '../../types/diagram';
+import { DIFF_COLORS, type DiffStatus } from '../../utils/diffColors';
+import { VALIDATION_COLORS } from '../../utils/validationColors';
+import type { LiveValidationMarker } from '../../stores/liveValidationStore';
 
 interface LinkProps {
   link: LinkType;
@@ -9,6 +12,8 @@ interface LinkProps {
   onClick: (e: React.MouseEvent) => void;
   onContextMenu: (e: React.MouseEvent) => void;
   onCurveHandleMouseDown?: (e: React.MouseEvent) => void;
+  diffStatus?: DiffStatus | null; // バージョン比較の表示中のみ
+  validationMarker?: LiveValidationMarker | null; // 自動検証の指摘
 }
 
 export const Link: React.FC<LinkProps> = ({
@@ -19,8 +24,10 @@ export const Link: React.FC<LinkProps> = ({
   onClick,
   onContextMenu,
   onCurveHandleMouseDown,
+  diffStatus,
+  validationMarker,
 }) => {
-  const color = link.style?.color || '#1F2937';
+  const color = diffStatus ? DIFF_COLORS[diffStatus] : link.style?.color || '#1F2937';
   const width = link.style?.width || 2;
   const curveType = link.style?.curve || 'straight';
 
@@ -85,6 +92,10 @@ export const Link: React.FC<LinkProps> = ({
       ? `M ${x1} ${y1} Q ${controlX} ${controlY} ${x2} ${y2}`
       : `M ${x1} ${y1} L ${x2} ${y2}`;
 
+  // 線の中間点（曲線の場合は t = 0.5 の点）に検証の指摘を表示する
+  const markerX = curveType === 'smooth' ? (x1 + 2 * controlX + x2) / 4 : midX;
+  const markerY = curveType === 'smooth' ? (y1 + 2 * controlY + y2) / 4 : midY;
+
   return (
     <g onClick={onClick} onContextMenu={onContextMenu} style={{ cursor: 'pointer' }}>
       {/* クリック可能な透明な太い線（クリック領域を広げるため） */}
@@ -94,6 +105,26 @@ export const Link: React.FC<LinkProps> = ({
         strokeWidth={12}
         fill="none"
       />
+      {diffStatus && (
+        <path
+          d={pathData}
+          stroke={DIFF_COLORS[diffStatus]}
+          strokeWidth={Math.max(6, width + 4)}
+          fill="none"
+          opacity={0.2}
+          pointerEvents="none"
+        />
+      )}
+      {validationMarker && (
+        <path
+          d={pathData}
+          stroke={VALIDATION_COLORS[validationMarker.severity]}
+          strokeWidth={Math.max(6, width + 4)}
+          fill="none"
+          opacity={0.25}
+          pointerEvents="none"
+        />
+      )}
       {isSelected && (
         <path
           d={pathData}
@@ -110,10 +141,34 @@ export const Link: React.FC<LinkProps> = ({
         stroke={color}
         strokeWidth={width}
         fill="none"
-        strokeDasharray={link.type === 'dashed' ? '8 8' : undefined}
+        strokeDasharray={link.type === 'dashed' || diffStatus === 'removed' ? '8 8' : undefined}
         markerEnd={markerEnd}
         pointerEvents="none"
       />
+      {validationMarker && (
+        <g transform={`translate(${markerX}, ${markerY})`}>
+          <title>{validationMarker.messages.join('\n')}</title>
+          <circle
+            cx={0}
+            cy={0}
+            r={9}
+            fill={VALIDATION_COLORS[validationMarker.severity]}
+            stroke="white"
+            strokeWidth={2}
+          />
+          <text
+            x={0}
+            y={4}
+            fill="white"
+            fontSize={11}
+            fontWeight="bold"
+            textAnchor="middle"
+            style={{ pointerEvents: 'none' }}
+          >
+            {validationMarker.severity === 'error' ? '✕' : '!'}
+          </text>
+        </g>
+      )}
       {curveType === 'smooth' && isSelected && (
         <>
           <line
@@ -0,0 +1,353 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { branchesApi } from '../../api/branches';
+import type { DiagramBranch, MergeBranchRequest, MergeConflict, MergePreview, MergeResolution } from '../../api/branches';
+import { useDiagramStore } from '../../stores/diagramStore';
+import { LoadingState } from '../Status/LoadingState';
+import { ErrorState } from '../Status/ErrorState';
+
+interface MergeModalProps {
+  projectId: string;
+  diagramId: string;
+  source: DiagramBranch;
+  targetName: string;
+  onClose: () => void;
+  onMerge: (request: MergeBranchRequest) => Promise<void>;
+}
+
+const stripHtml = (html: unknown) => (typeof html === 'string' ? html.replace(/<[^>]*>/g, '').trim() : '');
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  (err as { response?: { data?: { error?: string } } })?.response?.data?.error ??
+  (err instanceof Error ? err.message : fallback);
+
+export const MergeModal: React.FC<MergeModalProps> = ({
+  projectId,
+  diagramId,
+  source,
+  targetName,
+  onClose,
+  onMerge,
+}) => {
+  const { t } = useTranslation();
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>({});
+  const [commitMessage, setCommitMessage] = useState(`Merge branch '${source.name}'`);
+  const [loading, setLoading] = useState(true);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPreview = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      // 未保存の変更を含めて衝突を確認する
+      await useDiagramStore.getState().saveDiagramToDB();
+      const data = await branchesApi.previewMerge(projectId, diagramId, source.id);
+      setPreview(data);
+      setResolutions((prev) =>
+        Object.fromEntries(
+          data.conflicts.filter((conflict) => prev[conflict.key]).map((conflict) => [conflict.key, prev[conflict.key]])
+        )
+      );
+    } catch (err: unknown) {
+      console.error('Failed to preview merge:', err);
+      setError(getErrorMessage(err, t('branch.mergePreviewError')));
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, diagramId, source.id, t]);
+
+  useEffect(() => {
+    loadPreview();
+  }, [loadPreview]);
+
+  const conflicts = preview?.conflicts ?? [];
+  const unresolvedCount = conflicts.filter((conflict) => !resolutions[conflict.key]).length;
+
+  const resolveAll = (resolution: MergeResolution) => {
+    setResolutions(Object.fromEntries(conflicts.map((conflict) => [conflict.key, resolution])));
+  };
+
+  const handleMerge = async () => {
+    setMerging(true);
+    setError(null);
+    try {
+      await onMerge({ resolutions, commitMessage: commitMessage.trim() || undefined });
+      onClose();
+    } catch (err: unknown) {
+      const status = (err as { response?: { status?: number } })?.response?.status;
+      setError(getErrorMessage(err, t('branch.mergeError')));
+      // マージの間に内容が変わった場合は衝突を取り直す
+      if (status === 409) {
+        await loadPreview();
+      }
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  // 衝突した要素の内容を1〜2行で表す
+  const describe = (conflict: MergeConflict, item: Record<string, unknown> | null) => {
+    if (!item) return <span style={{ color: '#DC2626' }}>{t('branch.deleted')}</span>;
+    if (conflict.kind === 'module') {
+      return <span>{String(item.title ?? conflict.id)}</span>;
+    }
+    if (conflict.kind === 'link') {
+      return (
+        <span>
+          {String(item.source)} → {String(item.target)}
+          {item.type ? ` (${String(item.type)})` : ''}
+        </span>
+      );
+    }
+    const content = stripHtml(item.content);
+    return (
+      <>
+        <div style={{ fontWeight: '600' }}>
+          {String(item.label ?? conflict.id)} {item.type ? `(${String(item.type)})` : ''}
+        </div>
+        {content && <div style={{ color: '#4B5563', wordBreak: 'break-word' }}>{content}</div>}
+      </>
+    );
+  };
+
+  const renderSide = (conflict: MergeConflict, resolution: MergeResolution, title: string) => {
+    const selected = resolutions[conflict.key] === resolution;
+    return (
+      <label
+        style={{
+          flex: 1,
+          padding: '10px',
+          borderRadius: '6px',
+          border: selected ? '2px solid #3B82F6' : '1px solid #E5E7EB',
+          backgroundColor: selected ? '#EFF6FF' : '#FFFFFF',
+          cursor: 'pointer',
+          fontSize: '13px',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px', color: '#6B7280' }}>
+          <input
+            type="radio"
+            name={conflict.key}
+            checked={selected}
+            onChange={() => setResolutions((prev) => ({ ...prev, [conflict.key]: resolution }))}
+          />
+          {title}
+        </div>
+        {describe(conflict, resolution === 'ours' ? conflict.ours : conflict.theirs)}
+      </label>
+    );
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          width: '760px',
+          maxHeight: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* ヘッダー */}
+        <div
+          style={{
+            padding: '20px',
+            borderBottom: '1px solid #E5E7EB',
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+          }}
+        >
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: 'bold' }}>
+            🔀 {t('branch.mergeTitle', { source: source.name, target: targetName })}
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              fontSize: '24px',
+              cursor: 'pointer',
+              color: '#6B7280',
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        {/* コンテンツ */}
+        <div style={{ padding: '20px', overflowY: 'auto', flex: 1 }}>
+          {loading && <LoadingState />}
+
+          {error && <ErrorState message={error} />}
+
+          {!loading && preview && (
+            <>
+              <div style={{ marginBottom: '16px', fontSize: '14px', color: '#374151' }}>
+                {t('branch.mergeSummary', { changes: preview.summary.fromTheirs, conflicts: preview.summary.conflicts })}
+              </div>
+
+              {conflicts.length > 0 && (
+                <>
+                  <div
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                      marginBottom: '12px',
+                    }}
+                  >
+                    <span style={{ fontSize: '13px', color: '#6B7280' }}>{t('branch.conflictHint')}</span>
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                      <button
+                        onClick={() => resolveAll('ours')}
+                        style={{
+                          padding: '4px 10px',
+                          fontSize: '12px',
+                          border: '1px solid #D1D5DB',
+                          borderRadius: '6px',
+                          backgroundColor: 'white',
+                          cursor: 'pointer',
+                        }}
+                      >
+                        {t('branch.useAllOurs')}
+                      </button>
+                      <button
+                        onClick={() => resolveAll('theirs')}
+                        style={{
+                          padding: '4px 10px',
+                          fontSize: '12px',
+                          border: '1px solid #D1D5DB',
+                          borderRadius: '6px',
+                          backgroundColor: 'white',
+                          cursor: 'pointer',
+                        }}
+                      >
+                        {t('branch.useAllTheirs')}
+                      </button>
+                    </div>
+                  </div>
+
+                  {conflicts.map((conflict) => (
+                    <div
+                      key={conflict.key}
+                      style={{
+                        marginBottom: '12px',
+                        padding: '12px',
+                        borderRadius: '8px',
+                        backgroundColor: '#FFFBEB',
+                        border: '1px solid #FDE68A',
+                      }}
+                    >
+                      <div style={{ marginBottom: '8px', fontSize: '12px', color: '#92400E' }}>
+                        {t(`branch.conflictKinds.${conflict.kind}`)}
+                        {conflict.moduleId !== 'root' && conflict.kind !== 'module' ? ` · ${conflict.moduleId}` : ''}
+                        {conflict.fields.length > 0 &&
+                          ` · ${t('branch.conflictFields', {
+                            fields: conflict.fields
+                              .map((field) => t(`branch.fields.${field}`, { defaultValue: field }))
+                              .join(', '),
+                          })}`}
+                      </div>
+                      <div style={{ display: 'flex', gap: '8px' }}>
+                        {renderSide(conflict, 'ours', t('branch.ours', { name: targetName }))}
+                        {renderSide(conflict, 'theirs', t('branch.theirs', { name: source.name }))}
+                      </div>
+                    </div>
+                  ))}
+                </>
+              )}
+
+              <label
+                htmlFor="merge-commit-message"
+                style={{ display: 'block', margin: '8px 0', fontWeight: '500', color: '#374151' }}
+              >
+                {t('version.commitMessage')}
+              </label>
+              <input
+                id="merge-commit-message"
+                type="text"
+                value={commitMessage}
+                onChange={(e) => setCommitMessage(e.target.value)}
+                style={{
+                  width: '100%',
+                  padding: '8px 12px',
+                  border: '1px solid #D1D5DB',
+                  borderRadius: '6px',
+                  fontSize: '14px',
+                }}
+              />
+            </>
+          )}
+        </div>
+
+        {/* フッター */}
+        <div
+          style={{
+            padding: '16px 20px',
+            borderTop: '1px solid #E5E7EB',
+            display: 'flex',
+            justifyContent: 'flex-end',
+            alignItems: 'center',
+            gap: '12px',
+          }}
+        >
+          {unresolvedCount > 0 && (
+            <span style={{ fontSize: '13px', color: '#B45309' }}>
+              {t('branch.unresolved', { count: unresolvedCount })}
+            </span>
+          )}
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#F3F4F6',
+              color: '#374151',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontWeight: '500',
+            }}
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={!preview || loading || merging || unresolvedCount > 0}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: !preview || loading || merging || unresolvedCount > 0 ? '#93C5FD' : '#3B82F6',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: !preview || loading || merging || unresolvedCount > 0 ? 'not-allowed' : 'pointer',
+              fontWeight: '500',
+            }}
+          >
+            🔀 {merging ? t('branch.merging') : t('branch.merge')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,9 @@
 import React from 'react';
 import type { Node as NodeType } from '../../types/diagram';
 import { NODE_COLORS } from '../../types/diagram';
+import { DIFF_COLORS, type DiffStatus } from '../../utils/diffColors';
+import { VALIDATION_COLORS } from '../../utils/validationColors';
+import type { LiveValidationMarker } from '../../stores/liveValidationStore';
 
 interface NodeProps {
   node: NodeType;
@@ -11,8 +14,12 @@ interface NodeProps {
   onContextMenu?: (e: React.MouseEvent) => void;
   onResizeStart?: (e: React.MouseEvent, direction: string) => void;
   onCommentClick?: (e: React.MouseEvent) => void;
+  openCommentCount?: number; // 未解決のコメントスレッド数
   contentOverride?: string | null;
   hideEmptyContent?: boolean;
+  lockHolder?: { userName: string; color: string } | null; // 他のユーザーが編集中の場合
+  diffStatus?: DiffStatus | null; // バージョン比較の表示中のみ
+  validationMarker?: LiveValidationMarker | null; // 自動検証の指摘
 }
 
 export const Node: React.FC<NodeProps> = ({
@@ -24,8 +31,12 @@ export const Node: React.FC<NodeProps> = ({
   onContextMenu,
   onResizeStart,
   onCommentClick,
+  openCommentCount = 0,
   contentOverride,
   hideEmptyContent = false,
+  lockHolder,
+  diffStatus,
+  validationMarker,
 }) => {
   const rawContent = contentOverride ?? node.content;
   const contentText = rawContent ? rawContent.replace(/<[^>]*>/g, '').trim() : '';
@@ -155,7 +166,25 @@ export const Node: React.FC<NodeProps> = ({
       onMouseDown={onDragStart}
       onContextMenu={onContextMenu}
       style={{ cursor: 'pointer' }}
+      opacity={diffStatus === 'removed' ? 0.55 : 1}
     >
+      {/* バージョン比較の強調表示（追加: 緑、削除: 赤、変更: 黄） */}
+      {diffStatus && (
+        <rect
+          x={-node.size.width / 2 - 6}
+          y={-node.size.height / 2 - 6}
+          width={node.size.width + 12}
+          height={node.size.height + 12}
+          fill={DIFF_COLORS[diffStatus]}
+          fillOpacity={0.12}
+          stroke={DIFF_COLORS[diffStatus]}
+          strokeWidth={3}
+          strokeDasharray={diffStatus === 'removed' ? '8 4' : undefined}
+          rx={8}
+          ry={8}
+          style={{ pointerEvents: 'none' }}
+        />
+      )}
       {renderShape()}
 
       {/* コンテンツ表示エリア */}
@@ -275,6 +304,68 @@ export const Node: React.FC<NodeProps> = ({
         </text>
       )}
 
+      {/* 編集中のユーザー（左下） */}
+      {lockHolder && (
+        <g style={{ pointerEvents: 'none' }}>
+          <rect
+            x={-node.size.width / 2 - 4}
+            y={-node.size.height / 2 - 4}
+            width={node.size.width + 8}
+            height={node.size.height + 8}
+            fill="none"
+            stroke={lockHolder.color}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            rx={6}
+            ry={6}
+          />
+          <rect
+            x={-node.size.width / 2}
+            y={node.size.height / 2 + 6}
+            width={Math.max(80, lockHolder.userName.length * 8 + 64)}
+            height={20}
+            fill={lockHolder.color}
+            rx={10}
+            ry={10}
+          />
+          <text
+            x={-node.size.width / 2 + 10}
+            y={node.size.height / 2 + 20}
+            fill="white"
+            fontSize={11}
+            fontWeight="600"
+          >
+            ✏️ {lockHolder.userName} 編集中
+          </text>
+        </g>
+      )}
+
+      {/* 検証の指摘（コメントアイコンの左、ホバーで内容を表示） */}
+      {validationMarker && (
+        <g transform={`translate(${node.size.width / 2 - (onCommentClick ? 38 : 10)}, ${-node.size.height / 2 - 14})`}>
+          <title>{validationMarker.messages.join('\n')}</title>
+          <circle
+            cx={0}
+            cy={0}
+            r={10}
+            fill={VALIDATION_COLORS[validationMarker.severity]}
+            stroke="white"
+            strokeWidth={2}
+          />
+          <text
+            x={0}
+            y={4}
+            fill="white"
+            fontSize={12}
+            fontWeight="bold"
+            textAnchor="middle"
+            style={{ pointerEvents: 'none' }}
+          >
+            {validationMarker.severity === 'error' ? '✕' : '!'}
+          </text>
+        </g>
+      )}
+
       {/* コメントアイコン（右上） */}
       {onCommentClick && (
         <g
@@ -285,12 +376,12 @@ export const Node: React.FC<NodeProps> = ({
           }}
           style={{ cursor: 'pointer' }}
         >
-          {/* コメントがある場合は青背景、ない場合は灰色背景 */}
+          {/* 未解決のコメントがある場合は青背景、ない場合は灰色背景 */}
           <circle
             cx={0}
             cy={0}
             r={12}
-            fill={(node.comments && node.comments.length > 0) ? '#3B82F6' : '#9CA3AF'}
+            fill={openCommentCount > 0 ? '#3B82F6' : '#9CA3AF'}
             stroke="white"
             strokeWidth={2}
           />
@@ -306,7 +397,7 @@ export const Node: React.FC<NodeProps> = ({
             💬
           </text>
           {/* コメント数バッジ */}
-          {node.comments && node.comments.length > 0 && (
+          {openCommentCount > 0 && (
             <>
               <circle
                 cx={8}
@@ -324,7 +415,7 @@ export const Node: React.FC<NodeProps> = ({
                 fontWeight="bold"
                 textAnchor="middle"
               >
-                {node.comments.length > 9 ? '9+' : node.comments.length}
+                {openCommentCount > 9 ? '9+' : openCommentCount}
               </text>
             </>
           )}
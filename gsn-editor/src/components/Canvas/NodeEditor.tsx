@@ -1,15 +1,45 @@
 import React, { useEffect } from 'react';
 import type { Node } from '../../types/diagram';
+import { NodeHistory } from './NodeHistory';
+
+export type NodeEditorTab = 'edit' | 'history';
 
 interface NodeEditorProps {
   node: Node;
   onSave: (content: string, label?: string) => void;
   onClose: () => void;
+  lockedBy?: { userName: string; color: string } | null; // 他のユーザーが編集中（閲覧のみ）
+  onRequestEdit?: () => void;
+  editRequestedBy?: string | null; // 編集の交代を依頼してきたユーザー
+  onDismissEditRequest?: () => void;
+  readOnly?: boolean; // 閲覧者（編集不可）
+  projectId?: string | null; // 指定すると「履歴」タブを表示
+  diagramId?: string | null;
+  initialTab?: NodeEditorTab;
+  onTabChange?: (tab: NodeEditorTab) => void;
 }
 
-export const NodeEditor: React.FC<NodeEditorProps> = ({ node, onSave, onClose }) => {
+export const NodeEditor: React.FC<NodeEditorProps> = ({
+  node,
+  onSave,
+  onClose,
+  lockedBy,
+  onRequestEdit,
+  editRequestedBy,
+  onDismissEditRequest,
+  readOnly = false,
+  projectId,
+  diagramId,
+  initialTab = 'edit',
+  onTabChange,
+}) => {
   const editorRef = React.useRef<HTMLDivElement>(null);
   const [label, setLabel] = React.useState(node.label || '');
+  const [editRequested, setEditRequested] = React.useState(false);
+  const isLocked = !!lockedBy || readOnly;
+  const hasHistory = !!projectId && !!diagramId;
+  const [tab, setTab] = React.useState<NodeEditorTab>(hasHistory ? initialTab : 'edit');
+  const isHistoryTab = tab === 'history';
 
   // ESCキーで閉じる
   useEffect(() => {
@@ -28,7 +58,6 @@ export const NodeEditor: React.FC<NodeEditorProps> = ({ node, onSave, onClose })
       editorRef.current.innerHTML = node.content;
     }
   }, [node.content]);
-
   const handleSave = () => {
     const htmlContent = editorRef.current?.innerHTML || '';
     onSave(htmlContent, label);
@@ -99,11 +128,149 @@ export const NodeEditor: React.FC<NodeEditorProps> = ({ node, onSave, onClose })
           fontWeight: '600',
           color: '#111827',
         }}>
-          ノードの編集
+          {isLocked ? 'ノードの表示' : 'ノードの編集'}
         </h2>
 
+        {/* タブ（編集 / 履歴） */}
+        {hasHistory && (
+          <div style={{
+            display: 'flex',
+            gap: '4px',
+            marginBottom: '16px',
+            borderBottom: '1px solid #E5E7EB',
+          }}>
+            {([
+              ['edit', isLocked ? '内容' : '編集'],
+              ['history', '履歴'],
+            ] as const).map(([value, text]) => (
+              <button
+                key={value}
+                onClick={() => {
+                  setTab(value);
+                  onTabChange?.(value);
+                }}
+                style={{
+                  padding: '8px 16px',
+                  fontSize: '14px',
+                  fontWeight: tab === value ? '600' : '500',
+                  border: 'none',
+                  borderBottom: tab === value ? '2px solid #3B82F6' : '2px solid transparent',
+                  marginBottom: '-1px',
+                  cursor: 'pointer',
+                  backgroundColor: 'transparent',
+                  color: tab === value ? '#2563EB' : '#6B7280',
+                }}
+              >
+                {text}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* 履歴 */}
+        {hasHistory && isHistoryTab && (
+          <NodeHistory projectId={projectId!} diagramId={diagramId!} nodeId={node.id} />
+        )}
+
+        {/* 他のユーザーが編集中 */}
+        {lockedBy && (
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '12px',
+            marginBottom: '16px',
+            padding: '10px 12px',
+            backgroundColor: '#F9FAFB',
+            borderLeft: `4px solid ${lockedBy.color}`,
+            borderRadius: '6px',
+            fontSize: '13px',
+            color: '#374151',
+          }}>
+            <span>
+              <strong>{lockedBy.userName}</strong> さんが編集中のため閲覧のみです。編集が終わると自動的に編集できるようになります。
+            </span>
+            {onRequestEdit && (
+              <button
+                onClick={() => {
+                  onRequestEdit();
+                  setEditRequested(true);
+                }}
+                disabled={editRequested}
+                style={{
+                  flexShrink: 0,
+                  padding: '6px 12px',
+                  fontSize: '13px',
+                  fontWeight: '500',
+                  border: '1px solid #D1D5DB',
+                  borderRadius: '6px',
+                  cursor: editRequested ? 'default' : 'pointer',
+                  backgroundColor: '#FFFFFF',
+                  color: editRequested ? '#9CA3AF' : '#374151',
+                }}
+              >
+                {editRequested ? 'リクエスト済み' : '編集をリクエスト'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* 他のユーザーから編集の交代を依頼された */}
+        {!isLocked && editRequestedBy && (
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '12px',
+            marginBottom: '16px',
+            padding: '10px 12px',
+            backgroundColor: '#FFFBEB',
+            border: '1px solid #FCD34D',
+            borderRadius: '6px',
+            fontSize: '13px',
+            color: '#92400E',
+          }}>
+            <span>
+              <strong>{editRequestedBy}</strong> さんがこのノードの編集を希望しています。
+            </span>
+            <div style={{ display: 'flex', gap: '8px', flexShrink: 0 }}>
+              <button
+                onClick={handleSave}
+                style={{
+                  padding: '6px 12px',
+                  fontSize: '13px',
+                  fontWeight: '500',
+                  border: 'none',
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                  backgroundColor: '#F59E0B',
+                  color: '#FFFFFF',
+                }}
+              >
+                保存して譲る
+              </button>
+              {onDismissEditRequest && (
+                <button
+                  onClick={onDismissEditRequest}
+                  style={{
+                    padding: '6px 12px',
+                    fontSize: '13px',
+                    border: '1px solid #FCD34D',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    backgroundColor: '#FFFFFF',
+                    color: '#92400E',
+                  }}
+                >
+                  後で
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* ラベル入力 */}
-        <div style={{ marginBottom: '16px' }}>
+        <div style={{ marginBottom: '16px', display: isHistoryTab ? 'none' : 'block' }}>
           <label style={{
             display: 'block',
             marginBottom: '6px',
@@ -115,9 +282,10 @@ export const NodeEditor: React.FC<NodeEditorProps> = ({ node, onSave, onClose })
           </label>
           <input
             type="text"
-            value={label}
+            value={isLocked ? node.label || '' : label}
             onChange={(e) => setLabel(e.target.value)}
             placeholder="G1"
+            disabled={isLocked}
             style={{
               width: '100%',
               padding: '8px 12px',
@@ -132,111 +300,114 @@ export const NodeEditor: React.FC<NodeEditorProps> = ({ node, onSave, onClose })
         </div>
 
         {/* ツールバー */}
-        <div style={{
-          display: 'flex',
-          gap: '4px',
-          padding: '8px',
-          backgroundColor: '#F9FAFB',
-          borderRadius: '8px 8px 0 0',
-          borderBottom: '1px solid #D1D5DB',
-        }}>
-          <button
-            onClick={() => applyFormat('bold')}
-            style={{
-              padding: '6px 12px',
-              fontSize: '14px',
-              fontWeight: 'bold',
-              border: '1px solid #D1D5DB',
-              borderRadius: '4px',
-              cursor: 'pointer',
-              backgroundColor: '#FFFFFF',
-            }}
-            title="太字"
-          >
-            B
-          </button>
-          <button
-            onClick={() => applyFormat('italic')}
-            style={{
-              padding: '6px 12px',
-              fontSize: '14px',
-              fontStyle: 'italic',
-              border: '1px solid #D1D5DB',
-              borderRadius: '4px',
-              cursor: 'pointer',
-              backgroundColor: '#FFFFFF',
-            }}
-            title="斜体"
-          >
-            I
-          </button>
-          <button
-            onClick={() => applyFormat('underline')}
-            style={{
-              padding: '6px 12px',
-              fontSize: '14px',
-              textDecoration: 'underline',
-              border: '1px solid #D1D5DB',
-              borderRadius: '4px',
-              cursor: 'pointer',
-              backgroundColor: '#FFFFFF',
-            }}
-            title="下線"
-          >
-            U
-          </button>
-          <div style={{ width: '1px', backgroundColor: '#D1D5DB', margin: '0 4px' }} />
-          <select
-            onChange={(e) => applyFormat('fontSize', e.target.value)}
-            style={{
-              padding: '6px',
-              fontSize: '14px',
-              border: '1px solid #D1D5DB',
-              borderRadius: '4px',
-              cursor: 'pointer',
-              backgroundColor: '#FFFFFF',
-            }}
-            defaultValue="3"
-          >
-            <option value="1">小</option>
-            <option value="3">中</option>
-            <option value="5">大</option>
-            <option value="7">特大</option>
-          </select>
-          <div style={{ width: '1px', backgroundColor: '#D1D5DB', margin: '0 4px' }} />
-          <button
-            onClick={insertLink}
-            style={{
-              padding: '6px 12px',
-              fontSize: '14px',
-              border: '1px solid #D1D5DB',
-              borderRadius: '4px',
-              cursor: 'pointer',
-              backgroundColor: '#FFFFFF',
-            }}
-            title="リンク挿入"
-          >
-            🔗
-          </button>
-        </div>
+        {!isLocked && !isHistoryTab && (
+          <div style={{
+            display: 'flex',
+            gap: '4px',
+            padding: '8px',
+            backgroundColor: '#F9FAFB',
+            borderRadius: '8px 8px 0 0',
+            borderBottom: '1px solid #D1D5DB',
+          }}>
+            <button
+              onClick={() => applyFormat('bold')}
+              style={{
+                padding: '6px 12px',
+                fontSize: '14px',
+                fontWeight: 'bold',
+                border: '1px solid #D1D5DB',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                backgroundColor: '#FFFFFF',
+              }}
+              title="太字"
+            >
+              B
+            </button>
+            <button
+              onClick={() => applyFormat('italic')}
+              style={{
+                padding: '6px 12px',
+                fontSize: '14px',
+                fontStyle: 'italic',
+                border: '1px solid #D1D5DB',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                backgroundColor: '#FFFFFF',
+              }}
+              title="斜体"
+            >
+              I
+            </button>
+            <button
+              onClick={() => applyFormat('underline')}
+              style={{
+                padding: '6px 12px',
+                fontSize: '14px',
+                textDecoration: 'underline',
+                border: '1px solid #D1D5DB',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                backgroundColor: '#FFFFFF',
+              }}
+              title="下線"
+            >
+              U
+            </button>
+            <div style={{ width: '1px', backgroundColor: '#D1D5DB', margin: '0 4px' }} />
+            <select
+              onChange={(e) => applyFormat('fontSize', e.target.value)}
+              style={{
+                padding: '6px',
+                fontSize: '14px',
+                border: '1px solid #D1D5DB',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                backgroundColor: '#FFFFFF',
+              }}
+              defaultValue="3"
+            >
+              <option value="1">小</option>
+              <option value="3">中</option>
+              <option value="5">大</option>
+              <option value="7">特大</option>
+            </select>
+            <div style={{ width: '1px', backgroundColor: '#D1D5DB', margin: '0 4px' }} />
+            <button
+              onClick={insertLink}
+              style={{
+                padding: '6px 12px',
+                fontSize: '14px',
+                border: '1px solid #D1D5DB',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                backgroundColor: '#FFFFFF',
+              }}
+              title="リンク挿入"
+            >
+              🔗
+            </button>
+          </div>
+        )}
 
-        {/* エディタ */}
+        {/* エディタ（履歴タブでも編集中の内容を保つため、非表示にするだけ） */}
         <div
           ref={editorRef}
-          contentEditable
+          contentEditable={!isLocked}
           suppressContentEditableWarning
           style={{
+            display: isHistoryTab ? 'none' : 'block',
             flex: 1,
             minHeight: '240px',
             padding: '14px',
             fontSize: '15px',
             border: '1px solid #D1D5DB',
-            borderRadius: '0 0 8px 8px',
+            borderRadius: isLocked ? '8px' : '0 0 8px 8px',
             fontFamily: 'inherit',
             lineHeight: '1.6',
             outline: 'none',
             overflowY: 'auto',
-            backgroundColor: '#FFFFFF',
+            backgroundColor: isLocked ? '#F9FAFB' : '#FFFFFF',
           }}
           onFocus={(e) => (e.currentTarget.style.borderColor = '#3B82F6')}
           onBlur={(e) => (e.currentTarget.style.borderColor = '#D1D5DB')}
@@ -272,26 +443,28 @@ export const NodeEditor: React.FC<NodeEditorProps> = ({ node, onSave, onClose })
               e.currentTarget.style.borderColor = '#D1D5DB';
             }}
           >
-            キャンセル
-          </button>
-          <button
-            onClick={handleSave}
-            style={{
-              padding: '10px 20px',
-              fontSize: '14px',
-              fontWeight: '500',
-              border: 'none',
-              borderRadius: '8px',
-              cursor: 'pointer',
-              backgroundColor: '#3B82F6',
-              color: '#FFFFFF',
-              transition: 'background-color 0.2s',
-            }}
-            onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = '#2563EB')}
-            onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = '#3B82F6')}
-          >
-            保存
+            {isLocked ? '閉じる' : 'キャンセル'}
           </button>
+          {!isLocked && (
+            <button
+              onClick={handleSave}
+              style={{
+                padding: '10px 20px',
+                fontSize: '14px',
+                fontWeight: '500',
+                border: 'none',
+                borderRadius: '8px',
+                cursor: 'pointer',
+                backgroundColor: '#3B82F6',
+                color: '#FFFFFF',
+                transition: 'background-color 0.2s',
+              }}
+              onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = '#2563EB')}
+              onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = '#3B82F6')}
+            >
+              保存
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,241 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { versionsApi } from '../../api/versions';
+import { MAIN_BRANCH_ID } from '../../api/branches';
+import type { NodeChange, NodeHistory as NodeHistoryData, NodeHistoryEntry } from '../../api/versions';
+import { DiffText } from './DiffText';
+import { LoadingState } from '../Status/LoadingState';
+import { ErrorState } from '../Status/ErrorState';
+
+interface NodeHistoryProps {
+  projectId: string;
+  diagramId: string;
+  nodeId: string;
+}
+
+const MAX_VALUE_LENGTH = 40;
+
+// 変更前後の値を1行で表示できるように整形する
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = typeof value === 'string' ? value.replace(/<[^>]*>/g, '').trim() : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('ja-JP', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const LINK_TYPE_LABELS: Record<string, string> = {
+  solid: '支持',
+  dashed: 'コンテキスト',
+};
+
+const BLAME_FIELDS: Array<{ key: keyof NodeHistoryData['blame']; label: string }> = [
+  { key: 'content', label: '本文' },
+  { key: 'label', label: 'ラベル' },
+  { key: 'type', label: '種類' },
+  { key: 'links', label: 'リンク' },
+];
+
+// 変更1件の表示
+const ChangeLine: React.FC<{ change: NodeChange }> = ({ change }) => {
+  const valueStyle = (removed: boolean): React.CSSProperties =>
+    removed ? { color: '#991B1B', textDecoration: 'line-through' } : { color: '#166534' };
+
+  switch (change.kind) {
+    case 'created':
+      return <div style={{ color: '#16A34A' }}>＋ ノードを作成</div>;
+    case 'deleted':
+      return <div style={{ color: '#DC2626' }}>－ ノードを削除</div>;
+    case 'content':
+      return (
+        <div>
+          <div style={{ color: '#4B5563', marginBottom: '2px' }}>本文を変更</div>
+          <div
+            style={{
+              padding: '6px 8px',
+              backgroundColor: '#F9FAFB',
+              borderRadius: '4px',
+              whiteSpace: 'pre-wrap',
+              wordBreak: 'break-word',
+            }}
+          >
+            {change.contentDiff && <DiffText segments={change.contentDiff} />}
+          </div>
+        </div>
+      );
+    case 'label':
+    case 'type':
+      return (
+        <div style={{ color: '#4B5563' }}>
+          {change.kind === 'label' ? 'ラベル' : '種類'}: <span style={valueStyle(true)}>{formatValue(change.before)}</span>
+          {' → '}
+          <span style={valueStyle(false)}>{formatValue(change.after)}</span>
+        </div>
+      );
+    case 'link': {
+      if (!change.link) return null;
+      const { status, direction, linkType, otherId, otherLabel } = change.link;
+      const other = otherLabel || otherId;
+      return (
+        <div style={{ color: status === 'added' ? '#166534' : '#991B1B' }}>
+          {status === 'added' ? '＋ リンクを追加' : '－ リンクを削除'}: {direction === 'outgoing' ? `→ ${other}` : `${other} →`}
+          {linkType && ` (${LINK_TYPE_LABELS[linkType] ?? linkType})`}
+        </div>
+      );
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * ノードの履歴（コミットごとの変更と、各項目を最後に変更したコミット）
+ */
+export const NodeHistory: React.FC<NodeHistoryProps> = ({ projectId, diagramId, nodeId }) => {
+  const [history, setHistory] = useState<NodeHistoryData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setHistory(await versionsApi.getNodeHistory(projectId, diagramId, nodeId));
+    } catch (err: unknown) {
+      console.error('Failed to load node history:', err);
+      const status = (err as { response?: { status?: number } })?.response?.status;
+      setHistory(null);
+      setError(status === 404 ? 'ノードの履歴が見つかりません' : '履歴の取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, diagramId, nodeId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  if (loading) return <LoadingState />;
+  if (error) return <ErrorState message={error} />;
+  if (!history) return null;
+
+  const entryById = new Map<string, NodeHistoryEntry>(history.entries.map((entry) => [entry.versionId, entry]));
+
+  return (
+    <div style={{ flex: 1, minHeight: '240px', overflowY: 'auto', fontSize: '13px' }}>
+      {/* 各項目を最後に変更したコミット */}
+      <div
+        style={{
+          marginBottom: '16px',
+          padding: '10px 12px',
+          backgroundColor: '#F9FAFB',
+          border: '1px solid #E5E7EB',
+          borderRadius: '6px',
+        }}
+      >
+        {BLAME_FIELDS.map(({ key, label }) => {
+          const entry = history.blame[key] ? entryById.get(history.blame[key]!) : undefined;
+          return (
+            <div key={key} style={{ display: 'flex', gap: '8px', padding: '2px 0', color: '#374151' }}>
+              <span style={{ width: '56px', flexShrink: 0, color: '#6B7280' }}>{label}</span>
+              {entry ? (
+                <span>
+                  <strong>v{entry.versionNumber}</strong> · {entry.authorName ?? '不明なユーザー'} ·{' '}
+                  {formatDate(entry.createdAt)}
+                </span>
+              ) : (
+                <span style={{ color: '#9CA3AF' }}>—</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* 未コミットの変更 */}
+      {history.uncommitted.length > 0 && (
+        <div
+          style={{
+            marginBottom: '16px',
+            padding: '10px 12px',
+            backgroundColor: '#FFFBEB',
+            border: '1px solid #FCD34D',
+            borderRadius: '6px',
+            color: '#92400E',
+          }}
+        >
+          <div style={{ fontWeight: '600', marginBottom: '4px' }}>未コミットの変更</div>
+          {history.uncommitted.map((change, index) => (
+            <div key={index} style={{ marginTop: '4px' }}>
+              <ChangeLine change={change} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {history.entries.length === 0 && (
+        <div style={{ padding: '20px', textAlign: 'center', color: '#6B7280' }}>
+          このノードはまだコミットされていません。
+        </div>
+      )}
+
+      {/* コミットごとの変更（最新が最初） */}
+      {history.entries.map((entry) => (
+        <div
+          key={entry.versionId}
+          style={{
+            position: 'relative',
+            paddingLeft: '20px',
+            paddingBottom: '16px',
+            borderLeft: '2px solid #E5E7EB',
+            marginLeft: '6px',
+          }}
+        >
+          <span
+            style={{
+              position: 'absolute',
+              left: '-7px',
+              top: '2px',
+              width: '12px',
+              height: '12px',
+              borderRadius: '50%',
+              backgroundColor: '#3B82F6',
+              border: '2px solid #FFFFFF',
+            }}
+          />
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap', color: '#111827' }}>
+            <strong>v{entry.versionNumber}</strong>
+            <span style={{ color: '#374151' }}>{entry.authorName ?? '不明なユーザー'}</span>
+            <span style={{ color: '#9CA3AF', fontSize: '12px' }}>{formatDate(entry.createdAt)}</span>
+            {entry.branchName && entry.branchId !== MAIN_BRANCH_ID && (
+              <span
+                style={{
+                  padding: '1px 8px',
+                  backgroundColor: '#ECFDF5',
+                  color: '#047857',
+                  borderRadius: '10px',
+                  fontSize: '11px',
+                }}
+              >
+                🌿 {entry.branchName}
+              </span>
+            )}
+          </div>
+          {entry.commitMessage && (
+            <div style={{ margin: '2px 0 6px', color: '#4B5563', fontStyle: 'italic' }}>{entry.commitMessage}</div>
+          )}
+          {entry.changes.map((change, index) => (
+            <div key={index} style={{ marginTop: '4px' }}>
+              <ChangeLine change={change} />
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
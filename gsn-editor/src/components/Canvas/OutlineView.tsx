@@ -0,0 +1,481 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useDiagramStore } from '../../stores/diagramStore';
+import { useDiagramFreezeStore } from '../../stores/diagramFreezeStore';
+import { useAuthStore } from '../../stores/authStore';
+import { NODE_LABELS, type Link, type Node, type NodeType } from '../../types/diagram';
+import { linkTypeFor, parseTypePrefix, plainTextToHtml, stripHtml } from '../../utils/textFormats';
+
+/**
+ * アウトライン（インデントしたテキスト）で議論を編集するビュー
+ *
+ * - ゴール → 戦略 → ゴール／証拠 の階層を折りたたみ可能な一覧で表示する
+ * - Enter で兄弟ノードを追加、Tab / Shift+Tab で字下げ・字上げ（親の付け替え）
+ * - 行頭に「S:」「E:」「C:」などを書くとノードの種類を変更する
+ * - 変更はすべて diagramStore の操作で行うため、キャンバスと他のユーザーにそのまま反映される
+ */
+
+interface OutlineRow {
+  key: string; // ルートからのノード ID の並び（複数の親を持つノードは親ごとに表示するため）
+  node: Node;
+  parentId: string | null;
+  parentKey: string | null;
+  linkId: string | null;
+  depth: number;
+  hasChildren: boolean;
+  isRepeat: boolean; // 既に別の親の下に表示したノード（子は展開しない）
+}
+
+const TYPE_BADGE_COLORS: Record<NodeType, string> = {
+  Goal: '#2563EB',
+  Strategy: '#7C3AED',
+  Context: '#0891B2',
+  Evidence: '#059669',
+  Assumption: '#D97706',
+  Justification: '#DB2777',
+  Undeveloped: '#6B7280',
+  Module: '#4B5563',
+};
+
+const INDENT_WIDTH = 22;
+
+// 入力欄は1行なので、本文の改行は空白にして表示する
+const displayText = (node: Node) =>
+  node.type === 'Module' ? node.moduleName || node.label || '' : stripHtml(node.content).replace(/\n/g, ' ');
+
+const byPosition = (a: Node, b: Node) => a.position.y - b.position.y || a.position.x - b.position.x;
+
+// キャンバスと同じ並び（子は左から右）でアウトラインの行を作る
+const buildRows = (nodes: Node[], links: Link[], collapsed: Set<string>): OutlineRow[] => {
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const childLinks = new Map<string, Link[]>();
+  const hasParent = new Set<string>();
+  for (const link of links) {
+    if (!nodeById.has(link.source) || !nodeById.has(link.target)) continue;
+    childLinks.set(link.source, [...(childLinks.get(link.source) ?? []), link]);
+    hasParent.add(link.target);
+  }
+  for (const list of childLinks.values()) {
+    list.sort((a, b) => {
+      const nodeA = nodeById.get(a.target)!;
+      const nodeB = nodeById.get(b.target)!;
+      return nodeA.position.x - nodeB.position.x || nodeA.position.y - nodeB.position.y;
+    });
+  }
+
+  const rows: OutlineRow[] = [];
+  const shown = new Set<string>();
+  const walk = (node: Node, parentKey: string | null, link: Link | null, depth: number) => {
+    const key = parentKey ? `${parentKey}/${node.id}` : node.id;
+    const children = childLinks.get(node.id) ?? [];
+    const isRepeat = shown.has(node.id);
+    shown.add(node.id);
+    rows.push({
+      key,
+      node,
+      parentId: link?.source ?? null,
+      parentKey,
+      linkId: link?.id ?? null,
+      depth,
+      hasChildren: children.length > 0,
+      isRepeat,
+    });
+    if (isRepeat || collapsed.has(key)) return;
+    for (const child of children) {
+      walk(nodeById.get(child.target)!, key, child, depth + 1);
+    }
+  };
+
+  nodes.filter((node) => !hasParent.has(node.id)).sort(byPosition).forEach((root) => walk(root, null, null, 0));
+  // 循環だけでつながっていてルートのないノードも表示する
+  for (const node of [...nodes].sort(byPosition)) {
+    if (!shown.has(node.id)) walk(node, null, null, 0);
+  }
+  return rows;
+};
+
+export const OutlineView: React.FC = () => {
+  const {
+    nodes,
+    links,
+    projectRole,
+    nodeLocks,
+    addNode,
+    updateNode,
+    changeNodeTypes,
+    deleteNode,
+    addLink,
+    deleteLink,
+    selectNode,
+    clearSelection,
+    acquireNodeLock,
+    releaseNodeLock,
+    switchToModule,
+  } = useDiagramStore();
+  const { freeze } = useDiagramFreezeStore();
+  const { user } = useAuthStore();
+
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  // 編集中の入力（確定するまでストアに書き込まない）
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const inputRefs = useRef(new Map<string, HTMLInputElement>());
+  const pendingFocusRef = useRef<string | null>(null);
+
+  // 閲覧者と凍結中のダイアグラムは編集できない
+  const isReadOnly = projectRole === 'viewer' || !!freeze;
+  const rows = useMemo(() => buildRows(nodes, links, collapsed), [nodes, links, collapsed]);
+
+  // 追加・付け替えたノードの行が表示されたらフォーカスを移す
+  useEffect(() => {
+    const key = pendingFocusRef.current;
+    if (!key) return;
+    const input = inputRefs.current.get(key);
+    if (input) {
+      pendingFocusRef.current = null;
+      input.focus();
+    }
+  }, [rows]);
+
+  const focusRow = (key: string) => {
+    const input = inputRefs.current.get(key);
+    if (input) {
+      input.focus();
+    } else {
+      pendingFocusRef.current = key;
+    }
+  };
+
+  const lockHolderOf = (nodeId: string) =>
+    nodeLocks.find((lock) => lock.nodeId === nodeId && lock.userId !== user?.id);
+
+  const clearDraft = (nodeId: string) => {
+    setDrafts((current) => {
+      if (!(nodeId in current)) return current;
+      const next = { ...current };
+      delete next[nodeId];
+      return next;
+    });
+  };
+
+  // 入力を確定する（行頭の「S:」などは種類の変更として扱う）
+  const commitDraft = (nodeId: string) => {
+    const draft = drafts[nodeId];
+    if (draft === undefined) return;
+    clearDraft(nodeId);
+    const node = useDiagramStore.getState().nodes.find((n) => n.id === nodeId);
+    if (!node || node.type === 'Module') return;
+
+    const { type, content } = parseTypePrefix(draft);
+    if (content.trim() !== displayText(node)) {
+      updateNode(node.id, { content: plainTextToHtml(content.trim()) }, { baseContent: node.content });
+    }
+    if (type && type !== node.type) {
+      changeNodeTypes([node.id], type);
+    }
+  };
+
+  // ノードを追加して親とつなぐ（キャンバス上では基準ノードの右隣に置く）
+  const createNode = (type: NodeType, parentId: string | null, near: Node | null): string | null => {
+    const before = useDiagramStore.getState().nodes.length;
+    const x = near ? near.position.x + near.size.width + 40 : 0;
+    const y = near ? near.position.y : 0;
+    addNode(type, x, y);
+    const after = useDiagramStore.getState().nodes;
+    if (after.length === before) return null;
+    const created = after[after.length - 1];
+    if (parentId) {
+      const rejected = addLink(parentId, created.id, linkTypeFor(type));
+      if (rejected) alert(`リンクを作成できません: ${rejected}`);
+    }
+    return created.id;
+  };
+
+  const handleAddRoot = () => {
+    const last = [...nodes].sort(byPosition).pop() ?? null;
+    const id = createNode('Goal', null, last);
+    if (id) focusRow(id);
+  };
+
+  const addSibling = (row: OutlineRow) => {
+    const type = row.node.type === 'Module' ? 'Goal' : row.node.type;
+    const id = createNode(type, row.parentId, row.node);
+    if (id) focusRow(row.parentKey ? `${row.parentKey}/${id}` : id);
+  };
+
+  // 直前の兄弟ノードの子にする
+  const indent = (row: OutlineRow, index: number) => {
+    const previous = rows
+      .slice(0, index)
+      .reverse()
+      .find((candidate) => candidate.parentKey === row.parentKey);
+    if (!previous || previous.node.type === 'Module') return;
+    // 新しい親につなげなかった場合は元の親のままにする
+    const rejected = addLink(previous.node.id, row.node.id, linkTypeFor(row.node.type));
+    if (rejected) {
+      alert(`字下げできません: ${rejected}`);
+      return;
+    }
+    if (row.linkId) deleteLink(row.linkId);
+    setCollapsed((current) => {
+      if (!current.has(previous.key)) return current;
+      const next = new Set(current);
+      next.delete(previous.key);
+      return next;
+    });
+    focusRow(`${previous.key}/${row.node.id}`);
+  };
+
+  // 親ノードの兄弟にする（親がルートならルートにする）
+  const outdent = (row: OutlineRow) => {
+    if (!row.linkId || !row.parentKey) return;
+    const parentRow = rows.find((candidate) => candidate.key === row.parentKey);
+    if (!parentRow) return;
+    if (parentRow.parentId && parentRow.parentKey) {
+      const rejected = addLink(parentRow.parentId, row.node.id, linkTypeFor(row.node.type));
+      if (rejected) {
+        alert(`字上げできません: ${rejected}`);
+        return;
+      }
+      deleteLink(row.linkId);
+      focusRow(`${parentRow.parentKey}/${row.node.id}`);
+    } else {
+      deleteLink(row.linkId);
+      focusRow(row.node.id);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, row: OutlineRow, index: number) => {
+    // 日本語入力の変換確定の Enter は無視する
+    if (e.nativeEvent.isComposing) return;
+
+    if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      const target = rows[index + (e.key === 'ArrowUp' ? -1 : 1)];
+      if (target) {
+        e.preventDefault();
+        focusRow(target.key);
+      }
+      return;
+    }
+
+    if (isReadOnly || lockHolderOf(row.node.id)) return;
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitDraft(row.node.id);
+      addSibling(row);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      commitDraft(row.node.id);
+      if (e.shiftKey) {
+        outdent(row);
+      } else {
+        indent(row, index);
+      }
+    } else if (e.key === 'Backspace' && (drafts[row.node.id] ?? displayText(row.node)) === '' && !row.hasChildren) {
+      // 空の行で Backspace を押すとノードを削除して前の行に戻る
+      e.preventDefault();
+      clearDraft(row.node.id);
+      deleteNode(row.node.id);
+      const previous = rows[index - 1];
+      if (previous) focusRow(previous.key);
+    } else if (e.key === 'Escape') {
+      clearDraft(row.node.id);
+      e.currentTarget.blur();
+    }
+  };
+
+  const toggleCollapsed = (key: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div style={{ height: '100%', overflow: 'auto', backgroundColor: '#F9FAFB' }}>
+      <div style={{ maxWidth: '960px', margin: '0 auto', padding: '24px' }}>
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '12px',
+            marginBottom: '12px',
+          }}
+        >
+          <div style={{ fontSize: '12px', color: '#6B7280' }}>
+            Enter: ノードを追加 ／ Tab・Shift+Tab: 字下げ・字上げ ／ 行頭に「S:」「E:」「C:」などを書くと種類を変更
+          </div>
+          {!isReadOnly && (
+            <button
+              onClick={handleAddRoot}
+              style={{
+                padding: '6px 12px',
+                fontSize: '13px',
+                border: '1px solid #D1D5DB',
+                borderRadius: '6px',
+                backgroundColor: '#FFFFFF',
+                color: '#374151',
+                cursor: 'pointer',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              ＋ ゴールを追加
+            </button>
+          )}
+        </div>
+
+        {freeze && (
+          <div
+            style={{
+              marginBottom: '12px',
+              padding: '8px 12px',
+              fontSize: '13px',
+              borderRadius: '6px',
+              backgroundColor: '#FFFBEB',
+              border: '1px solid #F59E0B',
+              color: '#B45309',
+            }}
+          >
+            🔒 このダイアグラムは凍結されています{freeze.frozenReason && `（${freeze.frozenReason}）`}
+          </div>
+        )}
+
+        <div
+          style={{
+            backgroundColor: '#FFFFFF',
+            border: '1px solid #E5E7EB',
+            borderRadius: '8px',
+            padding: '8px 0',
+          }}
+        >
+          {rows.length === 0 && (
+            <div style={{ padding: '24px', textAlign: 'center', fontSize: '13px', color: '#9CA3AF' }}>
+              ノードがありません
+            </div>
+          )}
+          {rows.map((row, index) => {
+            const { node } = row;
+            const lockHolder = lockHolderOf(node.id);
+            const isCollapsed = collapsed.has(row.key);
+            const isContext = row.linkId !== null && linkTypeFor(node.type) === 'dashed';
+            return (
+              <div
+                key={row.key}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                  padding: `2px 12px 2px ${12 + row.depth * INDENT_WIDTH}px`,
+                }}
+              >
+                <button
+                  onClick={() => toggleCollapsed(row.key)}
+                  disabled={!row.hasChildren || row.isRepeat}
+                  tabIndex={-1}
+                  style={{
+                    width: '18px',
+                    padding: 0,
+                    border: 'none',
+                    background: 'none',
+                    color: '#6B7280',
+                    cursor: row.hasChildren && !row.isRepeat ? 'pointer' : 'default',
+                    visibility: row.hasChildren && !row.isRepeat ? 'visible' : 'hidden',
+                  }}
+                >
+                  {isCollapsed ? '▸' : '▾'}
+                </button>
+                <span
+                  title={NODE_LABELS[node.type]}
+                  style={{
+                    minWidth: '36px',
+                    padding: '1px 6px',
+                    fontSize: '11px',
+                    fontWeight: 600,
+                    textAlign: 'center',
+                    borderRadius: '4px',
+                    color: TYPE_BADGE_COLORS[node.type],
+                    border: `1px ${isContext ? 'dashed' : 'solid'} ${TYPE_BADGE_COLORS[node.type]}`,
+                  }}
+                >
+                  {node.label || NODE_LABELS[node.type]}
+                </span>
+                <input
+                  ref={(element) => {
+                    if (element) {
+                      inputRefs.current.set(row.key, element);
+                    } else {
+                      inputRefs.current.delete(row.key);
+                    }
+                  }}
+                  value={drafts[node.id] ?? displayText(node)}
+                  readOnly={isReadOnly || !!lockHolder || node.type === 'Module'}
+                  placeholder={isReadOnly ? '' : '本文を入力（「S: 」で戦略、「E: 」で証拠、「C: 」で前提）'}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    setDrafts((current) => ({ ...current, [node.id]: value }));
+                  }}
+                  onFocus={() => {
+                    clearSelection();
+                    selectNode(node.id);
+                    if (!isReadOnly && !lockHolder && node.type !== 'Module') {
+                      void acquireNodeLock(node.id);
+                    }
+                  }}
+                  onBlur={() => {
+                    commitDraft(node.id);
+                    releaseNodeLock(node.id);
+                  }}
+                  onKeyDown={(e) => handleKeyDown(e, row, index)}
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    padding: '4px 6px',
+                    fontSize: '14px',
+                    border: '1px solid transparent',
+                    borderRadius: '4px',
+                    outline: 'none',
+                    color: row.isRepeat ? '#9CA3AF' : '#111827',
+                    fontStyle: row.isRepeat ? 'italic' : 'normal',
+                    backgroundColor: 'transparent',
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.borderColor = '#E5E7EB';
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.borderColor = 'transparent';
+                  }}
+                />
+                {lockHolder && (
+                  <span style={{ fontSize: '11px', color: '#B45309', whiteSpace: 'nowrap' }}>
+                    ✎ {lockHolder.userName}さんが編集中
+                  </span>
+                )}
+                {node.type === 'Module' && node.moduleId && (
+                  <button
+                    onClick={() => switchToModule(node.moduleId!)}
+                    style={{
+                      padding: '2px 8px',
+                      fontSize: '12px',
+                      border: '1px solid #D1D5DB',
+                      borderRadius: '4px',
+                      backgroundColor: '#FFFFFF',
+                      color: '#374151',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    開く
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
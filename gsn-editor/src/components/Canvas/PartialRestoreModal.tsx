@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { versionsApi } from '../../api/versions';
+import type { DiagramVersion } from '../../api/versions';
+import { useDiagramStore } from '../../stores/diagramStore';
+import type { DiagramData, Node } from '../../types/diagram';
+import { LoadingState } from '../Status/LoadingState';
+import { ErrorState } from '../Status/ErrorState';
+
+interface PartialRestoreModalProps {
+  projectId: string;
+  diagramId: string;
+  version: DiagramVersion;
+  onClose: () => void;
+  onRestored: (count: number) => void;
+}
+
+const stripHtml = (html: unknown) => (typeof html === 'string' ? html.replace(/<[^>]*>/g, '').trim() : '');
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  (err as { response?: { data?: { error?: string } } })?.response?.data?.error ??
+  (err instanceof Error ? err.message : fallback);
+
+// 過去のバージョンのモジュール一覧（単一ダイアグラム形式の古いデータは root のみ）
+const getVersionModules = (data: unknown): Record<string, DiagramData> => {
+  if (!data || typeof data !== 'object') return {};
+  const modules = (data as { modules?: Record<string, DiagramData> }).modules;
+  if (modules && typeof modules === 'object') return modules;
+  const legacy = data as Partial<DiagramData>;
+  return Array.isArray(legacy.nodes) ? { root: { ...(legacy as DiagramData), links: legacy.links ?? [] } } : {};
+};
+
+/**
+ * 過去のバージョンから選んだノード（と子孫）だけを現在のダイアグラムに戻す
+ */
+export const PartialRestoreModal: React.FC<PartialRestoreModalProps> = ({
+  projectId,
+  diagramId,
+  version,
+  onClose,
+  onRestored,
+}) => {
+  const { t } = useTranslation();
+  const { nodes: currentNodes, modules: currentModules, currentDiagramId, restoreNodesFromVersion } =
+    useDiagramStore();
+  const [versionData, setVersionData] = useState<unknown>(null);
+  const [moduleId, setModuleId] = useState(currentDiagramId);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [includeDescendants, setIncludeDescendants] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersion = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await versionsApi.getById(projectId, diagramId, version.id);
+      setVersionData(data.data ?? null);
+    } catch (err: unknown) {
+      console.error('Failed to load version:', err);
+      setError(getErrorMessage(err, t('version.partialRestoreLoadError')));
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, diagramId, version.id, t]);
+
+  useEffect(() => {
+    loadVersion();
+  }, [loadVersion]);
+
+  const versionModules = useMemo(() => getVersionModules(versionData), [versionData]);
+  const activeModuleId = versionModules[moduleId] ? moduleId : 'root';
+  const sourceModule = versionModules[activeModuleId];
+
+  // 現在のダイアグラムにもある（＝戻すと複製になる）ノード
+  const existingIds = useMemo(() => {
+    const ids = new Set(currentNodes.map((node) => node.id));
+    Object.entries(currentModules).forEach(([id, module]) => {
+      if (id !== currentDiagramId) module.nodes.forEach((node) => ids.add(node.id));
+    });
+    return ids;
+  }, [currentNodes, currentModules, currentDiagramId]);
+
+  const sortedNodes = useMemo(
+    () =>
+      (sourceModule?.nodes ?? [])
+        .slice()
+        .sort((a: Node, b: Node) => Number(existingIds.has(a.id)) - Number(existingIds.has(b.id))),
+    [sourceModule, existingIds]
+  );
+
+  const toggleNode = (nodeId: string) => {
+    setSelectedIds((prev) => (prev.includes(nodeId) ? prev.filter((id) => id !== nodeId) : [...prev, nodeId]));
+  };
+
+  const handleRestore = () => {
+    const count = restoreNodesFromVersion(versionData, activeModuleId, selectedIds, includeDescendants);
+    if (count === 0) {
+      setError(t('version.partialRestoreNothing'));
+      return;
+    }
+    onRestored(count);
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          width: '640px',
+          maxHeight: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* ヘッダー */}
+        <div
+          style={{
+            padding: '20px',
+            borderBottom: '1px solid #E5E7EB',
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+          }}
+        >
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: 'bold' }}>
+            ↩️ {t('version.partialRestoreTitle', { version: version.versionNumber })}
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              fontSize: '24px',
+              cursor: 'pointer',
+              color: '#6B7280',
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        {/* コンテンツ */}
+        <div style={{ padding: '20px', overflowY: 'auto', flex: 1 }}>
+          {loading && <LoadingState />}
+
+          {error && <ErrorState message={error} />}
+
+          {!loading && sourceModule && (
+            <>
+              <div style={{ marginBottom: '12px', fontSize: '13px', color: '#6B7280' }}>
+                {t('version.partialRestoreHint')}
+              </div>
+
+              <div style={{ display: 'flex', gap: '16px', alignItems: 'center', marginBottom: '12px' }}>
+                {Object.keys(versionModules).length > 1 && (
+                  <select
+                    value={activeModuleId}
+                    onChange={(e) => {
+                      setModuleId(e.target.value);
+                      setSelectedIds([]);
+                    }}
+                    style={{
+                      padding: '6px 10px',
+                      border: '1px solid #D1D5DB',
+                      borderRadius: '6px',
+                      fontSize: '13px',
+                    }}
+                  >
+                    {Object.entries(versionModules).map(([id, module]) => (
+                      <option key={id} value={id}>
+                        {module.title || id}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', cursor: 'pointer' }}>
+                  <input
+                    type="checkbox"
+                    checked={includeDescendants}
+                    onChange={(e) => setIncludeDescendants(e.target.checked)}
+                  />
+                  {t('version.partialRestoreDescendants')}
+                </label>
+              </div>
+
+              {sortedNodes.length === 0 && (
+                <div style={{ padding: '20px', textAlign: 'center', color: '#6B7280' }}>
+                  {t('version.partialRestoreEmpty')}
+                </div>
+              )}
+
+              {sortedNodes.map((node) => {
+                const exists = existingIds.has(node.id);
+                const selected = selectedIds.includes(node.id);
+                const content = stripHtml(node.content);
+                return (
+                  <label
+                    key={node.id}
+                    style={{
+                      display: 'flex',
+                      gap: '10px',
+                      alignItems: 'flex-start',
+                      padding: '8px 10px',
+                      marginBottom: '6px',
+                      borderRadius: '6px',
+                      border: selected ? '2px solid #3B82F6' : '1px solid #E5E7EB',
+                      backgroundColor: selected ? '#EFF6FF' : '#FFFFFF',
+                      cursor: 'pointer',
+                      fontSize: '13px',
+                    }}
+                  >
+                    <input type="checkbox" checked={selected} onChange={() => toggleNode(node.id)} />
+                    <div style={{ minWidth: 0 }}>
+                      <div style={{ fontWeight: '600' }}>
+                        {node.label ?? node.id} <span style={{ color: '#6B7280', fontWeight: 'normal' }}>({node.type})</span>
+                        {!exists && (
+                          <span
+                            style={{
+                              marginLeft: '8px',
+                              padding: '1px 8px',
+                              backgroundColor: '#FEE2E2',
+                              color: '#991B1B',
+                              borderRadius: '10px',
+                              fontSize: '11px',
+                            }}
+                          >
+                            {t('version.partialRestoreDeleted')}
+                          </span>
+                        )}
+                      </div>
+                      {content && (
+                        <div style={{ color: '#4B5563', wordBreak: 'break-word' }}>
+                          {content.length > 120 ? `${content.slice(0, 120)}…` : content}
+                        </div>
+                      )}
+                    </div>
+                  </label>
+                );
+              })}
+            </>
+          )}
+        </div>
+
+        {/* フッター */}
+        <div
+          style={{
+            padding: '16px 20px',
+            borderTop: '1px solid #E5E7EB',
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: '12px',
+          }}
+        >
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#F3F4F6',
+              color: '#374151',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontWeight: '500',
+            }}
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleRestore}
+            disabled={loading || selectedIds.length === 0}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: loading || selectedIds.length === 0 ? '#93C5FD' : '#3B82F6',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: loading || selectedIds.length === 0 ? 'not-allowed' : 'pointer',
+              fontWeight: '500',
+            }}
+          >
+            {t('version.partialRestoreSubmit', { count: selectedIds.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+
+interface SaveConflictModalProps {
+  serverVersion: number;
+  serverUpdatedAt: string;
+  onResolve: (choice: 'merge' | 'overwrite' | 'discard') => void;
+}
+
+export const SaveConflictModal: React.FC<SaveConflictModalProps> = ({
+  serverVersion,
+  serverUpdatedAt,
+  onResolve,
+}) => {
+  const { t } = useTranslation();
+
+  const options: Array<{
+    choice: 'merge' | 'overwrite' | 'discard';
+    label: string;
+    hint: string;
+    color: string;
+    background: string;
+  }> = [
+    {
+      choice: 'merge',
+      label: t('saveConflict.merge'),
+      hint: t('saveConflict.mergeHint'),
+      color: '#FFFFFF',
+      background: '#3B82F6',
+    },
+    {
+      choice: 'overwrite',
+      label: t('saveConflict.overwrite'),
+      hint: t('saveConflict.overwriteHint'),
+      color: '#FFFFFF',
+      background: '#EF4444',
+    },
+    {
+      choice: 'discard',
+      label: t('saveConflict.discard'),
+      hint: t('saveConflict.discardHint'),
+      color: '#374151',
+      background: '#F3F4F6',
+    },
+  ];
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1100,
+      }}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          width: '520px',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)',
+        }}
+      >
+        {/* ヘッダー */}
+        <div style={{ padding: '20px', borderBottom: '1px solid #E5E7EB' }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: 'bold' }}>
+            ⚠️ {t('saveConflict.title')}
+          </h2>
+        </div>
+
+        {/* コンテンツ */}
+        <div style={{ padding: '20px' }}>
+          <p style={{ margin: '0 0 8px', color: '#374151', fontSize: '14px', lineHeight: 1.6 }}>
+            {t('saveConflict.description', { version: serverVersion })}
+          </p>
+          <div style={{ fontSize: '12px', color: '#6B7280', marginBottom: '16px' }}>
+            {t('saveConflict.updatedAt')}: {new Date(serverUpdatedAt).toLocaleString()}
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+            {options.map((option) => (
+              <button
+                key={option.choice}
+                onClick={() => onResolve(option.choice)}
+                style={{
+                  padding: '10px 14px',
+                  backgroundColor: option.background,
+                  color: option.color,
+                  border: 'none',
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                  textAlign: 'left',
+                }}
+              >
+                <div style={{ fontWeight: '600', fontSize: '14px' }}>{option.label}</div>
+                <div style={{ fontSize: '12px', opacity: 0.85, marginTop: '2px' }}>{option.hint}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,509 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useDiagramStore } from '../../stores/diagramStore';
+import { useDiagramFreezeStore } from '../../stores/diagramFreezeStore';
+import { useViewModeStore } from '../../stores/viewModeStore';
+import { useAuthStore } from '../../stores/authStore';
+import { useValidationSettingsStore } from '../../stores/validationSettingsStore';
+import { NODE_LABELS, type NodeType } from '../../types/diagram';
+import { validateDiagram } from '../../utils/validation';
+import { plainTextToHtml } from '../../utils/textFormats';
+import {
+  buildNodeTableRows,
+  nodeTableToCsv,
+  readNodeTableCsv,
+  type NodeTableRow,
+  type NodeTableStatus,
+} from '../../utils/nodeTable';
+
+/**
+ * 表ビュー：表示中のダイアグラムの全ノードを一覧で見直し・一括編集する
+ *
+ * 本文はその場で編集でき、種類は複数行まとめて変更できる。CSV の書き出し・読み込みも
+ * updateNode / changeNodeTypes を通すので、キャンバスと他のユーザーにそのまま反映される
+ */
+
+type SortKey = 'label' | 'type' | 'content' | 'parents' | 'comments' | 'status';
+
+const EDITABLE_TYPES = (Object.keys(NODE_LABELS) as NodeType[]).filter((type) => type !== 'Module');
+
+const STATUS_STYLES: Record<NodeTableStatus, { label: string; color: string }> = {
+  error: { label: 'エラー', color: '#DC2626' },
+  warning: { label: '警告', color: '#D97706' },
+  ok: { label: 'OK', color: '#059669' },
+};
+
+const STATUS_ORDER: Record<NodeTableStatus, number> = { error: 0, warning: 1, ok: 2 };
+
+const compareText = (a: string, b: string) => a.localeCompare(b, 'ja', { numeric: true });
+
+const compareRows = (a: NodeTableRow, b: NodeTableRow, key: SortKey): number => {
+  switch (key) {
+    case 'label':
+      return compareText(a.node.label ?? '', b.node.label ?? '');
+    case 'type':
+      return compareText(a.node.type, b.node.type);
+    case 'content':
+      return compareText(a.content, b.content);
+    case 'parents':
+      return compareText(a.parents.join(' '), b.parents.join(' '));
+    case 'comments':
+      return a.commentCount - b.commentCount;
+    case 'status':
+      return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+  }
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderBottom: '1px solid #F3F4F6',
+  fontSize: '13px',
+  verticalAlign: 'top',
+};
+
+const toolbarButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  fontSize: '13px',
+  border: '1px solid #D1D5DB',
+  borderRadius: '6px',
+  backgroundColor: '#FFFFFF',
+  color: '#374151',
+  cursor: 'pointer',
+  whiteSpace: 'nowrap',
+};
+
+const controlStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  fontSize: '13px',
+  border: '1px solid #D1D5DB',
+  borderRadius: '6px',
+  backgroundColor: '#FFFFFF',
+};
+
+export const TableView: React.FC = () => {
+  const {
+    title,
+    nodes,
+    links,
+    comments,
+    projectRole,
+    nodeLocks,
+    updateNode,
+    changeNodeTypes,
+    selectNode,
+    clearSelection,
+    zoomToSelection,
+    acquireNodeLock,
+    releaseNodeLock,
+  } = useDiagramStore();
+  const { freeze } = useDiagramFreezeStore();
+  const { setViewMode } = useViewModeStore();
+  const { user } = useAuthStore();
+  const { overrides: validationOverrides } = useValidationSettingsStore();
+
+  const [sortKey, setSortKey] = useState<SortKey>('label');
+  const [sortDesc, setSortDesc] = useState(false);
+  const [filterText, setFilterText] = useState('');
+  const [filterType, setFilterType] = useState<NodeType | 'all'>('all');
+  const [filterStatus, setFilterStatus] = useState<NodeTableStatus | 'all'>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkType, setBulkType] = useState<NodeType>('Goal');
+  // 編集中の本文（確定するまでストアに書き込まない）
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // 閲覧者と凍結中のダイアグラムは編集できない
+  const isReadOnly = projectRole === 'viewer' || !!freeze;
+
+  const validation = useMemo(
+    () => validateDiagram(nodes, links, validationOverrides),
+    [nodes, links, validationOverrides]
+  );
+  const rows = useMemo(
+    () => buildNodeTableRows(nodes, links, comments, validation),
+    [nodes, links, comments, validation]
+  );
+
+  const visibleRows = useMemo(() => {
+    const query = filterText.trim().toLowerCase();
+    const filtered = rows.filter(
+      (row) =>
+        (filterType === 'all' || row.node.type === filterType) &&
+        (filterStatus === 'all' || row.status === filterStatus) &&
+        (!query ||
+          [row.node.label ?? '', row.content, ...row.parents].some((text) => text.toLowerCase().includes(query)))
+    );
+    const sorted = [...filtered].sort((a, b) => compareRows(a, b, sortKey));
+    return sortDesc ? sorted.reverse() : sorted;
+  }, [rows, filterText, filterType, filterStatus, sortKey, sortDesc]);
+
+  const selectedVisible = visibleRows.filter((row) => selectedIds.has(row.node.id));
+  const allVisibleSelected = visibleRows.length > 0 && selectedVisible.length === visibleRows.length;
+
+  const lockHolderOf = (nodeId: string) =>
+    nodeLocks.find((lock) => lock.nodeId === nodeId && lock.userId !== user?.id);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortKey(key);
+      setSortDesc(false);
+    }
+  };
+
+  const toggleSelected = (nodeId: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(nodeId)) {
+        next.delete(nodeId);
+      } else {
+        next.add(nodeId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleRows.map((row) => row.node.id)));
+  };
+
+  const clearDraft = (nodeId: string) => {
+    setDrafts((current) => {
+      if (!(nodeId in current)) return current;
+      const next = { ...current };
+      delete next[nodeId];
+      return next;
+    });
+  };
+
+  const commitDraft = (row: NodeTableRow) => {
+    const draft = drafts[row.node.id];
+    if (draft === undefined) return;
+    clearDraft(row.node.id);
+    const node = useDiagramStore.getState().nodes.find((n) => n.id === row.node.id);
+    if (!node || draft.trim() === row.content) return;
+    updateNode(node.id, { content: plainTextToHtml(draft.trim()) }, { baseContent: node.content });
+  };
+
+  const handleBulkTypeChange = () => {
+    if (selectedVisible.length === 0) return;
+    changeNodeTypes(
+      selectedVisible.map((row) => row.node.id),
+      bulkType
+    );
+  };
+
+  // キャンバスに戻ってノードを選択する
+  const showOnCanvas = (nodeId: string) => {
+    clearSelection();
+    selectNode(nodeId);
+    setViewMode('canvas');
+    zoomToSelection();
+  };
+
+  const handleExportCsv = () => {
+    const blob = new Blob([nodeTableToCsv(rows)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    const safeTitle = (title || 'diagram').replace(/[\\/:*?"<>|]/g, '_');
+    link.href = url;
+    link.download = `${safeTitle}-nodes.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportCsv = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const currentNodes = useDiagramStore.getState().nodes;
+        const { updates, unmatched } = readNodeTableCsv(event.target?.result as string, currentNodes);
+        const unmatchedNote = unmatched.length > 0 ? `\n見つからなかったノード: ${unmatched.join(', ')}` : '';
+        if (updates.length === 0) {
+          alert(`変更のあるノードはありませんでした${unmatchedNote}`);
+          return;
+        }
+        if (!confirm(`${updates.length}件のノードの種類・本文を更新します。よろしいですか？${unmatchedNote}`)) {
+          return;
+        }
+
+        const idsByType = new Map<NodeType, string[]>();
+        for (const update of updates) {
+          if (update.content !== undefined) {
+            const node = useDiagramStore.getState().nodes.find((n) => n.id === update.nodeId);
+            if (node) {
+              updateNode(node.id, { content: plainTextToHtml(update.content) }, { baseContent: node.content });
+            }
+          }
+          if (update.type) {
+            idsByType.set(update.type, [...(idsByType.get(update.type) ?? []), update.nodeId]);
+          }
+        }
+        for (const [type, ids] of idsByType) {
+          changeNodeTypes(ids, type);
+        }
+      } catch (error) {
+        alert('CSVの読み込みに失敗しました: ' + (error as Error).message);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const sortHeader = (key: SortKey, label: string, width?: string) => (
+    <th
+      onClick={() => handleSort(key)}
+      style={{
+        ...cellStyle,
+        width,
+        textAlign: 'left',
+        fontWeight: 600,
+        color: '#374151',
+        cursor: 'pointer',
+        userSelect: 'none',
+        whiteSpace: 'nowrap',
+        position: 'sticky',
+        top: 0,
+        backgroundColor: '#F9FAFB',
+        borderBottom: '1px solid #E5E7EB',
+      }}
+    >
+      {label}
+      {sortKey === key && <span style={{ marginLeft: '4px', color: '#6B7280' }}>{sortDesc ? '▼' : '▲'}</span>}
+    </th>
+  );
+
+  return (
+    <div style={{ height: '100%', display: 'flex', flexDirection: 'column', backgroundColor: '#FFFFFF' }}>
+      <div
+        style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '10px 16px',
+          borderBottom: '1px solid #E5E7EB',
+          backgroundColor: '#F9FAFB',
+        }}
+      >
+        <input
+          value={filterText}
+          onChange={(e) => setFilterText(e.target.value)}
+          placeholder="ラベル・本文・親で絞り込み"
+          style={{ ...controlStyle, width: '220px' }}
+        />
+        <select
+          value={filterType}
+          onChange={(e) => setFilterType(e.target.value as NodeType | 'all')}
+          style={controlStyle}
+        >
+          <option value="all">すべての種類</option>
+          {(Object.keys(NODE_LABELS) as NodeType[]).map((type) => (
+            <option key={type} value={type}>
+              {NODE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filterStatus}
+          onChange={(e) => setFilterStatus(e.target.value as NodeTableStatus | 'all')}
+          style={controlStyle}
+        >
+          <option value="all">すべての検証結果</option>
+          {(Object.keys(STATUS_STYLES) as NodeTableStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {STATUS_STYLES[status].label}
+            </option>
+          ))}
+        </select>
+        <span style={{ fontSize: '12px', color: '#6B7280' }}>
+          {visibleRows.length} / {rows.length} 件
+        </span>
+
+        <div style={{ flex: 1 }} />
+
+        {!isReadOnly && (
+          <>
+            <span style={{ fontSize: '12px', color: '#6B7280' }}>選択した {selectedVisible.length} 件を</span>
+            <select value={bulkType} onChange={(e) => setBulkType(e.target.value as NodeType)} style={controlStyle}>
+              {EDITABLE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {NODE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleBulkTypeChange}
+              disabled={selectedVisible.length === 0}
+              style={{
+                ...toolbarButtonStyle,
+                cursor: selectedVisible.length > 0 ? 'pointer' : 'not-allowed',
+                color: selectedVisible.length > 0 ? '#374151' : '#D1D5DB',
+              }}
+            >
+              に変更
+            </button>
+          </>
+        )}
+        <button onClick={handleExportCsv} style={toolbarButtonStyle}>
+          CSV出力
+        </button>
+        {!isReadOnly && (
+          <>
+            <button onClick={() => fileInputRef.current?.click()} style={toolbarButtonStyle}>
+              CSV読み込み
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleImportCsv}
+              style={{ display: 'none' }}
+            />
+          </>
+        )}
+      </div>
+
+      <div style={{ flex: 1, overflow: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th
+                style={{
+                  ...cellStyle,
+                  width: '32px',
+                  position: 'sticky',
+                  top: 0,
+                  backgroundColor: '#F9FAFB',
+                  borderBottom: '1px solid #E5E7EB',
+                }}
+              >
+                <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} />
+              </th>
+              {sortHeader('label', 'ラベル', '72px')}
+              {sortHeader('type', '種類', '120px')}
+              {sortHeader('content', '本文')}
+              {sortHeader('parents', '親', '96px')}
+              {sortHeader('comments', 'コメント', '96px')}
+              {sortHeader('status', '検証', '80px')}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map((row) => {
+              const { node } = row;
+              const lockHolder = lockHolderOf(node.id);
+              const canEditRow = !isReadOnly && !lockHolder && node.type !== 'Module';
+              const status = STATUS_STYLES[row.status];
+              return (
+                <tr
+                  key={node.id}
+                  style={{ backgroundColor: selectedIds.has(node.id) ? '#EFF6FF' : 'transparent' }}
+                >
+                  <td style={cellStyle}>
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(node.id)}
+                      onChange={() => toggleSelected(node.id)}
+                    />
+                  </td>
+                  <td style={cellStyle}>
+                    <button
+                      onClick={() => showOnCanvas(node.id)}
+                      title="キャンバスで表示"
+                      style={{
+                        padding: 0,
+                        border: 'none',
+                        background: 'none',
+                        color: '#2563EB',
+                        fontWeight: 600,
+                        cursor: 'pointer',
+                      }}
+                    >
+                      {node.label || node.id.slice(0, 8)}
+                    </button>
+                  </td>
+                  <td style={cellStyle}>
+                    {node.type === 'Module' || isReadOnly ? (
+                      NODE_LABELS[node.type]
+                    ) : (
+                      <select
+                        value={node.type}
+                        onChange={(e) => changeNodeTypes([node.id], e.target.value as NodeType)}
+                        style={{ ...controlStyle, padding: '2px 4px' }}
+                      >
+                        {EDITABLE_TYPES.map((type) => (
+                          <option key={type} value={type}>
+                            {NODE_LABELS[type]}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </td>
+                  <td style={cellStyle}>
+                    <textarea
+                      value={drafts[node.id] ?? row.content}
+                      readOnly={!canEditRow}
+                      rows={Math.min(6, Math.max(1, (drafts[node.id] ?? row.content).split('\n').length))}
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        setDrafts((current) => ({ ...current, [node.id]: value }));
+                      }}
+                      onFocus={() => {
+                        if (canEditRow) void acquireNodeLock(node.id);
+                      }}
+                      onBlur={() => {
+                        commitDraft(row);
+                        releaseNodeLock(node.id);
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Escape') {
+                          clearDraft(node.id);
+                          e.currentTarget.blur();
+                        } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                          e.currentTarget.blur();
+                        }
+                      }}
+                      style={{
+                        width: '100%',
+                        padding: '4px 6px',
+                        fontSize: '13px',
+                        fontFamily: 'inherit',
+                        border: '1px solid #E5E7EB',
+                        borderRadius: '4px',
+                        resize: 'vertical',
+                        backgroundColor: canEditRow ? '#FFFFFF' : '#F9FAFB',
+                      }}
+                    />
+                    {lockHolder && (
+                      <div style={{ fontSize: '11px', color: '#B45309' }}>✎ {lockHolder.userName}さんが編集中</div>
+                    )}
+                  </td>
+                  <td style={{ ...cellStyle, color: '#4B5563' }}>{row.parents.join(', ') || '—'}</td>
+                  <td style={{ ...cellStyle, color: '#4B5563' }}>
+                    {row.commentCount}
+                    {row.unresolvedCount > 0 && (
+                      <span style={{ marginLeft: '4px', fontSize: '11px', color: '#D97706' }}>
+                        （未解決 {row.unresolvedCount}）
+                      </span>
+                    )}
+                  </td>
+                  <td style={cellStyle} title={row.findings.join('\n')}>
+                    <span style={{ color: status.color, fontWeight: 600, whiteSpace: 'nowrap' }}>● {status.label}</span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {visibleRows.length === 0 && (
+          <div style={{ padding: '24px', textAlign: 'center', fontSize: '13px', color: '#9CA3AF' }}>
+            該当するノードがありません
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
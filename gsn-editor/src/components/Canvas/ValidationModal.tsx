@@ -1,16 +1,89 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import type { ValidationResult, ValidationError, ValidationWarning } from '../../utils/validation';
+import {
+  getValidationRules,
+  resolveRuleSetting,
+  type ValidationResult,
+  type ValidationError,
+  type ValidationWarning,
+  type ValidationRuleOverrides,
+  type ValidationSeverity,
+} from '../../utils/validation';
 import { useDiagramStore } from '../../stores/diagramStore';
+import { useValidationSettingsStore } from '../../stores/validationSettingsStore';
+import type { ValidationGate, ValidationGates } from '../../api/validation';
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  (err as { response?: { data?: { error?: string } } })?.response?.data?.error ??
+  (err instanceof Error ? err.message : fallback);
 
 interface ValidationModalProps {
   result: ValidationResult;
+  canApplyFixes: boolean; // 閲覧専用・凍結中はクイック修正を出さない
   onClose: () => void;
 }
 
-export const ValidationModal: React.FC<ValidationModalProps> = ({ result, onClose }) => {
+export const ValidationModal: React.FC<ValidationModalProps> = ({ result, canApplyFixes, onClose }) => {
   const { t } = useTranslation();
-  const { nodes, selectNode, clearSelection, setViewport, canvasState } = useDiagramStore();
+  const {
+    nodes,
+    links,
+    selectNode,
+    clearSelection,
+    setViewport,
+    canvasState,
+    currentProjectId,
+    projectRole,
+    applyValidationFix,
+  } = useDiagramStore();
+  const { overrides, gates, saveSettings } = useValidationSettingsStore();
+  const rules = getValidationRules();
+  const isOwner = projectRole === 'owner';
+
+  // ルールの設定（編集中の内容。開いたときに保存済みの設定から作る）
+  const [ruleDraft, setRuleDraft] = useState<ValidationRuleOverrides | null>(null);
+  const [gateDraft, setGateDraft] = useState<ValidationGates>(gates);
+  const [isSavingRules, setIsSavingRules] = useState(false);
+  const [rulesError, setRulesError] = useState<string | null>(null);
+
+  const openRuleSettings = () => {
+    setRuleDraft({ ...overrides });
+    setGateDraft(gates);
+    setRulesError(null);
+  };
+
+  const updateRuleDraft = (
+    ruleId: string,
+    change: { enabled?: boolean; severity?: ValidationSeverity; enforce?: boolean }
+  ) => {
+    setRuleDraft((current) => ({ ...current, [ruleId]: { ...current?.[ruleId], ...change } }));
+  };
+
+  const handleSaveRules = async () => {
+    if (!ruleDraft || !currentProjectId) return;
+    // 既定値と同じ項目は保存しない
+    const next: ValidationRuleOverrides = {};
+    for (const rule of rules) {
+      const { enabled, severity, enforce } = resolveRuleSetting(rule, ruleDraft);
+      const override = {
+        ...(enabled !== (rule.defaultEnabled ?? true) ? { enabled } : {}),
+        ...(severity !== rule.defaultSeverity ? { severity } : {}),
+        ...(enforce ? { enforce } : {}),
+      };
+      if (Object.keys(override).length > 0) next[rule.id] = override;
+    }
+
+    setIsSavingRules(true);
+    setRulesError(null);
+    try {
+      await saveSettings(currentProjectId, next, gateDraft);
+      setRuleDraft(null);
+    } catch (error) {
+      setRulesError(getErrorMessage(error, t('validation.saveRulesError')));
+    } finally {
+      setIsSavingRules(false);
+    }
+  };
 
   const handleNodeClick = (nodeIds: string[] | undefined) => {
     if (!nodeIds || nodeIds.length === 0) return;
@@ -38,6 +111,14 @@ export const ValidationModal: React.FC<ValidationModalProps> = ({ result, onClos
     onClose();
   };
 
+  const getLinkLabels = (linkIds: string[]): string =>
+    linkIds
+      .map(id => {
+        const link = links.find(l => l.id === id);
+        return link ? `${getNodeLabels([link.source])} → ${getNodeLabels([link.target])}` : id.slice(0, 8);
+      })
+      .join(', ');
+
   const getNodeLabels = (nodeIds: string[] | undefined): string => {
     if (!nodeIds || nodeIds.length === 0) return '';
     return nodeIds
@@ -81,7 +162,25 @@ export const ValidationModal: React.FC<ValidationModalProps> = ({ result, onClos
             <div style={{ fontWeight: '500', color: '#1F2937', marginBottom: '4px' }}>
               {item.message}
             </div>
-            {item.nodeIds && item.nodeIds.length > 0 && (
+            <div style={{ fontSize: '12px', color: '#6B7280', marginBottom: '4px' }}>
+              {rules.find((rule) => rule.id === item.ruleId)?.name ?? item.ruleId}
+            </div>
+            {item.linkIds && item.linkIds.length > 0 ? (
+              <button
+                onClick={() => handleNodeClick(item.nodeIds)}
+                style={{
+                  fontSize: '13px',
+                  color: '#3B82F6',
+                  background: 'none',
+                  border: 'none',
+                  padding: 0,
+                  cursor: 'pointer',
+                  textDecoration: 'underline',
+                }}
+              >
+                {t('validation.affectedLinks')}: {getLinkLabels(item.linkIds)}
+              </button>
+            ) : item.nodeIds && item.nodeIds.length > 0 && (
               <button
                 onClick={() => handleNodeClick(item.nodeIds)}
                 style={{
@@ -97,6 +196,28 @@ export const ValidationModal: React.FC<ValidationModalProps> = ({ result, onClos
                 {t('validation.affectedNodes')}: {getNodeLabels(item.nodeIds)}
               </button>
             )}
+            {canApplyFixes && item.fixes && item.fixes.length > 0 && (
+              <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px', marginTop: '8px' }}>
+                <span style={{ fontSize: '12px', color: '#6B7280' }}>{t('validation.quickFix')}:</span>
+                {item.fixes.map((fix) => (
+                  <button
+                    key={fix.id}
+                    onClick={() => applyValidationFix(fix)}
+                    style={{
+                      padding: '3px 10px',
+                      fontSize: '12px',
+                      border: `1px solid ${borderColor}`,
+                      borderRadius: '6px',
+                      backgroundColor: 'white',
+                      color: '#374151',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {fix.label}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -205,6 +326,164 @@ export const ValidationModal: React.FC<ValidationModalProps> = ({ result, onClos
           </div>
         )}
 
+        {/* ルールの設定（オーナーのみ変更できる） */}
+        <div style={{ borderTop: '1px solid #E5E7EB', paddingTop: '16px' }}>
+          {!ruleDraft ? (
+            <button
+              onClick={openRuleSettings}
+              style={{
+                fontSize: '13px',
+                color: '#3B82F6',
+                background: 'none',
+                border: 'none',
+                padding: 0,
+                cursor: 'pointer',
+              }}
+            >
+              ⚙ {t('validation.ruleSettings')}
+            </button>
+          ) : (
+            <div>
+              <h3 style={{ fontSize: '14px', fontWeight: '600', color: '#374151', margin: '0 0 8px' }}>
+                {t('validation.ruleSettings')}
+              </h3>
+              {!isOwner && (
+                <div style={{ fontSize: '12px', color: '#6B7280', marginBottom: '8px' }}>
+                  {t('validation.ruleSettingsOwnerOnly')}
+                </div>
+              )}
+              {rules.map((rule) => {
+                const { enabled, severity, enforce } = resolveRuleSetting(rule, ruleDraft);
+                return (
+                  <div
+                    key={rule.id}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '12px',
+                      padding: '8px 0',
+                      borderBottom: '1px solid #F3F4F6',
+                    }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={enabled}
+                      disabled={!isOwner}
+                      onChange={(e) => updateRuleDraft(rule.id, { enabled: e.target.checked })}
+                      title={t('validation.ruleEnabled')}
+                    />
+                    <div style={{ flex: 1, opacity: enabled ? 1 : 0.5 }}>
+                      <div style={{ fontSize: '14px', color: '#1F2937' }}>{rule.name}</div>
+                      <div style={{ fontSize: '12px', color: '#6B7280' }}>{rule.description}</div>
+                      {rule.checkLink && (
+                        <label
+                          style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '12px', color: '#374151', marginTop: '4px' }}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={enforce}
+                            disabled={!isOwner || !enabled}
+                            onChange={(e) => updateRuleDraft(rule.id, { enforce: e.target.checked })}
+                          />
+                          {t('validation.enforceOnLink')}
+                        </label>
+                      )}
+                    </div>
+                    <select
+                      value={severity}
+                      disabled={!isOwner || !enabled}
+                      onChange={(e) => updateRuleDraft(rule.id, { severity: e.target.value as ValidationSeverity })}
+                      title={t('validation.severity')}
+                      style={{ padding: '4px 6px', fontSize: '13px', border: '1px solid #D1D5DB', borderRadius: '6px' }}
+                    >
+                      <option value="error">{t('validation.error')}</option>
+                      <option value="warning">{t('validation.warning')}</option>
+                    </select>
+                  </div>
+                );
+              })}
+              {/* コミット・アンケート公開の前の検証 */}
+              {(['commit', 'survey'] as const).map((target) => (
+                <div
+                  key={target}
+                  style={{ display: 'flex', alignItems: 'center', gap: '12px', padding: '8px 0', borderBottom: '1px solid #F3F4F6' }}
+                >
+                  <div style={{ flex: 1, fontSize: '14px', color: '#1F2937' }}>
+                    {target === 'commit' ? t('validation.commitGate') : t('validation.surveyGate')}
+                  </div>
+                  <select
+                    value={gateDraft[target]}
+                    disabled={!isOwner}
+                    onChange={(e) => setGateDraft((current) => ({ ...current, [target]: e.target.value as ValidationGate }))}
+                    style={{ padding: '4px 6px', fontSize: '13px', border: '1px solid #D1D5DB', borderRadius: '6px' }}
+                  >
+                    <option value="off">{t('validation.gateOff')}</option>
+                    <option value="block">{t('validation.gateBlock')}</option>
+                    <option value="override">{t('validation.gateOverride')}</option>
+                  </select>
+                </div>
+              ))}
+              {rulesError && (
+                <div style={{ marginTop: '8px', fontSize: '13px', color: '#DC2626' }}>{rulesError}</div>
+              )}
+              <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', marginTop: '12px' }}>
+                {isOwner && (
+                  <button
+                    onClick={() => {
+                      setRuleDraft({});
+                      setGateDraft({ commit: 'off', survey: 'off' });
+                    }}
+                    disabled={isSavingRules}
+                    style={{
+                      padding: '6px 12px',
+                      fontSize: '13px',
+                      border: '1px solid #D1D5DB',
+                      borderRadius: '6px',
+                      backgroundColor: 'white',
+                      color: '#374151',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {t('validation.resetRules')}
+                  </button>
+                )}
+                <button
+                  onClick={() => setRuleDraft(null)}
+                  disabled={isSavingRules}
+                  style={{
+                    padding: '6px 12px',
+                    fontSize: '13px',
+                    border: '1px solid #D1D5DB',
+                    borderRadius: '6px',
+                    backgroundColor: 'white',
+                    color: '#374151',
+                    cursor: 'pointer',
+                  }}
+                >
+                  {t('common.cancel')}
+                </button>
+                {isOwner && (
+                  <button
+                    onClick={handleSaveRules}
+                    disabled={isSavingRules}
+                    style={{
+                      padding: '6px 12px',
+                      fontSize: '13px',
+                      border: 'none',
+                      borderRadius: '6px',
+                      backgroundColor: '#3B82F6',
+                      color: 'white',
+                      cursor: isSavingRules ? 'not-allowed' : 'pointer',
+                    }}
+                  >
+                    {isSavingRules ? t('validation.savingRules') : t('common.save')}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* 閉じるボタン */}
         <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '20px' }}>
           <button
@@ -0,0 +1,299 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDiagramStore } from '../../stores/diagramStore';
+import { useVersionDiffStore } from '../../stores/versionDiffStore';
+import type { FieldChange, TextSegment, VersionRef } from '../../api/versions';
+import type { Node as NodeType, Link as LinkType, Position } from '../../types/diagram';
+import { DIFF_COLORS, type DiffStatus } from '../../utils/diffColors';
+import { DiffText } from './DiffText';
+
+const MAX_VALUE_LENGTH = 40;
+
+// 変更前後の値を1行で表示できるように整形する
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  const text =
+    typeof value === 'string' ? value.replace(/<[^>]*>/g, '').trim() : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+interface DiffEntry {
+  id: string;
+  status: DiffStatus;
+  title: string;
+  position: Position | null;
+  changes?: FieldChange[];
+  contentDiff?: TextSegment[] | null;
+  moved?: { from: Position; to: Position } | null;
+}
+
+export const VersionDiffPanel: React.FC = () => {
+  const { t } = useTranslation();
+  const { canvasState, setViewport } = useDiagramStore();
+  const { diff, moduleId, focusedId, closeDiff, setModule, setFocused } = useVersionDiffStore();
+
+  if (!diff) return null;
+
+  const moduleDiff = diff.modules.find((module) => module.moduleId === moduleId);
+  const moduleNodes = [...(diff.to.data.modules[moduleId]?.nodes ?? []), ...(moduleDiff?.nodes.removed ?? [])];
+
+  const versionLabel = (ref: VersionRef) =>
+    ref.versionNumber === null ? t('versionDiff.current') : `v${ref.versionNumber}`;
+  const moduleLabel = (id: string, title: string | null) =>
+    title || (id === 'root' ? t('versionDiff.rootModule') : id);
+  const nodeTitle = (node: Pick<NodeType, 'label' | 'type'> | undefined, fallback: string) =>
+    node ? `${node.label ?? ''} ${node.type ? `(${node.type})` : ''}`.trim() || fallback : fallback;
+  const linkTitle = (link: LinkType) => {
+    const source = moduleNodes.find((node) => node.id === link.source);
+    const target = moduleNodes.find((node) => node.id === link.target);
+    return `${source?.label ?? link.source} → ${target?.label ?? link.target}`;
+  };
+  const linkPosition = (link: LinkType): Position | null => {
+    const source = moduleNodes.find((node) => node.id === link.source);
+    const target = moduleNodes.find((node) => node.id === link.target);
+    if (!source || !target) return null;
+    return {
+      x: (source.position.x + target.position.x) / 2,
+      y: (source.position.y + target.position.y) / 2,
+    };
+  };
+
+  const nodeEntries: DiffEntry[] = moduleDiff
+    ? [
+        ...moduleDiff.nodes.added.map((node) => ({
+          id: node.id,
+          status: 'added' as const,
+          title: nodeTitle(node, node.id),
+          position: node.position,
+        })),
+        ...moduleDiff.nodes.removed.map((node) => ({
+          id: node.id,
+          status: 'removed' as const,
+          title: nodeTitle(node, node.id),
+          position: node.position,
+        })),
+        ...moduleDiff.nodes.modified.map((node) => ({
+          id: node.id,
+          status: 'modified' as const,
+          title: nodeTitle(node.after, node.id),
+          position: node.after.position,
+          // 本文の差分は contentDiff で表示する
+          changes: node.contentDiff ? node.changes.filter((change) => change.field !== 'content') : node.changes,
+          contentDiff: node.contentDiff,
+          moved: node.moved,
+        })),
+      ]
+    : [];
+
+  const linkEntries: DiffEntry[] = moduleDiff
+    ? [
+        ...moduleDiff.links.added.map((link) => ({
+          id: link.id,
+          status: 'added' as const,
+          title: linkTitle(link),
+          position: linkPosition(link),
+        })),
+        ...moduleDiff.links.removed.map((link) => ({
+          id: link.id,
+          status: 'removed' as const,
+          title: linkTitle(link),
+          position: linkPosition(link),
+        })),
+        ...moduleDiff.links.modified.map((link) => ({
+          id: link.id,
+          status: 'modified' as const,
+          title: linkTitle(link.after),
+          position: linkPosition(link.after),
+          changes: link.changes,
+        })),
+      ]
+    : [];
+
+  // 選択した変更にビューを移動
+  const focusEntry = (entry: DiffEntry) => {
+    setFocused(entry.id);
+    if (entry.position) {
+      setViewport({
+        ...canvasState.viewport,
+        offsetX: -entry.position.x + 400,
+        offsetY: -entry.position.y + 300,
+      });
+    }
+  };
+
+  const { summary } = diff;
+  const summaryItems: { status: DiffStatus; label: string }[] = [
+    { status: 'added', label: t('versionDiff.summaryAdded', { nodes: summary.nodesAdded, links: summary.linksAdded }) },
+    {
+      status: 'removed',
+      label: t('versionDiff.summaryRemoved', { nodes: summary.nodesRemoved, links: summary.linksRemoved }),
+    },
+    {
+      status: 'modified',
+      label: t('versionDiff.summaryModified', { nodes: summary.nodesModified, links: summary.linksModified }),
+    },
+  ];
+
+  const renderEntry = (entry: DiffEntry) => (
+    <li
+      key={`${entry.status}-${entry.id}`}
+      onClick={() => focusEntry(entry)}
+      style={{
+        padding: '8px 10px',
+        marginBottom: '6px',
+        borderRadius: '6px',
+        borderLeft: `4px solid ${DIFF_COLORS[entry.status]}`,
+        backgroundColor: focusedId === entry.id ? '#EFF6FF' : '#F9FAFB',
+        cursor: 'pointer',
+        fontSize: '13px',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: '8px' }}>
+        <span style={{ fontWeight: '600', color: '#111827', wordBreak: 'break-all' }}>{entry.title}</span>
+        <span style={{ flexShrink: 0, fontSize: '11px', color: DIFF_COLORS[entry.status] }}>
+          {t(`versionDiff.status.${entry.status}`)}
+        </span>
+      </div>
+      {entry.contentDiff && (
+        <div style={{ marginTop: '4px', color: '#374151', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+          <DiffText segments={entry.contentDiff} />
+        </div>
+      )}
+      {entry.changes?.map((change) => (
+        <div key={change.field} style={{ marginTop: '4px', fontSize: '12px', color: '#4B5563' }}>
+          <span style={{ fontWeight: '500' }}>{change.field}</span>:{' '}
+          <span style={{ color: '#991B1B', textDecoration: 'line-through' }}>{formatValue(change.before)}</span>
+          {' → '}
+          <span style={{ color: '#166534' }}>{formatValue(change.after)}</span>
+        </div>
+      ))}
+      {entry.moved && (
+        <div style={{ marginTop: '4px', fontSize: '12px', color: '#4B5563' }}>
+          {t('versionDiff.moved', {
+            from: `${Math.round(entry.moved.from.x)}, ${Math.round(entry.moved.from.y)}`,
+            to: `${Math.round(entry.moved.to.x)}, ${Math.round(entry.moved.to.y)}`,
+          })}
+        </div>
+      )}
+    </li>
+  );
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: '340px',
+        backgroundColor: '#FFFFFF',
+        borderLeft: '1px solid #E5E7EB',
+        boxShadow: '-4px 0 12px rgba(0, 0, 0, 0.08)',
+        display: 'flex',
+        flexDirection: 'column',
+        zIndex: 50,
+      }}
+    >
+      {/* ヘッダー */}
+      <div style={{ padding: '16px', borderBottom: '1px solid #E5E7EB' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <h3 style={{ margin: 0, fontSize: '16px', fontWeight: 'bold' }}>{t('versionDiff.title')}</h3>
+          <button
+            onClick={closeDiff}
+            style={{ background: 'none', border: 'none', fontSize: '20px', cursor: 'pointer', color: '#6B7280' }}
+            aria-label={t('common.close')}
+          >
+            ×
+          </button>
+        </div>
+        <div style={{ marginTop: '4px', fontSize: '13px', color: '#4B5563' }}>
+          {versionLabel(diff.from)} → {versionLabel(diff.to)}
+        </div>
+        <div style={{ marginTop: '8px', display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+          {summaryItems.map((item) => (
+            <span
+              key={item.status}
+              style={{
+                padding: '2px 8px',
+                borderRadius: '12px',
+                fontSize: '11px',
+                color: DIFF_COLORS[item.status],
+                border: `1px solid ${DIFF_COLORS[item.status]}`,
+              }}
+            >
+              {item.label}
+            </span>
+          ))}
+        </div>
+        {diff.modules.length > 1 && (
+          <select
+            value={moduleId}
+            onChange={(e) => setModule(e.target.value)}
+            style={{
+              marginTop: '10px',
+              width: '100%',
+              padding: '6px 8px',
+              border: '1px solid #D1D5DB',
+              borderRadius: '6px',
+              fontSize: '13px',
+            }}
+          >
+            {diff.modules.map((module) => (
+              <option key={module.moduleId} value={module.moduleId}>
+                {moduleLabel(module.moduleId, module.title)}（{t(`versionDiff.status.${module.status}`)}）
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* 変更一覧 */}
+      <div style={{ flex: 1, overflowY: 'auto', padding: '12px 16px' }}>
+        {diff.modules.length === 0 && (
+          <div style={{ textAlign: 'center', color: '#6B7280', padding: '24px 0', fontSize: '13px' }}>
+            {t('versionDiff.noChanges')}
+          </div>
+        )}
+
+        {diff.modules.length > 0 && !moduleDiff && (
+          <div style={{ textAlign: 'center', color: '#6B7280', padding: '24px 0', fontSize: '13px' }}>
+            {t('versionDiff.noModuleChanges')}
+          </div>
+        )}
+
+        {moduleDiff?.titleChange && (
+          <div style={{ marginBottom: '12px', fontSize: '12px', color: '#4B5563' }}>
+            {t('versionDiff.titleChanged')}:{' '}
+            <span style={{ color: '#991B1B', textDecoration: 'line-through' }}>
+              {formatValue(moduleDiff.titleChange.before)}
+            </span>
+            {' → '}
+            <span style={{ color: '#166534' }}>{formatValue(moduleDiff.titleChange.after)}</span>
+          </div>
+        )}
+
+        {nodeEntries.length > 0 && (
+          <>
+            <h4 style={{ margin: '0 0 8px', fontSize: '13px', color: '#374151' }}>
+              {t('versionDiff.nodes')}（{nodeEntries.length}）
+            </h4>
+            <ul style={{ listStyle: 'none', margin: '0 0 16px', padding: 0 }}>{nodeEntries.map(renderEntry)}</ul>
+          </>
+        )}
+
+        {linkEntries.length > 0 && (
+          <>
+            <h4 style={{ margin: '0 0 8px', fontSize: '13px', color: '#374151' }}>
+              {t('versionDiff.links')}（{linkEntries.length}）
+            </h4>
+            <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>{linkEntries.map(renderEntry)}</ul>
+          </>
+        )}
+      </div>
+
+      <div style={{ padding: '12px 16px', borderTop: '1px solid #E5E7EB', fontSize: '12px', color: '#6B7280' }}>
+        {t('versionDiff.readOnlyHint')}
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,13 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { versionsApi } from '../../api/versions';
-import type { DiagramVersion } from '../../api/versions';
+import { versionsApi, CURRENT_VERSION_ID } from '../../api/versions';
+import type { DiagramVersion, VersionTag } from '../../api/versions';
+import { branchesApi } from '../../api/branches';
+import { useDiagramStore } from '../../stores/diagramStore';
+import { useVersionDiffStore } from '../../stores/versionDiffStore';
 import { LoadingState } from '../Status/LoadingState';
 import { ErrorState } from '../Status/ErrorState';
+import { PartialRestoreModal } from './PartialRestoreModal';
 
 interface VersionHistoryModalProps {
   isOpen: boolean;
@@ -11,19 +15,43 @@ interface VersionHistoryModalProps {
   projectId: string;
   diagramId: string;
   onRestore: (versionId: string) => void;
+  canEdit: boolean; // タグの作成（editor 以上）
+  isOwner: boolean; // タグの削除
+  isFrozen: boolean; // 凍結中はロールバックできない
 }
 
+const getErrorMessage = (err: unknown, fallback: string) =>
+  (err as { response?: { data?: { error?: string } } })?.response?.data?.error ??
+  (err instanceof Error ? err.message : fallback);
+
 export const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({
   isOpen,
   onClose,
   projectId,
   diagramId,
   onRestore,
+  canEdit,
+  isOwner,
+  isFrozen,
 }) => {
   const { t, i18n } = useTranslation();
   const [versions, setVersions] = useState<DiagramVersion[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // 比較対象として選択したバージョン（最大2つ）
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+  // ブランチID → ブランチ名（main のバージョンはバッジを表示しない）
+  const [branchNames, setBranchNames] = useState<Record<string, string>>({});
+  // タグを追加するバージョン
+  const [tagVersionId, setTagVersionId] = useState<string | null>(null);
+  const [tagName, setTagName] = useState('');
+  const [tagDescription, setTagDescription] = useState('');
+  const [tagBusy, setTagBusy] = useState(false);
+  // 自動スナップショットを一覧に表示するか
+  const [showAuto, setShowAuto] = useState(true);
+  // ノードを選んで戻すバージョン
+  const [partialRestoreVersion, setPartialRestoreVersion] = useState<DiagramVersion | null>(null);
 
   const loadVersions = useCallback(async () => {
     setLoading(true);
@@ -31,6 +59,10 @@ export const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({
     try {
       const data = await versionsApi.getAll(projectId, diagramId);
       setVersions(data);
+      if (data.some((version) => version.branchId)) {
+        const { branches } = await branchesApi.getAll(projectId, diagramId);
+        setBranchNames(Object.fromEntries(branches.map((branch) => [branch.id, branch.name])));
+      }
     } catch (err: unknown) {
       console.error('Failed to load versions:', err);
       const message =
@@ -43,7 +75,7 @@ export const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({
     } finally {
       setLoading(false);
     }
-  }, [projectId, diagramId]);
+  }, [projectId, diagramId, t]);
 
   // バージョン一覧取得
   useEffect(() => {
@@ -61,6 +93,79 @@ export const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({
     onClose();
   };
 
+  const openTagForm = (versionId: string) => {
+    setTagVersionId(versionId);
+    setTagName('');
+    setTagDescription('');
+  };
+
+  const handleCreateTag = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tagVersionId || !tagName.trim()) return;
+    setTagBusy(true);
+    setError(null);
+    try {
+      await versionsApi.createTag(projectId, diagramId, tagVersionId, {
+        name: tagName.trim(),
+        description: tagDescription.trim() || undefined,
+      });
+      setTagVersionId(null);
+      await loadVersions();
+    } catch (err: unknown) {
+      console.error('Failed to create tag:', err);
+      setError(getErrorMessage(err, t('version.tagCreateError')));
+    } finally {
+      setTagBusy(false);
+    }
+  };
+
+  const handleDeleteTag = async (version: DiagramVersion, tag: VersionTag) => {
+    if (!confirm(t('version.tagDeleteConfirm', { name: tag.name, version: version.versionNumber }))) {
+      return;
+    }
+    setError(null);
+    try {
+      await versionsApi.deleteTag(projectId, diagramId, version.id, tag.id);
+      await loadVersions();
+    } catch (err: unknown) {
+      console.error('Failed to delete tag:', err);
+      setError(getErrorMessage(err, t('version.tagDeleteError')));
+    }
+  };
+
+  const toggleCompare = (versionId: string) => {
+    setCompareIds((prev) =>
+      prev.includes(versionId)
+        ? prev.filter((id) => id !== versionId)
+        : [...prev, versionId].slice(-2)
+    );
+  };
+
+  // 差分を取得してキャンバスに重ねて表示する
+  const openDiff = async (fromId: string, toId: string) => {
+    setComparing(true);
+    setError(null);
+    try {
+      const diff = await versionsApi.diff(projectId, diagramId, fromId, toId);
+      useVersionDiffStore.getState().openDiff(diff, useDiagramStore.getState().currentDiagramId);
+      onClose();
+    } catch (err: unknown) {
+      console.error('Failed to load version diff:', err);
+      setError(err instanceof Error ? err.message : t('version.diffError'));
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  // 古いバージョンを比較元にする
+  const handleCompareSelected = () => {
+    const [a, b] = compareIds
+      .map((id) => versions.find((version) => version.id === id))
+      .filter((version): version is DiagramVersion => Boolean(version))
+      .sort((x, y) => x.versionNumber - y.versionNumber);
+    if (a && b) void openDiff(a.id, b.id);
+  };
+
   // 日時フォーマット
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -76,214 +181,476 @@ export const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({
 
   if (!isOpen) return null;
 
+  const latestId = versions[0]?.id;
+  const visibleVersions = showAuto ? versions : versions.filter((version) => !version.isAuto);
+
   return (
-    <div
-      style={{
-        position: 'fixed',
-        top: 0,
-        left: 0,
-        right: 0,
-        bottom: 0,
-        backgroundColor: 'rgba(0, 0, 0, 0.5)',
-        display: 'flex',
-        alignItems: 'center',
-        justifyContent: 'center',
-        zIndex: 1000,
-      }}
-      onClick={onClose}
-    >
+    <>
       <div
         style={{
-          backgroundColor: 'white',
-          borderRadius: '8px',
-          width: '700px',
-          maxHeight: '80vh',
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
           display: 'flex',
-          flexDirection: 'column',
-          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000,
         }}
-        onClick={(e) => e.stopPropagation()}
+        onClick={onClose}
       >
-        {/* ヘッダー */}
         <div
           style={{
-            padding: '20px',
-            borderBottom: '1px solid #E5E7EB',
+            backgroundColor: 'white',
+            borderRadius: '8px',
+            width: '700px',
+            maxHeight: '80vh',
             display: 'flex',
-            justifyContent: 'space-between',
-            alignItems: 'center',
+            flexDirection: 'column',
+            boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)',
           }}
+          onClick={(e) => e.stopPropagation()}
         >
-          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: 'bold' }}>
-            📜 {t('version.history')}
-          </h2>
-          <button
-            onClick={onClose}
+          {/* ヘッダー */}
+          <div
             style={{
-              background: 'none',
-              border: 'none',
-              fontSize: '24px',
-              cursor: 'pointer',
-              color: '#6B7280',
+              padding: '20px',
+              borderBottom: '1px solid #E5E7EB',
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
             }}
           >
-            ×
-          </button>
-        </div>
-
-        {/* コンテンツ */}
-        <div style={{ padding: '20px', overflowY: 'auto', flex: 1 }}>
-          {loading && <LoadingState />}
+            <h2 style={{ margin: 0, fontSize: '20px', fontWeight: 'bold' }}>
+              📜 {t('version.history')}
+            </h2>
+            <button
+              onClick={onClose}
+              style={{
+                background: 'none',
+                border: 'none',
+                fontSize: '24px',
+                cursor: 'pointer',
+                color: '#6B7280',
+              }}
+            >
+              ×
+            </button>
+          </div>
 
-          {error && <ErrorState message={error} />}
+          {/* コンテンツ */}
+          <div style={{ padding: '20px', overflowY: 'auto', flex: 1 }}>
+            {loading && <LoadingState />}
 
-          {!loading && versions.length === 0 && (
-            <div style={{ textAlign: 'center', color: '#6B7280', padding: '40px' }}>
-              {t('version.noVersions')}
-              <br />
-              {t('version.createFirstVersion')}
-            </div>
-          )}
+            {error && <ErrorState message={error} />}
 
-          {!loading && versions.length > 0 && (
-            <div>
-              {/* タイムライン */}
-              {versions.map((version, index) => (
-                <div
-                  key={version.id}
-                  style={{
-                    display: 'flex',
-                    marginBottom: index < versions.length - 1 ? '24px' : 0,
-                    position: 'relative',
-                  }}
-                >
-                  {/* タイムライン線 */}
-                  {index < versions.length - 1 && (
-                    <div
-                      style={{
-                        position: 'absolute',
-                        left: '19px',
-                        top: '40px',
-                        bottom: '-24px',
-                        width: '2px',
-                        backgroundColor: '#E5E7EB',
-                      }}
-                    />
-                  )}
+            {!loading && versions.length === 0 && (
+              <div style={{ textAlign: 'center', color: '#6B7280', padding: '40px' }}>
+                {t('version.noVersions')}
+                <br />
+                {t('version.createFirstVersion')}
+              </div>
+            )}
 
-                  {/* バージョン番号アイコン */}
-                  <div
+            {!loading && versions.length > 0 && (
+              <div>
+                {versions.some((version) => version.isAuto) && (
+                  <label
                     style={{
-                      width: '40px',
-                      height: '40px',
-                      borderRadius: '50%',
-                      backgroundColor: index === 0 ? '#3B82F6' : '#9CA3AF',
-                      color: 'white',
                       display: 'flex',
                       alignItems: 'center',
-                      justifyContent: 'center',
-                      fontWeight: 'bold',
-                      fontSize: '14px',
-                      flexShrink: 0,
-                      marginRight: '16px',
+                      gap: '6px',
+                      marginBottom: '16px',
+                      fontSize: '13px',
+                      color: '#4B5563',
+                      cursor: 'pointer',
                     }}
                   >
-                    v{version.versionNumber}
-                  </div>
+                    <input type="checkbox" checked={showAuto} onChange={(e) => setShowAuto(e.target.checked)} />
+                    {t('version.showAutoSnapshots')}
+                  </label>
+                )}
 
-                  {/* バージョン情報 */}
+                {/* タイムライン */}
+                {visibleVersions.map((version, index) => (
                   <div
+                    key={version.id}
                     style={{
-                      flex: 1,
-                      backgroundColor: index === 0 ? '#EFF6FF' : '#F9FAFB',
-                      borderRadius: '8px',
-                      padding: '16px',
-                      border: index === 0 ? '2px solid #3B82F6' : '1px solid #E5E7EB',
+                      display: 'flex',
+                      marginBottom: index < visibleVersions.length - 1 ? '24px' : 0,
+                      position: 'relative',
                     }}
                   >
+                    {/* タイムライン線 */}
+                    {index < visibleVersions.length - 1 && (
+                      <div
+                        style={{
+                          position: 'absolute',
+                          left: '19px',
+                          top: '40px',
+                          bottom: '-24px',
+                          width: '2px',
+                          backgroundColor: '#E5E7EB',
+                        }}
+                      />
+                    )}
+
+                    {/* バージョン番号アイコン */}
                     <div
                       style={{
+                        width: '40px',
+                        height: '40px',
+                        borderRadius: '50%',
+                        backgroundColor: version.id === latestId ? '#3B82F6' : '#9CA3AF',
+                        color: 'white',
                         display: 'flex',
-                        justifyContent: 'space-between',
-                        alignItems: 'flex-start',
-                        marginBottom: '8px',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        fontWeight: 'bold',
+                        fontSize: '14px',
+                        flexShrink: 0,
+                        marginRight: '16px',
+                      }}
+                    >
+                      v{version.versionNumber}
+                    </div>
+
+                    {/* バージョン情報 */}
+                    <div
+                      style={{
+                        flex: 1,
+                        backgroundColor: version.id === latestId ? '#EFF6FF' : '#F9FAFB',
+                        borderRadius: '8px',
+                        padding: '16px',
+                        border: version.id === latestId ? '2px solid #3B82F6' : '1px solid #E5E7EB',
                       }}
                     >
-                      <div>
-                        <div style={{ fontWeight: 'bold', fontSize: '16px', marginBottom: '4px' }}>
-                          {version.commitMessage || t('version.noCommitMessage')}
+                      <div
+                        style={{
+                          display: 'flex',
+                          justifyContent: 'space-between',
+                          alignItems: 'flex-start',
+                          marginBottom: '8px',
+                        }}
+                      >
+                        <div>
+                          <div style={{ fontWeight: 'bold', fontSize: '16px', marginBottom: '4px' }}>
+                            {version.commitMessage ||
+                              (version.isAuto ? t('version.autoSnapshot') : t('version.noCommitMessage'))}
+                          </div>
+                          <div style={{ fontSize: '13px', color: '#6B7280' }}>
+                            {formatDate(version.createdAt)}
+                            {version.isAuto && (
+                              <span
+                                title={t('version.autoSnapshotHint')}
+                                style={{
+                                  marginLeft: '8px',
+                                  padding: '2px 8px',
+                                  backgroundColor: '#E5E7EB',
+                                  color: '#4B5563',
+                                  borderRadius: '12px',
+                                  fontSize: '11px',
+                                  fontWeight: 'bold',
+                                }}
+                              >
+                                ⏱ {t('version.auto')}
+                              </span>
+                            )}
+                            {version.branchId && branchNames[version.branchId] && (
+                              <span
+                                style={{
+                                  marginLeft: '8px',
+                                  padding: '2px 8px',
+                                  backgroundColor: '#EDE9FE',
+                                  color: '#6D28D9',
+                                  borderRadius: '12px',
+                                  fontSize: '11px',
+                                  fontWeight: 'bold',
+                                }}
+                              >
+                                🌿 {branchNames[version.branchId]}
+                              </span>
+                            )}
+                            {version.id === latestId && (
+                              <span
+                                style={{
+                                  marginLeft: '8px',
+                                  padding: '2px 8px',
+                                  backgroundColor: '#3B82F6',
+                                  color: 'white',
+                                  borderRadius: '12px',
+                                  fontSize: '11px',
+                                  fontWeight: 'bold',
+                                }}
+                              >
+                                {t('version.latest')}
+                              </span>
+                            )}
+                          </div>
+                          {version.tags && version.tags.length > 0 && (
+                            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginTop: '6px' }}>
+                              {version.tags.map((tag) => (
+                                <span
+                                  key={tag.id}
+                                  title={tag.description ?? undefined}
+                                  style={{
+                                    display: 'inline-flex',
+                                    alignItems: 'center',
+                                    gap: '4px',
+                                    padding: '2px 8px',
+                                    backgroundColor: '#FEF3C7',
+                                    color: '#92400E',
+                                    border: '1px solid #FCD34D',
+                                    borderRadius: '12px',
+                                    fontSize: '11px',
+                                    fontWeight: 'bold',
+                                  }}
+                                >
+                                  🏷 {tag.name}
+                                  {isOwner && (
+                                    <button
+                                      onClick={() => handleDeleteTag(version, tag)}
+                                      title={t('version.tagDelete')}
+                                      style={{
+                                        background: 'none',
+                                        border: 'none',
+                                        padding: 0,
+                                        cursor: 'pointer',
+                                        color: '#B45309',
+                                        fontSize: '12px',
+                                        lineHeight: 1,
+                                      }}
+                                    >
+                                      ×
+                                    </button>
+                                  )}
+                                </span>
+                              ))}
+                            </div>
+                          )}
                         </div>
-                        <div style={{ fontSize: '13px', color: '#6B7280' }}>
-                          {formatDate(version.createdAt)}
-                          {index === 0 && (
-                            <span
+                        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                          <label
+                            style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '13px', color: '#374151' }}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={compareIds.includes(version.id)}
+                              onChange={() => toggleCompare(version.id)}
+                            />
+                            {t('version.compare')}
+                          </label>
+                          <button
+                            onClick={() => openDiff(version.id, CURRENT_VERSION_ID)}
+                            disabled={comparing}
+                            style={{
+                              padding: '6px 12px',
+                              backgroundColor: 'white',
+                              color: '#3B82F6',
+                              border: '1px solid #3B82F6',
+                              borderRadius: '6px',
+                              cursor: comparing ? 'not-allowed' : 'pointer',
+                              fontSize: '13px',
+                              fontWeight: '500',
+                            }}
+                          >
+                            {t('version.compareWithCurrent')}
+                          </button>
+                          {canEdit && (
+                            <button
+                              onClick={() => openTagForm(version.id)}
+                              title={t('version.addTag')}
+                              style={{
+                                padding: '6px 10px',
+                                backgroundColor: 'white',
+                                color: '#B45309',
+                                border: '1px solid #F59E0B',
+                                borderRadius: '6px',
+                                cursor: 'pointer',
+                                fontSize: '13px',
+                                fontWeight: '500',
+                              }}
+                            >
+                              🏷 {t('version.addTag')}
+                            </button>
+                          )}
+                          {canEdit && !isFrozen && (
+                            <button
+                              onClick={() => setPartialRestoreVersion(version)}
+                              title={t('version.partialRestoreHint')}
+                              style={{
+                                padding: '6px 12px',
+                                backgroundColor: 'white',
+                                color: '#059669',
+                                border: '1px solid #10B981',
+                                borderRadius: '6px',
+                                cursor: 'pointer',
+                                fontSize: '13px',
+                                fontWeight: '500',
+                              }}
+                            >
+                              {t('version.partialRestore')}
+                            </button>
+                          )}
+                          {version.id !== latestId && !isFrozen && (
+                            <button
+                              onClick={() => handleRestore(version.id)}
                               style={{
-                                marginLeft: '8px',
-                                padding: '2px 8px',
-                                backgroundColor: '#3B82F6',
+                                padding: '6px 12px',
+                                backgroundColor: '#10B981',
                                 color: 'white',
-                                borderRadius: '12px',
-                                fontSize: '11px',
-                                fontWeight: 'bold',
+                                border: 'none',
+                                borderRadius: '6px',
+                                cursor: 'pointer',
+                                fontSize: '13px',
+                                fontWeight: '500',
                               }}
                             >
-                              {t('version.latest')}
-                            </span>
+                              {t('version.restore')}
+                            </button>
                           )}
                         </div>
                       </div>
-                      <div style={{ display: 'flex', gap: '8px' }}>
-                        {index !== 0 && (
+
+                      {/* タグの追加 */}
+                      {tagVersionId === version.id && (
+                        <form
+                          onSubmit={handleCreateTag}
+                          style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginTop: '8px' }}
+                        >
+                          <input
+                            type="text"
+                            value={tagName}
+                            onChange={(e) => setTagName(e.target.value)}
+                            placeholder={t('version.tagNamePlaceholder')}
+                            maxLength={100}
+                            autoFocus
+                            style={{
+                              flex: '1 1 160px',
+                              padding: '6px 10px',
+                              border: '1px solid #D1D5DB',
+                              borderRadius: '6px',
+                              fontSize: '13px',
+                            }}
+                          />
+                          <input
+                            type="text"
+                            value={tagDescription}
+                            onChange={(e) => setTagDescription(e.target.value)}
+                            placeholder={t('version.tagDescriptionPlaceholder')}
+                            maxLength={500}
+                            style={{
+                              flex: '2 1 200px',
+                              padding: '6px 10px',
+                              border: '1px solid #D1D5DB',
+                              borderRadius: '6px',
+                              fontSize: '13px',
+                            }}
+                          />
                           <button
-                            onClick={() => handleRestore(version.id)}
+                            type="submit"
+                            disabled={tagBusy || !tagName.trim()}
                             style={{
                               padding: '6px 12px',
-                              backgroundColor: '#10B981',
+                              backgroundColor: tagBusy || !tagName.trim() ? '#FCD34D' : '#F59E0B',
                               color: 'white',
                               border: 'none',
                               borderRadius: '6px',
-                              cursor: 'pointer',
+                              cursor: tagBusy || !tagName.trim() ? 'not-allowed' : 'pointer',
                               fontSize: '13px',
                               fontWeight: '500',
                             }}
                           >
-                            {t('version.restore')}
+                            {t('version.addTag')}
                           </button>
-                        )}
-                      </div>
+                          <button
+                            type="button"
+                            onClick={() => setTagVersionId(null)}
+                            style={{
+                              padding: '6px 12px',
+                              backgroundColor: '#F3F4F6',
+                              color: '#374151',
+                              border: 'none',
+                              borderRadius: '6px',
+                              cursor: 'pointer',
+                              fontSize: '13px',
+                            }}
+                          >
+                            {t('common.cancel')}
+                          </button>
+                          <div style={{ width: '100%', fontSize: '12px', color: '#6B7280' }}>{t('version.tagHint')}</div>
+                        </form>
+                      )}
                     </div>
                   </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
+                ))}
+              </div>
+            )}
+          </div>
 
-        {/* フッター */}
-        <div
-          style={{
-            padding: '16px 20px',
-            borderTop: '1px solid #E5E7EB',
-            display: 'flex',
-            justifyContent: 'flex-end',
-          }}
-        >
-          <button
-            onClick={onClose}
+          {/* フッター */}
+          <div
             style={{
-              padding: '8px 16px',
-              backgroundColor: '#F3F4F6',
-              color: '#374151',
-              border: 'none',
-              borderRadius: '6px',
-              cursor: 'pointer',
-              fontWeight: '500',
+              padding: '16px 20px',
+              borderTop: '1px solid #E5E7EB',
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              gap: '8px',
             }}
           >
-            {t('common.close')}
-          </button>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <button
+                onClick={handleCompareSelected}
+                disabled={compareIds.length !== 2 || comparing}
+                style={{
+                  padding: '8px 16px',
+                  backgroundColor: compareIds.length === 2 && !comparing ? '#3B82F6' : '#93C5FD',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '6px',
+                  cursor: compareIds.length === 2 && !comparing ? 'pointer' : 'not-allowed',
+                  fontWeight: '500',
+                }}
+              >
+                {t('version.compareSelected')}
+              </button>
+              <span style={{ fontSize: '12px', color: '#6B7280' }}>{t('version.compareHint')}</span>
+            </div>
+            <button
+              onClick={onClose}
+              style={{
+                padding: '8px 16px',
+                backgroundColor: '#F3F4F6',
+                color: '#374151',
+                border: 'none',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontWeight: '500',
+              }}
+            >
+              {t('common.close')}
+            </button>
+          </div>
         </div>
       </div>
-    </div>
+
+      {/* ノードを選んで戻す */}
+      {partialRestoreVersion && (
+        <PartialRestoreModal
+          projectId={projectId}
+          diagramId={diagramId}
+          version={partialRestoreVersion}
+          onClose={() => setPartialRestoreVersion(null)}
+          onRestored={(count) => {
+            setPartialRestoreVersion(null);
+            onClose();
+            alert(t('version.partialRestoreDone', { count, version: partialRestoreVersion.versionNumber }));
+          }}
+        />
+      )}
+    </>
   );
 };
@@ -1,18 +1,32 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useDiagramStore } from '../../stores/diagramStore';
+import { useDiagramFreezeStore } from '../../stores/diagramFreezeStore';
+import { useViewModeStore, type EditorViewMode } from '../../stores/viewModeStore';
+import { useValidationSettingsStore } from '../../stores/validationSettingsStore';
+import { useLiveValidationStore } from '../../stores/liveValidationStore';
+import { VALIDATION_COLORS } from '../../utils/validationColors';
 import type { User } from '../../services/api';
-import { validateDiagram, type ValidationResult } from '../../utils/validation';
+import { DEFAULT_NODE_SIZE, NODE_COLORS } from '../../types/diagram';
+import { validateDiagram } from '../../utils/validation';
+import { exportSacmXmi, importSacmXmi } from '../../utils/sacm';
+import { exportTextDiagram, parseTextDiagram, plainTextToHtml, type TextExportFormat } from '../../utils/textFormats';
+import { buildAssuranceReport, createReportDocx, renderReportHtml } from '../../utils/assuranceReport';
 import { ValidationModal } from '../Canvas/ValidationModal';
-import { CommitModal } from '../Canvas/CommitModal';
+import { CommitModal, type CommitTarget } from '../Canvas/CommitModal';
+import { ValidationGateError, formatValidationFindings } from '../../api/validation';
 import { VersionHistoryModal } from '../Canvas/VersionHistoryModal';
+import { BranchesModal } from '../Canvas/BranchesModal';
+import { SaveConflictModal } from '../Canvas/SaveConflictModal';
 import { LanguageSwitcher } from './LanguageSwitcher';
+import { NotificationBell } from './NotificationBell';
 
 interface HeaderProps {
   user?: User | null;
   onLogout?: () => void;
   onBackToProjects?: () => void;
   onOpenSurveyManager?: () => void;
+  onOpenProject?: (projectId: string) => void;
 }
 
 export const Header: React.FC<HeaderProps> = ({
@@ -20,13 +34,15 @@ export const Header: React.FC<HeaderProps> = ({
   onLogout,
   onBackToProjects,
   onOpenSurveyManager,
+  onOpenProject,
 }) => {
   const { t } = useTranslation();
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [showModuleList, setShowModuleList] = useState(false);
-  const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
+  const [showValidation, setShowValidation] = useState(false);
   const [showCommitModal, setShowCommitModal] = useState(false);
   const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [showBranches, setShowBranches] = useState(false);
 
   const {
     title,
@@ -59,15 +75,29 @@ export const Header: React.FC<HeaderProps> = ({
     setShowPatternLibrary,
     commitVersion,
     restoreVersion,
+    checkoutBranch,
+    mergeBranch,
     currentProjectId,
     currentDiagramDbId,
     projectRole,
     remoteOutOfSync,
     hasLocalChanges,
     reloadDiagramFromDB,
+    saveConflict,
+    resolveSaveConflict,
+    setDiagramFrozen,
+    comments,
+    addNodeDirect,
+    addLinkDirect,
+    generateLabel,
   } = useDiagramStore();
+  const { freeze } = useDiagramFreezeStore();
+  const { viewMode, setViewMode } = useViewModeStore();
+  const { overrides: validationOverrides } = useValidationSettingsStore();
+  const { result: liveValidation } = useLiveValidationStore();
   const { viewport, gridSnapEnabled } = canvasState;
-  const canEdit = projectRole !== 'viewer';
+  const canEdit = projectRole !== 'viewer' && !freeze;
+  const readOnlyMessage = freeze ? 'このダイアグラムは凍結されています' : 'このプロジェクトは閲覧専用です';
 
   // パンくずリスト生成
   const getBreadcrumbs = () => {
@@ -211,21 +241,147 @@ export const Header: React.FC<HeaderProps> = ({
     setShowExportMenu(false);
   };
 
+  const handleExportSacm = () => {
+    const xml = exportSacmXmi(exportProjectData());
+    const blob = new Blob([xml], { type: 'application/xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${title || 'gsn-project'}-sacm.xmi`;
+    a.click();
+    URL.revokeObjectURL(url);
+    setShowExportMenu(false);
+  };
+
+  const TEXT_EXPORT_EXTENSIONS: Record<TextExportFormat, string> = { mermaid: 'mmd', plantuml: 'puml', dot: 'dot' };
+
+  const handleExportText = (format: TextExportFormat) => {
+    const text = exportTextDiagram(exportData(), format);
+    const blob = new Blob([text], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${title || 'gsn-diagram'}.${TEXT_EXPORT_EXTENSIONS[format]}`;
+    a.click();
+    URL.revokeObjectURL(url);
+    setShowExportMenu(false);
+  };
+
+  // インデント形式・DOT のノードを現在のダイアグラムに追加し、自動レイアウトで並べる
+  const importTextDiagram = (text: string, fileName: string) => {
+    const parsed = parseTextDiagram(text, fileName);
+    if (parsed.nodes.length === 0) {
+      alert('読み込めるノードがありません');
+      return;
+    }
+    if (!confirm(`${parsed.nodes.length}個のノードを現在のダイアグラムに追加しますか？`)) {
+      return;
+    }
+
+    const idMap = new Map<string, string>();
+    parsed.nodes.forEach((item, index) => {
+      const id = `node_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 5)}`;
+      idMap.set(item.key, id);
+      addNodeDirect({
+        id,
+        type: item.type,
+        position: { x: 0, y: 0 },
+        size: { ...DEFAULT_NODE_SIZE },
+        content: plainTextToHtml(item.content),
+        label: generateLabel(item.type),
+        style: {
+          fillColor: NODE_COLORS[item.type],
+          borderColor: '#374151',
+          borderWidth: 2,
+        },
+      });
+    });
+    parsed.links.forEach((link, index) => {
+      const source = idMap.get(link.source);
+      const target = idMap.get(link.target);
+      if (!source || !target) return;
+      addLinkDirect({
+        id: `link_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 5)}`,
+        source,
+        target,
+        type: link.type,
+      });
+    });
+    applyAutoLayout();
+  };
+
+  const handleExportReport = async (format: 'docx' | 'pdf') => {
+    setShowExportMenu(false);
+    const project = exportProjectData();
+    const report = buildAssuranceReport(project, comments, validationOverrides);
+    if (report.sections.length === 0) {
+      alert('報告書に載せるゴールがありません');
+      return;
+    }
+
+    if (format === 'pdf') {
+      // 印刷用のページを開き、ブラウザの印刷から PDF に保存する
+      const printWindow = window.open('', '_blank');
+      if (!printWindow) {
+        alert('ポップアップがブロックされました。ブラウザの設定で許可してください');
+        return;
+      }
+      printWindow.document.write(renderReportHtml(report, project));
+      printWindow.document.close();
+      return;
+    }
+
+    try {
+      const blob = await createReportDocx(report, project);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${title || 'gsn-project'}-report.docx`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export report:', error);
+      alert('報告書の作成に失敗しました');
+    }
+  };
+
   const handleImport = () => {
     if (!canEdit) {
-      alert('このプロジェクトは閲覧専用です');
+      alert(readOnlyMessage);
       return;
     }
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.json';
+    input.accept = '.json,.xmi,.xml,.txt,.md,.dot,.gv';
     input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
         const reader = new FileReader();
         reader.onload = (event) => {
+          const text = event.target?.result as string;
+
+          // インデントしたテキスト・DOT はノードを現在のダイアグラムに追加する
+          if (/\.(txt|md|dot|gv)$/i.test(file.name)) {
+            importTextDiagram(text, file.name);
+            return;
+          }
+
+          // SACM（XMI）は全モジュールを含むプロジェクトとして読み込む
+          if (/\.(xmi|xml)$/i.test(file.name) || text.trimStart().startsWith('<')) {
+            try {
+              const data = importSacmXmi(text);
+              if (confirm('SACM のアシュアランスケースをインポートしますか？現在のデータは上書きされます。')) {
+                importProjectData(data);
+              }
+            } catch (error) {
+              console.error('SACM import error:', error);
+              alert(`SACMファイルの読み込みに失敗しました${error instanceof Error ? `: ${error.message}` : ''}`);
+            }
+            return;
+          }
+
           try {
-            const data = JSON.parse(event.target?.result as string);
+            const data = JSON.parse(text);
 
             // プロジェクトデータかダイアグラムデータかを判定
             if (data.modules && data.labelCounters) {
@@ -249,7 +405,7 @@ export const Header: React.FC<HeaderProps> = ({
 
   const handleReset = () => {
     if (!canEdit) {
-      alert('このプロジェクトは閲覧専用です');
+      alert(readOnlyMessage);
       return;
     }
     if (confirm('すべてのデータをリセットしますか？')) {
@@ -257,26 +413,60 @@ export const Header: React.FC<HeaderProps> = ({
     }
   };
 
+  // 検証結果はモーダルを開いている間、ルールの設定や編集に合わせて更新する
+  const validationResult = useMemo(
+    () => (showValidation ? validateDiagram(nodes, links, validationOverrides) : null),
+    [showValidation, nodes, links, validationOverrides]
+  );
+
   const handleValidate = () => {
-    const result = validateDiagram(nodes, links);
-    setValidationResult(result);
+    setShowValidation(true);
   };
 
-  const handleCommit = async (message: string) => {
+  const handleCommit = async (message: string, target: CommitTarget) => {
     try {
       if (!canEdit) {
-        alert('このプロジェクトは閲覧専用です');
+        alert(readOnlyMessage);
         return;
       }
-      await commitVersion(message);
+      await commitVersion(message, target);
       setShowCommitModal(false);
       alert('コミットが完了しました');
     } catch (error) {
+      if (error instanceof ValidationGateError) {
+        const findings = formatValidationFindings(error.validation.errors);
+        if (!error.overrideAllowed) {
+          alert(`${error.message}\n\n${findings}`);
+          return;
+        }
+        // エラーを承知でコミットする理由を入力すれば、理由を付けて送り直す
+        const reason = prompt(`${error.message}\n\n${findings}\n\nコミットする理由:`);
+        if (reason?.trim()) {
+          await handleCommit(message, { ...target, validationOverride: reason.trim() });
+        }
+        return;
+      }
       console.error('Commit error:', error);
       alert('コミットに失敗しました');
     }
   };
 
+  const handleToggleFreeze = async () => {
+    try {
+      if (freeze) {
+        if (!confirm('ダイアグラムの凍結を解除しますか？解除すると再び編集できるようになります。')) return;
+        await setDiagramFrozen(false);
+        return;
+      }
+      const reason = prompt('凍結の理由（提出先など、任意）を入力してください:');
+      if (reason === null) return;
+      await setDiagramFrozen(true, reason.trim() || undefined);
+    } catch (error) {
+      console.error('Freeze error:', error);
+      alert(freeze ? '凍結の解除に失敗しました' : '凍結に失敗しました');
+    }
+  };
+
   const handleRestore = async (versionId: string) => {
     try {
       await restoreVersion(versionId);
@@ -546,6 +736,35 @@ export const Header: React.FC<HeaderProps> = ({
           ↷
         </button>
 
+        {/* 表示切り替え（キャンバス・アウトライン・表） */}
+        <div style={{ display: 'flex', border: '1px solid #D1D5DB', borderRadius: '6px', overflow: 'hidden' }}>
+          {([
+            ['canvas', '🗺', t('header.viewCanvas')],
+            ['outline', '☰', t('header.viewOutline')],
+            ['table', '▦', t('header.viewTable')],
+          ] as Array<[EditorViewMode, string, string]>).map(([mode, icon, label]) => (
+            <button
+              key={mode}
+              onClick={() => setViewMode(mode)}
+              title={label}
+              style={{
+                padding: '6px 10px',
+                fontSize: '13px',
+                border: 'none',
+                cursor: 'pointer',
+                backgroundColor: viewMode === mode ? '#EFF6FF' : '#FFFFFF',
+                color: viewMode === mode ? '#1D4ED8' : '#374151',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px',
+              }}
+            >
+              <span>{icon}</span>
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+
         <button
           onClick={() => onOpenSurveyManager?.()}
           disabled={!currentProjectId}
@@ -644,6 +863,68 @@ export const Header: React.FC<HeaderProps> = ({
           <span>{t('header.history')}</span>
         </button>
 
+        {/* ブランチボタン */}
+        <button
+          onClick={() => setShowBranches(true)}
+          disabled={!currentProjectId || !currentDiagramDbId}
+          title={t('header.branches')}
+          style={{
+            padding: '6px 12px',
+            fontSize: '13px',
+            border: '1px solid #D1D5DB',
+            borderRadius: '6px',
+            cursor: currentProjectId && currentDiagramDbId ? 'pointer' : 'not-allowed',
+            backgroundColor: '#FFFFFF',
+            color: currentProjectId && currentDiagramDbId ? '#374151' : '#D1D5DB',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px',
+            transition: 'all 0.2s',
+          }}
+          onMouseEnter={(e) => {
+            if (currentProjectId && currentDiagramDbId) {
+              e.currentTarget.style.backgroundColor = '#F3F4F6';
+              e.currentTarget.style.borderColor = '#9CA3AF';
+            }
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = '#FFFFFF';
+            e.currentTarget.style.borderColor = '#D1D5DB';
+          }}
+        >
+          <span>🌿</span>
+          <span>{t('header.branches')}</span>
+        </button>
+
+        {/* 凍結ボタン（凍結・解除はオーナーのみ。凍結中は全員に表示） */}
+        {currentProjectId && currentDiagramDbId && (projectRole === 'owner' || freeze) && (
+          <button
+            onClick={handleToggleFreeze}
+            disabled={projectRole !== 'owner'}
+            title={
+              freeze
+                ? `${t('header.frozen')}${freeze.frozenReason ? `: ${freeze.frozenReason}` : ''}`
+                : t('header.freeze')
+            }
+            style={{
+              padding: '6px 12px',
+              fontSize: '13px',
+              border: freeze ? '1px solid #F59E0B' : '1px solid #D1D5DB',
+              borderRadius: '6px',
+              cursor: projectRole === 'owner' ? 'pointer' : 'default',
+              backgroundColor: freeze ? '#FFFBEB' : '#FFFFFF',
+              color: freeze ? '#B45309' : '#374151',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              transition: 'all 0.2s',
+            }}
+          >
+            <span>{freeze ? '🔒' : '🔓'}</span>
+            <span>{freeze ? (projectRole === 'owner' ? t('header.unfreeze') : t('header.frozen')) : t('header.freeze')}</span>
+          </button>
+        )}
+
         {/* グリッドスナップトグル */}
         <button
           onClick={toggleGridSnap}
@@ -777,6 +1058,34 @@ export const Header: React.FC<HeaderProps> = ({
           ✓
         </button>
 
+        {/* 自動検証の件数（クリックで検証結果を開く） */}
+        {liveValidation && (liveValidation.errors.length > 0 || liveValidation.warnings.length > 0) && (
+          <button
+            onClick={handleValidate}
+            title={`GSN検証: エラー ${liveValidation.errors.length}件・警告 ${liveValidation.warnings.length}件`}
+            style={{
+              height: '30px',
+              padding: '0 8px',
+              fontSize: '12px',
+              fontWeight: 600,
+              border: '1px solid #D1D5DB',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              backgroundColor: '#FFFFFF',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+            }}
+          >
+            {liveValidation.errors.length > 0 && (
+              <span style={{ color: VALIDATION_COLORS.error }}>✕ {liveValidation.errors.length}</span>
+            )}
+            {liveValidation.warnings.length > 0 && (
+              <span style={{ color: VALIDATION_COLORS.warning }}>⚠ {liveValidation.warnings.length}</span>
+            )}
+          </button>
+        )}
+
         {/* フィット・リセットボタン */}
         <button
           onClick={fitToScreen}
@@ -955,7 +1264,11 @@ export const Header: React.FC<HeaderProps> = ({
               alignItems: 'center',
               gap: '6px',
             }}
-            title={hasLocalChanges ? '未保存の変更があるため自動同期を停止しています' : '最新状態に再読み込み'}
+            title={
+              hasLocalChanges && !isWebSocketConnected
+                ? 'リアルタイム同期に接続できず、未保存の変更があるため自動同期を停止しています'
+                : '最新状態に再読み込み'
+            }
           >
             <span>{t('common.syncDiff')}</span>
             <span>{t('common.reload')}</span>
@@ -965,6 +1278,7 @@ export const Header: React.FC<HeaderProps> = ({
         {/* ユーザー情報 */}
         {user && onLogout && (
           <>
+            <NotificationBell onOpenProject={onOpenProject} onOpenSurveyManager={onOpenSurveyManager} />
             {roleLabel && (
               <span style={{
                 fontSize: '10px',
@@ -1100,6 +1414,114 @@ export const Header: React.FC<HeaderProps> = ({
               >
                 プロジェクト全体（全モジュール）
               </button>
+              <button
+                onClick={handleExportSacm}
+                style={{
+                  width: '100%',
+                  padding: '12px 16px',
+                  border: 'none',
+                  backgroundColor: 'transparent',
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  color: '#374151',
+                  borderBottom: '1px solid #E5E7EB',
+                }}
+                onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = '#F3F4F6')}
+                onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = 'transparent')}
+              >
+                SACM XMI（全モジュール）
+              </button>
+              <button
+                onClick={() => handleExportText('mermaid')}
+                style={{
+                  width: '100%',
+                  padding: '12px 16px',
+                  border: 'none',
+                  backgroundColor: 'transparent',
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  color: '#374151',
+                  borderBottom: '1px solid #E5E7EB',
+                }}
+                onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = '#F3F4F6')}
+                onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = 'transparent')}
+              >
+                Mermaid（現在のダイアグラム）
+              </button>
+              <button
+                onClick={() => handleExportText('plantuml')}
+                style={{
+                  width: '100%',
+                  padding: '12px 16px',
+                  border: 'none',
+                  backgroundColor: 'transparent',
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  color: '#374151',
+                  borderBottom: '1px solid #E5E7EB',
+                }}
+                onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = '#F3F4F6')}
+                onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = 'transparent')}
+              >
+                PlantUML（現在のダイアグラム）
+              </button>
+              <button
+                onClick={() => handleExportText('dot')}
+                style={{
+                  width: '100%',
+                  padding: '12px 16px',
+                  border: 'none',
+                  backgroundColor: 'transparent',
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  color: '#374151',
+                  borderBottom: '1px solid #E5E7EB',
+                }}
+                onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = '#F3F4F6')}
+                onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = 'transparent')}
+              >
+                Graphviz DOT（現在のダイアグラム）
+              </button>
+              <button
+                onClick={() => handleExportReport('docx')}
+                style={{
+                  width: '100%',
+                  padding: '12px 16px',
+                  border: 'none',
+                  backgroundColor: 'transparent',
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  color: '#374151',
+                  borderBottom: '1px solid #E5E7EB',
+                }}
+                onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = '#F3F4F6')}
+                onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = 'transparent')}
+              >
+                報告書（Word）
+              </button>
+              <button
+                onClick={() => handleExportReport('pdf')}
+                style={{
+                  width: '100%',
+                  padding: '12px 16px',
+                  border: 'none',
+                  backgroundColor: 'transparent',
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  color: '#374151',
+                  borderBottom: '1px solid #E5E7EB',
+                }}
+                onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = '#F3F4F6')}
+                onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = 'transparent')}
+              >
+                報告書（PDF・印刷）
+              </button>
               <button
                 onClick={() => {
                   exportAsImage('png');
@@ -1204,7 +1626,8 @@ export const Header: React.FC<HeaderProps> = ({
       {validationResult && (
         <ValidationModal
           result={validationResult}
-          onClose={() => setValidationResult(null)}
+          canApplyFixes={canEdit}
+          onClose={() => setShowValidation(false)}
         />
       )}
 
@@ -1213,6 +1636,8 @@ export const Header: React.FC<HeaderProps> = ({
         isOpen={showCommitModal}
         onClose={() => setShowCommitModal(false)}
         onCommit={handleCommit}
+        projectId={currentProjectId || ''}
+        diagramId={currentDiagramDbId || ''}
       />
 
       {/* バージョン履歴モーダル */}
@@ -1222,7 +1647,31 @@ export const Header: React.FC<HeaderProps> = ({
         projectId={currentProjectId || ''}
         diagramId={currentDiagramDbId || ''}
         onRestore={handleRestore}
+        canEdit={projectRole !== 'viewer'}
+        isOwner={projectRole === 'owner'}
+        isFrozen={!!freeze}
       />
+
+      {/* ブランチモーダル */}
+      <BranchesModal
+        isOpen={showBranches}
+        onClose={() => setShowBranches(false)}
+        projectId={currentProjectId || ''}
+        diagramId={currentDiagramDbId || ''}
+        canEdit={canEdit}
+        isOwner={projectRole === 'owner'}
+        onCheckout={checkoutBranch}
+        onMerge={mergeBranch}
+      />
+
+      {/* 保存競合モーダル */}
+      {saveConflict && (
+        <SaveConflictModal
+          serverVersion={saveConflict.serverDiagram.version}
+          serverUpdatedAt={saveConflict.serverDiagram.updatedAt}
+          onResolve={(choice) => resolveSaveConflict(choice)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNotificationStore } from '../../stores/notificationStore';
+import { useDiagramStore } from '../../stores/diagramStore';
+import type { AppNotification } from '../../api/notifications';
+
+interface NotificationBellProps {
+  onOpenProject?: (projectId: string) => void;
+  onOpenSurveyManager?: () => void;
+}
+
+export const NotificationBell: React.FC<NotificationBellProps> = ({ onOpenProject, onOpenSurveyManager }) => {
+  const { t, i18n } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const { notifications, unreadCount, isLoading, loadNotifications, markAsRead, markAllAsRead } =
+    useNotificationStore();
+  const {
+    currentProjectId,
+    currentDiagramDbId,
+    currentDiagramId,
+    nodes,
+    modules,
+    switchToDiagram,
+    clearSelection,
+    selectNode,
+    setViewport,
+    canvasState,
+  } = useDiagramStore();
+
+  useEffect(() => {
+    void loadNotifications();
+  }, [loadNotifications]);
+
+  // パネルの外側をクリックしたら閉じる
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = () => setIsOpen(false);
+    document.addEventListener('click', handleClick);
+    return () => document.removeEventListener('click', handleClick);
+  }, [isOpen]);
+
+  const formatDate = (dateString: string) => {
+    const locale = i18n.language === 'ja' ? 'ja-JP' : 'en-US';
+    return new Date(dateString).toLocaleString(locale, {
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getRoleLabel = (role: string | null | undefined) =>
+    role === 'owner' || role === 'editor' || role === 'viewer' ? t(`projects.${role}`) : role || '';
+
+  const getMessage = (notification: AppNotification) => {
+    const { data } = notification;
+    switch (notification.type) {
+      case 'mention':
+        return t('notifications.mention', { actor: notification.actorName || t('notifications.someone') });
+      case 'survey_response':
+        return t('notifications.surveyResponse', { survey: data.surveyTitle || '' });
+      case 'role_changed':
+        return data.previousRole
+          ? t('notifications.roleChanged', { role: getRoleLabel(data.role) })
+          : t('notifications.roleAssigned', { role: getRoleLabel(data.role) });
+      default:
+        return notification.type;
+    }
+  };
+
+  // メンションされたノードを選択し、表示位置を合わせる
+  const focusNode = (nodeId: string) => {
+    const moduleId = nodes.some((node) => node.id === nodeId)
+      ? currentDiagramId
+      : Object.keys(modules).find((id) => modules[id]?.nodes?.some((node) => node.id === nodeId));
+    if (!moduleId) return;
+
+    if (moduleId !== currentDiagramId) {
+      switchToDiagram(moduleId);
+    }
+    const target = useDiagramStore.getState().nodes.find((node) => node.id === nodeId);
+    if (!target) return;
+
+    clearSelection();
+    selectNode(nodeId);
+    setViewport({
+      ...canvasState.viewport,
+      offsetX: -target.position.x + 400,
+      offsetY: -target.position.y + 300,
+    });
+  };
+
+  const handleClickNotification = (notification: AppNotification) => {
+    void markAsRead(notification.id);
+    setIsOpen(false);
+
+    const { projectId, data } = notification;
+    if (!projectId) return;
+    if (projectId !== currentProjectId) {
+      onOpenProject?.(projectId);
+      return;
+    }
+
+    if (notification.type === 'mention' && data.nodeId && data.diagramId === currentDiagramDbId) {
+      focusNode(data.nodeId);
+    } else if (notification.type === 'survey_response') {
+      onOpenSurveyManager?.();
+    }
+  };
+
+  const getIcon = (type: AppNotification['type']) => {
+    switch (type) {
+      case 'mention':
+        return '💬';
+      case 'survey_response':
+        return '📋';
+      case 'role_changed':
+        return '👤';
+      default:
+        return '🔔';
+    }
+  };
+
+  return (
+    <div style={{ position: 'relative' }} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => {
+          if (!isOpen) void loadNotifications();
+          setIsOpen(!isOpen);
+        }}
+        title={t('notifications.open')}
+        style={{
+          position: 'relative',
+          padding: '4px 8px',
+          fontSize: '14px',
+          border: '1px solid #D1D5DB',
+          borderRadius: '6px',
+          cursor: 'pointer',
+          backgroundColor: isOpen ? '#F3F4F6' : '#FFFFFF',
+          lineHeight: 1,
+        }}
+      >
+        🔔
+        {unreadCount > 0 && (
+          <span
+            style={{
+              position: 'absolute',
+              top: '-6px',
+              right: '-6px',
+              minWidth: '16px',
+              height: '16px',
+              padding: '0 4px',
+              borderRadius: '8px',
+              backgroundColor: '#EF4444',
+              color: '#FFFFFF',
+              fontSize: '10px',
+              fontWeight: '700',
+              lineHeight: '16px',
+              textAlign: 'center',
+              boxSizing: 'border-box',
+            }}
+          >
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '100%',
+            right: 0,
+            marginTop: '4px',
+            width: '320px',
+            maxHeight: '420px',
+            display: 'flex',
+            flexDirection: 'column',
+            backgroundColor: '#FFFFFF',
+            border: '1px solid #E5E7EB',
+            borderRadius: '8px',
+            boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)',
+            zIndex: 1000,
+          }}
+        >
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              padding: '10px 12px',
+              borderBottom: '1px solid #E5E7EB',
+            }}
+          >
+            <span style={{ fontSize: '13px', fontWeight: '600', color: '#111827' }}>
+              {t('notifications.title')}
+            </span>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => void markAllAsRead()}
+                style={{
+                  padding: 0,
+                  border: 'none',
+                  backgroundColor: 'transparent',
+                  color: '#2563EB',
+                  fontSize: '11px',
+                  cursor: 'pointer',
+                }}
+              >
+                {t('notifications.markAllRead')}
+              </button>
+            )}
+          </div>
+
+          <div style={{ overflowY: 'auto' }}>
+            {notifications.length === 0 ? (
+              <div style={{ padding: '24px 12px', textAlign: 'center', fontSize: '12px', color: '#9CA3AF' }}>
+                {isLoading ? t('notifications.loading') : t('notifications.empty')}
+              </div>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleClickNotification(notification)}
+                  style={{
+                    display: 'flex',
+                    gap: '8px',
+                    width: '100%',
+                    padding: '10px 12px',
+                    border: 'none',
+                    borderBottom: '1px solid #F3F4F6',
+                    backgroundColor: notification.readAt ? '#FFFFFF' : '#EFF6FF',
+                    textAlign: 'left',
+                    cursor: 'pointer',
+                  }}
+                >
+                  <span style={{ fontSize: '14px' }}>{getIcon(notification.type)}</span>
+                  <span style={{ flex: 1, minWidth: 0 }}>
+                    <span
+                      style={{
+                        display: 'block',
+                        fontSize: '12px',
+                        color: '#111827',
+                        fontWeight: notification.readAt ? '400' : '600',
+                      }}
+                    >
+                      {getMessage(notification)}
+                    </span>
+                    {notification.type === 'mention' && notification.data.excerpt && (
+                      <span
+                        style={{
+                          display: 'block',
+                          marginTop: '2px',
+                          fontSize: '11px',
+                          color: '#4B5563',
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                          whiteSpace: 'nowrap',
+                        }}
+                      >
+                        {notification.data.excerpt}
+                      </span>
+                    )}
+                    <span style={{ display: 'block', marginTop: '2px', fontSize: '10px', color: '#9CA3AF' }}>
+                      {notification.projectTitle ? `${notification.projectTitle} · ` : ''}
+                      {formatDate(notification.createdAt)}
+                    </span>
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,303 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { activityApi, type ProjectActivity as Activity } from '../../api/activity';
+import { projectMembersApi, type User } from '../../api/projectMembers';
+import { LoadingState } from '../Status/LoadingState';
+import { ErrorState } from '../Status/ErrorState';
+
+interface ProjectActivityProps {
+  projectId: string;
+  onClose: () => void;
+}
+
+// 操作の絞り込みはグループ単位で行う
+const ACTION_GROUPS: Record<string, string[]> = {
+  diagram: ['diagram_created', 'diagram_updated', 'diagram_deleted', 'freeze_diagram', 'unfreeze_diagram'],
+  version: [
+    'create_version',
+    'restore_version',
+    'delete_version',
+    'create_branch',
+    'merge_branch',
+    'delete_branch',
+    'create_version_tag',
+    'delete_version_tag',
+  ],
+  member: ['invite_member', 'update_member_role', 'remove_member'],
+  survey: ['publish_survey', 'close_survey'],
+  ai: ['apply_ai_ops'],
+};
+
+const ACTION_ICONS: Record<string, string> = {
+  diagram: '📊',
+  version: '🏷️',
+  member: '👥',
+  survey: '📋',
+  ai: '🤖',
+};
+
+const getActionGroup = (action: string) =>
+  Object.keys(ACTION_GROUPS).find((group) => ACTION_GROUPS[group].includes(action));
+
+const getUserName = (user: User) =>
+  user.firstName || user.lastName ? `${user.lastName || ''} ${user.firstName || ''}`.trim() : user.email;
+
+// 日付入力（YYYY-MM-DD）をその日の始まり・終わりの日時に変換する
+const toRangeBoundary = (date: string, endOfDay: boolean) => {
+  if (!date) return undefined;
+  const value = new Date(`${date}T00:00:00`);
+  if (endOfDay) value.setHours(23, 59, 59, 999);
+  return value.toISOString();
+};
+
+const ProjectActivity: React.FC<ProjectActivityProps> = ({ projectId, onClose }) => {
+  const { t, i18n } = useTranslation();
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters
+  const [userFilter, setUserFilter] = useState('');
+  const [groupFilter, setGroupFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const buildQuery = useCallback(
+    (cursor?: string) => ({
+      userId: userFilter || undefined,
+      actions: groupFilter ? ACTION_GROUPS[groupFilter] : undefined,
+      from: toRangeBoundary(fromDate, false),
+      to: toRangeBoundary(toDate, true),
+      cursor,
+    }),
+    [userFilter, groupFilter, fromDate, toDate]
+  );
+
+  const loadActivities = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const page = await activityApi.getAll(projectId, buildQuery());
+      setActivities(page.activities);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('activity.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, buildQuery, t]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    try {
+      setLoadingMore(true);
+      setError(null);
+      const page = await activityApi.getAll(projectId, buildQuery(nextCursor));
+      setActivities((prev) => [...prev, ...page.activities]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('activity.loadError'));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    loadActivities();
+  }, [loadActivities]);
+
+  // ユーザーの絞り込み候補（オーナーとメンバー）
+  useEffect(() => {
+    projectMembersApi
+      .getMembers(projectId)
+      .then(({ owner, members }) => setUsers([owner, ...members.map((member) => member.user)].filter(Boolean)))
+      .catch((err) => console.error('Failed to load project members:', err));
+  }, [projectId]);
+
+  const getRoleName = (role: unknown) =>
+    role === 'owner' || role === 'editor' || role === 'viewer' ? t(`projects.${role}`) : String(role ?? '');
+
+  const describe = (activity: Activity) => {
+    const { data } = activity;
+    const opCount = typeof data.opCount === 'number' ? data.opCount : 0;
+    const values = {
+      title: data.title ?? data.diagramTitle ?? data.surveyTitle ?? '',
+      versionNumber: data.versionNumber ?? '',
+      restoredFromVersion: data.restoredFromVersion ?? '',
+      name: data.invitedUserName ?? data.invitedUserEmail ?? data.memberName ?? data.removedUserName ?? '',
+      role: getRoleName(data.role ?? data.newRole),
+      count: opCount,
+      branch: data.branchName ?? '',
+      targetBranch: data.targetBranchName ?? '',
+    };
+    const key = `activity.actions.${activity.action}`;
+    return i18n.exists(key) ? t(key, values) : activity.action;
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleString(i18n.language === 'ja' ? 'ja-JP' : 'en-US', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const hasFilters = Boolean(userFilter || groupFilter || fromDate || toDate);
+  const inputClassName =
+    'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[80vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-5 border-b border-gray-200 flex items-center justify-between bg-gradient-to-r from-blue-50 to-white">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{t('activity.title')}</h2>
+            <p className="text-sm text-gray-500 mt-1">{t('activity.description')}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full p-2 transition-all"
+            aria-label={t('common.close')}
+          >
+            <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="px-6 py-3 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center gap-2">
+          <select value={userFilter} onChange={(e) => setUserFilter(e.target.value)} className={inputClassName}>
+            <option value="">{t('activity.allUsers')}</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {getUserName(user)}
+              </option>
+            ))}
+          </select>
+          <select value={groupFilter} onChange={(e) => setGroupFilter(e.target.value)} className={inputClassName}>
+            <option value="">{t('activity.allActions')}</option>
+            {Object.keys(ACTION_GROUPS).map((group) => (
+              <option key={group} value={group}>
+                {t(`activity.groups.${group}`)}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={fromDate}
+            max={toDate || undefined}
+            onChange={(e) => setFromDate(e.target.value)}
+            className={inputClassName}
+            aria-label={t('activity.from')}
+            title={t('activity.from')}
+          />
+          <span className="text-gray-400">〜</span>
+          <input
+            type="date"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) => setToDate(e.target.value)}
+            className={inputClassName}
+            aria-label={t('activity.to')}
+            title={t('activity.to')}
+          />
+          {hasFilters && (
+            <button
+              onClick={() => {
+                setUserFilter('');
+                setGroupFilter('');
+                setFromDate('');
+                setToDate('');
+              }}
+              className="px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
+            >
+              {t('activity.clearFilters')}
+            </button>
+          )}
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {error && <ErrorState message={error} />}
+
+          {loading && <LoadingState />}
+
+          {!loading && activities.length === 0 && !error && (
+            <p className="py-12 text-center text-gray-500">{t('activity.empty')}</p>
+          )}
+
+          {/* Timeline */}
+          {!loading && activities.length > 0 && (
+            <ol style={{ listStyle: 'none', margin: 0, padding: 0, borderLeft: '2px solid #E5E7EB' }}>
+              {activities.map((activity) => {
+                const group = getActionGroup(activity.action);
+                return (
+                  <li key={activity.id} style={{ position: 'relative', padding: '0 0 16px 24px' }}>
+                    <span
+                      style={{
+                        position: 'absolute',
+                        left: '-13px',
+                        top: 0,
+                        width: '24px',
+                        height: '24px',
+                        borderRadius: '50%',
+                        backgroundColor: '#FFFFFF',
+                        border: '2px solid #E5E7EB',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        fontSize: '12px',
+                      }}
+                    >
+                      {(group && ACTION_ICONS[group]) || '•'}
+                    </span>
+                    <div style={{ fontSize: '14px', color: '#111827' }}>
+                      <span style={{ fontWeight: '600' }}>{activity.userName || t('activity.unknownUser')}</span>{' '}
+                      {describe(activity)}
+                    </div>
+                    {activity.action === 'create_version' && typeof activity.data.commitMessage === 'string' && (
+                      <div style={{ marginTop: '2px', fontSize: '13px', color: '#4B5563' }}>
+                        「{activity.data.commitMessage}」
+                      </div>
+                    )}
+                    <div style={{ marginTop: '2px', fontSize: '12px', color: '#9CA3AF' }}>
+                      {formatDate(activity.createdAt)}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+
+          {!loading && nextCursor && (
+            <button
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="w-full mt-2 px-4 py-2 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 transition-colors disabled:opacity-50"
+            >
+              {loadingMore ? t('common.loading') : t('activity.loadMore')}
+            </button>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 bg-gray-50">
+          <button
+            onClick={onClose}
+            className="w-full px-4 py-3 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-all font-medium shadow-sm hover:shadow-md"
+          >
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectActivity;
@@ -3,6 +3,7 @@ import { useTranslation } from 'react-i18next';
 import { projectAPI } from '../../services/api';
 import type { Project } from '../../services/api';
 import ProjectMembers from './ProjectMembers';
+import ProjectActivity from './ProjectActivity';
 import { LoadingState } from '../Status/LoadingState';
 import { ErrorState } from '../Status/ErrorState';
 
@@ -35,6 +36,7 @@ export const ProjectList: React.FC<ProjectListProps> = ({ onSelectProject, user,
   const [newProjectDescription, setNewProjectDescription] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [selectedProjectForMembers, setSelectedProjectForMembers] = useState<{ id: string; isOwner: boolean } | null>(null);
+  const [selectedProjectForActivity, setSelectedProjectForActivity] = useState<string | null>(null);
 
   const loadProjects = useCallback(async () => {
     try {
@@ -347,6 +349,30 @@ export const ProjectList: React.FC<ProjectListProps> = ({ onSelectProject, user,
                     >
                       {t('projects.members')}
                     </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setSelectedProjectForActivity(project.id);
+                      }}
+                      style={{
+                        padding: '6px 12px',
+                        fontSize: '13px',
+                        color: '#3B82F6',
+                        backgroundColor: 'transparent',
+                        border: '1px solid #3B82F6',
+                        borderRadius: '6px',
+                        cursor: 'pointer',
+                        transition: 'all 0.2s',
+                      }}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.backgroundColor = '#EFF6FF';
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.backgroundColor = 'transparent';
+                      }}
+                    >
+                      {t('projects.activity')}
+                    </button>
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -521,6 +547,14 @@ export const ProjectList: React.FC<ProjectListProps> = ({ onSelectProject, user,
             onClose={() => setSelectedProjectForMembers(null)}
           />
         )}
+
+        {/* プロジェクトのアクティビティ */}
+        {selectedProjectForActivity && (
+          <ProjectActivity
+            projectId={selectedProjectForActivity}
+            onClose={() => setSelectedProjectForActivity(null)}
+          />
+        )}
       </div>
     </div>
   );
@@ -132,6 +132,12 @@ export const AiChatPanel: React.FC = () => {
   const handleApplyOps = () => {
     if (!pendingOps) return;
     applyAiOps(pendingOps);
+    if (projectId) {
+      const diagramId = useDiagramStore.getState().currentDiagramDbId || undefined;
+      aiApi
+        .recordAppliedOps(projectId, { conversationId: conversationId || undefined, diagramId, ops: pendingOps })
+        .catch((err) => console.error('Failed to record applied AI ops:', err));
+    }
     setPendingOps(null);
   };
 
@@ -9,6 +9,7 @@ import {
   type SurveyAudience,
   type SurveyMode,
 } from '../../api/surveys';
+import { ValidationGateError, formatValidationFindings } from '../../api/validation';
 import type { DiagramData, ProjectData, Node as DiagramNode, Link as DiagramLink } from '../../types/diagram';
 import { LoadingState } from '../Status/LoadingState';
 import { ErrorState } from '../Status/ErrorState';
@@ -774,13 +775,27 @@ export const SurveyManagerModal: React.FC<SurveyManagerModalProps> = ({
     }
   };
 
-  const handlePublish = async () => {
+  const handlePublish = async (validationOverride?: string) => {
     if (!selectedSurvey || !canEdit) return;
     try {
-      const response = await surveysApi.publishSurvey(selectedSurvey.id);
+      const response = await surveysApi.publishSurvey(selectedSurvey.id, validationOverride);
       setSelectedSurvey(response.survey);
       await loadSurveys();
     } catch (err: unknown) {
+      // GSN検証のエラーを承知で公開する場合は、理由を付けて送り直す
+      if (err instanceof ValidationGateError && err.overrideAllowed && !validationOverride) {
+        const reason = window.prompt(
+          `${err.message}\n\n${formatValidationFindings(err.validation.errors)}\n\n${t('survey.publishOverrideReason')}`
+        );
+        if (reason?.trim()) {
+          await handlePublish(reason.trim());
+        }
+        return;
+      }
+      if (err instanceof ValidationGateError) {
+        setError(`${err.message}（${t('validation.errors')}: ${err.validation.errors.length}）`);
+        return;
+      }
       setError(getApiErrorMessage(err, t('survey.publishError')));
     }
   };
@@ -955,7 +970,7 @@ export const SurveyManagerModal: React.FC<SurveyManagerModalProps> = ({
                   <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
                     {canEdit && selectedSurvey.status !== 'published' && (
                       <button
-                        onClick={handlePublish}
+                        onClick={() => handlePublish()}
                         style={{
                           padding: '6px 12px',
                           border: '1px solid #3B82F6',
@@ -1,4 +1,6 @@
 import axios from 'axios';
+import type { ValidationRuleOverrides } from '../utils/validation';
+import type { ValidationGate, ValidationGates } from '../api/validation';
 
 const API_BASE_URL = 'http://localhost:3001/api';
 
@@ -69,6 +71,9 @@ export interface Project {
   description: string | null;
   isPublic: boolean;
   ownerId: string;
+  validationRules?: ValidationRuleOverrides | null; // GSN検証ルールの設定
+  commitValidationGate?: ValidationGate; // コミット前の検証
+  surveyValidationGate?: ValidationGate; // アンケート公開前の検証
   createdAt: string;
   updatedAt: string;
   owner: User;
@@ -90,6 +95,8 @@ export interface CreateProjectRequest {
 export interface UpdateProjectRequest {
   title?: string;
   description?: string;
+  validationRules?: ValidationRuleOverrides;
+  validationGates?: Partial<ValidationGates>;
 }
 
 export interface ProjectsResponse {
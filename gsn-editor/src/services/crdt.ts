@@ -0,0 +1,269 @@
+import * as Y from 'yjs';
+import type { DiagramData, Link, Node, NodeType } from '../types/diagram';
+
+/**
+ * ダイアグラムの CRDT ドキュメント
+ *
+ * 構造（backend/src/services/diagramCrdt.ts と同じ）:
+ *   modules: Y.Map<moduleId, Y.Map{ title, version, metadata, nodes, links }>
+ *     nodes: Y.Map<nodeId, Y.Map<field>>  … content は Y.Text（文字単位でマージ）
+ *     links: Y.Map<linkId, Y.Map<field>>
+ *   meta: Y.Map{ labelCounters }
+ * content 以外のフィールドは Y.Map の値として保持し、フィールド単位の後勝ちになる
+ */
+
+export interface CrdtProjectState {
+  modules: Record<string, DiagramData>;
+  labelCounters: Record<NodeType, number>;
+}
+
+// ドキュメントから読み出した状態（labelCounters は未設定の場合がある）
+export type CrdtProjectSnapshot = Omit<CrdtProjectState, 'labelCounters'> & {
+  labelCounters?: Record<NodeType, number>;
+};
+
+type RawModule = Omit<DiagramData, 'nodes' | 'links'> & {
+  nodes?: Record<string, Node>;
+  links?: Record<string, Link>;
+};
+
+const LOCAL_ORIGIN = 'local';
+const REMOTE_ORIGIN = 'remote';
+
+const NODE_TEXT_FIELD = 'content';
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// a → b で変わった範囲（共通の先頭・末尾を除いた部分）
+const diffRange = (a: string, b: string) => {
+  const max = Math.min(a.length, b.length);
+  let start = 0;
+  while (start < max && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < max - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+  return { start, deleteCount: a.length - start - end, insert: b.slice(start, b.length - end) };
+};
+
+const replaceText = (ytext: Y.Text, index: number, deleteCount: number, insert: string) => {
+  if (deleteCount > 0) ytext.delete(index, deleteCount);
+  if (insert) ytext.insert(index, insert);
+};
+
+/**
+ * base → next の編集を Y.Text に適用する
+ * base 以降に他ユーザーの変更が入っている場合は、自分の編集範囲をずらして両方の変更を残す
+ * 編集範囲が重なる場合のみ、重なった部分を自分の内容で置き換える
+ */
+const applyTextEdit = (ytext: Y.Text, next: string, base?: string) => {
+  const current = ytext.toString();
+  if (current === next) return;
+
+  const from = base ?? current;
+  const local = diffRange(from, next);
+  if (from === current) {
+    replaceText(ytext, local.start, local.deleteCount, local.insert);
+    return;
+  }
+
+  const remote = diffRange(from, current);
+  const localEnd = local.start + local.deleteCount;
+  const remoteEnd = remote.start + remote.deleteCount;
+  const remoteShift = remote.insert.length - remote.deleteCount;
+
+  if (localEnd <= remote.start) {
+    replaceText(ytext, local.start, local.deleteCount, local.insert);
+    return;
+  }
+  if (local.start >= remoteEnd) {
+    replaceText(ytext, local.start + remoteShift, local.deleteCount, local.insert);
+    return;
+  }
+
+  const unionStart = Math.min(local.start, remote.start);
+  const unionEnd = Math.max(localEnd, remoteEnd);
+  const currentEnd = unionEnd + remoteShift;
+  const nextEnd = unionEnd + local.insert.length - local.deleteCount;
+  replaceText(ytext, unionStart, currentEnd - unionStart, next.slice(unionStart, nextEnd));
+};
+
+const setField = (ymap: Y.Map<unknown>, key: string, value: unknown) => {
+  if (value === undefined) {
+    if (ymap.has(key)) ymap.delete(key);
+    return;
+  }
+  if (!isSame(ymap.get(key), value)) {
+    ymap.set(key, value);
+  }
+};
+
+const writeFields = (
+  yitem: Y.Map<unknown>,
+  item: object,
+  textField?: string,
+  textBase?: string,
+) => {
+  const fields = Object.entries(item).filter(([, value]) => value !== undefined);
+  const keys = new Set(fields.map(([key]) => key));
+
+  Array.from(yitem.keys()).forEach((key) => {
+    if (!keys.has(key)) yitem.delete(key);
+  });
+
+  fields.forEach(([key, value]) => {
+    if (key === textField) {
+      const text = typeof value === 'string' ? value : '';
+      const existing = yitem.get(key);
+      if (existing instanceof Y.Text) {
+        applyTextEdit(existing, text, textBase);
+      } else {
+        yitem.set(key, new Y.Text(text));
+      }
+      return;
+    }
+    setField(yitem, key, value);
+  });
+};
+
+const ensureMap = (parent: Y.Map<unknown>, key: string) => {
+  const existing = parent.get(key);
+  if (existing instanceof Y.Map) return existing as Y.Map<unknown>;
+  const created = new Y.Map<unknown>();
+  parent.set(key, created);
+  return created;
+};
+
+const writeItems = <T extends { id: string }>(
+  ymap: Y.Map<unknown>,
+  items: T[],
+  write: (yitem: Y.Map<unknown>, item: T) => void,
+) => {
+  const ids = new Set(items.map((item) => item.id));
+  Array.from(ymap.keys()).forEach((id) => {
+    if (!ids.has(id)) ymap.delete(id);
+  });
+  items.forEach((item) => write(ensureMap(ymap, item.id), item));
+};
+
+/**
+ * プロジェクトの状態とドキュメントの差分だけをドキュメントに書き込む
+ * textBases にはノードIDごとの編集開始時点の本文を渡す（文字単位マージの基準）
+ */
+const writeProjectToDoc = (
+  doc: Y.Doc,
+  project: CrdtProjectState,
+  textBases: Map<string, string>,
+) => {
+  doc.transact(() => {
+    const modules = doc.getMap<unknown>('modules');
+    Array.from(modules.keys()).forEach((moduleId) => {
+      if (!project.modules[moduleId]) modules.delete(moduleId);
+    });
+
+    Object.entries(project.modules).forEach(([moduleId, diagram]) => {
+      const ymodule = ensureMap(modules, moduleId);
+      setField(ymodule, 'title', diagram.title);
+      setField(ymodule, 'version', diagram.version);
+      setField(ymodule, 'metadata', diagram.metadata);
+      writeItems<Node>(ensureMap(ymodule, 'nodes'), diagram.nodes || [], (ynode, node) =>
+        writeFields(ynode, node, NODE_TEXT_FIELD, textBases.get(node.id)),
+      );
+      writeItems<Link>(ensureMap(ymodule, 'links'), diagram.links || [], (ylink, link) =>
+        writeFields(ylink, link),
+      );
+    });
+
+    setField(doc.getMap<unknown>('meta'), 'labelCounters', project.labelCounters);
+  }, LOCAL_ORIGIN);
+};
+
+// 既存の並び順を保ち、新しい要素は末尾に追加する
+const orderItems = <T extends { id: string }>(items: Record<string, T>, previous: T[] = []) => {
+  const ordered = previous.filter((item) => items[item.id]).map((item) => items[item.id]);
+  const known = new Set(ordered.map((item) => item.id));
+  Object.values(items).forEach((item) => {
+    if (!known.has(item.id)) ordered.push(item);
+  });
+  return ordered;
+};
+
+/**
+ * ドキュメントからプロジェクトの状態を組み立てる
+ * 未初期化（モジュールが1つもない）の場合は null
+ */
+const readProjectFromDoc = (
+  doc: Y.Doc,
+  previous: Record<string, DiagramData>,
+): CrdtProjectSnapshot | null => {
+  const rawModules = doc.getMap<unknown>('modules').toJSON() as Record<string, RawModule>;
+  if (Object.keys(rawModules).length === 0) return null;
+
+  const modules: Record<string, DiagramData> = {};
+  Object.entries(rawModules).forEach(([moduleId, raw]) => {
+    const previousModule = previous[moduleId];
+    modules[moduleId] = {
+      ...raw,
+      version: raw.version || '1.0.0',
+      nodes: orderItems(raw.nodes || {}, previousModule?.nodes),
+      links: orderItems(raw.links || {}, previousModule?.links),
+    };
+  });
+
+  const labelCounters = doc.getMap<unknown>('meta').get('labelCounters') as
+    | Record<NodeType, number>
+    | undefined;
+
+  return { modules, labelCounters };
+};
+
+interface DiagramCrdtSessionHandlers {
+  onLocalUpdate: (update: Uint8Array) => void;
+  onRemoteChange: () => void;
+}
+
+/**
+ * 1つのダイアグラム（DB上の Diagram）に対応する同期セッション
+ * サーバーとの初回同期が終わるまではローカルの変更を書き込まない（初期化はサーバーのみが行う）
+ */
+export class DiagramCrdtSession {
+  readonly doc = new Y.Doc();
+  readonly dbDiagramId: string;
+  synced = false;
+  private readonly handlers: DiagramCrdtSessionHandlers;
+
+  constructor(dbDiagramId: string, handlers: DiagramCrdtSessionHandlers) {
+    this.dbDiagramId = dbDiagramId;
+    this.handlers = handlers;
+    this.doc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin === REMOTE_ORIGIN) {
+        this.handlers.onRemoteChange();
+      } else {
+        this.handlers.onLocalUpdate(update);
+      }
+    });
+  }
+
+  applyRemoteUpdate(update: Uint8Array) {
+    Y.applyUpdate(this.doc, update, REMOTE_ORIGIN);
+  }
+
+  applyLocalState(project: CrdtProjectState, textBases: Map<string, string>) {
+    writeProjectToDoc(this.doc, project, textBases);
+  }
+
+  read(previous: Record<string, DiagramData>) {
+    return readProjectFromDoc(this.doc, previous);
+  }
+
+  encodeStateVector() {
+    return Y.encodeStateVector(this.doc);
+  }
+
+  // 相手の状態ベクトルにない変更だけを取り出す
+  encodeDiff(stateVector: Uint8Array) {
+    return Y.encodeStateAsUpdate(this.doc, stateVector);
+  }
+
+  destroy() {
+    this.doc.destroy();
+  }
+}
@@ -1,5 +1,18 @@
 import { io, Socket } from 'socket.io-client';
-import type { Node, Link, DiagramData, NodeComment } from '../types/diagram';
+import type { NodeComment } from '../types/diagram';
+import type { AppNotification } from '../api/notifications';
+
+const getAuthToken = () => {
+  const authStore = localStorage.getItem('auth-storage');
+  if (!authStore) return null;
+
+  try {
+    const parsed = JSON.parse(authStore);
+    return parsed.state?.token || null;
+  } catch {
+    return null;
+  }
+};
 
 interface OnlineUser {
   userId: string;
@@ -8,24 +21,55 @@ interface OnlineUser {
   joinedAt: string;
 }
 
+export interface CrdtSyncResult {
+  update: Uint8Array;
+  stateVector: Uint8Array;
+  seq: number;
+  version: number;
+}
+
+// ノードの編集ロック（他のユーザーが NodeEditor を開いている間）
+export interface NodeLock {
+  nodeId: string;
+  diagramId: string;
+  userId: string;
+  userName: string;
+  expiresAt: number;
+}
+
+export interface NodeLockResult {
+  granted: boolean;
+  holder?: NodeLock;
+}
+
 interface WebSocketCallbacks {
-  onNodeCreated?: (node: Node, diagramId: string) => void;
-  onNodeUpdated?: (node: Node, diagramId: string) => void;
-  onNodeDeleted?: (nodeId: string, diagramId: string) => void;
-  onNodeMoved?: (nodeId: string, position: { x: number; y: number }, diagramId: string) => void;
-  onLinkCreated?: (link: Link, diagramId: string) => void;
-  onLinkDeleted?: (linkId: string, diagramId: string) => void;
-  onLinkUpdated?: (link: Link, diagramId: string) => void;
-  onModuleCreated?: (moduleId: string, moduleData: DiagramData, parentDiagramId: string) => void;
+  onCrdtUpdate?: (data: { dbDiagramId: string; update: Uint8Array; seq: number; version: number }) => void;
   onUserJoined?: (user: { userId: string; userName: string; timestamp: string }) => void;
   onUserLeft?: (user: { userId: string; userName: string; timestamp: string }) => void;
   onOnlineUsers?: (users: OnlineUser[]) => void;
   onConnectionStatusChange?: (status: { connected: boolean; reconnecting: boolean; attempts: number }) => void;
   onCursorMoved?: (cursor: { userId: string; userName: string; x: number; y: number }) => void;
   onDiagramReload?: (data: { projectId: string; diagramId: string }) => void;
-  onCommentAdded?: (data: { nodeId: string; comment: NodeComment; diagramId: string }) => void;
-  onCommentDeleted?: (data: { nodeId: string; commentId: string; diagramId: string }) => void;
+  // コメントはサーバーが REST の操作ごとに配信する（diagramId は DB のダイアグラムID）
+  onCommentAdded?: (data: { diagramId: string; nodeId: string; comment: NodeComment }) => void;
+  onCommentUpdated?: (data: { diagramId: string; nodeId: string; comment: NodeComment }) => void;
+  onCommentDeleted?: (data: { diagramId: string; nodeId: string; commentId: string }) => void;
+  // ダイアグラムの凍結・解除（frozenAt が null なら解除）
+  onDiagramFrozen?: (data: {
+    diagramId: string;
+    frozenAt: string | null;
+    frozenBy: string | null;
+    frozenReason: string | null;
+  }) => void;
+  // 自分のロールの変更（role が null ならプロジェクトから外された）
+  onProjectRoleChanged?: (data: { projectId: string; role: 'owner' | 'editor' | 'viewer' | null }) => void;
   onSurveyResponseCreated?: (data: { projectId: string; surveyId: string; timestamp?: string }) => void;
+  onError?: (error: { event: string; message: string }) => void;
+  onOperationSequenced?: (data: { dbDiagramId: string; seq: number; version: number }) => void;
+  onNodeLocks?: (locks: NodeLock[]) => void;
+  onNodeLockRequested?: (data: { nodeId: string; userId: string; userName: string }) => void;
+  // 自分宛ての通知（プロジェクトに参加していなくても届く）
+  onNotification?: (notification: AppNotification) => void;
 }
 
 class WebSocketService {
@@ -35,6 +79,8 @@ class WebSocketService {
   private reconnectAttempts = 0;
   private readonly maxReconnectAttempts = 5;
   private callbacks: WebSocketCallbacks = {};
+  private joinedProject: Promise<boolean> | null = null;
+  private joined = false;
 
   connect() {
     if (this.socket) {
@@ -51,16 +97,14 @@ class WebSocketService {
       reconnection: true,
       reconnectionDelay: 1000,
       reconnectionAttempts: this.maxReconnectAttempts,
+      // 再接続のたびに最新のトークンを送る
+      auth: (cb) => cb({ token: getAuthToken() }),
     });
 
     this.socket.on('connect', () => {
       console.log('[WebSocket] Connected:', this.socket?.id);
       this.reconnectAttempts = 0;
-      this.callbacks.onConnectionStatusChange?.({
-        connected: true,
-        reconnecting: false,
-        attempts: 0,
-      });
+      // 状態通知より先に参加し直す（通知を受けた側が同期を始められるように）
       if (this.lastJoinPayload) {
         console.log('[WebSocket] Rejoining project after reconnect');
         this.joinProject(
@@ -69,6 +113,11 @@ class WebSocketService {
           this.lastJoinPayload.userName,
         );
       }
+      this.callbacks.onConnectionStatusChange?.({
+        connected: true,
+        reconnecting: false,
+        attempts: 0,
+      });
     });
 
     this.socket.on('disconnect', (reason) => {
@@ -78,6 +127,10 @@ class WebSocketService {
         reconnecting: true,
         attempts: this.reconnectAttempts,
       });
+      // 再接続時に join_project をやり直す
+      this.currentProjectId = null;
+      this.joinedProject = null;
+      this.joined = false;
       if (reason === 'io client disconnect') {
         this.lastJoinPayload = null;
       }
@@ -120,44 +173,13 @@ class WebSocketService {
     });
 
     // Listen to events
-    this.socket.on('node_created', (data) => {
-      console.log('[WebSocket] Node created:', data);
-      this.callbacks.onNodeCreated?.(data.node, data.diagramId || 'root');
-    });
-
-    this.socket.on('node_updated', (data) => {
-      console.log('[WebSocket] Node updated:', data);
-      this.callbacks.onNodeUpdated?.(data.node, data.diagramId || 'root');
-    });
-
-    this.socket.on('node_deleted', (data) => {
-      console.log('[WebSocket] Node deleted:', data);
-      this.callbacks.onNodeDeleted?.(data.nodeId, data.diagramId || 'root');
-    });
-
-    this.socket.on('node_moved', (data) => {
-      console.log('[WebSocket] Node moved:', data);
-      this.callbacks.onNodeMoved?.(data.nodeId, data.position, data.diagramId || 'root');
-    });
-
-    this.socket.on('link_created', (data) => {
-      console.log('[WebSocket] Link created:', data);
-      this.callbacks.onLinkCreated?.(data.link, data.diagramId || 'root');
-    });
-
-    this.socket.on('link_deleted', (data) => {
-      console.log('[WebSocket] Link deleted:', data);
-      this.callbacks.onLinkDeleted?.(data.linkId, data.diagramId || 'root');
-    });
-
-    this.socket.on('link_updated', (data) => {
-      console.log('[WebSocket] Link updated:', data);
-      this.callbacks.onLinkUpdated?.(data.link, data.diagramId || 'root');
+    this.socket.on('crdt_update', (data) => {
+      this.callbacks.onCrdtUpdate?.({ ...data, update: new Uint8Array(data.update) });
     });
 
-    this.socket.on('module_created', (data) => {
-      console.log('[WebSocket] Module created:', data);
-      this.callbacks.onModuleCreated?.(data.moduleId, data.moduleData, data.parentDiagramId);
+    // 自分の更新の確定通知
+    this.socket.on('op_ack', (data: { dbDiagramId: string; seq: number; version: number }) => {
+      this.callbacks.onOperationSequenced?.(data);
     });
 
     this.socket.on('user_joined', (data) => {
@@ -189,13 +211,121 @@ class WebSocketService {
       this.callbacks.onCommentAdded?.(data);
     });
 
+    this.socket.on('comment_updated', (data) => {
+      this.callbacks.onCommentUpdated?.(data);
+    });
+
     this.socket.on('comment_deleted', (data) => {
       this.callbacks.onCommentDeleted?.(data);
     });
 
+    this.socket.on('node_locks', (locks: NodeLock[]) => {
+      this.callbacks.onNodeLocks?.(locks);
+    });
+
+    this.socket.on('node_lock_requested', (data) => {
+      this.callbacks.onNodeLockRequested?.(data);
+    });
+
+    this.socket.on('diagram_frozen', (data) => {
+      this.callbacks.onDiagramFrozen?.(data);
+    });
+
+    this.socket.on('project_role_changed', (data) => {
+      this.callbacks.onProjectRoleChanged?.(data);
+    });
+
     this.socket.on('survey_response_created', (data) => {
       this.callbacks.onSurveyResponseCreated?.(data);
     });
+
+    this.socket.on('notification', (notification: AppNotification) => {
+      this.callbacks.onNotification?.(notification);
+    });
+
+    this.socket.on('ws_error', (data) => {
+      console.warn('[WebSocket] Server rejected event:', data);
+      if (data?.event === 'join_project') {
+        this.currentProjectId = null;
+        this.joinedProject = null;
+        this.joined = false;
+        this.lastJoinPayload = null;
+      }
+      this.callbacks.onError?.(data);
+    });
+  }
+
+  /**
+   * サーバーの CRDT ドキュメントと状態ベクトルを交換する
+   * 自分の状態ベクトルにない更新と、サーバーの状態ベクトルを受け取る（取得できない場合は null）
+   */
+  async requestCrdtSync(projectId: string, dbDiagramId: string, stateVector: Uint8Array): Promise<CrdtSyncResult | null> {
+    if (!this.socket?.connected) return null;
+    const joined = await this.joinedProject;
+    if (!joined || !this.socket?.connected) return null;
+
+    try {
+      const result = await this.socket
+        .timeout(10000)
+        .emitWithAck('crdt_sync', { projectId, dbDiagramId, stateVector });
+      if (!result || result.error) {
+        console.warn('[WebSocket] crdt_sync failed:', result?.error);
+        return null;
+      }
+      return {
+        ...result,
+        update: new Uint8Array(result.update),
+        stateVector: new Uint8Array(result.stateVector),
+      };
+    } catch (error) {
+      console.warn('[WebSocket] crdt_sync timed out:', error);
+      return null;
+    }
+  }
+
+  /**
+   * CRDT の更新を送る
+   * 未接続・参加前は送らない（再接続時の同期で状態ベクトルとの差分として送られる）
+   */
+  emitCrdtUpdate(projectId: string, dbDiagramId: string, update: Uint8Array) {
+    if (!this.socket?.connected || !this.joined || this.currentProjectId !== projectId) return;
+    this.socket.emit('crdt_update', { projectId, dbDiagramId, update });
+  }
+
+  /**
+   * ノードの編集ロックを取得する
+   * 未接続・応答なしの場合はロックなしで編集を許可する（ソフトロックのため）
+   */
+  async acquireNodeLock(projectId: string, nodeId: string, diagramId: string): Promise<NodeLockResult> {
+    if (!this.socket?.connected) return { granted: true };
+    const joined = await this.joinedProject;
+    if (!joined || !this.socket?.connected) return { granted: true };
+
+    try {
+      const result: NodeLockResult = await this.socket
+        .timeout(5000)
+        .emitWithAck('node_lock_acquire', { projectId, nodeId, diagramId });
+      return result ?? { granted: true };
+    } catch (error) {
+      console.warn('[WebSocket] node_lock_acquire timed out:', error);
+      return { granted: true };
+    }
+  }
+
+  emitNodeLockHeartbeat(projectId: string, nodeId: string) {
+    if (!this.socket?.connected || !this.joined) return;
+    this.socket.emit('node_lock_heartbeat', { projectId, nodeId });
+  }
+
+  emitNodeLockRelease(projectId: string, nodeId: string) {
+    if (!this.socket?.connected || !this.joined) return;
+    this.socket.emit('node_lock_release', { projectId, nodeId });
+  }
+
+  // ロック中のユーザーに編集の交代を依頼する
+  emitNodeLockRequest(projectId: string, nodeId: string) {
+    if (!this.socket?.connected || !this.joined) return;
+    this.socket.emit('node_lock_request', { projectId, nodeId });
   }
 
   disconnect() {
@@ -203,6 +333,8 @@ class WebSocketService {
       this.socket.disconnect();
       this.socket = null;
       this.currentProjectId = null;
+      this.joinedProject = null;
+      this.joined = false;
     }
   }
 
@@ -228,10 +360,12 @@ class WebSocketService {
     this.currentProjectId = projectId;
     this.lastJoinPayload = { projectId, userId, userName };
 
-    this.socket.emit('join_project', {
-      projectId,
-      userId,
-      userName,
+    const socket = this.socket;
+    this.joinedProject = new Promise((resolve) => {
+      socket.emit('join_project', { projectId, userId, userName }, (result?: { error?: string }) => {
+        this.joined = !result?.error && this.currentProjectId === projectId;
+        resolve(!result?.error);
+      });
     });
 
     console.log('[WebSocket] Joined project:', projectId);
@@ -244,6 +378,8 @@ class WebSocketService {
 
     this.socket.emit('leave_project', { projectId });
     this.currentProjectId = null;
+    this.joinedProject = null;
+    this.joined = false;
     if (this.lastJoinPayload?.projectId === projectId) {
       this.lastJoinPayload = null;
     }
@@ -251,54 +387,10 @@ class WebSocketService {
     console.log('[WebSocket] Left project:', projectId);
   }
 
-  // Emit node operations
-  emitNodeCreated(projectId: string, node: Node, diagramId: string) {
-    this.socket?.emit('node_created', { projectId, node, diagramId });
-  }
-
-  emitNodeUpdated(projectId: string, node: Node, diagramId: string) {
-    this.socket?.emit('node_updated', { projectId, node, diagramId });
-  }
-
-  emitNodeDeleted(projectId: string, nodeId: string, diagramId: string) {
-    this.socket?.emit('node_deleted', { projectId, nodeId, diagramId });
-  }
-
-  emitNodeMoved(projectId: string, nodeId: string, position: { x: number; y: number }, diagramId: string) {
-    this.socket?.emit('node_moved', { projectId, nodeId, position, diagramId });
-  }
-
-  // Emit link operations
-  emitLinkCreated(projectId: string, link: Link, diagramId: string) {
-    this.socket?.emit('link_created', { projectId, link, diagramId });
-  }
-
-  emitLinkDeleted(projectId: string, linkId: string, diagramId: string) {
-    this.socket?.emit('link_deleted', { projectId, linkId, diagramId });
-  }
-
-  emitLinkUpdated(projectId: string, link: Link, diagramId: string) {
-    this.socket?.emit('link_updated', { projectId, link, diagramId });
-  }
-
-  // Emit module operations
-  emitModuleCreated(projectId: string, moduleId: string, moduleData: DiagramData, parentDiagramId: string) {
-    console.log('[WebSocket Client] Emitting module_created:', { projectId, moduleId, parentDiagramId });
-    this.socket?.emit('module_created', { projectId, moduleId, moduleData, parentDiagramId });
-  }
-
   emitDiagramReload(projectId: string, diagramId: string) {
     this.socket?.emit('diagram_reload', { projectId, diagramId });
   }
 
-  emitCommentAdded(projectId: string, nodeId: string, comment: NodeComment, diagramId: string) {
-    this.socket?.emit('comment_added', { projectId, nodeId, comment, diagramId });
-  }
-
-  emitCommentDeleted(projectId: string, nodeId: string, commentId: string, diagramId: string) {
-    this.socket?.emit('comment_deleted', { projectId, nodeId, commentId, diagramId });
-  }
-
   // Emit cursor movement
   emitCursorMoved(projectId: string, x: number, y: number) {
     if (!this.socket?.connected) {
@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+
+export interface DiagramFreeze {
+  diagramId: string;
+  frozenAt: string;
+  frozenBy: string | null;
+  frozenReason: string | null;
+}
+
+// 表示中のダイアグラムの凍結状態（凍結中は編集できない）
+interface DiagramFreezeState {
+  freeze: DiagramFreeze | null;
+
+  // Actions
+  setFreeze: (freeze: DiagramFreeze | null) => void;
+}
+
+export const useDiagramFreezeStore = create<DiagramFreezeState>()((set) => ({
+  freeze: null,
+
+  setFreeze: (freeze) => {
+    set({ freeze });
+  },
+}));
+
+// API・WebSocket のダイアグラムから凍結状態を作る（凍結されていなければ null）
+export const toDiagramFreeze = (diagram: {
+  id: string;
+  frozenAt?: string | null;
+  frozenBy?: string | null;
+  frozenReason?: string | null;
+}): DiagramFreeze | null =>
+  diagram.frozenAt
+    ? {
+        diagramId: diagram.id,
+        frozenAt: diagram.frozenAt,
+        frozenBy: diagram.frozenBy ?? null,
+        frozenReason: diagram.frozenReason ?? null,
+      }
+    : null;
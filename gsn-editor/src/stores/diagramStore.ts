@@ -15,8 +15,23 @@ import {
   NODE_COLORS,
 } from '../types/diagram';
 import { autoLayout } from '../utils/autoLayout';
-import { diagramsApi } from '../api/diagrams';
+import { buildDiagramSvg, svgToPngBlob } from '../utils/diagramImage';
+import { linkTypeFor } from '../utils/textFormats';
+import { checkNewLink } from '../utils/validation';
+import type { ValidationFix } from '../utils/validation';
+import { diagramsApi, DiagramConflictError } from '../api/diagrams';
+import type { DiagramData as DiagramRecord } from '../api/diagrams';
+import { mergeProjectData } from '../../../shared/diagramMerge';
+import { commentsApi } from '../api/comments';
+import { useNotificationStore } from './notificationStore';
+import { useDiagramFreezeStore, toDiagramFreeze } from './diagramFreezeStore';
+import { useValidationSettingsStore } from './validationSettingsStore';
 import { websocketService } from '../services/websocket';
+import type { NodeLock } from '../services/websocket';
+import { DiagramCrdtSession } from '../services/crdt';
+import type { CrdtProjectState } from '../services/crdt';
+import type { CreateVersionRequest } from '../api/versions';
+import type { MergeBranchRequest } from '../api/branches';
 
 interface OnlineUser {
   userId: string;
@@ -44,10 +59,15 @@ interface DiagramStore {
   wsUserName: string | null;
   projectRole: 'owner' | 'editor' | 'viewer' | null;
   diagramDbVersion: number | null;
+  diagramOpSeq: number | null; // サーバー操作ログの最終シーケンス番号
   hasLocalChanges: boolean;
   remoteOutOfSync: boolean;
+  saveConflict: { serverDiagram: DiagramRecord; detectedAt: string } | null; // 保存時のバージョン競合
   onlineUsers: OnlineUser[]; // プロジェクトに接続中のユーザー
   userCursors: Map<string, UserCursor>; // 他のユーザーのカーソル位置
+  nodeLocks: NodeLock[]; // ノードの編集ロック（NodeEditor を開いているユーザー）
+  comments: NodeComment[]; // 表示中のダイアグラムのコメント（作成日時の昇順）
+  nodeEditRequest: { nodeId: string; userId: string; userName: string; receivedAt: string } | null; // 自分が編集中のノードへの交代依頼
   surveyResponseEvent: { projectId: string; surveyId: string; receivedAt: string } | null;
   title: string;
   nodes: Node[];
@@ -70,18 +90,22 @@ interface DiagramStore {
   loadDiagramFromDB: (projectId: string, diagramId?: string) => Promise<void>;
   reloadDiagramFromDB: (projectId: string, diagramId?: string) => Promise<void>;
   checkForRemoteUpdate: () => Promise<void>;
+  catchUpRemoteOperations: () => Promise<void>;
   saveDiagramToDB: () => Promise<void>;
+  resolveSaveConflict: (choice: 'merge' | 'overwrite' | 'discard') => Promise<void>;
   createDiagramInDB: (title: string) => Promise<void>;
   migrateLocalStorageToDB: (projectId: string) => Promise<boolean>; // 移行が成功したらtrue
   setTitle: (title: string) => void;
   addNode: (type: NodeType, x: number, y: number) => void;
-  updateNode: (id: string, updates: Partial<Node>) => void;
-  deleteNode: (id: string) => void;
+  updateNode: (id: string, updates: Partial<Node>, options?: { baseContent?: string }) => void;
+  changeNodeTypes: (ids: string[], type: NodeType) => void; // 複数ノードの種類をまとめて変更（1回の Undo で戻る）
+  deleteNode: (id: string, options?: { skipHistory?: boolean }) => void;
   moveNode: (id: string, x: number, y: number) => void;
 
-  addLink: (sourceId: string, targetId: string, type: 'solid' | 'dashed') => void;
+  addLink: (sourceId: string, targetId: string, type: 'solid' | 'dashed') => string | null; // 接続規則で拒否した場合はその理由
   updateLink: (id: string, updates: Partial<Link>, options?: { skipHistory?: boolean }) => void;
-  deleteLink: (id: string) => void;
+  deleteLink: (id: string, options?: { skipHistory?: boolean }) => void;
+  applyValidationFix: (fix: ValidationFix) => void; // 検証のクイック修正を適用（1回の Undo で戻る）
 
   setCanvasMode: (mode: CanvasState['mode']) => void;
   setSelectedNodeType: (type: NodeType | undefined) => void;
@@ -119,8 +143,10 @@ interface DiagramStore {
   reset: () => void;
 
   // コメント関連
-  addComment: (nodeId: string, authorId: string, authorName: string, content: string) => void;
-  deleteComment: (nodeId: string, commentId: string) => void;
+  loadComments: () => Promise<void>;
+  addComment: (nodeId: string, body: string, parentId?: string, mentions?: string[]) => Promise<void>;
+  setCommentResolved: (commentId: string, resolved: boolean) => Promise<void>;
+  deleteComment: (commentId: string) => Promise<void>;
 
   // パターン機能用のダイレクト追加（履歴保存なし）
   addNodeDirect: (node: Node) => void;
@@ -136,9 +162,24 @@ interface DiagramStore {
   removeUserCursor: (userId: string) => void;
   clearOldCursors: () => void;
 
+  // 編集ロック関連
+  acquireNodeLock: (nodeId: string) => Promise<NodeLock | null>; // 他のユーザーが編集中の場合はそのロックを返す
+  releaseNodeLock: (nodeId: string) => void;
+  requestNodeEdit: (nodeId: string) => void;
+  clearNodeEditRequest: () => void;
+
   // バージョン管理関連
-  commitVersion: (message: string) => Promise<void>;
+  commitVersion: (message: string, target?: Omit<CreateVersionRequest, 'commitMessage'>) => Promise<void>;
   restoreVersion: (versionId: string) => Promise<void>;
+  restoreNodesFromVersion: (
+    versionData: unknown,
+    moduleId: string,
+    nodeIds: string[],
+    includeDescendants: boolean,
+  ) => number;
+  checkoutBranch: (branchId: string, discardChanges?: boolean) => Promise<void>;
+  mergeBranch: (branchId: string, request: MergeBranchRequest) => Promise<void>;
+  setDiagramFrozen: (frozen: boolean, reason?: string) => Promise<void>;
 }
 
 type ProjectStateSlice = Pick<
@@ -173,7 +214,9 @@ const createEmptyDiagramData = (title = 'ルート', id = 'root'): DiagramData =
   };
 };
 
-const canEditProject = (role: DiagramStore['projectRole']) => role !== 'viewer';
+// 閲覧者と、凍結中のダイアグラムは編集できない
+const canEditProject = (role: DiagramStore['projectRole']) =>
+  role !== 'viewer' && !useDiagramFreezeStore.getState().freeze;
 
 const ensureRootModuleExists = (
   modules: Record<string, DiagramData>,
@@ -313,7 +356,43 @@ const buildProjectDataFromLegacyState = (stateData: unknown, fallbackTitle: stri
 const generateId = () => `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 const generateLinkId = () => `link_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 const generateModuleId = () => `module_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-const generateCommentId = () => `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// 最後にサーバーと一致していたプロジェクトデータ（競合時の3方向マージの共通祖先）
+let syncedBaseData: ProjectData | null = null;
+
+// リアルタイム同期中のダイアグラムの CRDT セッション
+let crdtSession: DiagramCrdtSession | null = null;
+let crdtFlushTimer: ReturnType<typeof setTimeout> | null = null;
+// リモートの更新をストアに反映している間はドキュメントに書き戻さない
+let applyingRemoteCrdt = false;
+// NodeEditor を開いた時点の本文（ノードID → 本文）。同じノードの同時編集を文字単位でマージする基準
+const pendingTextBases = new Map<string, string>();
+
+// ドラッグ中などの連続した変更をまとめて送る間隔
+const CRDT_FLUSH_DELAY_MS = 100;
+
+// 自分が保持している編集ロック（サーバー側は30秒で失効するため定期的に延長する）
+let heldNodeLock: { projectId: string; nodeId: string } | null = null;
+let nodeLockHeartbeatTimer: ReturnType<typeof setInterval> | null = null;
+const NODE_LOCK_HEARTBEAT_MS = 10000;
+
+const clearHeldNodeLock = () => {
+  if (nodeLockHeartbeatTimer) {
+    clearInterval(nodeLockHeartbeatTimer);
+    nodeLockHeartbeatTimer = null;
+  }
+  heldNodeLock = null;
+};
+
+// コメントを追加・更新する（サーバーからの配信と自分の操作の結果が重複しても1件にする）
+const upsertComment = (comments: NodeComment[], comment: NodeComment) =>
+  comments.some((c) => c.id === comment.id)
+    ? comments.map((c) => (c.id === comment.id ? comment : c))
+    : [...comments, comment];
+
+// コメントと、スレッド先頭の場合はその返信も取り除く
+const removeCommentThread = (comments: NodeComment[], commentId: string) =>
+  comments.filter((c) => c.id !== commentId && c.parentId !== commentId);
 
 // デバウンス用のタイマー
 let saveTimer: ReturnType<typeof setTimeout> | null = null;
@@ -355,13 +434,6 @@ const debouncedAutoRenumber = (
       hasLocalChanges: true,
     });
 
-    const projectId = state.currentProjectId;
-    if (projectId && websocketService.isConnected()) {
-      changedNodes.forEach((node) => {
-        websocketService.emitNodeUpdated(projectId, node, state.currentDiagramId);
-      });
-    }
-
     debouncedSaveToDB(() => get().saveDiagramToDB());
   }, delayMs);
 };
@@ -550,10 +622,15 @@ export const useDiagramStore = create<DiagramStore>()(
       wsUserName: null,
       projectRole: null,
       diagramDbVersion: null,
+      diagramOpSeq: null,
       hasLocalChanges: false,
       remoteOutOfSync: false,
+      saveConflict: null,
       onlineUsers: [],
       userCursors: new Map(),
+      nodeLocks: [],
+      nodeEditRequest: null,
+      comments: [],
       surveyResponseEvent: null,
       isReconnecting: false,
       reconnectAttempts: 0,
@@ -577,195 +654,12 @@ export const useDiagramStore = create<DiagramStore>()(
 
         // Set up callbacks
         websocketService.setCallbacks({
-          onNodeCreated: (node, diagramId) => {
-            const state = get();
-
-            // 現在のダイアグラムと同じ場合のみ表示を更新
-            if (state.currentDiagramId === diagramId) {
-              // 自分が作成したノードでない場合のみ追加（重複回避）
-              if (!state.nodes.find(n => n.id === node.id)) {
-                set({ nodes: [...state.nodes, node] });
-              }
-            }
-
-            // 全てのダイアグラム（モジュール含む）のデータを更新
-            const targetModule = state.modules[diagramId];
-            if (targetModule) {
-              if (!targetModule.nodes.find(n => n.id === node.id)) {
-                set({
-                  modules: {
-                    ...state.modules,
-                    [diagramId]: {
-                      ...targetModule,
-                      nodes: [...targetModule.nodes, node],
-                    },
-                  },
-                });
-              }
-            }
-          },
-          onNodeUpdated: (node, diagramId) => {
-            const state = get();
-
-            // 現在のダイアグラムと同じ場合のみ表示を更新
-            if (state.currentDiagramId === diagramId) {
-              set({
-                nodes: state.nodes.map(n => n.id === node.id ? node : n),
-              });
-            }
-
-            // 全てのダイアグラム（モジュール含む）のデータを更新
-            const targetModule = state.modules[diagramId];
-            if (targetModule) {
-              set({
-                modules: {
-                  ...state.modules,
-                  [diagramId]: {
-                    ...targetModule,
-                    nodes: targetModule.nodes.map(n => n.id === node.id ? node : n),
-                  },
-                },
-              });
-            }
-          },
-          onNodeDeleted: (nodeId, diagramId) => {
-            const state = get();
-
-            // 現在のダイアグラムと同じ場合のみ表示を更新
-            if (state.currentDiagramId === diagramId) {
-              set({
-                nodes: state.nodes.filter(n => n.id !== nodeId),
-                links: state.links.filter(l => l.source !== nodeId && l.target !== nodeId),
-              });
-            }
-
-            // 全てのダイアグラム（モジュール含む）のデータを更新
-            const targetModule = state.modules[diagramId];
-            if (targetModule) {
-              set({
-                modules: {
-                  ...state.modules,
-                  [diagramId]: {
-                    ...targetModule,
-                    nodes: targetModule.nodes.filter(n => n.id !== nodeId),
-                    links: targetModule.links.filter(l => l.source !== nodeId && l.target !== nodeId),
-                  },
-                },
-              });
-            }
-          },
-          onNodeMoved: (nodeId, position, diagramId) => {
-            const state = get();
-
-            // 現在のダイアグラムと同じ場合のみ表示を更新
-            if (state.currentDiagramId === diagramId) {
-              set({
-                nodes: state.nodes.map(n =>
-                  n.id === nodeId ? { ...n, position } : n
-                ),
-              });
-            }
-
-            // 全てのダイアグラム（モジュール含む）のデータを更新
-            const targetModule = state.modules[diagramId];
-            if (targetModule) {
-              set({
-                modules: {
-                  ...state.modules,
-                  [diagramId]: {
-                    ...targetModule,
-                    nodes: targetModule.nodes.map(n =>
-                      n.id === nodeId ? { ...n, position } : n
-                    ),
-                  },
-                },
-              });
-            }
-          },
-          onLinkCreated: (link, diagramId) => {
-            const state = get();
-
-            // 現在のダイアグラムと同じ場合のみ表示を更新
-            if (state.currentDiagramId === diagramId) {
-              if (!state.links.find(l => l.id === link.id)) {
-                set({ links: [...state.links, link] });
-              }
-            }
-
-            // 全てのダイアグラム（モジュール含む）のデータを更新
-            const targetModule = state.modules[diagramId];
-            if (targetModule) {
-              if (!targetModule.links.find(l => l.id === link.id)) {
-                set({
-                  modules: {
-                    ...state.modules,
-                    [diagramId]: {
-                      ...targetModule,
-                      links: [...targetModule.links, link],
-                    },
-                  },
-                });
-              }
-            }
-          },
-          onLinkDeleted: (linkId, diagramId) => {
-            const state = get();
-
-            // 現在のダイアグラムと同じ場合のみ表示を更新
-            if (state.currentDiagramId === diagramId) {
-              set({
-                links: state.links.filter(l => l.id !== linkId),
-              });
-            }
-
-            // 全てのダイアグラム（モジュール含む）のデータを更新
-            const targetModule = state.modules[diagramId];
-            if (targetModule) {
-              set({
-                modules: {
-                  ...state.modules,
-                  [diagramId]: {
-                    ...targetModule,
-                    links: targetModule.links.filter(l => l.id !== linkId),
-                  },
-                },
-              });
-            }
-          },
-          onLinkUpdated: (link, diagramId) => {
-            const state = get();
-
-            if (state.currentDiagramId === diagramId) {
-              set({
-                links: state.links.map((l) => (l.id === link.id ? link : l)),
-              });
-            }
-
-            const targetModule = state.modules[diagramId];
-            if (targetModule) {
-              set({
-                modules: {
-                  ...state.modules,
-                  [diagramId]: {
-                    ...targetModule,
-                    links: targetModule.links.map((l) => (l.id === link.id ? link : l)),
-                  },
-                },
-              });
-            }
-          },
-          onModuleCreated: (moduleId, moduleData, parentDiagramId) => {
-            const state = get();
-            console.log('Module created:', moduleId, parentDiagramId);
-
-            // 自分のcurrentDiagramIdと一致する場合は何もしない（自分が作成したモジュール）
-            // modulesに追加するだけでOK（既にローカルで追加済み）
-            set({
-              modules: {
-                ...state.modules,
-                [moduleId]: moduleData,
-              },
-            });
+          onCrdtUpdate: ({ dbDiagramId, update }) => {
+            const session = crdtSession;
+            if (!session || session.dbDiagramId !== dbDiagramId) return;
+            // 未送信のローカル変更を先にドキュメントへ反映してから適用する
+            flushCrdtChanges();
+            session.applyRemoteUpdate(update);
           },
           onUserJoined: (user) => {
             console.log('User joined:', user);
@@ -781,6 +675,13 @@ export const useDiagramStore = create<DiagramStore>()(
           onOnlineUsers: (users) => {
             set({ onlineUsers: users });
           },
+          onNodeLocks: (locks) => {
+            set({ nodeLocks: locks });
+          },
+          onNodeLockRequested: ({ nodeId, userId, userName }) => {
+            if (heldNodeLock?.nodeId !== nodeId) return;
+            set({ nodeEditRequest: { nodeId, userId, userName, receivedAt: new Date().toISOString() } });
+          },
           onConnectionStatusChange: ({ connected, reconnecting, attempts }) => {
             const wasReconnecting = get().isReconnecting;
             const wasConnected = get().isWebSocketConnected;
@@ -788,24 +689,34 @@ export const useDiagramStore = create<DiagramStore>()(
               isWebSocketConnected: connected,
               isReconnecting: reconnecting,
               reconnectAttempts: attempts,
-              ...(connected ? {} : { onlineUsers: [], userCursors: new Map() }),
+              ...(connected ? {} : { onlineUsers: [], userCursors: new Map(), nodeLocks: [] }),
             });
             if (!connected && !reconnecting && attempts >= 5) {
               console.warn('[DiagramStore] WebSocket reconnect exhausted, consider manual refresh');
             }
-            if (connected && (wasReconnecting || (!wasConnected && attempts > 0))) {
-              const {
-                currentProjectId,
-                currentDiagramDbId,
-                wsUserId,
-                wsUserName,
-                isSyncing,
-              } = get();
+            const isReconnected = connected && (wasReconnecting || (!wasConnected && attempts > 0));
+            if (isReconnected) {
+              const { currentProjectId, wsUserId, wsUserName } = get();
               if (currentProjectId && wsUserId && wsUserName) {
                 websocketService.joinProject(currentProjectId, wsUserId, wsUserName);
               }
+              // 切断中に見逃したコメントを取り直す
+              void get().loadComments();
+              // 切断時にサーバー側で解放された編集ロックを取り直す
+              const lock = heldNodeLock;
+              if (lock && lock.projectId === currentProjectId) {
+                void websocketService
+                  .acquireNodeLock(lock.projectId, lock.nodeId, get().currentDiagramId)
+                  .then(({ granted }) => {
+                    if (!granted) console.warn('[DiagramStore] Node lock was taken while disconnected:', lock.nodeId);
+                  });
+              }
+            }
+            if (connected && (isReconnected || !crdtSession?.synced)) {
+              const { currentProjectId, isSyncing } = get();
               if (currentProjectId && !isSyncing) {
-                get().reloadDiagramFromDB(currentProjectId, currentDiagramDbId || undefined);
+                // 切断中の変更をサーバーのドキュメントと差分で交換する
+                get().catchUpRemoteOperations();
               }
             }
           },
@@ -819,73 +730,30 @@ export const useDiagramStore = create<DiagramStore>()(
               get().reloadDiagramFromDB(projectId, diagramId);
             }
           },
-          onCommentAdded: ({ nodeId, comment, diagramId }) => {
-            const state = get();
-            if (state.currentDiagramId === diagramId) {
-              if (!state.nodes.find((n) => n.id === nodeId)) return;
-              set({
-                nodes: state.nodes.map((node) =>
-                  node.id === nodeId
-                    ? { ...node, comments: [...(node.comments || []), comment] }
-                    : node
-                ),
-              });
-              return;
-            }
-
-            const targetModule = state.modules[diagramId];
-            if (!targetModule) return;
-            if (!targetModule.nodes.find((n) => n.id === nodeId)) return;
-            set({
-              modules: {
-                ...state.modules,
-                [diagramId]: {
-                  ...targetModule,
-                  nodes: targetModule.nodes.map((node) =>
-                    node.id === nodeId
-                      ? { ...node, comments: [...(node.comments || []), comment] }
-                      : node
-                  ),
-                },
-              },
-            });
+          onCommentAdded: ({ diagramId, comment }) => {
+            if (get().currentDiagramDbId !== diagramId) return;
+            set((state) => ({ comments: upsertComment(state.comments, comment) }));
           },
-          onCommentDeleted: ({ nodeId, commentId, diagramId }) => {
+          onCommentUpdated: ({ diagramId, comment }) => {
+            if (get().currentDiagramDbId !== diagramId) return;
+            set((state) => ({ comments: upsertComment(state.comments, comment) }));
+          },
+          onCommentDeleted: ({ diagramId, commentId }) => {
+            if (get().currentDiagramDbId !== diagramId) return;
+            set((state) => ({ comments: removeCommentThread(state.comments, commentId) }));
+          },
+          onDiagramFrozen: ({ diagramId, ...freeze }) => {
             const state = get();
-            if (state.currentDiagramId === diagramId) {
-              if (!state.nodes.find((n) => n.id === nodeId)) return;
-              set({
-                nodes: state.nodes.map((node) =>
-                  node.id === nodeId
-                    ? {
-                        ...node,
-                        comments: (node.comments || []).filter((c) => c.id !== commentId),
-                      }
-                    : node
-                ),
-              });
-              return;
+            if (state.currentDiagramDbId !== diagramId) return;
+            useDiagramFreezeStore.getState().setFreeze(toDiagramFreeze({ id: diagramId, ...freeze }));
+            // 凍結前の未保存の変更はサーバーに受け付けられないため、サーバーの内容に戻す
+            if (freeze.frozenAt && state.hasLocalChanges && state.currentProjectId && !state.isSyncing) {
+              void get().reloadDiagramFromDB(state.currentProjectId, diagramId);
             }
-
-            const targetModule = state.modules[diagramId];
-            if (!targetModule) return;
-            if (!targetModule.nodes.find((n) => n.id === nodeId)) return;
-            set({
-              modules: {
-                ...state.modules,
-                [diagramId]: {
-                  ...targetModule,
-                  nodes: targetModule.nodes.map((node) =>
-                    node.id === nodeId
-                      ? {
-                          ...node,
-                          comments: (node.comments || []).filter((c) => c.id !== commentId),
-                        }
-                      : node
-                  ),
-                },
-              },
-            });
+          },
+          onProjectRoleChanged: ({ projectId, role }) => {
+            if (get().currentProjectId !== projectId) return;
+            get().setProjectRole(role);
           },
           onSurveyResponseCreated: ({ projectId, surveyId, timestamp }) => {
             const state = get();
@@ -898,6 +766,45 @@ export const useDiagramStore = create<DiagramStore>()(
               },
             });
           },
+          onNotification: (notification) => {
+            useNotificationStore.getState().receiveNotification(notification);
+
+            // 表示中のプロジェクトでロールが変わった場合は権限を反映し、サーバー側の権限も取り直す
+            const { currentProjectId, wsUserId, wsUserName } = get();
+            if (notification.type !== 'role_changed' || notification.projectId !== currentProjectId) return;
+            const role = notification.data.role;
+            if (role === 'owner' || role === 'editor' || role === 'viewer') {
+              get().setProjectRole(role);
+            }
+            if (currentProjectId && wsUserId && wsUserName) {
+              websocketService.leaveProject(currentProjectId);
+              websocketService.joinProject(currentProjectId, wsUserId, wsUserName);
+              // 退出時にサーバー側で解放された編集ロックは、編集権限が残っていれば取り直す
+              const lock = heldNodeLock;
+              if (lock && lock.projectId === currentProjectId) {
+                if (canEditProject(get().projectRole)) {
+                  void websocketService.acquireNodeLock(lock.projectId, lock.nodeId, get().currentDiagramId);
+                } else {
+                  clearHeldNodeLock();
+                }
+              }
+            }
+          },
+          onOperationSequenced: ({ dbDiagramId, seq, version }) => {
+            const state = get();
+            if (state.currentDiagramDbId !== dbDiagramId) return;
+            set({
+              diagramOpSeq: Math.max(state.diagramOpSeq ?? 0, seq),
+              diagramDbVersion: Math.max(state.diagramDbVersion ?? 0, version),
+            });
+          },
+          onError: ({ event, message }) => {
+            // 権限のない操作はサーバー側で破棄されるため、DBの内容に合わせる
+            console.warn(`[WebSocket] ${event} rejected: ${message}`);
+            if (event !== 'join_project' && event !== 'cursor_moved' && !event.startsWith('node_lock_')) {
+              set({ remoteOutOfSync: true });
+            }
+          },
         });
 
         // プロジェクトに参加している場合は自動join
@@ -912,6 +819,8 @@ export const useDiagramStore = create<DiagramStore>()(
       },
 
       disconnectWebSocket: () => {
+        stopCrdtSession();
+        clearHeldNodeLock();
         websocketService.disconnect();
         set({
           isWebSocketConnected: false,
@@ -922,6 +831,8 @@ export const useDiagramStore = create<DiagramStore>()(
           projectRole: null,
           onlineUsers: [],
           userCursors: new Map(),
+          nodeLocks: [],
+          nodeEditRequest: null,
           surveyResponseEvent: null,
         });
       },
@@ -929,19 +840,23 @@ export const useDiagramStore = create<DiagramStore>()(
       // Actions
       loadDiagramFromDB: async (projectId: string, diagramId?: string) => {
         try {
+          stopCrdtSession();
           set({ isSyncing: true });
 
           const loadAndApplyProjectData = async (targetDiagramId: string) => {
             const diagram = await diagramsApi.getDiagram(projectId, targetDiagramId);
             const projectData = normalizeProjectData(diagram.data, diagram.title);
+            syncedBaseData = projectData;
             const activeDiagram =
               projectData.modules[projectData.currentDiagramId] ||
               projectData.modules.root ||
               createEmptyDiagramData(diagram.title);
 
+            useDiagramFreezeStore.getState().setFreeze(toDiagramFreeze(diagram));
             set({
               currentDiagramDbId: diagram.id,
               diagramDbVersion: diagram.version,
+              diagramOpSeq: diagram.opSeq ?? null,
               title: activeDiagram.title,
               nodes: activeDiagram.nodes || [],
               links: activeDiagram.links || [],
@@ -955,6 +870,7 @@ export const useDiagramStore = create<DiagramStore>()(
               hasLocalChanges: false,
               remoteOutOfSync: false,
             });
+            void get().catchUpRemoteOperations();
           };
 
           if (diagramId) {
@@ -970,9 +886,11 @@ export const useDiagramStore = create<DiagramStore>()(
 
           const emptyProjectData = normalizeProjectData(null, 'ルート');
           const rootDiagram = emptyProjectData.modules[emptyProjectData.currentDiagramId];
+          useDiagramFreezeStore.getState().setFreeze(null);
           set({
             currentDiagramDbId: null,
             diagramDbVersion: null,
+            diagramOpSeq: null,
             title: rootDiagram?.title || 'ルート',
             nodes: rootDiagram?.nodes || [],
             links: rootDiagram?.links || [],
@@ -1024,6 +942,7 @@ export const useDiagramStore = create<DiagramStore>()(
 
       reloadDiagramFromDB: async (projectId: string, diagramId?: string) => {
         try {
+          stopCrdtSession();
           set({ isSyncing: true });
 
           const targetDiagramId = diagramId || get().currentDiagramDbId;
@@ -1034,6 +953,7 @@ export const useDiagramStore = create<DiagramStore>()(
 
           const diagram = await diagramsApi.getDiagram(projectId, targetDiagramId);
           const projectData = normalizeProjectData(diagram.data, diagram.title);
+          syncedBaseData = projectData;
 
           const state = get();
           const currentId = state.currentDiagramId;
@@ -1046,9 +966,11 @@ export const useDiagramStore = create<DiagramStore>()(
           const nextDiagramId =
             projectData.modules[currentId] ? currentId : projectData.currentDiagramId;
 
+          useDiagramFreezeStore.getState().setFreeze(toDiagramFreeze(diagram));
           set({
             currentDiagramDbId: diagram.id,
             diagramDbVersion: diagram.version,
+            diagramOpSeq: diagram.opSeq ?? null,
             title: activeDiagram.title,
             nodes: activeDiagram.nodes || [],
             links: activeDiagram.links || [],
@@ -1061,7 +983,9 @@ export const useDiagramStore = create<DiagramStore>()(
             isSyncing: false,
             hasLocalChanges: false,
             remoteOutOfSync: false,
+            saveConflict: null,
           });
+          void get().catchUpRemoteOperations();
         } catch (error) {
           console.error('Failed to reload diagram from DB:', error);
           set({ isSyncing: false });
@@ -1072,6 +996,8 @@ export const useDiagramStore = create<DiagramStore>()(
         const state = get();
         if (!state.currentProjectId || !state.currentDiagramDbId) return;
         if (state.isSyncing) return;
+        // リアルタイム同期中は CRDT の更新で最新に保たれる
+        if (crdtSession?.synced && websocketService.isConnected()) return;
 
         try {
           const diagram = await diagramsApi.getDiagram(
@@ -1094,12 +1020,92 @@ export const useDiagramStore = create<DiagramStore>()(
         }
       },
 
+      catchUpRemoteOperations: async () => {
+        const { currentProjectId, currentDiagramDbId } = get();
+        if (!currentProjectId || !currentDiagramDbId) return;
+
+        if (!crdtSession || crdtSession.dbDiagramId !== currentDiagramDbId) {
+          startCrdtSession(currentDiagramDbId);
+        }
+        const session = crdtSession!;
+        flushCrdtChanges();
+
+        const result = await websocketService.requestCrdtSync(
+          currentProjectId,
+          currentDiagramDbId,
+          session.encodeStateVector()
+        );
+
+        // 取得中にプロジェクト・ダイアグラムが切り替わった場合は破棄
+        const latest = get();
+        if (
+          crdtSession !== session ||
+          latest.currentProjectId !== currentProjectId ||
+          latest.currentDiagramDbId !== currentDiagramDbId
+        ) {
+          return;
+        }
+        if (!result) {
+          // リアルタイム同期できない間は従来どおりの保存・ポーリングで動く
+          return;
+        }
+
+        const wasSynced = session.synced;
+        flushCrdtChanges();
+        session.applyRemoteUpdate(result.update);
+        session.synced = true;
+
+        if (!wasSynced) {
+          const current = get();
+          const remote = session.read(current.modules);
+          if (current.hasLocalChanges && remote && syncedBaseData) {
+            // 読み込み後・同期前の変更は、サーバーの内容と3方向マージしてから書き込む
+            const { merged } = mergeProjectData(syncedBaseData, buildProjectDataFromState(current), {
+              ...syncedBaseData,
+              modules: remote.modules,
+              labelCounters: remote.labelCounters ?? current.labelCounters,
+            });
+            applyProjectToStore(merged.modules, merged.labelCounters);
+            flushCrdtChanges();
+          } else {
+            applyRemoteCrdtState();
+          }
+        }
+
+        // サーバーにない変更（切断中の編集など）を送る
+        websocketService.emitCrdtUpdate(
+          currentProjectId,
+          currentDiagramDbId,
+          session.encodeDiff(result.stateVector)
+        );
+        set({
+          diagramOpSeq: Math.max(get().diagramOpSeq ?? 0, result.seq),
+          diagramDbVersion: Math.max(get().diagramDbVersion ?? 0, result.version),
+          lastSyncedAt: new Date().toISOString(),
+        });
+      },
+
       saveDiagramToDB: async () => {
         const state = get();
         if (!state.currentProjectId) {
           console.warn('No current project, skipping DB save');
           return;
         }
+        if (state.saveConflict) {
+          // 競合の解決を待つ（他ユーザーの変更を上書きしない）
+          return;
+        }
+        if (
+          crdtSession?.synced &&
+          crdtSession.dbDiagramId === state.currentDiagramDbId &&
+          websocketService.isConnected()
+        ) {
+          // リアルタイム同期中はサーバーが CRDT の更新から保存する
+          flushCrdtChanges();
+          syncedBaseData = buildProjectDataFromState(state);
+          set({ hasLocalChanges: false, lastSyncedAt: new Date().toISOString() });
+          return;
+        }
 
         try {
           set({ isSyncing: true });
@@ -1118,9 +1124,16 @@ export const useDiagramStore = create<DiagramStore>()(
               {
                 title: rootTitle,
                 data: projectData,
+                baseVersion: state.diagramDbVersion,
               }
             );
-            set({ diagramDbVersion: updated.version, hasLocalChanges: false, remoteOutOfSync: false });
+            syncedBaseData = projectData;
+            set({
+              diagramDbVersion: updated.version,
+              diagramOpSeq: updated.opSeq ?? null,
+              hasLocalChanges: false,
+              remoteOutOfSync: false,
+            });
           } else {
             // 新規作成
             const created = await diagramsApi.createDiagram(
@@ -1130,9 +1143,11 @@ export const useDiagramStore = create<DiagramStore>()(
                 data: projectData,
               }
             );
+            syncedBaseData = projectData;
             set({
               currentDiagramDbId: created.id,
               diagramDbVersion: created.version,
+              diagramOpSeq: created.opSeq ?? null,
               hasLocalChanges: false,
               remoteOutOfSync: false,
             });
@@ -1142,13 +1157,79 @@ export const useDiagramStore = create<DiagramStore>()(
             lastSyncedAt: new Date().toISOString(),
             isSyncing: false,
           });
+          if (!state.currentDiagramDbId) {
+            void get().catchUpRemoteOperations();
+          }
         } catch (error) {
+          if (error instanceof DiagramConflictError) {
+            console.warn('Diagram save conflict detected');
+            set({
+              isSyncing: false,
+              saveConflict: {
+                serverDiagram: error.serverDiagram,
+                detectedAt: new Date().toISOString(),
+              },
+            });
+            return;
+          }
           console.error('Failed to save diagram to DB:', error);
           set({ isSyncing: false });
           // LocalStorageには常に保存（フォールバック）
         }
       },
 
+      resolveSaveConflict: async (choice) => {
+        const state = get();
+        const conflict = state.saveConflict;
+        if (!conflict || !state.currentProjectId) return;
+
+        const serverDiagram = conflict.serverDiagram;
+
+        if (choice === 'discard') {
+          // 自分の変更を破棄してサーバーの内容を読み込む
+          set({ saveConflict: null, hasLocalChanges: false });
+          await get().reloadDiagramFromDB(state.currentProjectId, serverDiagram.id);
+          return;
+        }
+
+        if (choice === 'merge') {
+          const remoteData = normalizeProjectData(serverDiagram.data, serverDiagram.title);
+          const { merged, conflicts } = mergeProjectData(
+            syncedBaseData,
+            buildProjectDataFromState(state),
+            remoteData,
+          );
+          if (conflicts.length > 0) {
+            console.warn(`[DiagramStore] ${conflicts.length} conflicting elements kept from local copy`);
+          }
+
+          const nextDiagramId = merged.modules[state.currentDiagramId]
+            ? state.currentDiagramId
+            : merged.currentDiagramId;
+          const activeDiagram = merged.modules[nextDiagramId] || createEmptyDiagramData(state.title);
+          syncedBaseData = remoteData;
+          set({
+            title: activeDiagram.title,
+            nodes: activeDiagram.nodes || [],
+            links: activeDiagram.links || [],
+            currentDiagramId: nextDiagramId,
+            modules: merged.modules,
+            labelCounters: merged.labelCounters,
+          });
+        } else {
+          syncedBaseData = normalizeProjectData(serverDiagram.data, serverDiagram.title);
+        }
+
+        // サーバーの最新バージョンを基準に保存し直す
+        set({
+          saveConflict: null,
+          diagramDbVersion: serverDiagram.version,
+          diagramOpSeq: serverDiagram.opSeq ?? get().diagramOpSeq,
+          hasLocalChanges: true,
+        });
+        await get().saveDiagramToDB();
+      },
+
       createDiagramInDB: async (title: string) => {
         const state = get();
         if (!state.currentProjectId) {
@@ -1181,6 +1262,7 @@ export const useDiagramStore = create<DiagramStore>()(
           set({
             currentDiagramDbId: created.id,
             diagramDbVersion: created.version,
+            diagramOpSeq: created.opSeq ?? null,
             title: created.title,
             nodes: rootDiagram.nodes,
             links: rootDiagram.links,
@@ -1194,6 +1276,7 @@ export const useDiagramStore = create<DiagramStore>()(
             hasLocalChanges: false,
             remoteOutOfSync: false,
           });
+          void get().catchUpRemoteOperations();
         } catch (error) {
           console.error('Failed to create diagram in DB:', error);
           set({ isSyncing: false });
@@ -1244,6 +1327,8 @@ export const useDiagramStore = create<DiagramStore>()(
           // 現在の状態を更新
           set({
             currentDiagramDbId: created.id,
+            diagramDbVersion: created.version,
+            diagramOpSeq: created.opSeq ?? null,
             title: activeDiagram.title,
             nodes: activeDiagram.nodes,
             links: activeDiagram.links,
@@ -1253,6 +1338,7 @@ export const useDiagramStore = create<DiagramStore>()(
             lastSyncedAt: new Date().toISOString(),
             isSyncing: false,
           });
+          void get().catchUpRemoteOperations();
 
           // 移行成功後、LocalStorageのデータを削除（オプション）
           // localStorage.removeItem(storageKey);
@@ -1345,11 +1431,13 @@ export const useDiagramStore = create<DiagramStore>()(
           }
         } else {
           // プロジェクトなし（nullに戻す）
+          useDiagramFreezeStore.getState().setFreeze(null);
           set({
             currentProjectId: null,
             currentDiagramDbId: null,
             projectRole: null,
             diagramDbVersion: null,
+            diagramOpSeq: null,
             hasLocalChanges: false,
             remoteOutOfSync: false,
             title: 'ルート',
@@ -1435,10 +1523,6 @@ export const useDiagramStore = create<DiagramStore>()(
             },
           });
 
-          const projectId = state.currentProjectId;
-          if (projectId && websocketService.isConnected()) {
-            websocketService.emitModuleCreated(projectId, moduleId, moduleData, state.currentDiagramId);
-          }
         } else {
           set((state) => ({
             nodes: [...state.nodes, newNode],
@@ -1454,23 +1538,19 @@ export const useDiagramStore = create<DiagramStore>()(
           }));
         }
 
-        // WebSocketでブロードキャスト
-        const projectId = state.currentProjectId;
-        const diagramId = state.currentDiagramId;
-        if (projectId && websocketService.isConnected()) {
-          websocketService.emitNodeCreated(projectId, newNode, diagramId);
-        }
-
         // DB保存をデバウンス
         debouncedSaveToDB(() => get().saveDiagramToDB());
         debouncedAutoRenumber(get, set);
       },
 
-      updateNode: (id, updates) => {
+      updateNode: (id, updates, options) => {
         if (!canEditProject(get().projectRole)) {
           return;
         }
         saveToHistory(get, set);
+        if (options?.baseContent !== undefined && updates.content !== undefined && !pendingTextBases.has(id)) {
+          pendingTextBases.set(id, options.baseContent);
+        }
         const state = get();
         const updatedNode = state.nodes.find(n => n.id === id);
 
@@ -1497,21 +1577,59 @@ export const useDiagramStore = create<DiagramStore>()(
           }));
         }
 
-        // WebSocketでブロードキャスト
-        const projectId = get().currentProjectId;
-        if (projectId && websocketService.isConnected() && updatedNode) {
-          websocketService.emitNodeUpdated(projectId, { ...updatedNode, ...updates }, get().currentDiagramId);
+        // DB保存をデバウンス
+        debouncedSaveToDB(() => get().saveDiagramToDB());
+      },
+
+      changeNodeTypes: (ids, type) => {
+        if (!canEditProject(get().projectRole) || type === 'Module') {
+          return;
         }
+        // モジュールはモジュール以外にしない
+        const targetIds = new Set(
+          get()
+            .nodes.filter((node) => ids.includes(node.id) && node.type !== type && node.type !== 'Module')
+            .map((node) => node.id)
+        );
+        if (targetIds.size === 0) return;
+
+        saveToHistory(get, set);
+        const state = get();
+        let counter = state.labelCounters[type];
+        const linkType = linkTypeFor(type);
+        set({
+          nodes: state.nodes.map((node) => {
+            if (!targetIds.has(node.id)) return node;
+            counter += 1;
+            return {
+              ...node,
+              type,
+              label: `${getLabelPrefix(type)}${counter}`,
+              style: { ...node.style, fillColor: NODE_COLORS[type] },
+            };
+          }),
+          // 親からのリンクを新しい種類に合わせて実線・破線にする
+          links: state.links.map((link) =>
+            targetIds.has(link.target) && link.type !== linkType ? { ...link, type: linkType } : link
+          ),
+          labelCounters: {
+            ...state.labelCounters,
+            [type]: counter,
+          },
+        });
 
         // DB保存をデバウンス
         debouncedSaveToDB(() => get().saveDiagramToDB());
+        debouncedAutoRenumber(get, set);
       },
 
-      deleteNode: (id) => {
+      deleteNode: (id, options) => {
         if (!canEditProject(get().projectRole)) {
           return;
         }
-        saveToHistory(get, set);
+        if (!options?.skipHistory) {
+          saveToHistory(get, set);
+        }
         set((state) => ({
           nodes: state.nodes.filter((node) => node.id !== id),
           links: state.links.filter((link) => link.source !== id && link.target !== id),
@@ -1521,12 +1639,6 @@ export const useDiagramStore = create<DiagramStore>()(
           },
         }));
 
-        // WebSocketでブロードキャスト
-        const projectId = get().currentProjectId;
-        if (projectId && websocketService.isConnected()) {
-          websocketService.emitNodeDeleted(projectId, id, get().currentDiagramId);
-        }
-
         // DB保存をデバウンス
         debouncedSaveToDB(() => get().saveDiagramToDB());
         debouncedAutoRenumber(get, set);
@@ -1544,12 +1656,6 @@ export const useDiagramStore = create<DiagramStore>()(
           hasLocalChanges: true,
         }));
 
-        // WebSocketでブロードキャスト
-        const projectId = get().currentProjectId;
-        if (projectId && websocketService.isConnected()) {
-          websocketService.emitNodeMoved(projectId, id, { x, y }, get().currentDiagramId);
-        }
-
         // DB保存をデバウンス
         debouncedSaveToDB(() => get().saveDiagramToDB());
         debouncedAutoRenumber(get, set);
@@ -1557,7 +1663,7 @@ export const useDiagramStore = create<DiagramStore>()(
 
       addLink: (sourceId, targetId, type) => {
         if (!canEditProject(get().projectRole)) {
-          return;
+          return null;
         }
         // Check if link already exists
         const existingLink = get().links.find(
@@ -1566,7 +1672,17 @@ export const useDiagramStore = create<DiagramStore>()(
 
         if (existingLink) {
           console.warn('Link already exists');
-          return;
+          return null;
+        }
+
+        // プロジェクトの設定でリンク作成時に強制している接続規則に違反するリンクは作らない
+        const source = get().nodes.find((node) => node.id === sourceId);
+        const target = get().nodes.find((node) => node.id === targetId);
+        if (source && target) {
+          const violation = checkNewLink({ source, target, type }, useValidationSettingsStore.getState().overrides);
+          if (violation) {
+            return violation;
+          }
         }
 
         saveToHistory(get, set);
@@ -1586,14 +1702,9 @@ export const useDiagramStore = create<DiagramStore>()(
           links: [...state.links, newLink],
         }));
 
-        // WebSocketでブロードキャスト
-        const projectId = get().currentProjectId;
-        if (projectId && websocketService.isConnected()) {
-          websocketService.emitLinkCreated(projectId, newLink, get().currentDiagramId);
-        }
-
         // DB保存をデバウンス
         debouncedSaveToDB(() => get().saveDiagramToDB());
+        return null;
       },
 
       updateLink: (id, updates, options) => {
@@ -1634,33 +1745,86 @@ export const useDiagramStore = create<DiagramStore>()(
           });
         }
 
-        const projectId = state.currentProjectId;
-        if (projectId && websocketService.isConnected()) {
-          websocketService.emitLinkUpdated(projectId, updatedLink, state.currentDiagramId);
-        }
-
         debouncedSaveToDB(() => get().saveDiagramToDB());
       },
 
-      deleteLink: (id) => {
+      deleteLink: (id, options) => {
         if (!canEditProject(get().projectRole)) {
           return;
         }
-        saveToHistory(get, set);
+        if (!options?.skipHistory) {
+          saveToHistory(get, set);
+        }
         set((state) => ({
           links: state.links.filter((link) => link.id !== id),
         }));
 
-        // WebSocketでブロードキャスト
-        const projectId = get().currentProjectId;
-        if (projectId && websocketService.isConnected()) {
-          websocketService.emitLinkDeleted(projectId, id, get().currentDiagramId);
-        }
-
         // DB保存をデバウンス
         debouncedSaveToDB(() => get().saveDiagramToDB());
       },
 
+      applyValidationFix: (fix) => {
+        if (!canEditProject(get().projectRole)) {
+          return;
+        }
+        // 修正全体を1回の Undo で戻せるよう、履歴は最初に1回だけ保存する
+        saveToHistory(get, set);
+        const addedIds: Record<string, string> = {};
+        const resolveId = (id: string) => addedIds[id] ?? id;
+
+        for (const operation of fix.operations) {
+          switch (operation.kind) {
+            case 'addNode': {
+              const id = generateId();
+              addedIds[operation.ref] = id;
+              get().addNodeDirect({
+                id,
+                type: operation.type,
+                position: { ...operation.position },
+                size: { ...DEFAULT_NODE_SIZE },
+                content: operation.content ?? '',
+                label: get().generateLabel(operation.type),
+                style: {
+                  fillColor: NODE_COLORS[operation.type],
+                  borderColor: '#374151',
+                  borderWidth: 2,
+                },
+              });
+              break;
+            }
+            case 'addLink':
+              get().addLinkDirect({
+                id: generateLinkId(),
+                source: resolveId(operation.source),
+                target: resolveId(operation.target),
+                type: operation.type,
+                style: {
+                  color: '#1F2937',
+                  width: 2,
+                  curve: 'straight',
+                },
+              });
+              break;
+            case 'updateLink':
+              get().updateLink(
+                operation.linkId,
+                {
+                  ...(operation.source ? { source: resolveId(operation.source) } : {}),
+                  ...(operation.type ? { type: operation.type } : {}),
+                },
+                { skipHistory: true }
+              );
+              break;
+            case 'deleteNode':
+              get().deleteNode(resolveId(operation.nodeId), { skipHistory: true });
+              break;
+            case 'deleteLink':
+              get().deleteLink(operation.linkId, { skipHistory: true });
+              break;
+          }
+        }
+      },
+
       setCanvasMode: (mode) => {
         if (!canEditProject(get().projectRole) && mode !== 'select') {
           return;
@@ -1745,9 +1909,6 @@ export const useDiagramStore = create<DiagramStore>()(
 
         saveToHistory(get, set);
         const selectedIds = new Set(state.canvasState.selectedNodes);
-        const removedLinks = state.links.filter(
-          (l) => selectedIds.has(l.source) || selectedIds.has(l.target)
-        );
 
         set({
           nodes: state.nodes.filter(n => !selectedIds.has(n.id)),
@@ -1758,16 +1919,6 @@ export const useDiagramStore = create<DiagramStore>()(
           },
         });
 
-        const projectId = state.currentProjectId;
-        if (projectId && websocketService.isConnected()) {
-          state.canvasState.selectedNodes.forEach((nodeId) => {
-            websocketService.emitNodeDeleted(projectId, nodeId, state.currentDiagramId);
-          });
-          removedLinks.forEach((link) => {
-            websocketService.emitLinkDeleted(projectId, link.id, state.currentDiagramId);
-          });
-        }
-
         debouncedAutoRenumber(get, set);
       },
 
@@ -1789,18 +1940,6 @@ export const useDiagramStore = create<DiagramStore>()(
           hasLocalChanges: true,
         });
 
-        // WebSocketでブロードキャスト（各ノードの移動を通知）
-        const projectId = get().currentProjectId;
-        if (projectId && websocketService.isConnected()) {
-          state.canvasState.selectedNodes.forEach(nodeId => {
-            const node = state.nodes.find(n => n.id === nodeId);
-            if (node) {
-              const newPosition = { x: node.position.x + dx, y: node.position.y + dy };
-              websocketService.emitNodeMoved(projectId, nodeId, newPosition, get().currentDiagramId);
-            }
-          });
-        }
-
         // DB保存をデバウンス
         debouncedSaveToDB(() => get().saveDiagramToDB());
         debouncedAutoRenumber(get, set);
@@ -1886,16 +2025,6 @@ export const useDiagramStore = create<DiagramStore>()(
           },
         });
 
-        const projectId = state.currentProjectId;
-        if (projectId && websocketService.isConnected()) {
-          newNodes.forEach((node) => {
-            websocketService.emitNodeCreated(projectId, node, state.currentDiagramId);
-          });
-          newLinks.forEach((link) => {
-            websocketService.emitLinkCreated(projectId, link, state.currentDiagramId);
-          });
-        }
-
         debouncedAutoRenumber(get, set);
       },
 
@@ -2159,38 +2288,6 @@ export const useDiagramStore = create<DiagramStore>()(
           },
         });
 
-        // WebSocketでブロードキャスト
-        const projectId = state.currentProjectId;
-        const currentDiagramId = state.currentDiagramId;
-        console.log('[convertToModule] Broadcasting:', { projectId, isConnected: websocketService.isConnected(), currentDiagramId });
-        if (projectId && websocketService.isConnected()) {
-          // 1. サブツリーのノードを削除
-          subtreeNodes.forEach(node => {
-            websocketService.emitNodeDeleted(projectId, node.id, currentDiagramId);
-          });
-
-          // 2. サブツリーのリンクを削除
-          subtreeLinks.forEach(link => {
-            websocketService.emitLinkDeleted(projectId, link.id, currentDiagramId);
-          });
-
-          // 3. 親リンクを削除
-          parentLinks.forEach(link => {
-            websocketService.emitLinkDeleted(projectId, link.id, currentDiagramId);
-          });
-
-          // 4. Moduleノードを作成
-          websocketService.emitNodeCreated(projectId, moduleNode, currentDiagramId);
-
-          // 5. 新しいリンクを作成
-          newLinks.forEach(link => {
-            websocketService.emitLinkCreated(projectId, link, currentDiagramId);
-          });
-
-          // 6. モジュールデータを作成（カスタムイベント）
-          websocketService.emitModuleCreated(projectId, moduleId, moduleData, currentDiagramId);
-        }
-
         // DB保存をデバウンス
         debouncedSaveToDB(() => get().saveDiagramToDB());
       },
@@ -2280,9 +2377,6 @@ export const useDiagramStore = create<DiagramStore>()(
           }
           return node;
         });
-        const updatedModuleNode = updatedParentNodes.find(
-          (node) => node.type === 'Module' && node.moduleId === state.currentDiagramId,
-        );
 
         // 親に切り替え
         set({
@@ -2296,11 +2390,6 @@ export const useDiagramStore = create<DiagramStore>()(
           },
           canvasState: DEFAULT_CANVAS_STATE,
         });
-
-        const projectId = state.currentProjectId;
-        if (projectId && websocketService.isConnected() && updatedModuleNode) {
-          websocketService.emitNodeUpdated(projectId, updatedModuleNode, parentId);
-        }
       },
 
       switchToDiagram: (diagramId) => {
@@ -2467,409 +2556,35 @@ export const useDiagramStore = create<DiagramStore>()(
           nodes: layoutedNodes,
         });
 
-        // WebSocketで各ノードの移動を他のユーザーにブロードキャスト
-        const projectId = state.currentProjectId;
-        if (projectId && websocketService.isConnected()) {
-          layoutedNodes.forEach((node) => {
-            websocketService.emitNodeMoved(projectId, node.id, node.position, get().currentDiagramId);
-          });
-        }
-
         debouncedAutoRenumber(get, set);
       },
 
       exportAsImage: (format) => {
         const state = get();
-
-        // ノードの境界を計算
-        const { nodes, links } = state;
-        if (nodes.length === 0) {
+        const image = buildDiagramSvg(state.nodes, state.links);
+        if (!image) {
           alert('エクスポートするノードがありません');
           return;
         }
 
-        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-        const LABEL_HEIGHT = 24; // ラベルの高さ
-        nodes.forEach(node => {
-          const left = node.position.x - node.size.width / 2;
-          const right = node.position.x + node.size.width / 2;
-          // ラベルがある場合はその高さも含める
-          const top = node.position.y - node.size.height / 2 - (node.label ? LABEL_HEIGHT : 0);
-          const bottom = node.position.y + node.size.height / 2;
-
-          minX = Math.min(minX, left);
-          maxX = Math.max(maxX, right);
-          minY = Math.min(minY, top);
-          maxY = Math.max(maxY, bottom);
-        });
-
-        // パディングを追加
-        const padding = 50;
-        minX -= padding;
-        minY -= padding;
-        maxX += padding;
-        maxY += padding;
-
-        const width = maxX - minX;
-        const height = maxY - minY;
-
-        // 新しいSVGを作成
-        const newSvg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
-        newSvg.setAttribute('width', width.toString());
-        newSvg.setAttribute('height', height.toString());
-        newSvg.setAttribute('viewBox', `0 0 ${width} ${height}`);
-        newSvg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
-
-        // 背景を追加
-        const bgRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-        bgRect.setAttribute('width', width.toString());
-        bgRect.setAttribute('height', height.toString());
-        bgRect.setAttribute('fill', '#FFFFFF');
-        newSvg.appendChild(bgRect);
-
-        // 矢印マーカーを追加
-        const defs = document.createElementNS('http://www.w3.org/2000/svg', 'defs');
-
-        // 通常の矢印
-        const marker = document.createElementNS('http://www.w3.org/2000/svg', 'marker');
-        marker.setAttribute('id', 'arrowhead');
-        marker.setAttribute('markerWidth', '10');
-        marker.setAttribute('markerHeight', '10');
-        marker.setAttribute('refX', '9');
-        marker.setAttribute('refY', '3');
-        marker.setAttribute('orient', 'auto');
-        const polygon1 = document.createElementNS('http://www.w3.org/2000/svg', 'polygon');
-        polygon1.setAttribute('points', '0 0, 10 3, 0 6');
-        polygon1.setAttribute('fill', '#1F2937');
-        marker.appendChild(polygon1);
-        defs.appendChild(marker);
-
-        // 白抜き矢印
-        const markerHollow = document.createElementNS('http://www.w3.org/2000/svg', 'marker');
-        markerHollow.setAttribute('id', 'arrowhead-hollow');
-        markerHollow.setAttribute('markerWidth', '10');
-        markerHollow.setAttribute('markerHeight', '10');
-        markerHollow.setAttribute('refX', '9');
-        markerHollow.setAttribute('refY', '3');
-        markerHollow.setAttribute('orient', 'auto');
-        const polygon2 = document.createElementNS('http://www.w3.org/2000/svg', 'polygon');
-        polygon2.setAttribute('points', '0 0, 10 3, 0 6');
-        polygon2.setAttribute('fill', 'white');
-        polygon2.setAttribute('stroke', '#1F2937');
-        polygon2.setAttribute('stroke-width', '1.5');
-        markerHollow.appendChild(polygon2);
-        defs.appendChild(markerHollow);
-
-        newSvg.appendChild(defs);
-
-        // グループ要素
-        const g = document.createElementNS('http://www.w3.org/2000/svg', 'g');
-        g.setAttribute('transform', `translate(${-minX}, ${-minY})`);
-
-        // リンクを描画（ノードの下に）
-        links.forEach(link => {
-          const sourceNode = nodes.find(n => n.id === link.source);
-          const targetNode = nodes.find(n => n.id === link.target);
-          if (!sourceNode || !targetNode) return;
-
-          const isInContextOf = ['Context', 'Assumption', 'Justification'].includes(targetNode.type);
-          const markerEnd = isInContextOf ? 'url(#arrowhead-hollow)' : 'url(#arrowhead)';
-          const verticalTargets = ['Goal', 'Strategy', 'Evidence', 'Undeveloped', 'Module'];
-          const shouldConnectVertically = verticalTargets.includes(targetNode.type);
-
-          let x1, y1, x2, y2;
-          if (shouldConnectVertically) {
-            const dy = targetNode.position.y - sourceNode.position.y;
-            if (dy > 0) {
-              x1 = sourceNode.position.x;
-              y1 = sourceNode.position.y + sourceNode.size.height / 2;
-              x2 = targetNode.position.x;
-              y2 = targetNode.position.y - targetNode.size.height / 2;
-            } else {
-              x1 = sourceNode.position.x;
-              y1 = sourceNode.position.y - sourceNode.size.height / 2;
-              x2 = targetNode.position.x;
-              y2 = targetNode.position.y + targetNode.size.height / 2;
-            }
-          } else {
-            const dx = targetNode.position.x - sourceNode.position.x;
-            if (dx > 0) {
-              x1 = sourceNode.position.x + sourceNode.size.width / 2;
-              y1 = sourceNode.position.y;
-              x2 = targetNode.position.x - targetNode.size.width / 2;
-              y2 = targetNode.position.y;
-            } else {
-              x1 = sourceNode.position.x - sourceNode.size.width / 2;
-              y1 = sourceNode.position.y;
-              x2 = targetNode.position.x + targetNode.size.width / 2;
-              y2 = targetNode.position.y;
-            }
-          }
-
-          const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
-          path.setAttribute('d', `M ${x1} ${y1} L ${x2} ${y2}`);
-          path.setAttribute('stroke', '#1F2937');
-          path.setAttribute('stroke-width', '2');
-          path.setAttribute('fill', 'none');
-          path.setAttribute('marker-end', markerEnd);
-          if (link.type === 'dashed') {
-            path.setAttribute('stroke-dasharray', '8 8');
-          }
-          g.appendChild(path);
-        });
-
-        // ノードを描画
-        nodes.forEach(node => {
-          const nodeG = document.createElementNS('http://www.w3.org/2000/svg', 'g');
-          nodeG.setAttribute('transform', `translate(${node.position.x}, ${node.position.y})`);
-
-          const { width: w, height: h } = node.size;
-          const color = NODE_COLORS[node.type] || '#FFFFFF';
-
-          // ノード形状を描画
-          let shape;
-          switch (node.type) {
-            case 'Goal':
-            case 'Undeveloped':
-              shape = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-              shape.setAttribute('x', (-w / 2).toString());
-              shape.setAttribute('y', (-h / 2).toString());
-              shape.setAttribute('width', w.toString());
-              shape.setAttribute('height', h.toString());
-              if (node.type === 'Undeveloped') {
-                shape.setAttribute('transform', 'rotate(45)');
-              }
-              break;
-            case 'Strategy':
-              shape = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-              shape.setAttribute('x', (-w / 2).toString());
-              shape.setAttribute('y', (-h / 2).toString());
-              shape.setAttribute('width', w.toString());
-              shape.setAttribute('height', h.toString());
-              shape.setAttribute('transform', 'skewX(-15)');
-              break;
-            case 'Context':
-              shape = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-              shape.setAttribute('x', (-w / 2).toString());
-              shape.setAttribute('y', (-h / 2).toString());
-              shape.setAttribute('width', w.toString());
-              shape.setAttribute('height', h.toString());
-              shape.setAttribute('rx', '10');
-              shape.setAttribute('ry', '10');
-              break;
-            case 'Evidence':
-            case 'Assumption':
-            case 'Justification':
-              shape = document.createElementNS('http://www.w3.org/2000/svg', 'ellipse');
-              shape.setAttribute('cx', '0');
-              shape.setAttribute('cy', '0');
-              shape.setAttribute('rx', (w / 2).toString());
-              shape.setAttribute('ry', (h / 2).toString());
-              break;
-            case 'Module': {
-              const tabWidth = 60;
-              const tabHeight = 20;
-              const pathData = `
-                M ${-w / 2} ${-h / 2 + tabHeight}
-                L ${-w / 2} ${-h / 2}
-                L ${-w / 2 + tabWidth} ${-h / 2}
-                L ${-w / 2 + tabWidth + 10} ${-h / 2 + tabHeight}
-                L ${w / 2} ${-h / 2 + tabHeight}
-                L ${w / 2} ${h / 2}
-                L ${-w / 2} ${h / 2}
-                Z
-              `;
-              shape = document.createElementNS('http://www.w3.org/2000/svg', 'path');
-              shape.setAttribute('d', pathData);
-              break;
-            }
-            default:
-              shape = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-              shape.setAttribute('x', (-w / 2).toString());
-              shape.setAttribute('y', (-h / 2).toString());
-              shape.setAttribute('width', w.toString());
-              shape.setAttribute('height', h.toString());
-          }
-
-          shape.setAttribute('fill', color);
-          shape.setAttribute('stroke', '#1F2937');
-          shape.setAttribute('stroke-width', '2');
-          nodeG.appendChild(shape);
-
-          // ラベル表示（左上）- Node.tsxと同じスタイル
-          if (node.label) {
-            const labelWidth = Math.max(40, node.label.length * 9);
-            const labelBg = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-            labelBg.setAttribute('x', (-w / 2).toString());
-            labelBg.setAttribute('y', (-h / 2 - 24).toString());
-            labelBg.setAttribute('width', labelWidth.toString());
-            labelBg.setAttribute('height', '20');
-            labelBg.setAttribute('fill', '#FFFFFF');
-            labelBg.setAttribute('stroke', '#D1D5DB');
-            labelBg.setAttribute('stroke-width', '1');
-            labelBg.setAttribute('rx', '4');
-            labelBg.setAttribute('ry', '4');
-            nodeG.appendChild(labelBg);
-
-            const labelText = document.createElementNS('http://www.w3.org/2000/svg', 'text');
-            labelText.setAttribute('x', (-w / 2 + labelWidth / 2).toString());
-            labelText.setAttribute('y', (-h / 2 - 9).toString());
-            labelText.setAttribute('fill', '#374151');
-            labelText.setAttribute('font-size', '13');
-            labelText.setAttribute('font-weight', '600');
-            labelText.setAttribute('text-anchor', 'middle');
-            labelText.textContent = node.label;
-            nodeG.appendChild(labelText);
-          }
-
-          // ノード内容を表示
-          if (node.content) {
-            // HTMLタグを除去してプレーンテキストに変換
-            const tempDiv = document.createElement('div');
-            tempDiv.innerHTML = node.content;
-            const plainText = tempDiv.textContent || tempDiv.innerText || '';
-
-            if (plainText.trim()) {
-              // パディングを考慮した利用可能幅
-              const padding = 10;
-              const topPadding = node.type === 'Module' ? 30 : 10;
-              const availableWidth = w - padding * 2;
-              const availableHeight = h - topPadding - padding;
-
-              // CJK文字判定関数
-              const isCJK = (char: string): boolean => {
-                const code = char.charCodeAt(0);
-                return (
-                  (code >= 0x3000 && code <= 0x9FFF) ||   // CJK統合漢字、ひらがな、カタカナ等
-                  (code >= 0xAC00 && code <= 0xD7AF) ||   // 韓国語
-                  (code >= 0xFF00 && code <= 0xFFEF)      // 全角英数
-                );
-              };
-
-              // 文字幅を考慮した折り返し
-              const fontSize = 14;
-              const halfWidthChar = fontSize * 0.6;  // 半角文字の幅
-              const fullWidthChar = fontSize;        // 全角文字の幅
-              const lineHeight = fontSize * 1.4;
-              const maxLines = Math.floor(availableHeight / lineHeight);
-
-              const lines: string[] = [];
-              let currentLine = '';
-              let currentWidth = 0;
-
-              for (const char of plainText) {
-                if (char === '\n') {
-                  if (currentLine) lines.push(currentLine);
-                  currentLine = '';
-                  currentWidth = 0;
-                } else {
-                  const charW = isCJK(char) ? fullWidthChar : halfWidthChar;
-                  if (currentWidth + charW > availableWidth && currentLine) {
-                    lines.push(currentLine);
-                    currentLine = char;
-                    currentWidth = charW;
-                  } else {
-                    currentLine += char;
-                    currentWidth += charW;
-                  }
-                }
-              }
-              if (currentLine) {
-                lines.push(currentLine);
-              }
-
-              // 表示する行数を制限
-              const displayLines = lines.slice(0, maxLines);
-              const totalHeight = displayLines.length * lineHeight;
-              const startY = -totalHeight / 2 + lineHeight / 2 + (node.type === 'Module' ? 10 : 0);
-
-              displayLines.forEach((line, index) => {
-                const text = document.createElementNS('http://www.w3.org/2000/svg', 'text');
-                text.setAttribute('x', '0');
-                text.setAttribute('y', (startY + index * lineHeight).toString());
-                text.setAttribute('fill', '#1F2937');
-                text.setAttribute('font-size', fontSize.toString());
-                text.setAttribute('font-family', 'system-ui, -apple-system, sans-serif');
-                text.setAttribute('text-anchor', 'middle');
-                text.setAttribute('dominant-baseline', 'middle');
-                text.textContent = line;
-                nodeG.appendChild(text);
-              });
-
-              // 省略記号（行数を超える場合）
-              if (lines.length > maxLines && displayLines.length > 0) {
-                const lastText = nodeG.lastChild as SVGTextElement;
-                if (lastText && lastText.textContent) {
-                  const lastLine = lastText.textContent;
-                  if (lastLine.length > 2) {
-                    lastText.textContent = lastLine.slice(0, -2) + '…';
-                  }
-                }
-              }
-            }
-          }
-
-          // Assumption/Justification添え字
-          if (node.type === 'Assumption' || node.type === 'Justification') {
-            const suffix = document.createElementNS('http://www.w3.org/2000/svg', 'text');
-            suffix.setAttribute('x', (w / 2 - 10).toString());
-            suffix.setAttribute('y', (h / 2 - 5).toString());
-            suffix.setAttribute('fill', node.type === 'Assumption' ? '#DC2626' : '#2563EB');
-            suffix.setAttribute('font-size', '16');
-            suffix.setAttribute('font-weight', 'bold');
-            suffix.setAttribute('text-anchor', 'middle');
-            suffix.textContent = node.type === 'Assumption' ? 'A' : 'J';
-            nodeG.appendChild(suffix);
-          }
-
-          g.appendChild(nodeG);
-        });
-
-        newSvg.appendChild(g);
-
-        if (format === 'svg') {
-          // SVGとしてエクスポート
-          const svgData = new XMLSerializer().serializeToString(newSvg);
-          const blob = new Blob([svgData], { type: 'image/svg+xml' });
+        const download = (blob: Blob, extension: string) => {
           const url = URL.createObjectURL(blob);
           const a = document.createElement('a');
           a.href = url;
-          a.download = `${state.title || 'gsn-diagram'}.svg`;
+          a.download = `${state.title || 'gsn-diagram'}.${extension}`;
           a.click();
           URL.revokeObjectURL(url);
+        };
+
+        if (format === 'svg') {
+          // SVGとしてエクスポート
+          const svgData = new XMLSerializer().serializeToString(image.svg);
+          download(new Blob([svgData], { type: 'image/svg+xml' }), 'svg');
         } else {
           // PNGとしてエクスポート
-          const svgData = new XMLSerializer().serializeToString(newSvg);
-          const canvas = document.createElement('canvas');
-          canvas.width = width * 2;
-          canvas.height = height * 2;
-          const ctx = canvas.getContext('2d');
-
-          if (!ctx) {
-            console.error('Canvas context not available');
-            return;
-          }
-
-          const img = new Image();
-          img.onload = () => {
-            ctx.scale(2, 2);
-            ctx.drawImage(img, 0, 0);
-
-            canvas.toBlob((blob) => {
-              if (blob) {
-                const url = URL.createObjectURL(blob);
-                const a = document.createElement('a');
-                a.href = url;
-                a.download = `${state.title || 'gsn-diagram'}.png`;
-                a.click();
-                URL.revokeObjectURL(url);
-              }
-            }, 'image/png');
-          };
-
-          const svgBlob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' });
-          const svgUrl = URL.createObjectURL(svgBlob);
-          img.src = svgUrl;
+          svgToPngBlob(image).then((blob) => {
+            if (blob) download(blob, 'png');
+          });
         }
       },
 
@@ -2893,71 +2608,59 @@ export const useDiagramStore = create<DiagramStore>()(
         debouncedSaveToDB(() => get().saveDiagramToDB());
       },
 
-      // コメント関連アクション
-      addComment: (nodeId, authorId, authorName, content) => {
-        if (!canEditProject(get().projectRole)) {
+      // コメント関連アクション（ダイアグラムとは別に保存し、他のユーザーにはサーバーから配信される）
+      loadComments: async () => {
+        const { currentProjectId, currentDiagramDbId } = get();
+        if (!currentProjectId || !currentDiagramDbId) {
+          set({ comments: [] });
           return;
         }
-        const now = new Date().toISOString();
-        const newComment: NodeComment = {
-          id: generateCommentId(),
-          authorId,
-          authorName,
-          content,
-          createdAt: now,
-          updatedAt: now,
-        };
 
-        set((state) => ({
-          nodes: state.nodes.map((node) =>
-            node.id === nodeId
-              ? { ...node, comments: [...(node.comments || []), newComment] }
-              : node
-          ),
-          hasLocalChanges: true,
-        }));
+        try {
+          const comments = await commentsApi.getAll(currentProjectId, currentDiagramDbId);
+          if (get().currentDiagramDbId !== currentDiagramDbId) return;
+          set({ comments });
+        } catch (error) {
+          console.error('Failed to load comments:', error);
+        }
+      },
 
-        const state = get();
-        const projectId = state.currentProjectId;
-        if (projectId && websocketService.isConnected()) {
-          websocketService.emitCommentAdded(
-            projectId,
-            nodeId,
-            newComment,
-            state.currentDiagramId
-          );
+      addComment: async (nodeId, body, parentId, mentions) => {
+        const { currentProjectId, currentDiagramDbId, projectRole } = get();
+        if (!canEditProject(projectRole) || !currentProjectId || !currentDiagramDbId) {
+          return;
         }
 
-        // DB保存をデバウンス
-        debouncedSaveToDB(() => get().saveDiagramToDB());
+        const comment = await commentsApi.create(currentProjectId, currentDiagramDbId, {
+          nodeId,
+          body,
+          parentId,
+          mentions,
+        });
+        if (get().currentDiagramDbId !== currentDiagramDbId) return;
+        set((state) => ({ comments: upsertComment(state.comments, comment) }));
       },
 
-      deleteComment: (nodeId, commentId) => {
-        if (!canEditProject(get().projectRole)) {
+      setCommentResolved: async (commentId, resolved) => {
+        const { currentProjectId, currentDiagramDbId, projectRole } = get();
+        if (!canEditProject(projectRole) || !currentProjectId || !currentDiagramDbId) {
           return;
         }
-        set((state) => ({
-          nodes: state.nodes.map((node) =>
-            node.id === nodeId
-              ? { ...node, comments: (node.comments || []).filter((c) => c.id !== commentId) }
-              : node
-          ),
-          hasLocalChanges: true,
-        }));
 
-        const state = get();
-        const projectId = state.currentProjectId;
-        if (projectId && websocketService.isConnected()) {
-          websocketService.emitCommentDeleted(
-            projectId,
-            nodeId,
-            commentId,
-            state.currentDiagramId
-          );
+        const comment = await commentsApi.update(currentProjectId, currentDiagramDbId, commentId, { resolved });
+        if (get().currentDiagramDbId !== currentDiagramDbId) return;
+        set((state) => ({ comments: upsertComment(state.comments, comment) }));
+      },
+
+      deleteComment: async (commentId) => {
+        const { currentProjectId, currentDiagramDbId, projectRole } = get();
+        if (!canEditProject(projectRole) || !currentProjectId || !currentDiagramDbId) {
+          return;
         }
 
-        // DB保存をデバウンス
-        debouncedSaveToDB(() => get().saveDiagramToDB());
+        await commentsApi.delete(currentProjectId, currentDiagramDbId, commentId);
+        if (get().currentDiagramDbId !== currentDiagramDbId) return;
+        set((state) => ({ comments: removeCommentThread(state.comments, commentId) }));
       },
 
       // パターン機能用：履歴保存なしでノードを直接追加
@@ -3048,8 +2751,47 @@ export const useDiagramStore = create<DiagramStore>()(
         });
       },
 
+      // 編集ロック
+      acquireNodeLock: async (nodeId: string) => {
+        const { currentProjectId, currentDiagramId } = get();
+        if (!currentProjectId) return null;
+
+        const { granted, holder } = await websocketService.acquireNodeLock(currentProjectId, nodeId, currentDiagramId);
+        if (!granted) return holder ?? null;
+
+        if (heldNodeLock && heldNodeLock.nodeId !== nodeId) {
+          websocketService.emitNodeLockRelease(heldNodeLock.projectId, heldNodeLock.nodeId);
+        }
+        clearHeldNodeLock();
+        const lock = { projectId: currentProjectId, nodeId };
+        heldNodeLock = lock;
+        nodeLockHeartbeatTimer = setInterval(() => {
+          websocketService.emitNodeLockHeartbeat(lock.projectId, lock.nodeId);
+        }, NODE_LOCK_HEARTBEAT_MS);
+        return null;
+      },
+
+      releaseNodeLock: (nodeId: string) => {
+        if (heldNodeLock?.nodeId !== nodeId) return;
+        websocketService.emitNodeLockRelease(heldNodeLock.projectId, nodeId);
+        clearHeldNodeLock();
+        if (get().nodeEditRequest?.nodeId === nodeId) {
+          set({ nodeEditRequest: null });
+        }
+      },
+
+      requestNodeEdit: (nodeId: string) => {
+        const { currentProjectId } = get();
+        if (!currentProjectId) return;
+        websocketService.emitNodeLockRequest(currentProjectId, nodeId);
+      },
+
+      clearNodeEditRequest: () => {
+        set({ nodeEditRequest: null });
+      },
+
       // バージョン管理
-      commitVersion: async (message: string) => {
+      commitVersion: async (message: string, target?: Omit<CreateVersionRequest, 'commitMessage'>) => {
         if (!canEditProject(get().projectRole)) {
           console.warn('Cannot commit: project is read-only');
           return;
@@ -3072,6 +2814,7 @@ export const useDiagramStore = create<DiagramStore>()(
           // バージョンを作成
           const { versionsApi } = await import('../api/versions');
           await versionsApi.create(currentProjectId, currentDiagramDbId, {
+            ...target,
             commitMessage: message,
           });
 
@@ -3107,23 +2850,322 @@ export const useDiagramStore = create<DiagramStore>()(
           throw error;
         }
       },
+
+      // 過去のバージョンから選んだノード（と子孫）を表示中のモジュールに戻す
+      // 現在もあるノードとの ID・ラベルの重複は付け替え、現在もあるノードとのリンクはつなぎ直す
+      restoreNodesFromVersion: (versionData, moduleId, nodeIds, includeDescendants) => {
+        if (!canEditProject(get().projectRole)) {
+          return 0;
+        }
+        const state = get();
+        const source = normalizeProjectData(versionData, state.title);
+        const sourceModule = source.modules[moduleId];
+        if (!sourceModule || nodeIds.length === 0) return 0;
+
+        // 戻すノード（子孫を含める場合はサブツリーごと）
+        const restoredById = new Map<string, Node>();
+        nodeIds.forEach((nodeId) => {
+          const picked = includeDescendants
+            ? getSubtree(nodeId, sourceModule.nodes, sourceModule.links).nodes
+            : sourceModule.nodes.filter((node) => node.id === nodeId);
+          picked.forEach((node) => restoredById.set(node.id, node));
+        });
+        if (restoredById.size === 0) return 0;
+
+        saveToHistory(get, set);
+
+        // 他のモジュールも含めて使われている ID とラベル
+        const otherModules = Object.entries(state.modules)
+          .filter(([id]) => id !== state.currentDiagramId)
+          .map(([, module]) => module);
+        const existingNodes = [...state.nodes, ...otherModules.flatMap((module) => module.nodes)];
+        const usedIds = new Set(existingNodes.map((node) => node.id));
+        const usedLabels = new Set(existingNodes.map((node) => node.label).filter(Boolean));
+        const currentIds = new Set(state.nodes.map((node) => node.id));
+
+        const idMap = new Map<string, string>(); // 過去の ID → 戻した後の ID
+        const newNodes: Node[] = [...restoredById.values()].map((node) => {
+          const id = usedIds.has(node.id) ? generateId() : node.id;
+          idMap.set(node.id, id);
+          const label =
+            node.label && usedLabels.has(node.label) ? get().generateLabel(node.type) : node.label;
+          if (label) usedLabels.add(label);
+          return { ...node, id, label };
+        });
+
+        // 戻したノード同士のリンクと、現在もあるノードとのリンク（同じリンクが既にあれば作らない）
+        const linkKey = (link: Pick<Link, 'source' | 'target' | 'type'>) =>
+          `${link.source}->${link.target}:${link.type}`;
+        const existingLinkKeys = new Set(state.links.map(linkKey));
+        const resolveEnd = (nodeId: string) =>
+          idMap.get(nodeId) ?? (currentIds.has(nodeId) ? nodeId : null);
+        const newLinks: Link[] = [];
+        sourceModule.links.forEach((link) => {
+          if (!idMap.has(link.source) && !idMap.has(link.target)) return;
+          const sourceId = resolveEnd(link.source);
+          const targetId = resolveEnd(link.target);
+          if (!sourceId || !targetId) return;
+          const restored = { ...link, id: generateLinkId(), source: sourceId, target: targetId };
+          if (existingLinkKeys.has(linkKey(restored))) return;
+          existingLinkKeys.add(linkKey(restored));
+          newLinks.push(restored);
+        });
+
+        // モジュールノードの参照先が現在ない場合は、そのモジュール（入れ子も含む）も戻す
+        const restoredModules: Record<string, DiagramData> = {};
+        const collectModules = (nodes: Node[]) => {
+          nodes.forEach((node) => {
+            const refId = node.moduleId;
+            if (node.type !== 'Module' || !refId) return;
+            if (state.modules[refId] || restoredModules[refId] || !source.modules[refId]) return;
+            restoredModules[refId] = source.modules[refId];
+            collectModules(source.modules[refId].nodes);
+          });
+        };
+        collectModules(newNodes);
+
+        set({
+          nodes: [...state.nodes, ...newNodes],
+          links: [...state.links, ...newLinks],
+          modules: { ...state.modules, ...restoredModules },
+          labelCounters: get().labelCounters,
+          hasLocalChanges: true,
+          canvasState: {
+            ...state.canvasState,
+            selectedNodes: newNodes.map((node) => node.id),
+          },
+        });
+
+        debouncedSaveToDB(() => get().saveDiagramToDB());
+        debouncedAutoRenumber(get, set);
+        return newNodes.length;
+      },
+
+      checkoutBranch: async (branchId: string, discardChanges = false) => {
+        const { currentProjectId, currentDiagramDbId } = get();
+        if (!currentProjectId || !currentDiagramDbId) {
+          console.warn('Cannot checkout: no project or diagram selected');
+          return;
+        }
+
+        try {
+          // ブランチに切り替え
+          const { branchesApi } = await import('../api/branches');
+          await branchesApi.checkout(currentProjectId, currentDiagramDbId, branchId, discardChanges);
+
+          // ダイアグラムデータを再読み込み
+          await get().loadDiagramFromDB(currentProjectId, currentDiagramDbId);
+
+          if (websocketService.isConnected()) {
+            websocketService.emitDiagramReload(currentProjectId, currentDiagramDbId);
+          }
+        } catch (error) {
+          console.error('Failed to checkout branch:', error);
+          throw error;
+        }
+      },
+
+      mergeBranch: async (branchId: string, request: MergeBranchRequest) => {
+        const { currentProjectId } = get();
+        if (!currentProjectId) {
+          console.warn('Cannot merge: no project selected');
+          return;
+        }
+
+        try {
+          // 未保存の変更を含めてマージする
+          await get().saveDiagramToDB();
+
+          const { currentDiagramDbId } = get();
+          if (!currentDiagramDbId) {
+            throw new Error('Diagram has not been saved to DB yet');
+          }
+
+          const { branchesApi } = await import('../api/branches');
+          await branchesApi.merge(currentProjectId, currentDiagramDbId, branchId, request);
+
+          // ダイアグラムデータを再読み込み
+          await get().loadDiagramFromDB(currentProjectId, currentDiagramDbId);
+
+          if (websocketService.isConnected()) {
+            websocketService.emitDiagramReload(currentProjectId, currentDiagramDbId);
+          }
+        } catch (error) {
+          console.error('Failed to merge branch:', error);
+          throw error;
+        }
+      },
+
+      setDiagramFrozen: async (frozen: boolean, reason?: string) => {
+        const { currentProjectId, currentDiagramDbId } = get();
+        if (!currentProjectId || !currentDiagramDbId) {
+          console.warn('Cannot freeze: no project or diagram selected');
+          return;
+        }
+
+        try {
+          // 凍結前に未保存の変更を保存する
+          if (frozen) {
+            await get().saveDiagramToDB();
+          }
+          const diagram = frozen
+            ? await diagramsApi.freezeDiagram(currentProjectId, currentDiagramDbId, reason)
+            : await diagramsApi.unfreezeDiagram(currentProjectId, currentDiagramDbId);
+          // 他のクライアントにはサーバーから diagram_frozen が配信される
+          useDiagramFreezeStore.getState().setFreeze(toDiagramFreeze(diagram));
+        } catch (error) {
+          console.error('Failed to change diagram freeze:', error);
+          throw error;
+        }
+      },
     }),
     {
       name: 'gsn-diagram-storage',
       // LocalStorageはデフォルトで使用される（プロジェクトIDベースの保存は setCurrentProject 内で処理）
-      partialize: (state) => {
-        // userCursors（Map）とWebSocket関連の一時的な状態は永続化から除外
-        const {
-          userCursors: _userCursors,
-          isWebSocketConnected: _isWebSocketConnected,
-          onlineUsers: _onlineUsers,
-          isReconnecting: _isReconnecting,
-          reconnectAttempts: _reconnectAttempts,
-          surveyResponseEvent: _surveyResponseEvent,
-          ...rest
-        } = state;
-        return rest;
-      },
+      // 永続化する状態
+      // userCursors（Map）とWebSocket関連の一時的な状態、保存時のバージョン競合は含めない
+      // ノードの編集ロックと交代依頼は接続のたびにサーバーから受け取り直すため含めない
+      // コメントはダイアグラムを開くたびに読み込むため含めない
+      partialize: (state) => ({
+        currentProjectId: state.currentProjectId,
+        currentDiagramDbId: state.currentDiagramDbId,
+        isSyncing: state.isSyncing,
+        lastSyncedAt: state.lastSyncedAt,
+        wsUserId: state.wsUserId,
+        wsUserName: state.wsUserName,
+        projectRole: state.projectRole,
+        diagramDbVersion: state.diagramDbVersion,
+        diagramOpSeq: state.diagramOpSeq,
+        hasLocalChanges: state.hasLocalChanges,
+        remoteOutOfSync: state.remoteOutOfSync,
+        showPatternLibrary: state.showPatternLibrary,
+        title: state.title,
+        nodes: state.nodes,
+        links: state.links,
+        canvasState: state.canvasState,
+        history: state.history,
+        historyIndex: state.historyIndex,
+        currentDiagramId: state.currentDiagramId,
+        modules: state.modules,
+        labelCounters: state.labelCounters,
+        clipboard: state.clipboard,
+      }),
     }
   )
 );
+
+// CRDT ドキュメントに書き込むプロジェクトの状態
+// 表示中モジュールのメタデータは保存のたびに updatedAt が変わるため、modules 側の値を使う
+const buildCrdtProjectState = (state: DiagramStore): CrdtProjectState => {
+  const snapshot = buildDiagramSnapshot(state);
+  const metadata = state.modules[state.currentDiagramId]?.metadata ?? snapshot.metadata;
+  return {
+    modules: {
+      ...state.modules,
+      [state.currentDiagramId]: { ...snapshot, metadata },
+    },
+    labelCounters: state.labelCounters,
+  };
+};
+
+// 未送信のローカル変更をドキュメントに書き込む（差分が更新として送られる）
+const flushCrdtChanges = () => {
+  if (crdtFlushTimer) {
+    clearTimeout(crdtFlushTimer);
+    crdtFlushTimer = null;
+  }
+  const session = crdtSession;
+  if (!session?.synced) return;
+
+  const state = useDiagramStore.getState();
+  if (state.currentDiagramDbId !== session.dbDiagramId) return;
+
+  session.applyLocalState(buildCrdtProjectState(state), pendingTextBases);
+  pendingTextBases.clear();
+};
+
+// モジュール一式をストアに反映する（表示中のモジュールが消えた場合はルートに戻る）
+const applyProjectToStore = (
+  modules: Record<string, DiagramData>,
+  labelCounters: Record<NodeType, number>,
+) => {
+  const state = useDiagramStore.getState();
+  const nextDiagramId = modules[state.currentDiagramId] ? state.currentDiagramId : 'root';
+  const activeDiagram = modules[nextDiagramId] || createEmptyDiagramData();
+
+  useDiagramStore.setState({
+    title: activeDiagram.title,
+    nodes: activeDiagram.nodes || [],
+    links: activeDiagram.links || [],
+    currentDiagramId: nextDiagramId,
+    modules: ensureRootModuleExists(modules, activeDiagram),
+    labelCounters,
+  });
+};
+
+// ドキュメントの内容でストアを置き換える（並び順は現在の表示を維持）
+const applyRemoteCrdtState = () => {
+  const session = crdtSession;
+  if (!session?.synced) return;
+
+  const state = useDiagramStore.getState();
+  if (state.currentDiagramDbId !== session.dbDiagramId) return;
+
+  const project = session.read(buildCrdtProjectState(state).modules);
+  if (!project) return;
+
+  applyingRemoteCrdt = true;
+  try {
+    applyProjectToStore(project.modules, project.labelCounters ?? state.labelCounters);
+  } finally {
+    applyingRemoteCrdt = false;
+  }
+};
+
+const stopCrdtSession = () => {
+  if (crdtFlushTimer) {
+    clearTimeout(crdtFlushTimer);
+    crdtFlushTimer = null;
+  }
+  pendingTextBases.clear();
+  crdtSession?.destroy();
+  crdtSession = null;
+};
+
+const startCrdtSession = (dbDiagramId: string) => {
+  stopCrdtSession();
+  crdtSession = new DiagramCrdtSession(dbDiagramId, {
+    onLocalUpdate: (update) => {
+      const projectId = useDiagramStore.getState().currentProjectId;
+      if (projectId) {
+        websocketService.emitCrdtUpdate(projectId, dbDiagramId, update);
+      }
+    },
+    onRemoteChange: applyRemoteCrdtState,
+  });
+};
+
+// ノード・リンク・モジュールの変更を CRDT ドキュメントに反映する
+useDiagramStore.subscribe((state, previous) => {
+  if (applyingRemoteCrdt || !crdtSession?.synced || crdtFlushTimer) return;
+  if (
+    state.nodes === previous.nodes &&
+    state.links === previous.links &&
+    state.modules === previous.modules &&
+    state.title === previous.title &&
+    state.labelCounters === previous.labelCounters
+  ) {
+    return;
+  }
+  crdtFlushTimer = setTimeout(flushCrdtChanges, CRDT_FLUSH_DELAY_MS);
+});
+
+// 表示するダイアグラムが変わったらコメントを読み込み直す
+useDiagramStore.subscribe((state, previous) => {
+  if (state.currentDiagramDbId === previous.currentDiagramDbId) return;
+  if (!state.currentDiagramDbId) {
+    useDiagramStore.setState({ comments: [] });
+    return;
+  }
+  void state.loadComments();
+});
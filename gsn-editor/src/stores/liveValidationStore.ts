@@ -0,0 +1,157 @@
+import { create } from 'zustand';
+import {
+  getValidationRules,
+  resolveRuleSetting,
+  validateDiagram,
+  type ValidationResult,
+  type ValidationSeverity,
+} from '../utils/validation';
+import type { ValidationWorkerRequest, ValidationWorkerResponse } from '../utils/validationWorker';
+import { useDiagramStore } from './diagramStore';
+import { useValidationSettingsStore } from './validationSettingsStore';
+
+// ノード・リンクに表示する指摘（重要度はいちばん重いもの）
+export interface LiveValidationMarker {
+  severity: ValidationSeverity;
+  messages: string[];
+}
+
+// 編集に合わせて自動で実行する GSN 検証の結果（キャンバスの表示とヘッダーの件数に使う）
+interface LiveValidationState {
+  result: ValidationResult | null;
+  nodeMarkers: Record<string, LiveValidationMarker>;
+  linkMarkers: Record<string, LiveValidationMarker>;
+
+  // Actions
+  setResult: (result: ValidationResult | null) => void;
+}
+
+// 編集が止まってから検証するまでの時間
+const LIVE_VALIDATION_DELAY_MS = 400;
+// このノード数以上のダイアグラムは Web Worker で検証する
+const LIVE_VALIDATION_WORKER_THRESHOLD = 200;
+
+const addMarker = (
+  markers: Record<string, LiveValidationMarker>,
+  id: string,
+  severity: ValidationSeverity,
+  message: string
+) => {
+  const marker = markers[id];
+  markers[id] = marker
+    ? { severity: marker.severity === 'error' ? 'error' : severity, messages: [...marker.messages, message] }
+    : { severity, messages: [message] };
+};
+
+export const useLiveValidationStore = create<LiveValidationState>()((set) => ({
+  result: null,
+  nodeMarkers: {},
+  linkMarkers: {},
+
+  setResult: (result) => {
+    const nodeMarkers: Record<string, LiveValidationMarker> = {};
+    const linkMarkers: Record<string, LiveValidationMarker> = {};
+    // リンクについての指摘はリンクに、それ以外はノードに表示する（検証モーダルの該当箇所と同じ）
+    for (const finding of result ? [...result.errors, ...result.warnings] : []) {
+      if (finding.linkIds && finding.linkIds.length > 0) {
+        finding.linkIds.forEach((id) => addMarker(linkMarkers, id, finding.type, finding.message));
+      } else {
+        finding.nodeIds?.forEach((id) => addMarker(nodeMarkers, id, finding.type, finding.message));
+      }
+    }
+    set({ result, nodeMarkers, linkMarkers });
+  },
+}));
+
+/**
+ * ダイアグラムとルールの設定の変更を監視して検証を実行し直す（戻り値で停止する）
+ */
+export const startLiveValidation = (): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let worker: Worker | null = null;
+  let workerFailed = false;
+  let latestRequestId = 0;
+  const { setResult } = useLiveValidationStore.getState();
+
+  const validateOnMainThread = () => {
+    const { nodes, links } = useDiagramStore.getState();
+    setResult(validateDiagram(nodes, links, useValidationSettingsStore.getState().overrides));
+  };
+
+  const stopWorker = () => {
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+  };
+
+  const run = () => {
+    timer = null;
+    const { nodes, links } = useDiagramStore.getState();
+    const requestId = ++latestRequestId;
+    if (nodes.length < LIVE_VALIDATION_WORKER_THRESHOLD || workerFailed || typeof Worker === 'undefined') {
+      validateOnMainThread();
+      return;
+    }
+
+    if (!worker) {
+      worker = new Worker(new URL('../utils/validationWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<ValidationWorkerResponse>) => {
+        // 後から依頼した検証がある場合、古い結果は使わない
+        if (event.data.requestId !== latestRequestId) return;
+        if ('missingRuleIds' in event.data) {
+          // ワーカーにないルールがある（メインスレッドだけで登録された）場合は、以後メインスレッドで検証する
+          console.warn('Validation worker is missing rules:', event.data.missingRuleIds.join(', '));
+          stopWorker();
+          validateOnMainThread();
+          return;
+        }
+        setResult(event.data.result);
+      };
+      worker.onerror = (event) => {
+        console.error('Validation worker error:', event.message);
+        stopWorker();
+        validateOnMainThread();
+      };
+    }
+    const { overrides } = useValidationSettingsStore.getState();
+    const request: ValidationWorkerRequest = {
+      requestId,
+      nodes,
+      links,
+      overrides,
+      ruleIds: getValidationRules()
+        .filter((rule) => resolveRuleSetting(rule, overrides).enabled)
+        .map((rule) => rule.id),
+    };
+    worker.postMessage(request);
+  };
+
+  const schedule = () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(run, LIVE_VALIDATION_DELAY_MS);
+  };
+
+  const unsubscribeDiagram = useDiagramStore.subscribe((state, previous) => {
+    if (state.nodes !== previous.nodes || state.links !== previous.links) {
+      schedule();
+    }
+  });
+  const unsubscribeSettings = useValidationSettingsStore.subscribe((state, previous) => {
+    if (state.overrides !== previous.overrides) {
+      schedule();
+    }
+  });
+  schedule();
+
+  return () => {
+    unsubscribeDiagram();
+    unsubscribeSettings();
+    if (timer) {
+      clearTimeout(timer);
+    }
+    worker?.terminate();
+    setResult(null);
+  };
+};
@@ -0,0 +1,80 @@
+import { create } from 'zustand';
+import { notificationsApi, type AppNotification } from '../api/notifications';
+
+const NOTIFICATION_LIMIT = 30;
+
+interface NotificationState {
+  notifications: AppNotification[];
+  unreadCount: number;
+  isLoading: boolean;
+
+  // Actions
+  loadNotifications: () => Promise<void>;
+  receiveNotification: (notification: AppNotification) => void;
+  markAsRead: (notificationId: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+  clearNotifications: () => void;
+}
+
+export const useNotificationStore = create<NotificationState>()((set, get) => ({
+  notifications: [],
+  unreadCount: 0,
+  isLoading: false,
+
+  loadNotifications: async () => {
+    set({ isLoading: true });
+    try {
+      const { notifications, unreadCount } = await notificationsApi.getAll({ limit: NOTIFICATION_LIMIT });
+      set({ notifications, unreadCount, isLoading: false });
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+      set({ isLoading: false });
+    }
+  },
+
+  // ソケットで届いた通知を先頭に追加する（同じ通知が複数タブから届いても重複させない）
+  receiveNotification: (notification) => {
+    if (get().notifications.some((item) => item.id === notification.id)) return;
+    set((state) => ({
+      notifications: [notification, ...state.notifications].slice(0, NOTIFICATION_LIMIT),
+      unreadCount: state.unreadCount + (notification.readAt ? 0 : 1),
+    }));
+  },
+
+  markAsRead: async (notificationId) => {
+    const target = get().notifications.find((item) => item.id === notificationId);
+    if (!target || target.readAt) return;
+
+    const readAt = new Date().toISOString();
+    set((state) => ({
+      notifications: state.notifications.map((item) => (item.id === notificationId ? { ...item, readAt } : item)),
+      unreadCount: Math.max(0, state.unreadCount - 1),
+    }));
+
+    try {
+      await notificationsApi.markAsRead(notificationId);
+    } catch (error) {
+      console.error('Failed to mark notification as read:', error);
+      void get().loadNotifications();
+    }
+  },
+
+  markAllAsRead: async () => {
+    const readAt = new Date().toISOString();
+    set((state) => ({
+      notifications: state.notifications.map((item) => (item.readAt ? item : { ...item, readAt })),
+      unreadCount: 0,
+    }));
+
+    try {
+      await notificationsApi.markAllAsRead();
+    } catch (error) {
+      console.error('Failed to mark all notifications as read:', error);
+      void get().loadNotifications();
+    }
+  },
+
+  clearNotifications: () => {
+    set({ notifications: [], unreadCount: 0, isLoading: false });
+  },
+}));
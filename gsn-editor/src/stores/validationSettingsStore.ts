@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+import { projectAPI } from '../services/api';
+import type { ValidationRuleOverrides } from '../utils/validation';
+import type { ValidationGates } from '../api/validation';
+
+const DEFAULT_GATES: ValidationGates = { commit: 'off', survey: 'off' };
+
+// 表示中のプロジェクトの GSN 検証ルールの設定とコミット・アンケート公開前の検証（プロジェクトに保存し、オーナーのみ変更できる）
+interface ValidationSettingsState {
+  overrides: ValidationRuleOverrides;
+  gates: ValidationGates;
+
+  // Actions
+  setOverrides: (overrides: ValidationRuleOverrides) => void;
+  setGates: (gates: Partial<ValidationGates>) => void;
+  saveSettings: (projectId: string, overrides: ValidationRuleOverrides, gates: ValidationGates) => Promise<void>;
+}
+
+export const useValidationSettingsStore = create<ValidationSettingsState>()((set) => ({
+  overrides: {},
+  gates: DEFAULT_GATES,
+
+  setOverrides: (overrides) => {
+    set({ overrides });
+  },
+
+  setGates: (gates) => {
+    set({
+      gates: {
+        commit: gates.commit ?? DEFAULT_GATES.commit,
+        survey: gates.survey ?? DEFAULT_GATES.survey,
+      },
+    });
+  },
+
+  saveSettings: async (projectId, overrides, gates) => {
+    const response = await projectAPI.update(projectId, { validationRules: overrides, validationGates: gates });
+    const { project } = response;
+    set({
+      overrides: project.validationRules ?? {},
+      gates: {
+        commit: project.commitValidationGate ?? DEFAULT_GATES.commit,
+        survey: project.surveyValidationGate ?? DEFAULT_GATES.survey,
+      },
+    });
+  },
+}));
@@ -0,0 +1,43 @@
+import { create } from 'zustand';
+import type { VersionDiff } from '../api/versions';
+
+// キャンバスに重ねて表示するバージョン差分（表示中は編集できない）
+interface VersionDiffState {
+  diff: VersionDiff | null;
+  moduleId: string; // 表示中のモジュール
+  focusedId: string | null; // 変更一覧で選択中のノード・リンク
+
+  // Actions
+  openDiff: (diff: VersionDiff, moduleId: string) => void;
+  closeDiff: () => void;
+  setModule: (moduleId: string) => void;
+  setFocused: (id: string | null) => void;
+}
+
+export const useVersionDiffStore = create<VersionDiffState>()((set) => ({
+  diff: null,
+  moduleId: 'root',
+  focusedId: null,
+
+  openDiff: (diff, moduleId) => {
+    // 表示中のモジュールに変更がなければ、変更のある最初のモジュールを表示する
+    const hasModule = diff.modules.some((module) => module.moduleId === moduleId);
+    set({
+      diff,
+      moduleId: hasModule || diff.modules.length === 0 ? moduleId : diff.modules[0].moduleId,
+      focusedId: null,
+    });
+  },
+
+  closeDiff: () => {
+    set({ diff: null, focusedId: null });
+  },
+
+  setModule: (moduleId) => {
+    set({ moduleId, focusedId: null });
+  },
+
+  setFocused: (focusedId) => {
+    set({ focusedId });
+  },
+}));
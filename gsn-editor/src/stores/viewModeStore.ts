@@ -0,0 +1,19 @@
+import { create } from 'zustand';
+
+export type EditorViewMode = 'canvas' | 'outline' | 'table';
+
+// メイン領域の表示（キャンバス・アウトライン・表）。ダイアグラムの内容は diagramStore を共有する
+interface ViewModeState {
+  viewMode: EditorViewMode;
+
+  // Actions
+  setViewMode: (viewMode: EditorViewMode) => void;
+}
+
+export const useViewModeStore = create<ViewModeState>()((set) => ({
+  viewMode: 'canvas',
+
+  setViewMode: (viewMode) => {
+    set({ viewMode });
+  },
+}));
@@ -1,36 +1,8 @@
-/**
- * GSN要素のノードタイプ
- */
-export type NodeType =
-  | 'Goal'
-  | 'Strategy'
-  | 'Context'
-  | 'Evidence'
-  | 'Assumption'
-  | 'Justification'
-  | 'Undeveloped'
-  | 'Module';
+import type { NodeType, LinkType, Position, Size } from '../../../shared/gsn';
 
-/**
- * リンクタイプ
- */
-export type LinkType = 'solid' | 'dashed';
-
-/**
- * ノード位置情報
- */
-export interface Position {
-  x: number;
-  y: number;
-}
-
-/**
- * ノードサイズ情報
- */
-export interface Size {
-  width: number;
-  height: number;
-}
+// ノード・リンクの種類と位置・サイズは backend と共有する
+export type { NodeType, LinkType, Position, Size };
+export { NODE_LABELS } from '../../../shared/gsn';
 
 /**
  * ノードスタイル情報
@@ -42,13 +14,20 @@ export interface NodeStyle {
 }
 
 /**
- * コメント
+ * コメント（ダイアグラムとは別に保存される。parentId があれば返信）
  */
 export interface NodeComment {
   id: string;
+  diagramId: string; // DB上のダイアグラムID
+  nodeId: string;
+  parentId: string | null;
   authorId: string;
   authorName: string;
-  content: string;
+  body: string;
+  mentions: string[]; // メンションしたユーザーID
+  resolvedAt: string | null; // スレッド先頭のみ
+  resolvedBy: string | null;
+  resolvedByName: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -67,8 +46,6 @@ export interface Node {
   // モジュール専用プロパティ
   moduleId?: string;      // 参照先モジュールのID
   moduleName?: string;    // モジュール名
-  // コメント
-  comments?: NodeComment[];
 }
 
 /**
@@ -164,20 +141,6 @@ export const NODE_COLORS: Record<NodeType, string> = {
   Module: '#E0E0E0',
 };
 
-/**
- * ノードタイプごとの日本語名
- */
-export const NODE_LABELS: Record<NodeType, string> = {
-  Goal: 'ゴール',
-  Strategy: '戦略',
-  Context: '前提',
-  Evidence: '証拠',
-  Assumption: '仮定',
-  Justification: '正当化',
-  Undeveloped: '未展開',
-  Module: 'モジュール',
-};
-
 /**
  * デフォルトのノードサイズ
  */
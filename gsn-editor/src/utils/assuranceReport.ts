@@ -0,0 +1,542 @@
+import type { DiagramData, Link, Node, NodeComment, NodeType, ProjectData } from '../types/diagram';
+import { validateDiagram, type ValidationRuleOverrides } from './validation';
+import { buildDiagramSvg, svgToPngBlob } from './diagramImage';
+import { createZip } from './zip';
+
+/**
+ * 保証ケースの報告書（トップゴールからモジュールをたどり、ゴールごとに番号付きの節を作る）
+ *
+ * 各節にはゴールの本文と、その前提（Context / Assumption / Justification）、戦略とその根拠、証拠、
+ * 未解決のコメント、検証の指摘をまとめ、モジュールに入るところでそのモジュールの図を載せる
+ */
+
+export interface ReportItem {
+  nodeId: string;
+  label: string;
+  type: NodeType;
+  text: string;
+}
+
+export interface ReportStrategy extends ReportItem {
+  contexts: ReportItem[];
+}
+
+export interface ReportComment {
+  nodeLabel: string;
+  authorName: string;
+  body: string;
+  replies: number;
+  createdAt: string;
+}
+
+export interface ReportFinding {
+  level: 'error' | 'warning';
+  message: string;
+}
+
+export interface ReportSection {
+  number: string; // 1, 1.2, 1.2.1 ...
+  depth: number;
+  goal: ReportItem;
+  moduleId: string;
+  // この節でモジュールに入る場合、節の先頭に載せる図
+  moduleFigure?: { moduleId: string; title: string };
+  contexts: ReportItem[];
+  strategies: ReportStrategy[];
+  evidence: ReportItem[];
+  undeveloped: boolean;
+  comments: ReportComment[];
+  findings: ReportFinding[];
+}
+
+export interface AssuranceReport {
+  title: string;
+  generatedAt: string;
+  rootFigure: { moduleId: string; title: string };
+  sections: ReportSection[];
+  // どのゴールにも結び付かない検証の指摘（モジュール単位）
+  generalFindings: Array<ReportFinding & { moduleTitle: string }>;
+}
+
+const CONTEXT_TYPES: NodeType[] = ['Context', 'Assumption', 'Justification'];
+
+const TYPE_NAMES: Record<NodeType, string> = {
+  Goal: 'ゴール',
+  Strategy: '戦略',
+  Context: 'コンテキスト',
+  Evidence: '証拠',
+  Assumption: '前提',
+  Justification: '正当化',
+  Undeveloped: '未展開',
+  Module: 'モジュール',
+};
+
+const stripHtml = (html: string | undefined) => {
+  if (!html) return '';
+  const div = document.createElement('div');
+  div.innerHTML = html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(p|div|li)>/gi, '\n');
+  return (div.textContent ?? '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const toItem = (node: Node): ReportItem => ({
+  nodeId: node.id,
+  label: node.label || node.id.slice(0, 8),
+  type: node.type,
+  text: stripHtml(node.content),
+});
+
+// 親からリンクされていないゴール（なければリンクされていないノード）をトップとする
+const findTopNodes = (module: DiagramData): Node[] => {
+  const targets = new Set(module.links.map((link) => link.target));
+  const roots = module.nodes.filter((node) => !targets.has(node.id) && !CONTEXT_TYPES.includes(node.type));
+  const goals = roots.filter((node) => node.type === 'Goal');
+  return goals.length > 0 ? goals : roots;
+};
+
+interface PendingGoal {
+  node: Node;
+  module: DiagramData;
+  moduleId: string;
+  figure?: ReportSection['moduleFigure'];
+}
+
+export const buildAssuranceReport = (
+  project: ProjectData,
+  comments: NodeComment[],
+  validationOverrides: ValidationRuleOverrides = {}
+): AssuranceReport => {
+  const rootId = project.modules.root ? 'root' : project.currentDiagramId;
+  const rootModule = project.modules[rootId];
+  const sections: ReportSection[] = [];
+  const visitedNodes = new Set<string>();
+  const visitedModules = new Set<string>([rootId]);
+
+  // 検証の指摘をノードに割り当てる
+  const findingsByNode = new Map<string, ReportFinding[]>();
+  const generalFindings: AssuranceReport['generalFindings'] = [];
+  Object.values(project.modules).forEach((module) => {
+    const result = validateDiagram(module.nodes, module.links, validationOverrides);
+    [...result.errors, ...result.warnings].forEach((issue) => {
+      const finding: ReportFinding = { level: issue.type, message: issue.message };
+      if (!issue.nodeIds || issue.nodeIds.length === 0) {
+        generalFindings.push({ ...finding, moduleTitle: module.title });
+        return;
+      }
+      issue.nodeIds.forEach((nodeId) =>
+        findingsByNode.set(nodeId, [...(findingsByNode.get(nodeId) ?? []), finding])
+      );
+    });
+  });
+
+  // 未解決のスレッド（先頭のコメント）をノードに割り当てる
+  const threadsByNode = new Map<string, NodeComment[]>();
+  comments
+    .filter((comment) => comment.parentId === null && !comment.resolvedAt)
+    .forEach((comment) =>
+      threadsByNode.set(comment.nodeId, [...(threadsByNode.get(comment.nodeId) ?? []), comment])
+    );
+  const replyCounts = new Map<string, number>();
+  comments.forEach((comment) => {
+    if (comment.parentId) replyCounts.set(comment.parentId, (replyCounts.get(comment.parentId) ?? 0) + 1);
+  });
+
+  const collectNotes = (section: ReportSection, nodes: ReportItem[]) => {
+    const seen = new Set<string>();
+    nodes.forEach((item) => {
+      (findingsByNode.get(item.nodeId) ?? []).forEach((finding) => {
+        const key = `${finding.level}:${finding.message}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        section.findings.push(finding);
+      });
+      (threadsByNode.get(item.nodeId) ?? []).forEach((comment) =>
+        section.comments.push({
+          nodeLabel: item.label,
+          authorName: comment.authorName,
+          body: comment.body,
+          replies: replyCounts.get(comment.id) ?? 0,
+          createdAt: comment.createdAt,
+        })
+      );
+    });
+  };
+
+  const visitGoal = (
+    goal: Node,
+    module: DiagramData,
+    moduleId: string,
+    number: string,
+    moduleFigure?: ReportSection['moduleFigure']
+  ) => {
+    visitedNodes.add(goal.id);
+    const nodeById = new Map(module.nodes.map((node) => [node.id, node]));
+    const childrenOf = (nodeId: string, type: Link['type']) =>
+      module.links
+        .filter((link) => link.source === nodeId && link.type === type)
+        .map((link) => nodeById.get(link.target))
+        .filter((node): node is Node => !!node);
+
+    const section: ReportSection = {
+      number,
+      depth: number.split('.').length,
+      goal: toItem(goal),
+      moduleId,
+      moduleFigure,
+      contexts: childrenOf(goal.id, 'dashed').map(toItem),
+      strategies: [],
+      evidence: [],
+      undeveloped: goal.type === 'Undeveloped',
+      comments: [],
+      findings: [],
+    };
+    sections.push(section);
+
+    // 支持する子ノードを、戦略を経由するものも含めて集める
+    const subGoals: PendingGoal[] = [];
+    const supportFrom = (nodeId: string) => {
+      childrenOf(nodeId, 'solid').forEach((child) => {
+        if (visitedNodes.has(child.id)) return;
+        switch (child.type) {
+          case 'Strategy':
+            visitedNodes.add(child.id);
+            section.strategies.push({ ...toItem(child), contexts: childrenOf(child.id, 'dashed').map(toItem) });
+            supportFrom(child.id);
+            break;
+          case 'Evidence':
+            visitedNodes.add(child.id);
+            section.evidence.push(toItem(child));
+            break;
+          case 'Undeveloped':
+            visitedNodes.add(child.id);
+            section.undeveloped = true;
+            break;
+          case 'Module': {
+            visitedNodes.add(child.id);
+            const targetId = child.moduleId;
+            const target = targetId ? project.modules[targetId] : undefined;
+            if (!targetId || !target || visitedModules.has(targetId)) {
+              section.evidence.push(toItem(child));
+              break;
+            }
+            visitedModules.add(targetId);
+            findTopNodes(target).forEach((top, index) => {
+              visitedNodes.add(top.id);
+              subGoals.push({
+                node: top,
+                module: target,
+                moduleId: targetId,
+                figure: index === 0 ? { moduleId: targetId, title: target.title } : undefined,
+              });
+            });
+            break;
+          }
+          default:
+            visitedNodes.add(child.id);
+            subGoals.push({ node: child, module, moduleId });
+        }
+      });
+    };
+    supportFrom(goal.id);
+
+    if (subGoals.length === 0 && section.evidence.length === 0) {
+      section.undeveloped = true;
+    }
+
+    collectNotes(section, [
+      section.goal,
+      ...section.contexts,
+      ...section.strategies,
+      ...section.strategies.flatMap((strategy) => strategy.contexts),
+      ...section.evidence,
+    ]);
+
+    subGoals.forEach((sub, index) =>
+      visitGoal(sub.node, sub.module, sub.moduleId, `${number}.${index + 1}`, sub.figure)
+    );
+  };
+
+  if (rootModule) {
+    findTopNodes(rootModule).forEach((top, index) => visitGoal(top, rootModule, rootId, `${index + 1}`));
+  }
+
+  return {
+    title: rootModule?.title || 'GSN',
+    generatedAt: new Date().toISOString(),
+    rootFigure: { moduleId: rootId, title: rootModule?.title ?? '' },
+    sections,
+    generalFindings,
+  };
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('ja-JP', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const itemLine = (item: ReportItem) => `${item.label}（${TYPE_NAMES[item.type]}）${item.text ? `: ${item.text}` : ''}`;
+
+// 節の本文を段落の並びにする（HTML と DOCX で共通）
+type ReportBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string; style?: 'caption' | 'note' }
+  | { kind: 'bullet'; text: string }
+  | { kind: 'figure'; moduleId: string; caption: string };
+
+const toBlocks = (report: AssuranceReport): ReportBlock[] => {
+  const blocks: ReportBlock[] = [
+    { kind: 'heading', level: 0, text: `${report.title} 保証ケース報告書` },
+    { kind: 'paragraph', text: `作成日時: ${formatDate(report.generatedAt)}`, style: 'caption' },
+    { kind: 'figure', moduleId: report.rootFigure.moduleId, caption: `図: ${report.rootFigure.title}` },
+  ];
+
+  report.sections.forEach((section) => {
+    blocks.push({
+      kind: 'heading',
+      level: Math.min(section.depth, 6),
+      text: `${section.number} ${section.goal.label}: ${section.goal.text || TYPE_NAMES[section.goal.type]}`,
+    });
+    if (section.moduleFigure) {
+      blocks.push({
+        kind: 'figure',
+        moduleId: section.moduleFigure.moduleId,
+        caption: `図: モジュール「${section.moduleFigure.title}」`,
+      });
+    }
+    if (section.contexts.length > 0) {
+      blocks.push({ kind: 'paragraph', text: 'コンテキスト・前提・正当化' });
+      section.contexts.forEach((item) => blocks.push({ kind: 'bullet', text: itemLine(item) }));
+    }
+    section.strategies.forEach((strategy) => {
+      blocks.push({ kind: 'paragraph', text: `戦略 ${strategy.label}: ${strategy.text}` });
+      strategy.contexts.forEach((item) => blocks.push({ kind: 'bullet', text: itemLine(item) }));
+    });
+    if (section.evidence.length > 0) {
+      blocks.push({ kind: 'paragraph', text: '証拠' });
+      section.evidence.forEach((item) => blocks.push({ kind: 'bullet', text: itemLine(item) }));
+    }
+    if (section.undeveloped) {
+      blocks.push({ kind: 'paragraph', text: 'このゴールはまだ展開されていません。', style: 'note' });
+    }
+    if (section.comments.length > 0) {
+      blocks.push({ kind: 'paragraph', text: '未解決のコメント' });
+      section.comments.forEach((comment) =>
+        blocks.push({
+          kind: 'bullet',
+          text: `${comment.nodeLabel} — ${comment.authorName}（${formatDate(comment.createdAt)}）: ${comment.body}${comment.replies > 0 ? `（返信 ${comment.replies}件）` : ''}`,
+        })
+      );
+    }
+    if (section.findings.length > 0) {
+      blocks.push({ kind: 'paragraph', text: '検証の指摘' });
+      section.findings.forEach((finding) =>
+        blocks.push({ kind: 'bullet', text: `${finding.level === 'error' ? 'エラー' : '警告'}: ${finding.message}` })
+      );
+    }
+  });
+
+  if (report.generalFindings.length > 0) {
+    blocks.push({ kind: 'heading', level: 1, text: '全体の検証の指摘' });
+    report.generalFindings.forEach((finding) =>
+      blocks.push({
+        kind: 'bullet',
+        text: `${finding.moduleTitle}: ${finding.level === 'error' ? 'エラー' : '警告'}: ${finding.message}`,
+      })
+    );
+  }
+  return blocks;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * 印刷用の HTML（ブラウザの印刷から PDF に保存する）
+ */
+export const renderReportHtml = (report: AssuranceReport, project: ProjectData): string => {
+  const figures = new Map<string, string>();
+  const figureFor = (moduleId: string) => {
+    if (!figures.has(moduleId)) {
+      const module = project.modules[moduleId];
+      const image = module ? buildDiagramSvg(module.nodes, module.links) : null;
+      figures.set(moduleId, image ? new XMLSerializer().serializeToString(image.svg) : '');
+    }
+    return figures.get(moduleId)!;
+  };
+
+  const body = toBlocks(report)
+    .map((block, index, blocks) => {
+      switch (block.kind) {
+        case 'heading':
+          return block.level === 0
+            ? `<h1 class="title">${escapeXml(block.text)}</h1>`
+            : `<h${Math.min(block.level + 1, 6)}>${escapeXml(block.text)}</h${Math.min(block.level + 1, 6)}>`;
+        case 'paragraph':
+          return `<p class="${block.style ?? 'label'}">${escapeXml(block.text)}</p>`;
+        case 'bullet': {
+          const open = blocks[index - 1]?.kind !== 'bullet' ? '<ul>' : '';
+          const close = blocks[index + 1]?.kind !== 'bullet' ? '</ul>' : '';
+          return `${open}<li>${escapeXml(block.text).replace(/\n/g, '<br>')}</li>${close}`;
+        }
+        case 'figure': {
+          const svg = figureFor(block.moduleId);
+          return svg
+            ? `<figure><img src="data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}" alt=""><figcaption>${escapeXml(block.caption)}</figcaption></figure>`
+            : '';
+        }
+        default:
+          return '';
+      }
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(report.title)}</title>
+<style>
+  body { font-family: system-ui, -apple-system, 'Hiragino Sans', 'Yu Gothic', sans-serif; color: #111827; margin: 24px; line-height: 1.6; }
+  h1.title { font-size: 24px; border-bottom: 2px solid #111827; padding-bottom: 8px; }
+  h2 { font-size: 18px; margin-top: 28px; } h3 { font-size: 16px; } h4, h5, h6 { font-size: 14px; }
+  p.label { font-weight: 600; margin: 12px 0 4px; } p.caption { color: #6B7280; } p.note { color: #92400E; }
+  ul { margin: 0 0 8px; } figure { margin: 16px 0; text-align: center; page-break-inside: avoid; }
+  figure img { max-width: 100%; max-height: 90vh; border: 1px solid #E5E7EB; } figcaption { color: #6B7280; font-size: 12px; }
+</style>
+</head>
+<body onload="window.print()">
+${body}
+</body>
+</html>`;
+};
+
+// DOCX の画像サイズ（EMU、1px = 9525 EMU）。本文の幅に収める
+const EMU_PER_PX = 9525;
+const MAX_IMAGE_WIDTH_PX = 600;
+const MAX_IMAGE_HEIGHT_PX = 820;
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Yu Gothic" w:hAnsi="Yu Gothic" w:eastAsia="Yu Gothic"/><w:sz w:val="21"/><w:lang w:val="en-US" w:eastAsia="ja-JP"/></w:rPr></w:rPrDefault></w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:pPr><w:spacing w:after="80"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="200"/></w:pPr><w:rPr><w:b/><w:sz w:val="40"/></w:rPr></w:style>
+${[1, 2, 3, 4, 5, 6]
+  .map(
+    (level) =>
+      `  <w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${Math.max(32 - (level - 1) * 4, 22)}"/></w:rPr></w:style>`
+  )
+  .join('\n')}
+  <w:style w:type="paragraph" w:styleId="Label"><w:name w:val="Label"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="120"/></w:pPr><w:rPr><w:b/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Caption"><w:name w:val="caption"/><w:basedOn w:val="Normal"/><w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:color w:val="6B7280"/><w:sz w:val="18"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Note"><w:name w:val="Note"/><w:basedOn w:val="Normal"/><w:rPr><w:color w:val="92400E"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="420" w:hanging="210"/></w:pPr></w:style>
+</w:styles>`;
+
+const docxRun = (text: string) =>
+  text
+    .split('\n')
+    .map((line, index) => `${index > 0 ? '<w:r><w:br/></w:r>' : ''}<w:r><w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`)
+    .join('');
+
+const docxParagraph = (style: string, text: string) => `<w:p><w:pPr><w:pStyle w:val="${style}"/></w:pPr>${docxRun(text)}</w:p>`;
+
+const docxImage = (relId: string, index: number, width: number, height: number) => {
+  const scale = Math.min(1, MAX_IMAGE_WIDTH_PX / width, MAX_IMAGE_HEIGHT_PX / height);
+  const cx = Math.round(width * scale * EMU_PER_PX);
+  const cy = Math.round(height * scale * EMU_PER_PX);
+  return `<w:p><w:pPr><w:jc w:val="center"/></w:pPr><w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${index}" name="Figure ${index}"/><a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:nvPicPr><pic:cNvPr id="${index}" name="figure${index}.png"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>`;
+};
+
+/**
+ * Word（DOCX）形式の報告書を作る（モジュールの図は PNG で埋め込む）
+ */
+export const createReportDocx = async (report: AssuranceReport, project: ProjectData): Promise<Blob> => {
+  const images = new Map<string, { relId: string; path: string; data: Uint8Array; width: number; height: number } | null>();
+  const imageFor = async (moduleId: string) => {
+    if (!images.has(moduleId)) {
+      const module = project.modules[moduleId];
+      const svg = module ? buildDiagramSvg(module.nodes, module.links) : null;
+      const png = svg ? await svgToPngBlob(svg) : null;
+      const index = images.size + 1;
+      images.set(
+        moduleId,
+        png && svg
+          ? {
+              relId: `rIdImage${index}`,
+              path: `media/figure${index}.png`,
+              data: new Uint8Array(await png.arrayBuffer()),
+              width: svg.width,
+              height: svg.height,
+            }
+          : null
+      );
+    }
+    return images.get(moduleId) ?? null;
+  };
+
+  const paragraphs: string[] = [];
+  let figureCount = 0;
+  for (const block of toBlocks(report)) {
+    switch (block.kind) {
+      case 'heading':
+        paragraphs.push(docxParagraph(block.level === 0 ? 'Title' : `Heading${block.level}`, block.text));
+        break;
+      case 'paragraph':
+        paragraphs.push(
+          docxParagraph(block.style === 'caption' ? 'Caption' : block.style === 'note' ? 'Note' : 'Label', block.text)
+        );
+        break;
+      case 'bullet':
+        paragraphs.push(docxParagraph('ListBullet', `・${block.text}`));
+        break;
+      case 'figure': {
+        const image = await imageFor(block.moduleId);
+        if (image) {
+          figureCount += 1;
+          paragraphs.push(docxImage(image.relId, figureCount, image.width, image.height));
+          paragraphs.push(docxParagraph('Caption', block.caption));
+        }
+        break;
+      }
+    }
+  }
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">
+<w:body>
+${paragraphs.join('\n')}
+<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>`;
+
+  const embedded = [...images.values()].filter((image): image is NonNullable<typeof image> => !!image);
+
+  return createZip([
+    {
+      path: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="png" ContentType="image/png"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`,
+    },
+    {
+      path: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`,
+    },
+    {
+      path: 'word/_rels/document.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>${embedded
+        .map(
+          (image) =>
+            `<Relationship Id="${image.relId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="${image.path}"/>`
+        )
+        .join('')}</Relationships>`,
+    },
+    { path: 'word/document.xml', data: document },
+    { path: 'word/styles.xml', data: DOCX_STYLES },
+    ...embedded.map((image) => ({ path: `word/${image.path}`, data: image.data })),
+  ]);
+};
@@ -0,0 +1,389 @@
+import type { Link, Node } from '../types/diagram';
+import { NODE_COLORS } from '../types/diagram';
+
+export interface DiagramSvg {
+  svg: SVGSVGElement;
+  width: number;
+  height: number;
+}
+
+/**
+ * ノードとリンクから画像用のSVGを組み立てる（ノードがなければ null）
+ */
+export const buildDiagramSvg = (nodes: Node[], links: Link[]): DiagramSvg | null => {
+  if (nodes.length === 0) return null;
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const LABEL_HEIGHT = 24; // ラベルの高さ
+  nodes.forEach(node => {
+    const left = node.position.x - node.size.width / 2;
+    const right = node.position.x + node.size.width / 2;
+    // ラベルがある場合はその高さも含める
+    const top = node.position.y - node.size.height / 2 - (node.label ? LABEL_HEIGHT : 0);
+    const bottom = node.position.y + node.size.height / 2;
+
+    minX = Math.min(minX, left);
+    maxX = Math.max(maxX, right);
+    minY = Math.min(minY, top);
+    maxY = Math.max(maxY, bottom);
+  });
+
+  // パディングを追加
+  const padding = 50;
+  minX -= padding;
+  minY -= padding;
+  maxX += padding;
+  maxY += padding;
+
+  const width = maxX - minX;
+  const height = maxY - minY;
+
+  // 新しいSVGを作成
+  const newSvg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  newSvg.setAttribute('width', width.toString());
+  newSvg.setAttribute('height', height.toString());
+  newSvg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  newSvg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+
+  // 背景を追加
+  const bgRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  bgRect.setAttribute('width', width.toString());
+  bgRect.setAttribute('height', height.toString());
+  bgRect.setAttribute('fill', '#FFFFFF');
+  newSvg.appendChild(bgRect);
+
+  // 矢印マーカーを追加
+  const defs = document.createElementNS('http://www.w3.org/2000/svg', 'defs');
+
+  // 通常の矢印
+  const marker = document.createElementNS('http://www.w3.org/2000/svg', 'marker');
+  marker.setAttribute('id', 'arrowhead');
+  marker.setAttribute('markerWidth', '10');
+  marker.setAttribute('markerHeight', '10');
+  marker.setAttribute('refX', '9');
+  marker.setAttribute('refY', '3');
+  marker.setAttribute('orient', 'auto');
+  const polygon1 = document.createElementNS('http://www.w3.org/2000/svg', 'polygon');
+  polygon1.setAttribute('points', '0 0, 10 3, 0 6');
+  polygon1.setAttribute('fill', '#1F2937');
+  marker.appendChild(polygon1);
+  defs.appendChild(marker);
+
+  // 白抜き矢印
+  const markerHollow = document.createElementNS('http://www.w3.org/2000/svg', 'marker');
+  markerHollow.setAttribute('id', 'arrowhead-hollow');
+  markerHollow.setAttribute('markerWidth', '10');
+  markerHollow.setAttribute('markerHeight', '10');
+  markerHollow.setAttribute('refX', '9');
+  markerHollow.setAttribute('refY', '3');
+  markerHollow.setAttribute('orient', 'auto');
+  const polygon2 = document.createElementNS('http://www.w3.org/2000/svg', 'polygon');
+  polygon2.setAttribute('points', '0 0, 10 3, 0 6');
+  polygon2.setAttribute('fill', 'white');
+  polygon2.setAttribute('stroke', '#1F2937');
+  polygon2.setAttribute('stroke-width', '1.5');
+  markerHollow.appendChild(polygon2);
+  defs.appendChild(markerHollow);
+
+  newSvg.appendChild(defs);
+
+  // グループ要素
+  const g = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+  g.setAttribute('transform', `translate(${-minX}, ${-minY})`);
+
+  // リンクを描画（ノードの下に）
+  links.forEach(link => {
+    const sourceNode = nodes.find(n => n.id === link.source);
+    const targetNode = nodes.find(n => n.id === link.target);
+    if (!sourceNode || !targetNode) return;
+
+    const isInContextOf = ['Context', 'Assumption', 'Justification'].includes(targetNode.type);
+    const markerEnd = isInContextOf ? 'url(#arrowhead-hollow)' : 'url(#arrowhead)';
+    const verticalTargets = ['Goal', 'Strategy', 'Evidence', 'Undeveloped', 'Module'];
+    const shouldConnectVertically = verticalTargets.includes(targetNode.type);
+
+    let x1, y1, x2, y2;
+    if (shouldConnectVertically) {
+      const dy = targetNode.position.y - sourceNode.position.y;
+      if (dy > 0) {
+        x1 = sourceNode.position.x;
+        y1 = sourceNode.position.y + sourceNode.size.height / 2;
+        x2 = targetNode.position.x;
+        y2 = targetNode.position.y - targetNode.size.height / 2;
+      } else {
+        x1 = sourceNode.position.x;
+        y1 = sourceNode.position.y - sourceNode.size.height / 2;
+        x2 = targetNode.position.x;
+        y2 = targetNode.position.y + targetNode.size.height / 2;
+      }
+    } else {
+      const dx = targetNode.position.x - sourceNode.position.x;
+      if (dx > 0) {
+        x1 = sourceNode.position.x + sourceNode.size.width / 2;
+        y1 = sourceNode.position.y;
+        x2 = targetNode.position.x - targetNode.size.width / 2;
+        y2 = targetNode.position.y;
+      } else {
+        x1 = sourceNode.position.x - sourceNode.size.width / 2;
+        y1 = sourceNode.position.y;
+        x2 = targetNode.position.x + targetNode.size.width / 2;
+        y2 = targetNode.position.y;
+      }
+    }
+
+    const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+    path.setAttribute('d', `M ${x1} ${y1} L ${x2} ${y2}`);
+    path.setAttribute('stroke', '#1F2937');
+    path.setAttribute('stroke-width', '2');
+    path.setAttribute('fill', 'none');
+    path.setAttribute('marker-end', markerEnd);
+    if (link.type === 'dashed') {
+      path.setAttribute('stroke-dasharray', '8 8');
+    }
+    g.appendChild(path);
+  });
+
+  // ノードを描画
+  nodes.forEach(node => {
+    const nodeG = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+    nodeG.setAttribute('transform', `translate(${node.position.x}, ${node.position.y})`);
+
+    const { width: w, height: h } = node.size;
+    const color = NODE_COLORS[node.type] || '#FFFFFF';
+
+    // ノード形状を描画
+    let shape;
+    switch (node.type) {
+      case 'Goal':
+      case 'Undeveloped':
+        shape = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+        shape.setAttribute('x', (-w / 2).toString());
+        shape.setAttribute('y', (-h / 2).toString());
+        shape.setAttribute('width', w.toString());
+        shape.setAttribute('height', h.toString());
+        if (node.type === 'Undeveloped') {
+          shape.setAttribute('transform', 'rotate(45)');
+        }
+        break;
+      case 'Strategy':
+        shape = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+        shape.setAttribute('x', (-w / 2).toString());
+        shape.setAttribute('y', (-h / 2).toString());
+        shape.setAttribute('width', w.toString());
+        shape.setAttribute('height', h.toString());
+        shape.setAttribute('transform', 'skewX(-15)');
+        break;
+      case 'Context':
+        shape = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+        shape.setAttribute('x', (-w / 2).toString());
+        shape.setAttribute('y', (-h / 2).toString());
+        shape.setAttribute('width', w.toString());
+        shape.setAttribute('height', h.toString());
+        shape.setAttribute('rx', '10');
+        shape.setAttribute('ry', '10');
+        break;
+      case 'Evidence':
+      case 'Assumption':
+      case 'Justification':
+        shape = document.createElementNS('http://www.w3.org/2000/svg', 'ellipse');
+        shape.setAttribute('cx', '0');
+        shape.setAttribute('cy', '0');
+        shape.setAttribute('rx', (w / 2).toString());
+        shape.setAttribute('ry', (h / 2).toString());
+        break;
+      case 'Module': {
+        const tabWidth = 60;
+        const tabHeight = 20;
+        const pathData = `
+          M ${-w / 2} ${-h / 2 + tabHeight}
+          L ${-w / 2} ${-h / 2}
+          L ${-w / 2 + tabWidth} ${-h / 2}
+          L ${-w / 2 + tabWidth + 10} ${-h / 2 + tabHeight}
+          L ${w / 2} ${-h / 2 + tabHeight}
+          L ${w / 2} ${h / 2}
+          L ${-w / 2} ${h / 2}
+          Z
+        `;
+        shape = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+        shape.setAttribute('d', pathData);
+        break;
+      }
+      default:
+        shape = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+        shape.setAttribute('x', (-w / 2).toString());
+        shape.setAttribute('y', (-h / 2).toString());
+        shape.setAttribute('width', w.toString());
+        shape.setAttribute('height', h.toString());
+    }
+
+    shape.setAttribute('fill', color);
+    shape.setAttribute('stroke', '#1F2937');
+    shape.setAttribute('stroke-width', '2');
+    nodeG.appendChild(shape);
+
+    // ラベル表示（左上）- Node.tsxと同じスタイル
+    if (node.label) {
+      const labelWidth = Math.max(40, node.label.length * 9);
+      const labelBg = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+      labelBg.setAttribute('x', (-w / 2).toString());
+      labelBg.setAttribute('y', (-h / 2 - 24).toString());
+      labelBg.setAttribute('width', labelWidth.toString());
+      labelBg.setAttribute('height', '20');
+      labelBg.setAttribute('fill', '#FFFFFF');
+      labelBg.setAttribute('stroke', '#D1D5DB');
+      labelBg.setAttribute('stroke-width', '1');
+      labelBg.setAttribute('rx', '4');
+      labelBg.setAttribute('ry', '4');
+      nodeG.appendChild(labelBg);
+
+      const labelText = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+      labelText.setAttribute('x', (-w / 2 + labelWidth / 2).toString());
+      labelText.setAttribute('y', (-h / 2 - 9).toString());
+      labelText.setAttribute('fill', '#374151');
+      labelText.setAttribute('font-size', '13');
+      labelText.setAttribute('font-weight', '600');
+      labelText.setAttribute('text-anchor', 'middle');
+      labelText.textContent = node.label;
+      nodeG.appendChild(labelText);
+    }
+
+    // ノード内容を表示
+    if (node.content) {
+      // HTMLタグを除去してプレーンテキストに変換
+      const tempDiv = document.createElement('div');
+      tempDiv.innerHTML = node.content;
+      const plainText = tempDiv.textContent || tempDiv.innerText || '';
+
+      if (plainText.trim()) {
+        // パディングを考慮した利用可能幅
+        const padding = 10;
+        const topPadding = node.type === 'Module' ? 30 : 10;
+        const availableWidth = w - padding * 2;
+        const availableHeight = h - topPadding - padding;
+
+        // CJK文字判定関数
+        const isCJK = (char: string): boolean => {
+          const code = char.charCodeAt(0);
+          return (
+            (code >= 0x3000 && code <= 0x9FFF) ||   // CJK統合漢字、ひらがな、カタカナ等
+            (code >= 0xAC00 && code <= 0xD7AF) ||   // 韓国語
+            (code >= 0xFF00 && code <= 0xFFEF)      // 全角英数
+          );
+        };
+
+        // 文字幅を考慮した折り返し
+        const fontSize = 14;
+        const halfWidthChar = fontSize * 0.6;  // 半角文字の幅
+        const fullWidthChar = fontSize;        // 全角文字の幅
+        const lineHeight = fontSize * 1.4;
+        const maxLines = Math.floor(availableHeight / lineHeight);
+
+        const lines: string[] = [];
+        let currentLine = '';
+        let currentWidth = 0;
+
+        for (const char of plainText) {
+          if (char === '\n') {
+            if (currentLine) lines.push(currentLine);
+            currentLine = '';
+            currentWidth = 0;
+          } else {
+            const charW = isCJK(char) ? fullWidthChar : halfWidthChar;
+            if (currentWidth + charW > availableWidth && currentLine) {
+              lines.push(currentLine);
+              currentLine = char;
+              currentWidth = charW;
+            } else {
+              currentLine += char;
+              currentWidth += charW;
+            }
+          }
+        }
+        if (currentLine) {
+          lines.push(currentLine);
+        }
+
+        // 表示する行数を制限
+        const displayLines = lines.slice(0, maxLines);
+        const totalHeight = displayLines.length * lineHeight;
+        const startY = -totalHeight / 2 + lineHeight / 2 + (node.type === 'Module' ? 10 : 0);
+
+        displayLines.forEach((line, index) => {
+          const text = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+          text.setAttribute('x', '0');
+          text.setAttribute('y', (startY + index * lineHeight).toString());
+          text.setAttribute('fill', '#1F2937');
+          text.setAttribute('font-size', fontSize.toString());
+          text.setAttribute('font-family', 'system-ui, -apple-system, sans-serif');
+          text.setAttribute('text-anchor', 'middle');
+          text.setAttribute('dominant-baseline', 'middle');
+          text.textContent = line;
+          nodeG.appendChild(text);
+        });
+
+        // 省略記号（行数を超える場合）
+        if (lines.length > maxLines && displayLines.length > 0) {
+          const lastText = nodeG.lastChild as SVGTextElement;
+          if (lastText && lastText.textContent) {
+            const lastLine = lastText.textContent;
+            if (lastLine.length > 2) {
+              lastText.textContent = lastLine.slice(0, -2) + '…';
+            }
+          }
+        }
+      }
+    }
+
+    // Assumption/Justification添え字
+    if (node.type === 'Assumption' || node.type === 'Justification') {
+      const suffix = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+      suffix.setAttribute('x', (w / 2 - 10).toString());
+      suffix.setAttribute('y', (h / 2 - 5).toString());
+      suffix.setAttribute('fill', node.type === 'Assumption' ? '#DC2626' : '#2563EB');
+      suffix.setAttribute('font-size', '16');
+      suffix.setAttribute('font-weight', 'bold');
+      suffix.setAttribute('text-anchor', 'middle');
+      suffix.textContent = node.type === 'Assumption' ? 'A' : 'J';
+      nodeG.appendChild(suffix);
+    }
+
+    g.appendChild(nodeG);
+  });
+
+  newSvg.appendChild(g);
+
+  return { svg: newSvg, width, height };
+};
+
+/**
+ * SVGをPNGに変換する（scale 倍の解像度）
+ */
+export const svgToPngBlob = ({ svg, width, height }: DiagramSvg, scale = 2): Promise<Blob | null> =>
+  new Promise((resolve) => {
+    const svgData = new XMLSerializer().serializeToString(svg);
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      console.error('Canvas context not available');
+      resolve(null);
+      return;
+    }
+
+    const img = new Image();
+    const svgBlob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' });
+    const svgUrl = URL.createObjectURL(svgBlob);
+    img.onload = () => {
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0);
+      URL.revokeObjectURL(svgUrl);
+      canvas.toBlob((blob) => resolve(blob), 'image/png');
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(svgUrl);
+      resolve(null);
+    };
+    img.src = svgUrl;
+  });
@@ -0,0 +1,8 @@
+// バージョン比較の強調色（追加: 緑、削除: 赤、変更: 黄）
+export type DiffStatus = 'added' | 'removed' | 'modified';
+
+export const DIFF_COLORS: Record<DiffStatus, string> = {
+  added: '#16A34A',
+  removed: '#DC2626',
+  modified: '#D97706',
+};
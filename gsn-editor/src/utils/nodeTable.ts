@@ -0,0 +1,194 @@
+import type { Link, Node, NodeComment, NodeType } from '../types/diagram';
+import { NODE_LABELS } from '../types/diagram';
+import type { ValidationResult } from './validation';
+import { stripHtml } from './textFormats';
+
+/**
+ * 表ビュー（ノードの一括編集）の行と CSV の読み書き
+ *
+ * CSV は id・ラベル・種類・本文（プレーンテキスト）・親・コメント数・検証結果の列で書き出し、
+ * 読み込み時は id（なければラベル）でノードを探して種類と本文だけを反映する
+ */
+
+export type NodeTableStatus = 'error' | 'warning' | 'ok';
+
+export interface NodeTableRow {
+  node: Node;
+  content: string; // 本文のプレーンテキスト
+  parents: string[]; // 親ノードのラベル
+  commentCount: number; // スレッド数（返信は数えない）
+  unresolvedCount: number;
+  status: NodeTableStatus;
+  findings: string[]; // このノードに関する検証のメッセージ
+}
+
+export interface NodeTableCsvUpdate {
+  nodeId: string;
+  type?: NodeType;
+  content?: string;
+}
+
+export interface NodeTableCsvResult {
+  updates: NodeTableCsvUpdate[];
+  unmatched: string[]; // 対応するノードが見つからなかった行の id・ラベル
+}
+
+const nodeLabel = (node: Node) => node.label || node.id.slice(0, 8);
+
+export const buildNodeTableRows = (
+  nodes: Node[],
+  links: Link[],
+  comments: NodeComment[],
+  validation: ValidationResult
+): NodeTableRow[] => {
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const findings = new Map<string, { status: NodeTableStatus; messages: string[] }>();
+  for (const finding of [...validation.errors, ...validation.warnings]) {
+    for (const nodeId of finding.nodeIds ?? []) {
+      const entry = findings.get(nodeId) ?? { status: 'ok' as NodeTableStatus, messages: [] };
+      entry.status = entry.status === 'error' || finding.type === 'error' ? 'error' : 'warning';
+      entry.messages.push(finding.message);
+      findings.set(nodeId, entry);
+    }
+  }
+
+  return nodes.map((node) => {
+    const threads = comments.filter((comment) => comment.nodeId === node.id && !comment.parentId);
+    const entry = findings.get(node.id);
+    return {
+      node,
+      content: stripHtml(node.content),
+      parents: links
+        .filter((link) => link.target === node.id && nodeById.has(link.source))
+        .map((link) => nodeLabel(nodeById.get(link.source)!)),
+      commentCount: threads.length,
+      unresolvedCount: threads.filter((comment) => !comment.resolvedAt).length,
+      status: entry?.status ?? 'ok',
+      findings: entry?.messages ?? [],
+    };
+  });
+};
+
+const CSV_HEADER = ['id', 'label', 'type', 'content', 'parents', 'comments', 'status', 'findings'];
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  if (/[",\n\r]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+export const nodeTableToCsv = (rows: NodeTableRow[]): string => {
+  const lines = [
+    CSV_HEADER,
+    ...rows.map((row) => [
+      row.node.id,
+      row.node.label ?? '',
+      row.node.type,
+      row.content,
+      row.parents.join(' '),
+      row.commentCount,
+      row.status,
+      row.findings.join(' / '),
+    ]),
+  ];
+  // Excel で文字化けしないよう BOM を付ける
+  return `\uFEFF${lines.map((line) => line.map(escapeCsv).join(',')).join('\n')}`;
+};
+
+// RFC 4180 の CSV（引用符内の改行・"" のエスケープに対応）
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+// 種類は英語名・日本語名のどちらでも読む（モジュールへの変更は扱わない）
+const parseNodeType = (value: string): NodeType | undefined => {
+  const text = value.trim().toLowerCase();
+  const type = (Object.keys(NODE_LABELS) as NodeType[]).find(
+    (candidate) => candidate.toLowerCase() === text || NODE_LABELS[candidate] === value.trim()
+  );
+  return type === 'Module' ? undefined : type;
+};
+
+/**
+ * 書き出した CSV（または同じ見出しの表）を読み、変更のあったノードの種類・本文を返す
+ */
+export const readNodeTableCsv = (text: string, nodes: Node[]): NodeTableCsvResult => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return { updates: [], unmatched: [] };
+  const column = (name: string) => header.findIndex((cell) => cell.trim().toLowerCase() === name);
+  const idColumn = column('id');
+  const labelColumn = column('label');
+  const typeColumn = column('type');
+  const contentColumn = column('content');
+  if (idColumn < 0 && labelColumn < 0) {
+    throw new Error('CSV に id または label の列がありません');
+  }
+
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const nodeByLabel = new Map(nodes.filter((node) => node.label).map((node) => [node.label!, node]));
+  const updates: NodeTableCsvUpdate[] = [];
+  const unmatched: string[] = [];
+
+  for (const record of records) {
+    const id = idColumn >= 0 ? (record[idColumn] ?? '').trim() : '';
+    const label = labelColumn >= 0 ? (record[labelColumn] ?? '').trim() : '';
+    const node = nodeById.get(id) ?? nodeByLabel.get(label);
+    if (!node) {
+      unmatched.push(id || label);
+      continue;
+    }
+
+    const update: NodeTableCsvUpdate = { nodeId: node.id };
+    const type = typeColumn >= 0 ? parseNodeType(record[typeColumn] ?? '') : undefined;
+    if (type && type !== node.type && node.type !== 'Module') {
+      update.type = type;
+    }
+    const content = contentColumn >= 0 ? record[contentColumn] : undefined;
+    if (content !== undefined && node.type !== 'Module' && content.trim() !== stripHtml(node.content)) {
+      update.content = content.trim();
+    }
+    if (update.type || update.content !== undefined) {
+      updates.push(update);
+    }
+  }
+
+  return { updates, unmatched };
+};
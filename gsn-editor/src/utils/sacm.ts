@@ -0,0 +1,426 @@
+import type { DiagramData, Link, Node, NodeType, ProjectData } from '../types/diagram';
+import { DEFAULT_NODE_SIZE, NODE_COLORS } from '../types/diagram';
+import { autoLayout } from './autoLayout';
+
+/**
+ * OMG SACM 2.x（Structured Assurance Case Metamodel）の XMI との変換
+ *
+ * - モジュール → ArgumentPackage
+ * - Goal / 未展開 / 仮定 / 正当化 / モジュール → Claim（assertionDeclaration で区別）
+ * - Strategy → ArgumentReasoning（親子の支持関係は reasoning 付きの AssertedInference にまとめる）
+ * - Context / Evidence → ArtifactReference
+ * - 支持（solid）→ AssertedInference / AssertedEvidence、コンテキスト（dashed）→ AssertedContext
+ *
+ * 位置・サイズ・元のノード種類は taggedValue（gsn.*）に保持し、往復しても図が崩れないようにする
+ */
+
+const XMI_NS = 'http://www.omg.org/spec/XMI/20131001';
+const XSI_NS = 'http://www.w3.org/2001/XMLSchema-instance';
+const SACM_NS = 'http://www.omg.org/spec/SACM/20200601';
+
+// Claim の assertionDeclaration とノード種類の対応
+const CLAIM_DECLARATIONS: Partial<Record<NodeType, string>> = {
+  Goal: 'asserted',
+  Undeveloped: 'needsSupport',
+  Assumption: 'assumed',
+  Justification: 'axiomatic',
+  Module: 'asCited',
+};
+
+const LABEL_PREFIXES: Record<NodeType, string> = {
+  Goal: 'G',
+  Strategy: 'S',
+  Context: 'C',
+  Evidence: 'E',
+  Assumption: 'A',
+  Justification: 'J',
+  Undeveloped: 'U',
+  Module: 'M',
+};
+
+const NODE_TYPES = Object.keys(LABEL_PREFIXES) as NodeType[];
+
+const TAG_TYPE = 'gsn.type';
+const TAG_POSITION = 'gsn.position';
+const TAG_SIZE = 'gsn.size';
+const TAG_MODULE = 'gsn.module';
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+
+const langString = (tag: string, value: string) => `<${tag} content="${escapeXml(value)}"/>`;
+
+const taggedValue = (key: string, value: string) =>
+  `<taggedValue>${langString('key', key)}${langString('value', value)}</taggedValue>`;
+
+const inferenceId = (strategyId: string) => `${strategyId}_inference`;
+
+// ---------------------------------------------------------------------------
+// エクスポート
+// ---------------------------------------------------------------------------
+
+interface Relationship {
+  id: string;
+  type: 'AssertedInference' | 'AssertedEvidence' | 'AssertedContext';
+  sources: string[];
+  targets: string[];
+  reasoning?: string;
+}
+
+const buildRelationships = (module: DiagramData): Relationship[] => {
+  const nodeById = new Map(module.nodes.map((node) => [node.id, node]));
+  const solid = module.links.filter((link) => link.type === 'solid');
+  const relationships: Relationship[] = [];
+
+  // Strategy は「親ゴール ← 子ノード」の推論の理由として表す
+  module.nodes
+    .filter((node) => node.type === 'Strategy')
+    .forEach((strategy) => {
+      relationships.push({
+        id: inferenceId(strategy.id),
+        type: 'AssertedInference',
+        sources: solid.filter((link) => link.source === strategy.id).map((link) => link.target),
+        targets: solid.filter((link) => link.target === strategy.id).map((link) => link.source),
+        reasoning: strategy.id,
+      });
+    });
+
+  module.links.forEach((link) => {
+    const source = nodeById.get(link.source);
+    const target = nodeById.get(link.target);
+    if (!source || !target) return;
+
+    if (link.type === 'dashed') {
+      relationships.push({
+        id: link.id,
+        type: 'AssertedContext',
+        sources: [target.id],
+        targets: [source.type === 'Strategy' ? inferenceId(source.id) : source.id],
+      });
+      return;
+    }
+    if (source.type === 'Strategy' || target.type === 'Strategy') return;
+    relationships.push({
+      id: link.id,
+      type: target.type === 'Evidence' ? 'AssertedEvidence' : 'AssertedInference',
+      sources: [target.id],
+      targets: [source.id],
+    });
+  });
+
+  return relationships;
+};
+
+const exportNode = (node: Node, indent: string): string => {
+  const sacmType =
+    node.type === 'Strategy'
+      ? 'ArgumentReasoning'
+      : node.type === 'Context' || node.type === 'Evidence'
+        ? 'ArtifactReference'
+        : 'Claim';
+  const declaration = sacmType === 'Claim' ? ` assertionDeclaration="${CLAIM_DECLARATIONS[node.type]}"` : '';
+  const lines = [
+    `${indent}<argumentationElement xsi:type="sacm:${sacmType}" xmi:id="${escapeXml(node.id)}" gid="${escapeXml(node.label ?? node.id)}"${declaration}>`,
+    `${indent}  ${langString('name', node.label ?? '')}`,
+    `${indent}  <content>${langString('value', node.content ?? '')}</content>`,
+    `${indent}  ${taggedValue(TAG_TYPE, node.type)}`,
+    `${indent}  ${taggedValue(TAG_POSITION, `${Math.round(node.position.x)},${Math.round(node.position.y)}`)}`,
+    `${indent}  ${taggedValue(TAG_SIZE, `${Math.round(node.size.width)},${Math.round(node.size.height)}`)}`,
+  ];
+  if (node.type === 'Module' && node.moduleId) {
+    lines.push(`${indent}  ${taggedValue(TAG_MODULE, node.moduleId)}`);
+  }
+  lines.push(`${indent}</argumentationElement>`);
+  return lines.join('\n');
+};
+
+const exportRelationship = (relationship: Relationship, indent: string) => {
+  const reasoning = relationship.reasoning ? ` reasoning="${escapeXml(relationship.reasoning)}"` : '';
+  return (
+    `${indent}<argumentationElement xsi:type="sacm:${relationship.type}" xmi:id="${escapeXml(relationship.id)}"` +
+    ` assertionDeclaration="asserted" source="${escapeXml(relationship.sources.join(' '))}"` +
+    ` target="${escapeXml(relationship.targets.join(' '))}"${reasoning}/>`
+  );
+};
+
+/**
+ * プロジェクト全体（全モジュール）を SACM の XMI に変換する
+ */
+export const exportSacmXmi = (project: ProjectData): string => {
+  const packages = Object.entries(project.modules).map(([moduleId, module]) =>
+    [
+      `  <argumentPackage xmi:id="pkg_${escapeXml(moduleId)}" gid="${escapeXml(moduleId)}">`,
+      `    ${langString('name', module.title ?? moduleId)}`,
+      ...module.nodes.map((node) => exportNode(node, '    ')),
+      ...buildRelationships(module).map((relationship) => exportRelationship(relationship, '    ')),
+      '  </argumentPackage>',
+    ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<sacm:AssuranceCasePackage xmi:version="2.5" xmlns:xmi="${XMI_NS}" xmlns:xsi="${XSI_NS}" xmlns:sacm="${SACM_NS}" xmi:id="assurance_case" gid="assurance_case">`,
+    `  ${langString('name', project.modules.root?.title ?? '')}`,
+    ...packages,
+    '</sacm:AssuranceCasePackage>',
+    '',
+  ].join('\n');
+};
+
+// ---------------------------------------------------------------------------
+// インポート
+// ---------------------------------------------------------------------------
+
+const childElements = (element: Element, localName: string) =>
+  Array.from(element.children).filter((child) => child.localName === localName);
+
+// LangString / MultiLangString（content 属性、value 子要素、テキストのいずれか）を読む
+const readLangString = (element: Element | undefined): string => {
+  if (!element) return '';
+  const direct = element.getAttribute('content') ?? element.getAttribute('value');
+  if (direct !== null) return direct;
+  const nested = childElements(element, 'value')[0] ?? childElements(element, 'content')[0];
+  return nested ? readLangString(nested) : (element.textContent ?? '').trim();
+};
+
+const readTags = (element: Element): Map<string, string> =>
+  new Map(
+    childElements(element, 'taggedValue').map((tag) => [
+      tag.getAttribute('key') ?? readLangString(childElements(tag, 'key')[0]),
+      tag.getAttribute('value') ?? readLangString(childElements(tag, 'value')[0]),
+    ])
+  );
+
+const readPair = (value: string | undefined): [number, number] | null => {
+  const [a, b] = (value ?? '').split(',').map(Number);
+  return Number.isFinite(a) && Number.isFinite(b) ? [a, b] : null;
+};
+
+const readIds = (value: string | null) => (value ?? '').split(/\s+/).filter(Boolean);
+
+// xsi:type="sacm:Claim" → Claim
+const readSacmType = (element: Element) => {
+  const type = element.getAttributeNS(XSI_NS, 'type') || element.getAttribute('xsi:type') || '';
+  return type.includes(':') ? type.slice(type.indexOf(':') + 1) : type;
+};
+
+const readXmiId = (element: Element) => element.getAttributeNS(XMI_NS, 'id') || element.getAttribute('xmi:id') || null;
+
+const claimTypeFromDeclaration = (declaration: string | null): NodeType =>
+  (NODE_TYPES.find((type) => CLAIM_DECLARATIONS[type] === declaration && type !== 'Module') ?? 'Goal');
+
+interface ParsedPackage {
+  moduleId: string;
+  title: string;
+  nodes: Node[];
+  links: Link[];
+  hasLayout: boolean;
+}
+
+const parsePackage = (
+  element: Element,
+  moduleId: string,
+  generateId: (prefix: 'node' | 'link') => string
+): ParsedPackage => {
+  const elements = [
+    ...childElements(element, 'argumentationElement'),
+    ...childElements(element, 'argumentAsset'),
+  ];
+  const relationships: Relationship[] = [];
+  const nodes: Node[] = [];
+  const untypedArtifacts = new Set<string>(); // gsn.type のない ArtifactReference
+  let hasLayout = true;
+
+  elements.forEach((item) => {
+    const sacmType = readSacmType(item);
+    const id = readXmiId(item) ?? generateId('node');
+
+    if (sacmType === 'AssertedInference' || sacmType === 'AssertedEvidence' || sacmType === 'AssertedContext') {
+      relationships.push({
+        id,
+        type: sacmType,
+        sources: readIds(item.getAttribute('source')),
+        targets: readIds(item.getAttribute('target')),
+        reasoning: item.getAttribute('reasoning') ?? undefined,
+      });
+      return;
+    }
+
+    const tags = readTags(item);
+    const taggedType = tags.get(TAG_TYPE) as NodeType | undefined;
+    let type: NodeType;
+    if (taggedType && NODE_TYPES.includes(taggedType)) {
+      type = taggedType;
+    } else if (sacmType === 'Claim') {
+      type = claimTypeFromDeclaration(item.getAttribute('assertionDeclaration'));
+    } else if (sacmType === 'ArgumentReasoning') {
+      type = 'Strategy';
+    } else if (sacmType === 'ArtifactReference') {
+      type = 'Evidence'; // コンテキストとして参照されているものは後で Context にする
+      untypedArtifacts.add(id);
+    } else {
+      return;
+    }
+
+    const position = readPair(tags.get(TAG_POSITION));
+    const size = readPair(tags.get(TAG_SIZE));
+    if (!position) hasLayout = false;
+
+    const label = readLangString(childElements(item, 'name')[0]) || item.getAttribute('gid') || undefined;
+    const content =
+      readLangString(childElements(item, 'content')[0]) || readLangString(childElements(item, 'description')[0]);
+
+    nodes.push({
+      id,
+      type,
+      label,
+      content,
+      position: position ? { x: position[0], y: position[1] } : { x: 0, y: 0 },
+      size: size ? { width: size[0], height: size[1] } : { ...DEFAULT_NODE_SIZE },
+      style: { fillColor: NODE_COLORS[type], borderColor: '#374151', borderWidth: 2 },
+      ...(type === 'Module' && tags.get(TAG_MODULE) ? { moduleId: tags.get(TAG_MODULE) } : {}),
+    });
+  });
+
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const relationshipById = new Map(relationships.map((relationship) => [relationship.id, relationship]));
+  const links: Link[] = [];
+  const linkKeys = new Set<string>();
+  const addLink = (source: string, target: string, type: Link['type']) => {
+    const key = `${source}->${target}:${type}`;
+    if (source === target || !nodeById.has(source) || !nodeById.has(target) || linkKeys.has(key)) return;
+    linkKeys.add(key);
+    links.push({ id: generateId('link'), source, target, type });
+  };
+
+  // 関係の target がほかの関係（推論）の場合は、その推論の理由（Strategy）か結論のノードにつなぐ
+  const resolveTargets = (targetId: string): string[] => {
+    if (nodeById.has(targetId)) return [targetId];
+    const relationship = relationshipById.get(targetId);
+    if (!relationship) return [];
+    return relationship.reasoning && nodeById.has(relationship.reasoning)
+      ? [relationship.reasoning]
+      : relationship.targets.filter((id) => nodeById.has(id));
+  };
+
+  relationships.forEach((relationship) => {
+    if (relationship.type === 'AssertedContext') {
+      relationship.sources.forEach((sourceId) => {
+        const node = nodeById.get(sourceId);
+        if (node && untypedArtifacts.has(node.id)) {
+          node.type = 'Context';
+          node.style = { ...node.style, fillColor: NODE_COLORS.Context };
+        }
+        relationship.targets.flatMap(resolveTargets).forEach((parentId) => addLink(parentId, sourceId, 'dashed'));
+      });
+      return;
+    }
+
+    if (relationship.reasoning && nodeById.has(relationship.reasoning)) {
+      const reasoning = relationship.reasoning;
+      relationship.targets.flatMap(resolveTargets).forEach((parentId) => addLink(parentId, reasoning, 'solid'));
+      relationship.sources.forEach((childId) => addLink(reasoning, childId, 'solid'));
+      return;
+    }
+
+    relationship.targets.flatMap(resolveTargets).forEach((parentId) => {
+      relationship.sources.forEach((childId) => addLink(parentId, childId, 'solid'));
+    });
+  });
+
+  return {
+    moduleId,
+    title: readLangString(childElements(element, 'name')[0]) || moduleId,
+    nodes,
+    links,
+    hasLayout: hasLayout && nodes.length > 0,
+  };
+};
+
+const buildLabelCounters = (modules: Record<string, DiagramData>): Record<NodeType, number> => {
+  const counters = Object.fromEntries(NODE_TYPES.map((type) => [type, 0])) as Record<NodeType, number>;
+  Object.values(modules).forEach((module) => {
+    module.nodes.forEach((node) => {
+      const match = node.label?.match(new RegExp(`^${LABEL_PREFIXES[node.type]}(\\d+)$`));
+      if (match) counters[node.type] = Math.max(counters[node.type], Number(match[1]));
+    });
+  });
+  return counters;
+};
+
+/**
+ * SACM の XMI を読み込んでプロジェクトデータに変換する（読み込めない場合は Error を投げる）
+ */
+export const importSacmXmi = (xml: string): ProjectData => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('XMLの解析に失敗しました');
+  }
+
+  const packageElements = Array.from(doc.getElementsByTagName('*')).filter(
+    (element) => element.localName === 'argumentPackage' || readSacmType(element) === 'ArgumentPackage'
+  );
+  if (packageElements.length === 0) {
+    throw new Error('SACM の ArgumentPackage が見つかりません');
+  }
+
+  let sequence = 0;
+  const generateId = (prefix: 'node' | 'link') => `${prefix}_${Date.now()}_${(sequence++).toString(36)}`;
+
+  // gid がモジュールIDとして使われていなければ、最初のパッケージを root にする
+  const hasRootPackage = packageElements.some((element) => element.getAttribute('gid') === 'root');
+  const usedIds = new Set<string>();
+  const parsed = packageElements.map((element, index) => {
+    const gid = element.getAttribute('gid');
+    let moduleId = !hasRootPackage && index === 0 ? 'root' : gid || readXmiId(element) || `module_${index}`;
+    if (usedIds.has(moduleId)) moduleId = `${moduleId}_${index}`;
+    usedIds.add(moduleId);
+    return parsePackage(element, moduleId, generateId);
+  });
+
+  const now = new Date().toISOString();
+  const modules: Record<string, DiagramData> = {};
+  parsed.forEach((item) => {
+    modules[item.moduleId] = {
+      version: '1.0.0',
+      title: item.title,
+      nodes: item.nodes,
+      links: item.links,
+      metadata: { createdAt: now, updatedAt: now, id: item.moduleId, isModule: item.moduleId !== 'root' },
+    };
+  });
+
+  // モジュールノードの参照先と親モジュールを結びつける
+  parsed.forEach((item) => {
+    item.nodes.forEach((node) => {
+      if (node.type !== 'Module' || !node.moduleId) return;
+      const target = modules[node.moduleId];
+      if (!target) {
+        delete node.moduleId;
+        return;
+      }
+      node.moduleName = target.title;
+      target.metadata.parentModuleId = item.moduleId;
+    });
+  });
+
+  // 位置情報のないパッケージは自動レイアウトする
+  parsed
+    .filter((item) => !item.hasLayout)
+    .forEach((item) => {
+      modules[item.moduleId].nodes = autoLayout(item.nodes, item.links, modules);
+    });
+
+  return {
+    version: '1.0.0',
+    currentDiagramId: 'root',
+    modules,
+    labelCounters: buildLabelCounters(modules),
+    exportedAt: now,
+  };
+};
@@ -0,0 +1,397 @@
+import type { DiagramData, LinkType, Node, NodeType } from '../types/diagram';
+
+/**
+ * テキスト形式のダイアグラム（Markdown などに貼る用）との変換
+ *
+ * - エクスポート: Mermaid flowchart / PlantUML / Graphviz DOT（GSN の形は近い図形で代用し、InContextOf は破線）
+ * - インポート: インデントしたテキストと DOT のサブセット（ノードとリンクだけを読み、配置は自動レイアウトに任せる）
+ */
+
+export type TextExportFormat = 'mermaid' | 'plantuml' | 'dot';
+
+export interface ParsedTextNode {
+  key: string; // テキスト内での識別子（インポート時に新しい ID に置き換える）
+  type: NodeType;
+  content: string;
+}
+
+export interface ParsedTextLink {
+  source: string;
+  target: string;
+  type: LinkType;
+}
+
+export interface ParsedTextDiagram {
+  nodes: ParsedTextNode[];
+  links: ParsedTextLink[];
+}
+
+const CONTEXT_TYPES: NodeType[] = ['Context', 'Assumption', 'Justification'];
+
+export const linkTypeFor = (targetType: NodeType): LinkType => (CONTEXT_TYPES.includes(targetType) ? 'dashed' : 'solid');
+
+export const stripHtml = (html: string | undefined) =>
+  (html ?? '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+
+// 「G1: 本文」の形の表示テキスト（行の配列）
+const nodeLines = (node: Node) => {
+  const lines = stripHtml(node.content).split('\n').filter(Boolean);
+  return node.label ? [node.label, ...lines] : lines;
+};
+
+// 書き出し用の連番 ID（Mermaid / PlantUML は記号を含む ID を扱えないため）
+const aliasMap = (diagram: DiagramData) => new Map(diagram.nodes.map((node, index) => [node.id, `n${index + 1}`]));
+
+const MERMAID_SHAPES: Record<NodeType, [string, string]> = {
+  Goal: ['["', '"]'],
+  Strategy: ['[/"', '"/]'],
+  Context: ['("', '")'],
+  Evidence: ['(("', '"))'],
+  Assumption: ['(["', '"])'],
+  Justification: ['(["', '"])'],
+  Undeveloped: ['{"', '"}'],
+  Module: ['[["', '"]]'],
+};
+
+export const exportMermaid = (diagram: DiagramData): string => {
+  const aliases = aliasMap(diagram);
+  const escape = (text: string) => text.replace(/"/g, '#quot;');
+  const lines = [`%% ${diagram.title}`, 'flowchart TB'];
+
+  diagram.nodes.forEach((node) => {
+    const [open, close] = MERMAID_SHAPES[node.type];
+    const text = nodeLines(node).map(escape).join('<br/>');
+    const suffix = node.type === 'Assumption' ? ' (A)' : node.type === 'Justification' ? ' (J)' : '';
+    lines.push(`  ${aliases.get(node.id)}${open}${text}${suffix}${close}`);
+  });
+  diagram.links.forEach((link) => {
+    const source = aliases.get(link.source);
+    const target = aliases.get(link.target);
+    if (source && target) lines.push(`  ${source} ${link.type === 'dashed' ? '-.->' : '-->'} ${target}`);
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+const PLANTUML_ELEMENTS: Record<NodeType, string> = {
+  Goal: 'rectangle',
+  Strategy: 'hexagon',
+  Context: 'card',
+  Evidence: 'usecase',
+  Assumption: 'usecase',
+  Justification: 'usecase',
+  Undeveloped: 'rectangle',
+  Module: 'folder',
+};
+
+const PLANTUML_STEREOTYPES: Partial<Record<NodeType, string>> = {
+  Assumption: ' <<A>>',
+  Justification: ' <<J>>',
+  Undeveloped: ' <<undeveloped>>',
+};
+
+export const exportPlantUml = (diagram: DiagramData): string => {
+  const aliases = aliasMap(diagram);
+  // PlantUML の文字列は " をエスケープできないため ' に置き換える
+  const escape = (text: string) => text.replace(/"/g, "''").replace(/\\/g, '\\\\');
+  const lines = ['@startuml', `title ${diagram.title}`, 'top to bottom direction'];
+
+  diagram.nodes.forEach((node) => {
+    const text = nodeLines(node).map(escape).join('\\n');
+    lines.push(
+      `${PLANTUML_ELEMENTS[node.type]} "${text}" as ${aliases.get(node.id)}${PLANTUML_STEREOTYPES[node.type] ?? ''}`
+    );
+  });
+  diagram.links.forEach((link) => {
+    const source = aliases.get(link.source);
+    const target = aliases.get(link.target);
+    if (source && target) lines.push(`${source} ${link.type === 'dashed' ? '..>' : '-->'} ${target}`);
+  });
+  lines.push('@enduml');
+  return `${lines.join('\n')}\n`;
+};
+
+const DOT_SHAPES: Record<NodeType, string> = {
+  Goal: 'shape=box',
+  Strategy: 'shape=parallelogram',
+  Context: 'shape=box, style=rounded',
+  Evidence: 'shape=ellipse',
+  Assumption: 'shape=ellipse, xlabel="A"',
+  Justification: 'shape=ellipse, xlabel="J"',
+  Undeveloped: 'shape=diamond',
+  Module: 'shape=tab',
+};
+
+const dotString = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+export const exportDot = (diagram: DiagramData): string => {
+  const lines = [`digraph ${dotString(diagram.title || 'GSN')} {`, '  rankdir=TB;', '  node [fontname="sans-serif"];'];
+
+  diagram.nodes.forEach((node) => {
+    const attributes = [
+      `label=${dotString(nodeLines(node).join('\n'))}`,
+      DOT_SHAPES[node.type],
+      `gsn_type="${node.type}"`,
+    ];
+    if (node.label) attributes.push(`gsn_label=${dotString(node.label)}`);
+    lines.push(`  ${dotString(node.id)} [${attributes.join(', ')}];`);
+  });
+  diagram.links.forEach((link) => {
+    const style = link.type === 'dashed' ? ' [style=dashed, arrowhead=empty]' : '';
+    lines.push(`  ${dotString(link.source)} -> ${dotString(link.target)}${style};`);
+  });
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+};
+
+export const exportTextDiagram = (diagram: DiagramData, format: TextExportFormat): string => {
+  switch (format) {
+    case 'mermaid':
+      return exportMermaid(diagram);
+    case 'plantuml':
+      return exportPlantUml(diagram);
+    default:
+      return exportDot(diagram);
+  }
+};
+
+// インデント形式の行頭の種類（英語名・ラベルの頭文字のどちらでも書ける）
+const TYPE_KEYWORDS: Record<string, NodeType> = {
+  goal: 'Goal',
+  strategy: 'Strategy',
+  context: 'Context',
+  evidence: 'Evidence',
+  solution: 'Evidence',
+  assumption: 'Assumption',
+  justification: 'Justification',
+  undeveloped: 'Undeveloped',
+  g: 'Goal',
+  s: 'Strategy',
+  c: 'Context',
+  e: 'Evidence',
+  sn: 'Evidence',
+  a: 'Assumption',
+  j: 'Justification',
+  u: 'Undeveloped',
+};
+
+const INDENT_LINE = /^(\s*)(?:[-*+]\s+)?(?:([A-Za-z]+)\d*\s*[:：]\s*)?(.*)$/;
+
+/**
+ * インデントしたテキストを読む
+ *
+ *   G1: システムは安全である
+ *     C1: 運用環境
+ *     S1: 危険源ごとに議論する
+ *       G2: 危険源 A は緩和されている
+ *         E1: 試験報告書
+ *
+ * 行頭の「種類:」は省略でき、その場合はゴールになる。Markdown の箇条書き記号と # で始まるコメント行は無視する
+ */
+export const parseIndentedText = (text: string): ParsedTextDiagram => {
+  const nodes: ParsedTextNode[] = [];
+  const links: ParsedTextLink[] = [];
+  const stack: Array<{ indent: number; key: string }> = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    if (!rawLine.trim() || /^\s*(#|\/\/|```)/.test(rawLine)) return;
+    const match = INDENT_LINE.exec(rawLine.replace(/\t/g, '    '));
+    if (!match) return;
+    const [, indentText, keyword, rest] = match;
+    const keywordType = keyword ? TYPE_KEYWORDS[keyword.toLowerCase()] : undefined;
+    const type = keywordType ?? 'Goal';
+    // 種類として読めない「xxx:」は本文の一部として扱う
+    const content = (keywordType ? rest : rawLine.trim().replace(/^[-*+]\s+/, '')).trim();
+
+    const key = `line${index + 1}`;
+    nodes.push({ key, type, content });
+
+    const indent = indentText.length;
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (parent) links.push({ source: parent.key, target: key, type: linkTypeFor(type) });
+    stack.push({ indent, key });
+  });
+
+  return { nodes, links };
+};
+
+type DotToken = { kind: 'id' | 'symbol'; value: string };
+
+const tokenizeDot = (text: string): DotToken[] => {
+  const source = text.replace(/\/\*[\s\S]*?\*\//g, ' ').replace(/^\s*#.*$/gm, ' ').replace(/\/\/.*$/gm, ' ');
+  const tokens: DotToken[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '"') {
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== '"') {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          const next = source[index + 1];
+          value += next === 'n' || next === 'l' || next === 'r' ? '\n' : next;
+          index += 2;
+        } else {
+          value += source[index++];
+        }
+      }
+      index++;
+      tokens.push({ kind: 'id', value });
+    } else if (source.startsWith('->', index) || source.startsWith('--', index)) {
+      tokens.push({ kind: 'symbol', value: '->' });
+      index += 2;
+    } else if ('[]{}=;,'.includes(char)) {
+      tokens.push({ kind: 'symbol', value: char });
+      index++;
+    } else {
+      // 英数字・アンダースコア・数値・非 ASCII 文字の ID（それ以外の記号は読み飛ばす）
+      const match = /^[\w.\u0080-\uffff]+/.exec(source.slice(index));
+      if (match) tokens.push({ kind: 'id', value: match[0] });
+      index += match ? match[0].length : 1;
+    }
+  }
+  return tokens;
+};
+
+// DOT の shape / style から GSN の種類を推測する（gsn_type があればそれを使う）
+const typeFromDotAttributes = (attributes: Record<string, string>): NodeType => {
+  const explicit = attributes.gsn_type as NodeType | undefined;
+  if (explicit && explicit in MERMAID_SHAPES) return explicit;
+  const shape = (attributes.shape ?? 'box').toLowerCase();
+  if (shape === 'parallelogram') return 'Strategy';
+  if (shape === 'diamond') return 'Undeveloped';
+  if (shape === 'ellipse' || shape === 'oval' || shape === 'circle') {
+    const marker = (attributes.xlabel ?? '').toUpperCase();
+    return marker === 'A' ? 'Assumption' : marker === 'J' ? 'Justification' : 'Evidence';
+  }
+  if ((attributes.style ?? '').includes('rounded')) return 'Context';
+  return 'Goal';
+};
+
+/**
+ * Graphviz DOT のサブセット（ノード文・エッジ文と [key=value] の属性）を読む
+ * サブグラフの区切りや graph / node / edge の既定属性は読み飛ばす
+ */
+export const parseDot = (text: string): ParsedTextDiagram => {
+  const tokens = tokenizeDot(text);
+  const nodeAttributes = new Map<string, Record<string, string>>();
+  const edges: Array<{ source: string; target: string; attributes: Record<string, string> }> = [];
+  let index = 0;
+
+  const readAttributes = () => {
+    const attributes: Record<string, string> = {};
+    while (tokens[index]?.value === '[') {
+      index++;
+      while (index < tokens.length && tokens[index].value !== ']') {
+        const key = tokens[index++];
+        if (key.kind !== 'id') continue;
+        if (tokens[index]?.value === '=') {
+          index++;
+          attributes[key.value] = tokens[index++]?.value ?? '';
+        }
+      }
+      index++;
+    }
+    return attributes;
+  };
+
+  const ensureNode = (id: string) => {
+    if (!nodeAttributes.has(id)) nodeAttributes.set(id, {});
+  };
+
+  // digraph 名 { の部分を読み飛ばす
+  while (index < tokens.length && tokens[index].value !== '{') index++;
+  index++;
+
+  while (index < tokens.length) {
+    const token = tokens[index];
+    if (token.kind === 'symbol') {
+      index++;
+      continue;
+    }
+    const keyword = token.value.toLowerCase();
+    if (keyword === 'graph' || keyword === 'node' || keyword === 'edge') {
+      index++;
+      readAttributes();
+      continue;
+    }
+    if (keyword === 'subgraph') {
+      index++;
+      if (tokens[index]?.kind === 'id') index++;
+      continue;
+    }
+    // graph 属性（rankdir=TB など）
+    if (tokens[index + 1]?.value === '=') {
+      index += 3;
+      continue;
+    }
+
+    const chain = [token.value];
+    index++;
+    while (tokens[index]?.value === '->' && tokens[index + 1]?.kind === 'id') {
+      chain.push(tokens[index + 1].value);
+      index += 2;
+    }
+    const attributes = readAttributes();
+    chain.forEach(ensureNode);
+    if (chain.length === 1) {
+      nodeAttributes.set(token.value, { ...nodeAttributes.get(token.value), ...attributes });
+    } else {
+      for (let i = 0; i < chain.length - 1; i++) {
+        edges.push({ source: chain[i], target: chain[i + 1], attributes });
+      }
+    }
+  }
+
+  const nodes: ParsedTextNode[] = [...nodeAttributes.entries()].map(([id, attributes]) => {
+    let content = attributes.label ?? id;
+    // エクスポートした DOT ではラベルの1行目がノードのラベル（G1 など）
+    const label = attributes.gsn_label;
+    if (label && (content === label || content.startsWith(`${label}\n`))) {
+      content = content.slice(label.length).trim();
+    }
+    return { key: id, type: typeFromDotAttributes(attributes), content };
+  });
+  const typeByKey = new Map(nodes.map((node) => [node.key, node.type]));
+  const links: ParsedTextLink[] = edges.map(({ source, target, attributes }) => ({
+    source,
+    target,
+    type: (attributes.style ?? '').includes('dashed') ? 'dashed' : linkTypeFor(typeByKey.get(target) ?? 'Goal'),
+  }));
+
+  return { nodes, links };
+};
+
+// 「S: 本文」のように入力された種類指定を読む（種類として読めなければ本文のまま）
+export const parseTypePrefix = (text: string): { type?: NodeType; content: string } => {
+  const match = /^\s*([A-Za-z]+)\d*\s*[:：]\s*([\s\S]*)$/.exec(text);
+  const type = match ? TYPE_KEYWORDS[match[1].toLowerCase()] : undefined;
+  return match && type ? { type, content: match[2] } : { content: text };
+};
+
+// 読み込んだ本文をノードの本文（HTML）にする
+export const plainTextToHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>');
+
+/**
+ * ファイル名と内容から DOT かインデント形式かを判別して読む
+ */
+export const parseTextDiagram = (text: string, fileName = ''): ParsedTextDiagram =>
+  /\.(dot|gv)$/i.test(fileName) || /^\s*(strict\s+)?(di)?graph\b/i.test(text) ? parseDot(text) : parseIndentedText(text);
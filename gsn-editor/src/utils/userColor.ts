@@ -0,0 +1,8 @@
+// ユーザーごとに一貫した表示色（カーソル・編集中バッジで共通）
+const USER_COLORS = ['#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#06B6D4', '#F97316'];
+
+// ユーザーIDから色を決める（ハッシュベース）
+export const getUserColor = (userId: string): string => {
+  const hash = userId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
+  return USER_COLORS[hash % USER_COLORS.length];
+};
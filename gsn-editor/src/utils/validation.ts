@@ -1,336 +1,208 @@
-import type { Node, Link } from '../types/diagram';
-
-export interface ValidationResult {
-  isValid: boolean;
-  errors: ValidationError[];
-  warnings: ValidationWarning[];
-}
-
-export interface ValidationError {
-  type: 'error';
-  code: string;
-  message: string;
-  nodeIds?: string[];
-}
-
-export interface ValidationWarning {
-  type: 'warning';
-  code: string;
-  message: string;
-  nodeIds?: string[];
-}
+import type { LinkType, NodeType, Position } from '../types/diagram';
+import { DEFAULT_NODE_SIZE } from '../types/diagram';
+import {
+  createValidationContext,
+  IN_CONTEXT_OF_SOURCES,
+  IN_CONTEXT_OF_TARGETS,
+  SUPPORTED_BY_SOURCES,
+  SUPPORTED_BY_TARGETS,
+  validateDiagram as runValidationRules,
+} from '../../../shared/validation';
+import type {
+  ValidationContext,
+  ValidationError as RuleValidationError,
+  ValidationLink,
+  ValidationNode,
+  ValidationRuleFinding,
+  ValidationRuleOverrides,
+  ValidationWarning as RuleValidationWarning,
+} from '../../../shared/validation';
 
 /**
- * GSNダイアグラムの検証を行う
+ * GSN の検証（ルールは shared/validation にあり、サーバーのコミット・アンケート公開前の検証と共有する）
+ *
+ * ここではルールの指摘に、画面から適用できるクイック修正を付ける
  */
-export function validateDiagram(nodes: Node[], links: Link[]): ValidationResult {
-  const errors: ValidationError[] = [];
-  const warnings: ValidationWarning[] = [];
-
-  // 1. ルートノードのチェック
-  const rootCheck = checkRootNodes(nodes, links);
-  if (rootCheck.error) errors.push(rootCheck.error);
-  if (rootCheck.warning) warnings.push(rootCheck.warning);
 
-  // 2. 循環参照のチェック
-  const cycleCheck = checkCyclicReferences(nodes, links);
-  if (cycleCheck.error) errors.push(cycleCheck.error);
-
-  // 3. 孤立ノードのチェック
-  const orphanCheck = checkOrphanNodes(nodes, links);
-  if (orphanCheck.warning) warnings.push(orphanCheck.warning);
-
-  // 4. 未展開ゴールのチェック
-  const undevelopedCheck = checkUndevelopedGoals(nodes, links);
-  if (undevelopedCheck.warning) warnings.push(undevelopedCheck.warning);
-
-  // 5. Evidence到達チェック
-  const evidenceCheck = checkEvidenceReachability(nodes, links);
-  if (evidenceCheck.warning) warnings.push(evidenceCheck.warning);
-
-  // 6. Strategyの子ノードチェック
-  const strategyCheck = checkStrategyChildren(nodes, links);
-  if (strategyCheck.warning) warnings.push(strategyCheck.warning);
-
-  return {
-    isValid: errors.length === 0,
-    errors,
-    warnings,
-  };
-}
+export {
+  checkNewLink,
+  getNodeLabel,
+  getValidationRules,
+  registerValidationRule,
+  resolveRuleSetting,
+} from '../../../shared/validation';
+export type {
+  ValidationContext,
+  ValidationLinkCandidate,
+  ValidationRule,
+  ValidationRuleFinding,
+  ValidationRuleOverride,
+  ValidationRuleOverrides,
+  ValidationSeverity,
+} from '../../../shared/validation';
 
 /**
- * ルートノード（親がいないGoal）のチェック
+ * 指摘を直す操作
+ * ノード・リンクは既存の ID のほか、同じ修正の addNode で付けた ref でも指定できる
  */
-function checkRootNodes(nodes: Node[], links: Link[]): { error?: ValidationError; warning?: ValidationWarning } {
-  const goalNodes = nodes.filter(n => n.type === 'Goal');
-
-  if (goalNodes.length === 0) {
-    return {
-      error: {
-        type: 'error',
-        code: 'NO_ROOT_GOAL',
-        message: 'ルートとなるゴールノードがありません',
-      },
-    };
-  }
-
-  // 親を持たないGoalを探す
-  const childNodeIds = new Set(links.map(l => l.target));
-  const rootGoals = goalNodes.filter(g => !childNodeIds.has(g.id));
-
-  if (rootGoals.length === 0) {
-    return {
-      error: {
-        type: 'error',
-        code: 'NO_ROOT_GOAL',
-        message: 'ルートとなるゴールノードがありません（全てのゴールが他のノードの子になっています）',
-      },
-    };
-  }
-
-  if (rootGoals.length > 1) {
-    return {
-      warning: {
-        type: 'warning',
-        code: 'MULTIPLE_ROOT_GOALS',
-        message: `複数のルートゴールがあります（${rootGoals.length}個）。通常は1つのルートゴールが推奨されます`,
-        nodeIds: rootGoals.map(g => g.id),
-      },
-    };
-  }
-
-  return {};
-}
+export type ValidationFixOperation =
+  | { kind: 'addNode'; ref: string; type: NodeType; position: Position; content?: string }
+  | { kind: 'addLink'; source: string; target: string; type: LinkType }
+  | { kind: 'updateLink'; linkId: string; source?: string; type?: LinkType }
+  | { kind: 'deleteNode'; nodeId: string }
+  | { kind: 'deleteLink'; linkId: string };
 
 /**
- * 循環参照のチェック（深さ優先探索）
+ * 指摘に付けるクイック修正（操作はまとめて1回の Undo で戻る）
  */
-function checkCyclicReferences(nodes: Node[], links: Link[]): { error?: ValidationError } {
-  const adjacencyList = new Map<string, string[]>();
-
-  // 隣接リストを構築
-  for (const link of links) {
-    if (!adjacencyList.has(link.source)) {
-      adjacencyList.set(link.source, []);
-    }
-    adjacencyList.get(link.source)!.push(link.target);
-  }
-
-  const visited = new Set<string>();
-  const recursionStack = new Set<string>();
-  const cycleNodes: string[] = [];
-
-  function dfs(nodeId: string): boolean {
-    visited.add(nodeId);
-    recursionStack.add(nodeId);
-
-    const children = adjacencyList.get(nodeId) || [];
-    for (const childId of children) {
-      if (!visited.has(childId)) {
-        if (dfs(childId)) {
-          cycleNodes.push(nodeId);
-          return true;
-        }
-      } else if (recursionStack.has(childId)) {
-        cycleNodes.push(childId);
-        cycleNodes.push(nodeId);
-        return true;
-      }
-    }
-
-    recursionStack.delete(nodeId);
-    return false;
-  }
-
-  for (const node of nodes) {
-    if (!visited.has(node.id)) {
-      if (dfs(node.id)) {
-        return {
-          error: {
-            type: 'error',
-            code: 'CYCLIC_REFERENCE',
-            message: '循環参照が検出されました。GSNはツリー構造である必要があります',
-            nodeIds: [...new Set(cycleNodes)],
-          },
-        };
-      }
-    }
-  }
-
-  return {};
+export interface ValidationFix {
+  id: string;
+  label: string;
+  operations: ValidationFixOperation[];
 }
 
-/**
- * 孤立ノード（リンクがないノード）のチェック
- */
-function checkOrphanNodes(nodes: Node[], links: Link[]): { warning?: ValidationWarning } {
-  if (nodes.length <= 1) return {};
+export type ValidationError = RuleValidationError & { fixes?: ValidationFix[] };
+export type ValidationWarning = RuleValidationWarning & { fixes?: ValidationFix[] };
 
-  const linkedNodeIds = new Set<string>();
-  for (const link of links) {
-    linkedNodeIds.add(link.source);
-    linkedNodeIds.add(link.target);
-  }
-
-  const orphanNodes = nodes.filter(n => !linkedNodeIds.has(n.id));
-
-  if (orphanNodes.length > 0) {
-    // ルートゴールが1つだけの場合は孤立ではない
-    if (orphanNodes.length === 1 && orphanNodes[0].type === 'Goal' && nodes.length === 1) {
-      return {};
-    }
-
-    return {
-      warning: {
-        type: 'warning',
-        code: 'ORPHAN_NODES',
-        message: `孤立したノードがあります（${orphanNodes.length}個）。他のノードと接続してください`,
-        nodeIds: orphanNodes.map(n => n.id),
-      },
-    };
-  }
-
-  return {};
+export interface ValidationResult {
+  isValid: boolean;
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
 }
 
 /**
- * 未展開ゴールのチェック
- * Goal/Strategyノードで子ノードがなく、Undevelopedマーカーもない
+ * 指摘からクイック修正を作る（修正できない場合は空配列）
  */
-function checkUndevelopedGoals(nodes: Node[], links: Link[]): { warning?: ValidationWarning } {
-  const parentNodeIds = new Set(links.map(l => l.source));
+export type ValidationFixBuilder = (finding: ValidationRuleFinding, context: ValidationContext) => ValidationFix[];
 
-  const undevelopedGoals = nodes.filter(n => {
-    // GoalまたはStrategyで子ノードがない
-    if ((n.type === 'Goal' || n.type === 'Strategy') && !parentNodeIds.has(n.id)) {
-      // Undevelopedノードへのリンクがあるかチェック
-      const hasUndevelopedChild = links.some(l => {
-        if (l.source !== n.id) return false;
-        const targetNode = nodes.find(node => node.id === l.target);
-        return targetNode?.type === 'Undeveloped';
-      });
-      return !hasUndevelopedChild;
-    }
-    return false;
-  });
-
-  if (undevelopedGoals.length > 0) {
-    return {
-      warning: {
-        type: 'warning',
-        code: 'UNDEVELOPED_GOALS',
-        message: `未展開のゴール/戦略があります（${undevelopedGoals.length}個）。子ノードを追加するか、Undevelopedマーカーを付けてください`,
-        nodeIds: undevelopedGoals.map(n => n.id),
-      },
-    };
-  }
-
-  return {};
-}
+const fixBuilders = new Map<string, ValidationFixBuilder>();
 
 /**
- * Evidence到達チェック
- * 全てのGoalパスがEvidence（またはUndeveloped）に到達しているか
+ * ルールID に対するクイック修正を登録する（同じルールID の修正は置き換える）
  */
-function checkEvidenceReachability(nodes: Node[], links: Link[]): { warning?: ValidationWarning } {
-  const goalNodes = nodes.filter(n => n.type === 'Goal');
-  const adjacencyList = new Map<string, string[]>();
-
-  for (const link of links) {
-    if (!adjacencyList.has(link.source)) {
-      adjacencyList.set(link.source, []);
-    }
-    adjacencyList.get(link.source)!.push(link.target);
-  }
-
-  // 各ゴールからEvidenceまたはUndevelopedに到達できるかチェック
-  function canReachEvidence(nodeId: string, visited: Set<string>): boolean {
-    if (visited.has(nodeId)) return false;
-    visited.add(nodeId);
-
-    const node = nodes.find(n => n.id === nodeId);
-    if (!node) return false;
-
-    // Evidence, Undeveloped, Moduleに到達したらOK
-    if (node.type === 'Evidence' || node.type === 'Undeveloped' || node.type === 'Module') {
-      return true;
-    }
-
-    // Context, Assumption, Justificationは無視（SupportedBy関係ではない）
-    if (node.type === 'Context' || node.type === 'Assumption' || node.type === 'Justification') {
-      return true;
-    }
-
-    const children = adjacencyList.get(nodeId) || [];
-    if (children.length === 0) {
-      // 子がいない場合はEvidenceに到達できない
-      return false;
-    }
-
-    // 子ノードのうち、SupportedBy関係（Goal, Strategy, Evidence, Undeveloped, Module）だけをチェック
-    const supportedByChildren = children.filter(childId => {
-      const child = nodes.find(n => n.id === childId);
-      return child && ['Goal', 'Strategy', 'Evidence', 'Undeveloped', 'Module'].includes(child.type);
-    });
-
-    if (supportedByChildren.length === 0) {
-      return false;
-    }
-
-    return supportedByChildren.every(childId => canReachEvidence(childId, new Set(visited)));
-  }
-
-  const unreachableGoals = goalNodes.filter(g => !canReachEvidence(g.id, new Set()));
-
-  if (unreachableGoals.length > 0) {
-    return {
-      warning: {
-        type: 'warning',
-        code: 'NO_EVIDENCE_PATH',
-        message: `証拠（Evidence）に到達できないゴールがあります（${unreachableGoals.length}個）`,
-        nodeIds: unreachableGoals.map(n => n.id),
-      },
-    };
-  }
-
-  return {};
+export function registerValidationFixes(ruleId: string, builder: ValidationFixBuilder): void {
+  fixBuilders.set(ruleId, builder);
 }
 
 /**
- * Strategyの子ノードチェック
- * Strategyは複数の子ノード（Goal）を持つべき
+ * GSNダイアグラムの検証を行い、指摘にクイック修正を付ける
  */
-function checkStrategyChildren(nodes: Node[], links: Link[]): { warning?: ValidationWarning } {
-  const strategyNodes = nodes.filter(n => n.type === 'Strategy');
-
-  const strategiesWithSingleChild = strategyNodes.filter(s => {
-    const children = links.filter(l => l.source === s.id);
-    // SupportedBy関係の子ノード（Goal, Strategy, Evidence, Undeveloped, Module）をカウント
-    const supportedByChildren = children.filter(l => {
-      const child = nodes.find(n => n.id === l.target);
-      return child && ['Goal', 'Strategy', 'Evidence', 'Undeveloped', 'Module'].includes(child.type);
-    });
-    return supportedByChildren.length === 1;
-  });
-
-  if (strategiesWithSingleChild.length > 0) {
-    return {
-      warning: {
-        type: 'warning',
-        code: 'SINGLE_CHILD_STRATEGY',
-        message: `子ノードが1つだけの戦略があります（${strategiesWithSingleChild.length}個）。戦略は通常、複数のサブゴールに分解するために使用します`,
-        nodeIds: strategiesWithSingleChild.map(n => n.id),
-      },
-    };
+export function validateDiagram(
+  nodes: ValidationNode[],
+  links: ValidationLink[],
+  overrides: ValidationRuleOverrides = {}
+): ValidationResult {
+  const result = runValidationRules(nodes, links, overrides);
+  if (![...result.errors, ...result.warnings].some((item) => fixBuilders.has(item.ruleId))) {
+    return result;
   }
 
-  return {};
-}
+  const context = createValidationContext(nodes, links);
+  const withFixes = <T extends RuleValidationError | RuleValidationWarning>(item: T) => {
+    const fixes = fixBuilders.get(item.ruleId)?.(item, context);
+    return fixes && fixes.length > 0 ? { ...item, fixes } : item;
+  };
 
-/**
- * ノードラベルを取得
- */
-export function getNodeLabel(node: Node): string {
-  return node.label || node.id.slice(0, 8);
+  return {
+    ...result,
+    errors: result.errors.map(withFixes),
+    warnings: result.warnings.map(withFixes),
+  };
 }
+
+// 新しいノードを置くときの縦の間隔
+const FIX_NODE_GAP = 60;
+
+const deleteLinkFix = (linkId: string): ValidationFix => ({
+  id: 'delete-link',
+  label: 'リンクを削除',
+  operations: [{ kind: 'deleteLink', linkId }],
+});
+
+// 指摘されたリンクと端点のノード
+const findingLink = ({ linkIds }: ValidationRuleFinding, { links, nodeById }: ValidationContext) => {
+  const link = links.find((l) => l.id === linkIds?.[0]);
+  const source = link && nodeById.get(link.source);
+  const target = link && nodeById.get(link.target);
+  return link && source && target ? { link, source, target } : null;
+};
+
+registerValidationFixes('no-orphans', ({ nodeIds }) =>
+  nodeIds?.[0]
+    ? [{ id: 'delete-orphan', label: 'ノードを削除', operations: [{ kind: 'deleteNode', nodeId: nodeIds[0] }] }]
+    : []
+);
+
+registerValidationFixes('goal-developed', ({ nodeIds }, { nodeById }) => {
+  const node = nodeById.get(nodeIds?.[0] ?? '');
+  if (!node) return [];
+  return [
+    {
+      id: 'attach-undeveloped',
+      label: 'Undevelopedマーカーを付ける',
+      operations: [
+        {
+          kind: 'addNode',
+          ref: 'undeveloped',
+          type: 'Undeveloped',
+          position: {
+            x: node.position.x,
+            y: node.position.y + node.size.height / 2 + FIX_NODE_GAP + DEFAULT_NODE_SIZE.height / 2,
+          },
+        },
+        { kind: 'addLink', source: node.id, target: 'undeveloped', type: 'solid' },
+      ],
+    },
+  ];
+});
+
+registerValidationFixes('goal-via-strategy', ({ nodeIds, linkIds }, { nodeById }) => {
+  const [goal, ...subGoals] = (nodeIds ?? []).flatMap((id) => nodeById.get(id) ?? []);
+  if (!goal || subGoals.length === 0 || !linkIds) return [];
+  // ゴールとサブゴールの間（横はサブゴールの中央）に置く
+  const position = {
+    x: subGoals.reduce((sum, subGoal) => sum + subGoal.position.x, 0) / subGoals.length,
+    y: (goal.position.y + Math.min(...subGoals.map((subGoal) => subGoal.position.y))) / 2,
+  };
+  return [
+    {
+      id: 'insert-strategy',
+      label: 'ゴールとサブゴールの間に戦略を挿入',
+      operations: [
+        { kind: 'addNode', ref: 'strategy', type: 'Strategy', position },
+        { kind: 'addLink', source: goal.id, target: 'strategy', type: 'solid' },
+        ...linkIds.map((linkId) => ({ kind: 'updateLink' as const, linkId, source: 'strategy' })),
+      ],
+    },
+  ];
+});
+
+registerValidationFixes('supported-by-types', (finding, context) => {
+  const found = findingLink(finding, context);
+  if (!found) return [];
+  const { link, source, target } = found;
+  return IN_CONTEXT_OF_SOURCES.includes(source.type) && IN_CONTEXT_OF_TARGETS.includes(target.type)
+    ? [{ id: 'to-dashed', label: '破線（InContextOf）に変更', operations: [{ kind: 'updateLink', linkId: link.id, type: 'dashed' }] }]
+    : [deleteLinkFix(link.id)];
+});
+
+registerValidationFixes('in-context-of-types', (finding, context) => {
+  const found = findingLink(finding, context);
+  if (!found) return [];
+  const { link, source, target } = found;
+  return SUPPORTED_BY_SOURCES.includes(source.type) && SUPPORTED_BY_TARGETS.includes(target.type)
+    ? [{ id: 'to-solid', label: '実線（SupportedBy）に変更', operations: [{ kind: 'updateLink', linkId: link.id, type: 'solid' }] }]
+    : [deleteLinkFix(link.id)];
+});
+
+registerValidationFixes('evidence-no-children', ({ linkIds }) =>
+  linkIds && linkIds.length > 0
+    ? [
+        {
+          id: 'delete-evidence-links',
+          label: '証拠から出るリンクを削除',
+          operations: linkIds.map((linkId) => ({ kind: 'deleteLink' as const, linkId })),
+        },
+      ]
+    : []
+);
@@ -0,0 +1,7 @@
+import type { ValidationSeverity } from './validation';
+
+// 検証の指摘の色（エラー: 赤、警告: 黄）
+export const VALIDATION_COLORS: Record<ValidationSeverity, string> = {
+  error: '#DC2626',
+  warning: '#D97706',
+};
@@ -0,0 +1,37 @@
+import type { Link, Node } from '../types/diagram';
+import {
+  getValidationRules,
+  validateDiagram,
+  type ValidationResult,
+  type ValidationRuleOverrides,
+} from './validation';
+
+/**
+ * 大きなダイアグラムの検証をメインスレッドの外で行う Web Worker（liveValidationStore から起動する）
+ *
+ * ルールは shared/validation から読み込むため、customRules.ts の組織独自のルールもワーカーで動く。
+ * それ以外の場所でメインスレッドだけに登録されたルールがある場合は、検証せずに足りないルールを返す
+ */
+
+export interface ValidationWorkerRequest {
+  requestId: number;
+  nodes: Node[];
+  links: Link[];
+  overrides: ValidationRuleOverrides;
+  ruleIds: string[]; // メインスレッドで有効なルール
+}
+
+export type ValidationWorkerResponse =
+  | { requestId: number; result: ValidationResult }
+  | { requestId: number; missingRuleIds: string[] };
+
+self.onmessage = (event: MessageEvent<ValidationWorkerRequest>) => {
+  const { requestId, nodes, links, overrides, ruleIds } = event.data;
+  const registered = new Set(getValidationRules().map((rule) => rule.id));
+  const missingRuleIds = ruleIds.filter((ruleId) => !registered.has(ruleId));
+  const response: ValidationWorkerResponse =
+    missingRuleIds.length > 0
+      ? { requestId, missingRuleIds }
+      : { requestId, result: validateDiagram(nodes, links, overrides) };
+  self.postMessage(response);
+};
@@ -1,7 +1,13 @@
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    fs: {
+      // backend と共有するモジュール（../shared）も開発サーバーから読めるようにする
+      allow: [searchForWorkspaceRoot(process.cwd()), '../shared'],
+    },
+  },
 })
@@ -0,0 +1,293 @@
+/**
+ * ダイアグラムデータの3方向マージ（gsn-editor と backend で共有）
+ * ノード・リンク・モジュールを ID で対応付け、ノード・リンクはフィールド（種類・ラベル・内容・位置・サイズなど）ごとにマージする
+ * 片方だけの変更は自動で取り込み、両方が同じフィールドを異なる値に変更した場合だけ衝突として返す
+ */
+
+export type MergeResolution = 'ours' | 'theirs';
+
+type MergeFields = Record<string, unknown>;
+
+export interface MergeConflict {
+  key: string; // `${moduleId}:${kind}:${id}`（解決方法の指定に使う）
+  moduleId: string;
+  kind: 'module' | 'node' | 'link';
+  id: string;
+  fields: string[]; // 両方で変更されたフィールド（片方が削除した場合は空）
+  base: MergeFields | null;
+  ours: MergeFields | null;
+  theirs: MergeFields | null;
+}
+
+export interface MergeSummary {
+  fromTheirs: number; // 取り込んだ変更の数（追加・変更・削除）
+  conflicts: number;
+}
+
+interface MergeItem {
+  id: string;
+}
+
+interface MergeModule {
+  title?: string;
+  nodes?: MergeItem[];
+  links?: MergeItem[];
+}
+
+export interface MergeProjectData {
+  currentDiagramId?: string;
+  modules: Record<string, MergeModule>;
+  labelCounters?: Record<string, number>;
+}
+
+interface MergeContext {
+  resolutions: Record<string, MergeResolution>;
+  conflicts: MergeConflict[];
+  fromTheirs: number;
+}
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const conflictKey = (moduleId: string, kind: MergeConflict['kind'], id: string) => `${moduleId}:${kind}:${id}`;
+
+const toItems = (items: unknown): MergeFields[] =>
+  Array.isArray(items)
+    ? items.filter((item): item is MergeFields => !!item && typeof item === 'object' && typeof item.id === 'string')
+    : [];
+
+// メタデータ（updatedAt など）は保存のたびに変わるため、内容だけを比較する
+const isSameModuleContent = (a: MergeModule | undefined, b: MergeModule | undefined) =>
+  isSame(a?.title, b?.title) && isSame(a?.nodes, b?.nodes) && isSame(a?.links, b?.links);
+
+/**
+ * 両方に残っている要素をフィールドごとにマージする
+ * 両方が同じフィールドを異なる値に変更した場合は resolution（未指定なら ours）を採用する
+ */
+const mergeFields = (
+  base: MergeFields,
+  ours: MergeFields,
+  theirs: MergeFields,
+  resolution: MergeResolution | undefined
+) => {
+  const merged: MergeFields = {};
+  const conflicts: string[] = [];
+  let fromTheirs = false;
+
+  // フィールドの並びは ours → theirs で追加されたもの の順に保つ（両方で消したフィールドは落ちる）
+  const fields = Array.from(new Set([...Object.keys(ours), ...Object.keys(theirs), ...Object.keys(base)]));
+  fields.forEach((field) => {
+    let value = ours[field];
+    if (!isSame(ours[field], theirs[field]) && !isSame(theirs[field], base[field])) {
+      if (isSame(ours[field], base[field])) {
+        value = theirs[field];
+        fromTheirs = true;
+      } else {
+        conflicts.push(field);
+        if (resolution === 'theirs') value = theirs[field];
+      }
+    }
+    if (value !== undefined) merged[field] = value;
+  });
+
+  return { merged, conflicts, fromTheirs };
+};
+
+const mergeById = (
+  moduleId: string,
+  kind: 'node' | 'link',
+  base: MergeFields[],
+  ours: MergeFields[],
+  theirs: MergeFields[],
+  context: MergeContext
+): MergeFields[] => {
+  const baseMap = new Map(base.map((item) => [item.id as string, item]));
+  const oursMap = new Map(ours.map((item) => [item.id as string, item]));
+  const theirsMap = new Map(theirs.map((item) => [item.id as string, item]));
+
+  // 並び順は ours → theirs で追加されたもの の順に保つ
+  const orderedIds = [
+    ...ours.map((item) => item.id as string),
+    ...theirs.map((item) => item.id as string).filter((id) => !oursMap.has(id)),
+  ];
+
+  const result: MergeFields[] = [];
+  orderedIds.forEach((id) => {
+    const baseItem = baseMap.get(id);
+    const oursItem = oursMap.get(id);
+    const theirsItem = theirsMap.get(id);
+
+    if (isSame(oursItem, theirsItem) || isSame(theirsItem, baseItem)) {
+      // 同じ変更、または theirs 側が未変更 → ours を採用
+      if (oursItem) result.push(oursItem);
+      return;
+    }
+
+    if (isSame(oursItem, baseItem)) {
+      // ours 側が未変更 → theirs の状態（削除を含む）を採用
+      context.fromTheirs++;
+      if (theirsItem) result.push(theirsItem);
+      return;
+    }
+
+    const key = conflictKey(moduleId, kind, id);
+    const resolution = context.resolutions[key];
+
+    if (oursItem && theirsItem) {
+      // 両方で変更 → 別々のフィールドの変更はどちらも取り込む
+      const { merged, conflicts, fromTheirs } = mergeFields(baseItem ?? {}, oursItem, theirsItem, resolution);
+      if (fromTheirs) context.fromTheirs++;
+      if (conflicts.length > 0) {
+        context.conflicts.push({
+          key,
+          moduleId,
+          kind,
+          id,
+          fields: conflicts,
+          base: baseItem ?? null,
+          ours: oursItem,
+          theirs: theirsItem,
+        });
+      }
+      result.push(merged);
+      return;
+    }
+
+    // 片方で削除、もう片方で変更
+    context.conflicts.push({
+      key,
+      moduleId,
+      kind,
+      id,
+      fields: [],
+      base: baseItem ?? null,
+      ours: oursItem ?? null,
+      theirs: theirsItem ?? null,
+    });
+    const winner = resolution === 'theirs' ? theirsItem : oursItem;
+    if (winner) result.push(winner);
+  });
+
+  return result;
+};
+
+const mergeModule = (
+  moduleId: string,
+  base: MergeModule | undefined,
+  ours: MergeModule | undefined,
+  theirs: MergeModule | undefined,
+  context: MergeContext
+): MergeModule | undefined => {
+  const key = conflictKey(moduleId, 'module', moduleId);
+
+  // 片方で削除されたモジュールは、もう片方が変更していなければ削除する
+  if (!ours || !theirs) {
+    const remaining = ours ?? theirs;
+    if (!remaining) return undefined;
+    if (!base) {
+      if (!ours) context.fromTheirs++;
+      return remaining;
+    }
+    if (isSameModuleContent(base, remaining)) {
+      if (!theirs) context.fromTheirs++;
+      return undefined;
+    }
+
+    // 削除と変更が衝突
+    context.conflicts.push({
+      key,
+      moduleId,
+      kind: 'module',
+      id: moduleId,
+      fields: [],
+      base: { ...base },
+      ours: ours ? { ...ours } : null,
+      theirs: theirs ? { ...theirs } : null,
+    });
+    return (context.resolutions[key] === 'theirs' ? theirs : ours) ?? undefined;
+  }
+
+  const nodes = mergeById(moduleId, 'node', toItems(base?.nodes), toItems(ours.nodes), toItems(theirs.nodes), context);
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  // 削除されたノードにぶら下がるリンクは落とす
+  const links = mergeById(
+    moduleId,
+    'link',
+    toItems(base?.links),
+    toItems(ours.links),
+    toItems(theirs.links),
+    context
+  ).filter((link) => nodeIds.has(link.source) && nodeIds.has(link.target));
+
+  let title = ours.title;
+  if (!isSame(theirs.title, base?.title) && !isSame(theirs.title, ours.title)) {
+    if (isSame(ours.title, base?.title)) {
+      title = theirs.title;
+      context.fromTheirs++;
+    } else {
+      // 両方でタイトルを変更
+      context.conflicts.push({
+        key,
+        moduleId,
+        kind: 'module',
+        id: moduleId,
+        fields: ['title'],
+        base: base ? { ...base } : null,
+        ours: { ...ours },
+        theirs: { ...theirs },
+      });
+      if (context.resolutions[key] === 'theirs') title = theirs.title;
+    }
+  }
+
+  return {
+    ...ours,
+    title,
+    nodes: nodes as unknown as MergeItem[],
+    links: links as unknown as MergeItem[],
+  };
+};
+
+/**
+ * base を共通の祖先として theirs（取り込む側）を ours（作業中の側）にマージする
+ * 衝突は resolutions で指定がなければ ours を採用する
+ */
+export const mergeProjectData = <T extends MergeProjectData>(
+  base: T | null,
+  ours: T,
+  theirs: T,
+  resolutions: Record<string, MergeResolution> = {}
+) => {
+  const context: MergeContext = { resolutions, conflicts: [], fromTheirs: 0 };
+  const moduleIds = Array.from(new Set([...Object.keys(ours.modules), ...Object.keys(theirs.modules)]));
+
+  const modules: Record<string, MergeModule> = {};
+  moduleIds.forEach((moduleId) => {
+    const merged = mergeModule(
+      moduleId,
+      base?.modules[moduleId],
+      ours.modules[moduleId],
+      theirs.modules[moduleId],
+      context
+    );
+    if (merged) modules[moduleId] = merged;
+  });
+
+  // ラベル採番カウンターは大きい方を採用（ラベルの重複を避ける）
+  const labelCounters: Record<string, number> = { ...(theirs.labelCounters ?? {}) };
+  Object.entries(ours.labelCounters ?? {}).forEach(([type, value]) => {
+    labelCounters[type] = Math.max(Number(labelCounters[type]) || 0, Number(value) || 0);
+  });
+
+  const summary: MergeSummary = { fromTheirs: context.fromTheirs, conflicts: context.conflicts.length };
+
+  return {
+    merged: {
+      ...ours,
+      currentDiagramId: ours.currentDiagramId && modules[ours.currentDiagramId] ? ours.currentDiagramId : 'root',
+      modules,
+      labelCounters,
+    } as T,
+    conflicts: context.conflicts,
+    summary,
+  };
+};
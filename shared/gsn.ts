@@ -0,0 +1,51 @@
+/**
+ * GSN の要素の種類（gsn-editor と backend で共有）
+ */
+
+/**
+ * GSN要素のノードタイプ
+ */
+export type NodeType =
+  | 'Goal'
+  | 'Strategy'
+  | 'Context'
+  | 'Evidence'
+  | 'Assumption'
+  | 'Justification'
+  | 'Undeveloped'
+  | 'Module';
+
+/**
+ * リンクタイプ
+ */
+export type LinkType = 'solid' | 'dashed';
+
+/**
+ * ノード位置情報
+ */
+export interface Position {
+  x: number;
+  y: number;
+}
+
+/**
+ * ノードサイズ情報
+ */
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * ノードタイプごとの日本語名
+ */
+export const NODE_LABELS: Record<NodeType, string> = {
+  Goal: 'ゴール',
+  Strategy: '戦略',
+  Context: '前提',
+  Evidence: '証拠',
+  Assumption: '仮定',
+  Justification: '正当化',
+  Undeveloped: '未展開',
+  Module: 'モジュール',
+};
@@ -0,0 +1,21 @@
+/**
+ * 組織独自の検証ルール
+ *
+ * ここで registerValidationRule を呼んで登録する（組み込みのルールと同じ ID なら置き換わる）。
+ * このファイルは index.ts から読み込まれるため、画面・Web Worker・サーバーのすべてで同じルールが動く
+ *
+ * 例:
+ *   import { registerValidationRule } from './registry';
+ *
+ *   registerValidationRule({
+ *     id: 'goal-has-content',
+ *     code: 'EMPTY_GOAL',
+ *     name: 'ゴールの記述',
+ *     description: 'ゴールにラベルが付いていること',
+ *     defaultSeverity: 'warning',
+ *     check: ({ nodes }) =>
+ *       nodes.filter(n => n.type === 'Goal' && !n.label).map(n => ({ message: 'ラベルのないゴールがあります', nodeIds: [n.id] })),
+ *   });
+ */
+
+export {};
@@ -0,0 +1,6 @@
+// 組み込みのルール → 組織独自のルールの順に登録する
+import './rules';
+import './customRules';
+
+export * from './registry';
+export { IN_CONTEXT_OF_SOURCES, IN_CONTEXT_OF_TARGETS, SUPPORTED_BY_SOURCES, SUPPORTED_BY_TARGETS } from './rules';
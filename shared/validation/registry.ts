@@ -0,0 +1,224 @@
+import type { LinkType, NodeType, Position, Size } from '../gsn';
+
+/**
+ * GSN の検証ルールの登録と実行（gsn-editor と backend で共有）
+ *
+ * 組み込みのルールは rules.ts、組織独自のルールは customRules.ts に置く。
+ * どちらも index.ts から読み込まれるため、画面・Web Worker・サーバー（コミット・アンケート公開の
+ * 前の検証）で同じルールが動く
+ */
+
+export type ValidationSeverity = 'error' | 'warning';
+
+// 検証に使う項目だけを持つノード・リンク（gsn-editor の Node・Link はそのまま渡せる）
+export interface ValidationNode {
+  id: string;
+  type: NodeType;
+  label?: string;
+  position: Position;
+  size: Size;
+}
+
+export interface ValidationLink {
+  id: string;
+  source: string;
+  target: string;
+  type: LinkType;
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+}
+
+export interface ValidationError {
+  type: 'error';
+  ruleId: string;
+  code: string;
+  message: string;
+  nodeIds?: string[];
+  linkIds?: string[];
+}
+
+export interface ValidationWarning {
+  type: 'warning';
+  ruleId: string;
+  code: string;
+  message: string;
+  nodeIds?: string[];
+  linkIds?: string[];
+}
+
+/**
+ * ルールが返す指摘（重要度は実行時にルールの設定で決まる）
+ */
+export interface ValidationRuleFinding {
+  message: string;
+  nodeIds?: string[];
+  linkIds?: string[];
+}
+
+/**
+ * リンク単位のルールに渡すリンク（作成前のリンクも検査できるよう端点のノードを持つ）
+ */
+export interface ValidationLinkCandidate {
+  source: ValidationNode;
+  target: ValidationNode;
+  type: LinkType;
+}
+
+/**
+ * ルールに渡すダイアグラム（隣接関係を引けるようにしたもの）
+ */
+export interface ValidationContext {
+  nodes: ValidationNode[];
+  links: ValidationLink[];
+  nodeById: Map<string, ValidationNode>;
+  childrenOf: (nodeId: string) => ValidationNode[];
+  parentsOf: (nodeId: string) => ValidationNode[];
+}
+
+/**
+ * 検証ルール
+ */
+export interface ValidationRule {
+  id: string; // プロジェクトの設定で参照する ID
+  code: string; // 指摘の種類（結果の code に入る）
+  name: string;
+  description: string;
+  defaultSeverity: ValidationSeverity;
+  defaultEnabled?: boolean; // 省略時は有効
+  check: (context: ValidationContext) => ValidationRuleFinding[];
+  // リンク1本を検査する（違反なら理由を返す）。定義したルールはリンク作成時に強制できる
+  checkLink?: (link: ValidationLinkCandidate) => string | null;
+}
+
+/**
+ * プロジェクトごとのルールの設定（指定のない項目はルールの既定値）
+ */
+export interface ValidationRuleOverride {
+  enabled?: boolean;
+  severity?: ValidationSeverity;
+  enforce?: boolean; // リンク作成時に違反するリンクを拒否する（checkLink のあるルールのみ）
+}
+
+export type ValidationRuleOverrides = Record<string, ValidationRuleOverride>;
+
+const ruleRegistry = new Map<string, ValidationRule>();
+
+/**
+ * 検証ルールを登録する（同じ ID のルールは置き換える）
+ *
+ * 組織独自のルールは customRules.ts で登録する（画面・Web Worker・サーバーのすべてで読み込まれる）
+ */
+export function registerValidationRule(rule: ValidationRule): void {
+  ruleRegistry.set(rule.id, rule);
+}
+
+/**
+ * 登録されている検証ルール（登録順）
+ */
+export function getValidationRules(): ValidationRule[] {
+  return Array.from(ruleRegistry.values());
+}
+
+/**
+ * ルールの設定を既定値と合わせて解決する
+ */
+export function resolveRuleSetting(
+  rule: ValidationRule,
+  overrides: ValidationRuleOverrides = {}
+): { enabled: boolean; severity: ValidationSeverity; enforce: boolean } {
+  const override = overrides[rule.id];
+  return {
+    enabled: override?.enabled ?? rule.defaultEnabled ?? true,
+    severity: override?.severity ?? rule.defaultSeverity,
+    enforce: !!rule.checkLink && (override?.enforce ?? false),
+  };
+}
+
+/**
+ * ルールに渡すダイアグラムを作る
+ */
+export const createValidationContext = (nodes: ValidationNode[], links: ValidationLink[]): ValidationContext => {
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const children = new Map<string, ValidationNode[]>();
+  const parents = new Map<string, ValidationNode[]>();
+  for (const link of links) {
+    const source = nodeById.get(link.source);
+    const target = nodeById.get(link.target);
+    if (!source || !target) continue;
+    children.set(source.id, [...(children.get(source.id) ?? []), target]);
+    parents.set(target.id, [...(parents.get(target.id) ?? []), source]);
+  }
+  return {
+    nodes,
+    links,
+    nodeById,
+    childrenOf: (nodeId) => children.get(nodeId) ?? [],
+    parentsOf: (nodeId) => parents.get(nodeId) ?? [],
+  };
+};
+
+/**
+ * GSNダイアグラムの検証を行う
+ */
+export function validateDiagram(
+  nodes: ValidationNode[],
+  links: ValidationLink[],
+  overrides: ValidationRuleOverrides = {}
+): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+  const context = createValidationContext(nodes, links);
+
+  for (const rule of ruleRegistry.values()) {
+    const { enabled, severity } = resolveRuleSetting(rule, overrides);
+    if (!enabled) continue;
+
+    for (const finding of rule.check(context)) {
+      const item = {
+        ruleId: rule.id,
+        code: rule.code,
+        message: finding.message,
+        nodeIds: finding.nodeIds,
+        linkIds: finding.linkIds,
+      };
+      if (severity === 'error') {
+        errors.push({ type: 'error', ...item });
+      } else {
+        warnings.push({ type: 'warning', ...item });
+      }
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * これから作るリンクを、リンク作成時に強制するルールで検査する（違反なら理由を返す）
+ */
+export function checkNewLink(
+  link: ValidationLinkCandidate,
+  overrides: ValidationRuleOverrides = {}
+): string | null {
+  for (const rule of ruleRegistry.values()) {
+    const { enabled, enforce } = resolveRuleSetting(rule, overrides);
+    if (!enabled || !enforce) continue;
+    const violation = rule.checkLink!(link);
+    if (violation) return violation;
+  }
+  return null;
+}
+
+/**
+ * ノードラベルを取得
+ */
+export function getNodeLabel(node: ValidationNode): string {
+  return node.label || node.id.slice(0, 8);
+}
@@ -0,0 +1,366 @@
+import { NODE_LABELS } from '../gsn';
+import type { ValidationContext, ValidationLinkCandidate, ValidationNode, ValidationRuleFinding } from './registry';
+import { getNodeLabel, registerValidationRule } from './registry';
+
+/**
+ * 組み込みの GSN 検証ルール
+ * クイック修正は画面側（gsn-editor/src/utils/validation.ts）でルールID ごとに付ける
+ */
+
+// SupportedBy でつながる種類（Context・Assumption・Justification は InContextOf）
+const SUPPORTED_BY_TYPES = ['Goal', 'Strategy', 'Evidence', 'Undeveloped', 'Module'];
+
+// リンク単位のルールで既存のリンクをすべて検査する
+const checkEachLink =
+  (checkLink: (link: ValidationLinkCandidate) => string | null) =>
+  ({ links, nodeById }: ValidationContext): ValidationRuleFinding[] =>
+    links.flatMap(link => {
+      const source = nodeById.get(link.source);
+      const target = nodeById.get(link.target);
+      if (!source || !target) return [];
+      const violation = checkLink({ source, target, type: link.type });
+      if (!violation) return [];
+      return [{ message: violation, nodeIds: [source.id, target.id], linkIds: [link.id] }];
+    });
+
+/**
+ * ルートノード（親がいないGoal）があるか
+ */
+registerValidationRule({
+  id: 'root-goal',
+  code: 'NO_ROOT_GOAL',
+  name: 'ルートゴール',
+  description: '親を持たないゴールが1つ以上あること',
+  defaultSeverity: 'error',
+  check: ({ nodes, parentsOf }) => {
+    const goalNodes = nodes.filter(n => n.type === 'Goal');
+    if (goalNodes.length === 0) {
+      return [{ message: 'ルートとなるゴールノードがありません' }];
+    }
+    if (goalNodes.every(g => parentsOf(g.id).length > 0)) {
+      return [{ message: 'ルートとなるゴールノードがありません（全てのゴールが他のノードの子になっています）' }];
+    }
+    return [];
+  },
+});
+
+/**
+ * ルートゴールが1つだけか
+ */
+registerValidationRule({
+  id: 'single-root-goal',
+  code: 'MULTIPLE_ROOT_GOALS',
+  name: 'ルートゴールの数',
+  description: 'ルートゴールが1つだけであること',
+  defaultSeverity: 'warning',
+  check: ({ nodes, parentsOf }) => {
+    const rootGoals = nodes.filter(n => n.type === 'Goal' && parentsOf(n.id).length === 0);
+    if (rootGoals.length <= 1) return [];
+    return [
+      {
+        message: `複数のルートゴールがあります（${rootGoals.length}個）。通常は1つのルートゴールが推奨されます`,
+        nodeIds: rootGoals.map(g => g.id),
+      },
+    ];
+  },
+});
+
+/**
+ * 循環参照のチェック（深さ優先探索で見つかった循環ごとに指摘する）
+ */
+registerValidationRule({
+  id: 'acyclic',
+  code: 'CYCLIC_REFERENCE',
+  name: '循環参照',
+  description: 'リンクが循環していないこと（GSNはツリー構造）',
+  defaultSeverity: 'error',
+  check: ({ nodes, childrenOf }) => {
+    const findings: ValidationRuleFinding[] = [];
+    const visited = new Set<string>();
+    const path: string[] = [];
+    const onPath = new Set<string>();
+    const reported = new Set<string>();
+
+    function dfs(nodeId: string) {
+      visited.add(nodeId);
+      path.push(nodeId);
+      onPath.add(nodeId);
+
+      for (const child of childrenOf(nodeId)) {
+        if (onPath.has(child.id)) {
+          const cycle = path.slice(path.indexOf(child.id));
+          const key = [...cycle].sort().join(',');
+          if (!reported.has(key)) {
+            reported.add(key);
+            findings.push({
+              message: '循環参照が検出されました。GSNはツリー構造である必要があります',
+              nodeIds: cycle,
+            });
+          }
+        } else if (!visited.has(child.id)) {
+          dfs(child.id);
+        }
+      }
+
+      path.pop();
+      onPath.delete(nodeId);
+    }
+
+    for (const node of nodes) {
+      if (!visited.has(node.id)) dfs(node.id);
+    }
+    return findings;
+  },
+});
+
+/**
+ * 孤立ノード（リンクがないノード）のチェック
+ */
+registerValidationRule({
+  id: 'no-orphans',
+  code: 'ORPHAN_NODES',
+  name: '孤立ノード',
+  description: 'すべてのノードが他のノードとリンクでつながっていること',
+  defaultSeverity: 'warning',
+  check: ({ nodes, childrenOf, parentsOf }) => {
+    // ノードが1つだけなら孤立ではない
+    if (nodes.length <= 1) return [];
+    return nodes
+      .filter(n => childrenOf(n.id).length === 0 && parentsOf(n.id).length === 0)
+      .map(n => ({
+        message: `孤立したノードがあります（${getNodeLabel(n)}）。他のノードと接続してください`,
+        nodeIds: [n.id],
+      }));
+  },
+});
+
+/**
+ * 未展開ゴールのチェック
+ * Goal/Strategyノードで子ノードがない（Undevelopedマーカーを付けていない）
+ */
+registerValidationRule({
+  id: 'goal-developed',
+  code: 'UNDEVELOPED_GOALS',
+  name: '未展開のゴール・戦略',
+  description: 'ゴールと戦略が子ノードを持つか、Undevelopedマーカーが付いていること',
+  defaultSeverity: 'warning',
+  check: ({ nodes, childrenOf }) =>
+    nodes
+      .filter(n => (n.type === 'Goal' || n.type === 'Strategy') && childrenOf(n.id).length === 0)
+      .map(n => ({
+        message: `未展開の${n.type === 'Goal' ? 'ゴール' : '戦略'}があります（${getNodeLabel(n)}）。子ノードを追加するか、Undevelopedマーカーを付けてください`,
+        nodeIds: [n.id],
+      })),
+});
+
+/**
+ * Evidence到達チェック
+ * 全てのGoalパスがEvidence（またはUndeveloped）に到達しているか
+ */
+registerValidationRule({
+  id: 'evidence-reachable',
+  code: 'NO_EVIDENCE_PATH',
+  name: '証拠への到達',
+  description: 'すべてのゴールから SupportedBy をたどって証拠（または未展開・モジュール）に到達できること',
+  defaultSeverity: 'warning',
+  check: ({ nodes, childrenOf }) => {
+    // 各ゴールからEvidenceまたはUndevelopedに到達できるかチェック
+    function canReachEvidence(node: ValidationNode, visited: Set<string>): boolean {
+      if (visited.has(node.id)) return false;
+      visited.add(node.id);
+
+      // Evidence, Undeveloped, Moduleに到達したらOK
+      if (node.type === 'Evidence' || node.type === 'Undeveloped' || node.type === 'Module') {
+        return true;
+      }
+
+      // Context, Assumption, Justificationは無視（SupportedBy関係ではない）
+      if (node.type === 'Context' || node.type === 'Assumption' || node.type === 'Justification') {
+        return true;
+      }
+
+      // 子ノードのうち、SupportedBy関係（Goal, Strategy, Evidence, Undeveloped, Module）だけをチェック
+      const supportedByChildren = childrenOf(node.id).filter(child => SUPPORTED_BY_TYPES.includes(child.type));
+      if (supportedByChildren.length === 0) {
+        return false;
+      }
+
+      return supportedByChildren.every(child => canReachEvidence(child, new Set(visited)));
+    }
+
+    return nodes
+      .filter(n => n.type === 'Goal' && !canReachEvidence(n, new Set()))
+      .map(n => ({
+        message: `証拠（Evidence）に到達できないゴールがあります（${getNodeLabel(n)}）`,
+        nodeIds: [n.id],
+      }));
+  },
+});
+
+/**
+ * Strategyの子ノードチェック
+ * Strategyは複数の子ノード（Goal）を持つべき
+ */
+registerValidationRule({
+  id: 'strategy-multiple-children',
+  code: 'SINGLE_CHILD_STRATEGY',
+  name: '戦略の分解',
+  description: '戦略が複数のサブゴールに分解されていること',
+  defaultSeverity: 'warning',
+  check: ({ nodes, childrenOf }) =>
+    nodes
+      .filter(
+        n => n.type === 'Strategy' && childrenOf(n.id).filter(child => SUPPORTED_BY_TYPES.includes(child.type)).length === 1
+      )
+      .map(n => ({
+        message: `子ノードが1つだけの戦略があります（${getNodeLabel(n)}）。戦略は通常、複数のサブゴールに分解するために使用します`,
+        nodeIds: [n.id],
+      })),
+});
+
+/**
+ * ゴールからサブゴールへの分解は戦略を介する
+ * GSN では省略も認められるため、既定では無効
+ */
+registerValidationRule({
+  id: 'goal-via-strategy',
+  code: 'GOAL_WITHOUT_STRATEGY',
+  name: '戦略による分解',
+  description: 'ゴールを複数のサブゴールに分解するときは、間に戦略を置くこと',
+  defaultSeverity: 'warning',
+  defaultEnabled: false,
+  check: ({ nodes, links, nodeById }) =>
+    nodes
+      .filter(n => n.type === 'Goal')
+      .flatMap(n => {
+        const subGoalLinks = links.filter(
+          l => l.source === n.id && l.type === 'solid' && nodeById.get(l.target)?.type === 'Goal'
+        );
+        if (subGoalLinks.length < 2) return [];
+        // nodeIds はゴール・サブゴールの順、linkIds はサブゴールへのリンク
+        return [
+          {
+            message: `戦略を介さずにサブゴールへ分解しているゴールがあります（${getNodeLabel(n)}）`,
+            nodeIds: [n.id, ...subGoalLinks.map(l => l.target)],
+            linkIds: subGoalLinks.map(l => l.id),
+          },
+        ];
+      }),
+});
+
+// GSN Community Standard の接続規則
+export const SUPPORTED_BY_SOURCES = ['Goal', 'Strategy'];
+export const SUPPORTED_BY_TARGETS = ['Goal', 'Strategy', 'Evidence', 'Undeveloped', 'Module'];
+export const IN_CONTEXT_OF_SOURCES = ['Goal', 'Strategy'];
+export const IN_CONTEXT_OF_TARGETS = ['Context', 'Assumption', 'Justification'];
+
+const describeLink = ({ source, target }: ValidationLinkCandidate) =>
+  `${getNodeLabel(source)} → ${getNodeLabel(target)}`;
+
+/**
+ * SupportedBy（実線）の接続元・接続先
+ * 証拠から出るリンクは evidence-no-children で指摘する
+ */
+const checkSupportedByLink = (link: ValidationLinkCandidate): string | null => {
+  const { source, target, type } = link;
+  if (type !== 'solid' || source.type === 'Evidence') return null;
+  if (!SUPPORTED_BY_SOURCES.includes(source.type)) {
+    return `${NODE_LABELS[source.type]}からは SupportedBy（実線）を出せません（${describeLink(link)}）`;
+  }
+  if (IN_CONTEXT_OF_TARGETS.includes(target.type)) {
+    return `${NODE_LABELS[target.type]}へは SupportedBy（実線）ではなく InContextOf（破線）で接続してください（${describeLink(link)}）`;
+  }
+  if (!SUPPORTED_BY_TARGETS.includes(target.type)) {
+    return `${NODE_LABELS[target.type]}は SupportedBy（実線）の接続先にできません（${describeLink(link)}）`;
+  }
+  return null;
+};
+
+/**
+ * InContextOf（破線）の接続元・接続先
+ */
+const checkInContextOfLink = (link: ValidationLinkCandidate): string | null => {
+  const { source, target, type } = link;
+  if (type !== 'dashed' || source.type === 'Evidence') return null;
+  if (!IN_CONTEXT_OF_SOURCES.includes(source.type)) {
+    return `${NODE_LABELS[source.type]}からは InContextOf（破線）を出せません（${describeLink(link)}）`;
+  }
+  if (SUPPORTED_BY_TARGETS.includes(target.type)) {
+    return `${NODE_LABELS[target.type]}へは InContextOf（破線）ではなく SupportedBy（実線）で接続してください（${describeLink(link)}）`;
+  }
+  if (!IN_CONTEXT_OF_TARGETS.includes(target.type)) {
+    return `${NODE_LABELS[target.type]}は InContextOf（破線）の接続先にできません（${describeLink(link)}）`;
+  }
+  return null;
+};
+
+registerValidationRule({
+  id: 'supported-by-types',
+  code: 'INVALID_SUPPORTED_BY',
+  name: 'SupportedBy の接続',
+  description: 'SupportedBy（実線）はゴール・戦略から、ゴール・戦略・証拠・未展開・モジュールへのみ接続すること',
+  defaultSeverity: 'warning',
+  check: checkEachLink(checkSupportedByLink),
+  checkLink: checkSupportedByLink,
+});
+
+registerValidationRule({
+  id: 'in-context-of-types',
+  code: 'INVALID_IN_CONTEXT_OF',
+  name: 'InContextOf の接続',
+  description: 'InContextOf（破線）はゴール・戦略から、前提・仮定・正当化へのみ接続すること',
+  defaultSeverity: 'warning',
+  check: checkEachLink(checkInContextOfLink),
+  checkLink: checkInContextOfLink,
+});
+
+/**
+ * 証拠は子ノードを持たない
+ */
+registerValidationRule({
+  id: 'evidence-no-children',
+  code: 'EVIDENCE_HAS_CHILDREN',
+  name: '証拠の子ノード',
+  description: '証拠（Evidence）から他のノードへリンクしないこと',
+  defaultSeverity: 'warning',
+  check: ({ nodes, links }) =>
+    nodes
+      .filter(n => n.type === 'Evidence')
+      .flatMap(n => {
+        const outgoing = links.filter(l => l.source === n.id);
+        if (outgoing.length === 0) return [];
+        return [
+          {
+            message: `証拠（${getNodeLabel(n)}）に子ノードがあります。証拠は議論の末端に置いてください`,
+            nodeIds: [n.id],
+            linkIds: outgoing.map(l => l.id),
+          },
+        ];
+      }),
+  checkLink: ({ source, target }) =>
+    source.type === 'Evidence'
+      ? `証拠（${getNodeLabel(source)}）には子ノードを付けられません（${getNodeLabel(source)} → ${getNodeLabel(target)}）`
+      : null,
+});
+
+/**
+ * 戦略はゴールを支える（親のゴールから SupportedBy でつながっている）
+ */
+registerValidationRule({
+  id: 'strategy-supports-goal',
+  code: 'STRATEGY_WITHOUT_GOAL',
+  name: '戦略の親ゴール',
+  description: '戦略が SupportedBy（実線）で親のゴールにつながっていること',
+  defaultSeverity: 'warning',
+  check: ({ nodes, links, nodeById }) =>
+    nodes
+      .filter(
+        n =>
+          n.type === 'Strategy' &&
+          !links.some(l => l.target === n.id && l.type === 'solid' && nodeById.get(l.source)?.type === 'Goal')
+      )
+      .map(n => ({
+        message: `どのゴールも支えていない戦略があります（${getNodeLabel(n)}）。親のゴールから実線でつないでください`,
+        nodeIds: [n.id],
+      })),
+});